@@ -0,0 +1,27 @@
+-- Track delivery of presale tokens to buyers and record typed ledger events.
+
+ALTER TABLE "presale_purchases"
+ADD COLUMN IF NOT EXISTS "creditedAt" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "presale_purchases_creditedAt_idx" ON "presale_purchases"("creditedAt");
+
+CREATE TABLE IF NOT EXISTS "ledger_events" (
+  "id" TEXT NOT NULL,
+  "type" TEXT NOT NULL,
+  "tokenId" TEXT NOT NULL,
+  "fromAddress" TEXT NOT NULL,
+  "toAddress" TEXT NOT NULL,
+  "amount" TEXT NOT NULL,
+  "referenceId" TEXT NOT NULL,
+  "txid" TEXT,
+  "metadata" JSONB,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "ledger_events_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "ledger_events_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "tokens"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ledger_events_type_referenceId_key" ON "ledger_events"("type", "referenceId");
+CREATE INDEX IF NOT EXISTS "ledger_events_tokenId_idx" ON "ledger_events"("tokenId");
+CREATE INDEX IF NOT EXISTS "ledger_events_toAddress_idx" ON "ledger_events"("toAddress");
+CREATE INDEX IF NOT EXISTS "ledger_events_createdAt_idx" ON "ledger_events"("createdAt");
@@ -0,0 +1,53 @@
+-- Bind each presale payment txid to exactly one purchase request and record
+-- what was actually paid, to whom.
+
+ALTER TABLE "purchase_requests"
+ADD COLUMN IF NOT EXISTS "rejectionCode" TEXT,
+ADD COLUMN IF NOT EXISTS "paymentAddress" TEXT,
+ADD COLUMN IF NOT EXISTS "paidAmount" TEXT;
+
+-- Existing duplicates: keep the confirmed (or else earliest) request per txid,
+-- reject the others as reused payments so the unique index can be created.
+-- A duplicate that had been confirmed too is rejected like the rest; its
+-- reason says so, and its purchase is removed below.
+WITH ranked AS (
+  SELECT "id",
+         ROW_NUMBER() OVER (
+           PARTITION BY "txid"
+           ORDER BY ("status" = 'confirmed') DESC, "paymentSubmittedAt" ASC NULLS LAST, "submittedAt" ASC
+         ) AS rn
+  FROM "purchase_requests"
+  WHERE "txid" IS NOT NULL
+)
+UPDATE "purchase_requests" pr
+SET "rejectionReason" = 'Payment reused: txid ' || pr."txid" || ' already used by another purchase request'
+      || CASE WHEN pr."status" = 'confirmed' THEN ' (was confirmed before txids were bound; its purchase was removed)' ELSE '' END,
+    "rejectionCode" = 'payment-reused',
+    "status" = 'rejected',
+    "paymentStatus" = 'rejected',
+    "txid" = NULL
+FROM ranked
+WHERE pr."id" = ranked."id" AND ranked.rn > 1;
+
+-- A payment pays for one purchase. Of the presale_purchases rows sharing a
+-- txid, keep the one of the request that kept the txid (or else the earliest)
+-- and delete the others, so they are neither credited nor counted as sold.
+-- Rows already credited stay: their tokens were delivered.
+WITH ranked AS (
+  SELECT pp."id",
+         ROW_NUMBER() OVER (
+           PARTITION BY pp."txid"
+           ORDER BY (pr."id" IS NOT NULL) DESC, pp."purchasedAt" ASC, pp."id" ASC
+         ) AS rn
+  FROM "presale_purchases" pp
+  LEFT JOIN "purchase_requests" pr
+    ON pr."txid" = pp."txid"
+   AND pr."walletAddress" = pp."walletAddress"
+   AND pr."batchesPurchased" = pp."batchesPurchased"
+   AND pr."status" = 'confirmed'
+)
+DELETE FROM "presale_purchases" pp
+USING ranked
+WHERE pp."id" = ranked."id" AND ranked.rn > 1 AND pp."creditedAt" IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "purchase_requests_txid_key" ON "purchase_requests"("txid");
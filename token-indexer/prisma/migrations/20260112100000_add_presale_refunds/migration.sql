@@ -0,0 +1,28 @@
+-- Refunds for presale payments that were received but did not result in a purchase.
+
+CREATE TABLE IF NOT EXISTS "refunds" (
+  "id" TEXT NOT NULL,
+  "paymentTxid" TEXT NOT NULL,
+  "purchaseRequestId" TEXT,
+  "tokenId" TEXT NOT NULL,
+  "walletAddress" TEXT NOT NULL,
+  "poolWalletAddress" TEXT NOT NULL,
+  "amount" TEXT,
+  "reason" TEXT NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'pending',
+  "refundTxid" TEXT,
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "lastError" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  "completedAt" TIMESTAMP(3),
+
+  CONSTRAINT "refunds_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "refunds_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "tokens"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "refunds_paymentTxid_key" ON "refunds"("paymentTxid");
+CREATE UNIQUE INDEX IF NOT EXISTS "refunds_purchaseRequestId_key" ON "refunds"("purchaseRequestId");
+CREATE INDEX IF NOT EXISTS "refunds_tokenId_idx" ON "refunds"("tokenId");
+CREATE INDEX IF NOT EXISTS "refunds_walletAddress_idx" ON "refunds"("walletAddress");
+CREATE INDEX IF NOT EXISTS "refunds_status_idx" ON "refunds"("status");
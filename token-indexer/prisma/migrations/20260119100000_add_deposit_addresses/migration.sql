@@ -0,0 +1,6 @@
+-- Give each purchase request its own receive address, derived from the pool wallet key.
+
+ALTER TABLE "purchase_requests"
+ADD COLUMN IF NOT EXISTS "depositAddress" TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "purchase_requests_depositAddress_key" ON "purchase_requests"("depositAddress");
@@ -0,0 +1,59 @@
+-- Move the presale pool wallet registry, token assignments, balance snapshots
+-- and runtime settings into the database. Wallets are imported from the
+-- keystore at startup (see poolWalletRegistry.ts).
+
+CREATE TABLE IF NOT EXISTS "pool_wallets" (
+  "id" TEXT NOT NULL,
+  "address" TEXT NOT NULL,
+  "label" TEXT,
+  "status" TEXT NOT NULL DEFAULT 'active',
+  "thresholdSats" TEXT,
+  "lastBalance" TEXT NOT NULL DEFAULT '0',
+  "lastCheckedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+  "retiredAt" TIMESTAMP(3),
+
+  CONSTRAINT "pool_wallets_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "pool_wallets_address_key" ON "pool_wallets"("address");
+CREATE INDEX IF NOT EXISTS "pool_wallets_status_idx" ON "pool_wallets"("status");
+
+CREATE TABLE IF NOT EXISTS "pool_wallet_assignments" (
+  "id" TEXT NOT NULL,
+  "poolWalletId" TEXT NOT NULL,
+  "tokenId" TEXT NOT NULL,
+  "reason" TEXT NOT NULL,
+  "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "releasedAt" TIMESTAMP(3),
+
+  CONSTRAINT "pool_wallet_assignments_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "pool_wallet_assignments_poolWalletId_fkey" FOREIGN KEY ("poolWalletId") REFERENCES "pool_wallets"("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+  CONSTRAINT "pool_wallet_assignments_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "tokens"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "pool_wallet_assignments_tokenId_releasedAt_idx" ON "pool_wallet_assignments"("tokenId", "releasedAt");
+CREATE INDEX IF NOT EXISTS "pool_wallet_assignments_poolWalletId_releasedAt_idx" ON "pool_wallet_assignments"("poolWalletId", "releasedAt");
+
+CREATE TABLE IF NOT EXISTS "pool_wallet_snapshots" (
+  "id" TEXT NOT NULL,
+  "poolWalletId" TEXT NOT NULL,
+  "available" TEXT NOT NULL,
+  "total" TEXT NOT NULL,
+  "takenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "pool_wallet_snapshots_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "pool_wallet_snapshots_poolWalletId_fkey" FOREIGN KEY ("poolWalletId") REFERENCES "pool_wallets"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "pool_wallet_snapshots_poolWalletId_takenAt_idx" ON "pool_wallet_snapshots"("poolWalletId", "takenAt");
+
+CREATE TABLE IF NOT EXISTS "presale_settings" (
+  "id" TEXT NOT NULL DEFAULT 'default',
+  "poolEnabled" BOOLEAN NOT NULL DEFAULT true,
+  "walletThresholdSats" TEXT NOT NULL DEFAULT '3000000',
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "presale_settings_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,4 @@
+-- Pool wallets are monitored watch-only by address. The public key lets
+-- deposit addresses be derived without holding the private key.
+
+ALTER TABLE "pool_wallets" ADD COLUMN IF NOT EXISTS "publicKey" TEXT;
@@ -0,0 +1,27 @@
+-- Record sweeps of pool wallet funds to cold storage (see sweepProcessor.ts).
+
+CREATE TABLE IF NOT EXISTS "sweeps" (
+  "id" TEXT NOT NULL,
+  "poolWalletId" TEXT NOT NULL,
+  "fromAddress" TEXT NOT NULL,
+  "toAddress" TEXT NOT NULL,
+  "amount" TEXT NOT NULL,
+  "balanceBefore" TEXT NOT NULL,
+  "reservedAmount" TEXT NOT NULL,
+  "trigger" TEXT NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'processing',
+  "txid" TEXT,
+  "error" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "completedAt" TIMESTAMP(3),
+
+  CONSTRAINT "sweeps_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "sweeps_poolWalletId_fkey" FOREIGN KEY ("poolWalletId") REFERENCES "pool_wallets"("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "sweeps_poolWalletId_idx" ON "sweeps"("poolWalletId");
+CREATE INDEX IF NOT EXISTS "sweeps_status_idx" ON "sweeps"("status");
+
+-- One sweep in flight per wallet, across instances (not expressible in schema.prisma)
+CREATE UNIQUE INDEX IF NOT EXISTS "sweeps_one_processing_per_wallet"
+  ON "sweeps"("poolWalletId") WHERE "status" = 'processing';
@@ -0,0 +1,15 @@
+-- Challenge-signed wallet queries replace the endpoints that took private keys.
+
+CREATE TABLE IF NOT EXISTS "wallet_challenges" (
+  "id" TEXT NOT NULL,
+  "address" TEXT NOT NULL,
+  "nonce" TEXT NOT NULL,
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "usedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "wallet_challenges_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "wallet_challenges_nonce_key" ON "wallet_challenges"("nonce");
+CREATE INDEX IF NOT EXISTS "wallet_challenges_expiresAt_idx" ON "wallet_challenges"("expiresAt");
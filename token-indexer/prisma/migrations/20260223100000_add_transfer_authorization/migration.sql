@@ -0,0 +1,8 @@
+-- Transfers recorded through the API carry the sender's signature. The nonce is
+-- unique so a signed authorization cannot be replayed.
+
+ALTER TABLE "token_transfers" ADD COLUMN IF NOT EXISTS "nonce" TEXT;
+ALTER TABLE "token_transfers" ADD COLUMN IF NOT EXISTS "signerPublicKey" TEXT;
+ALTER TABLE "token_transfers" ADD COLUMN IF NOT EXISTS "signature" TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "token_transfers_nonce_key" ON "token_transfers"("nonce");
@@ -0,0 +1,8 @@
+-- API transfers are credited only after the ASP confirms the sender's VTXO.
+-- Until then they are pending; existing transfers were applied immediately.
+
+ALTER TABLE "token_transfers" ADD COLUMN IF NOT EXISTS "status" TEXT NOT NULL DEFAULT 'confirmed';
+ALTER TABLE "token_transfers" ADD COLUMN IF NOT EXISTS "failureReason" TEXT;
+ALTER TABLE "token_transfers" ADD COLUMN IF NOT EXISTS "confirmedAt" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "token_transfers_status_idx" ON "token_transfers"("status");
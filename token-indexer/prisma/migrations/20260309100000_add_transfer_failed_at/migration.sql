@@ -0,0 +1,3 @@
+-- Record when a pending transfer was failed (confirmedAt records the other outcome)
+
+ALTER TABLE "token_transfers" ADD COLUMN IF NOT EXISTS "failedAt" TIMESTAMP(3);
@@ -0,0 +1,30 @@
+-- Balance rebuilds replay the ledger into a shadow table. After review, the
+-- shadow balances replace token_balances in one transaction.
+
+CREATE TABLE IF NOT EXISTS "balance_rebuilds" (
+  "id" TEXT NOT NULL,
+  "tokenId" TEXT,
+  "status" TEXT NOT NULL DEFAULT 'built',
+  "ledgerEventCount" INTEGER NOT NULL,
+  "balanceCount" INTEGER NOT NULL,
+  "differenceCount" INTEGER NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "swappedAt" TIMESTAMP(3),
+
+  CONSTRAINT "balance_rebuilds_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "balance_rebuilds_createdAt_idx" ON "balance_rebuilds"("createdAt");
+
+CREATE TABLE IF NOT EXISTS "token_balances_shadow" (
+  "id" TEXT NOT NULL,
+  "rebuildId" TEXT NOT NULL,
+  "address" TEXT NOT NULL,
+  "tokenId" TEXT NOT NULL,
+  "balance" TEXT NOT NULL,
+
+  CONSTRAINT "token_balances_shadow_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "token_balances_shadow_rebuildId_fkey" FOREIGN KEY ("rebuildId") REFERENCES "balance_rebuilds"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "token_balances_shadow_rebuildId_address_tokenId_key" ON "token_balances_shadow"("rebuildId", "address", "tokenId");
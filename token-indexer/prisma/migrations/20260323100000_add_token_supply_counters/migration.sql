@@ -0,0 +1,20 @@
+-- Burned and circulating supply are kept on the token by the ledger.
+-- Backfill: burned from the ledger's burn entries; circulating is the total
+-- supply minus burned for tokens already confirmed (minted), 0 otherwise.
+
+ALTER TABLE "tokens" ADD COLUMN IF NOT EXISTS "burnedSupply" TEXT NOT NULL DEFAULT '0';
+ALTER TABLE "tokens" ADD COLUMN IF NOT EXISTS "circulatingSupply" TEXT NOT NULL DEFAULT '0';
+
+UPDATE "tokens" t
+SET "burnedSupply" = b.burned::text
+FROM (
+  SELECT "tokenId", SUM("amount"::numeric) AS burned
+  FROM "ledger_events"
+  WHERE "type" = 'burn'
+  GROUP BY "tokenId"
+) b
+WHERE b."tokenId" = t."id";
+
+UPDATE "tokens"
+SET "circulatingSupply" = ("totalSupply"::numeric - "burnedSupply"::numeric)::text
+WHERE "status" <> 'pending';
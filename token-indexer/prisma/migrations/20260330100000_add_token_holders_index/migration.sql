@@ -0,0 +1,6 @@
+-- Holders are listed by numeric balance. Balances are still stored as text,
+-- so the index is on the numeric cast; descending balance with ascending
+-- address matches the holders order (and its exact reverse, scanned backward).
+
+CREATE INDEX IF NOT EXISTS "token_balances_tokenId_balance_numeric_idx"
+  ON "token_balances" ("tokenId", ("balance"::numeric) DESC, "address" ASC);
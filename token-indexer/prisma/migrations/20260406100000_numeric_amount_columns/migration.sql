@@ -0,0 +1,30 @@
+-- Token amounts move from TEXT to NUMERIC(78,0) (wide enough for any u256),
+-- so sums, sorts and comparisons can run in Postgres. Every existing value is
+-- a non-negative integer string; the USING casts backfill in place and fail
+-- the migration (leaving the columns untouched) on any value that is not.
+
+ALTER TABLE "tokens"
+  ALTER COLUMN "totalSupply" TYPE NUMERIC(78,0) USING "totalSupply"::numeric(78,0),
+  ALTER COLUMN "burnedSupply" DROP DEFAULT,
+  ALTER COLUMN "burnedSupply" TYPE NUMERIC(78,0) USING "burnedSupply"::numeric(78,0),
+  ALTER COLUMN "burnedSupply" SET DEFAULT 0,
+  ALTER COLUMN "circulatingSupply" DROP DEFAULT,
+  ALTER COLUMN "circulatingSupply" TYPE NUMERIC(78,0) USING "circulatingSupply"::numeric(78,0),
+  ALTER COLUMN "circulatingSupply" SET DEFAULT 0;
+
+ALTER TABLE "token_balances"
+  ALTER COLUMN "balance" TYPE NUMERIC(78,0) USING "balance"::numeric(78,0);
+
+ALTER TABLE "token_balances_shadow"
+  ALTER COLUMN "balance" TYPE NUMERIC(78,0) USING "balance"::numeric(78,0);
+
+ALTER TABLE "token_transfers"
+  ALTER COLUMN "amount" TYPE NUMERIC(78,0) USING "amount"::numeric(78,0);
+
+ALTER TABLE "presale_purchases"
+  ALTER COLUMN "totalPaid" TYPE NUMERIC(78,0) USING "totalPaid"::numeric(78,0);
+
+-- The holders index no longer needs the cast
+DROP INDEX IF EXISTS "token_balances_tokenId_balance_numeric_idx";
+CREATE INDEX IF NOT EXISTS "token_balances_tokenId_balance_address_idx"
+  ON "token_balances" ("tokenId", "balance" DESC, "address");
@@ -0,0 +1,9 @@
+-- Token search matches name and symbol by case-insensitive prefix or trigram
+-- similarity; both are served by trigram GIN indexes on the lowercased text.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS "tokens_name_trgm_idx" ON "tokens" USING GIN (lower("name") gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "tokens_symbol_trgm_idx" ON "tokens" USING GIN (lower("symbol") gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "tokens_status_idx" ON "tokens" ("status");
+CREATE INDEX IF NOT EXISTS "tokens_createdAt_id_idx" ON "tokens" ("createdAt", "id");
@@ -0,0 +1,29 @@
+-- Ticker registry: one claim per normalized symbol, and ARK COMMIT ticker
+-- commitments. Existing tokens are claimed by `npm run backfill:tickers`
+-- (normalization is implemented in the SDK, not in SQL).
+
+CREATE TABLE IF NOT EXISTS "tickers" (
+    "ticker" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "priorityHeight" INTEGER NOT NULL,
+    "claimHeight" INTEGER NOT NULL,
+    "commitTxid" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tickers_pkey" PRIMARY KEY ("ticker"),
+    CONSTRAINT "tickers_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "tokens"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "tickers_tokenId_key" ON "tickers"("tokenId");
+
+CREATE TABLE IF NOT EXISTS "ticker_commitments" (
+    "txid" TEXT NOT NULL,
+    "commitment" TEXT NOT NULL,
+    "blockHeight" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ticker_commitments_pkey" PRIMARY KEY ("txid")
+);
+
+CREATE INDEX IF NOT EXISTS "ticker_commitments_commitment_idx" ON "ticker_commitments"("commitment");
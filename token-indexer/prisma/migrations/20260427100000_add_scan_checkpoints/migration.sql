@@ -0,0 +1,10 @@
+-- Height checkpoint of the L1 block scanner, so it resumes where it stopped.
+
+CREATE TABLE IF NOT EXISTS "scan_checkpoints" (
+    "id" TEXT NOT NULL,
+    "height" INTEGER NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scan_checkpoints_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,4 @@
+-- Block hash of each token's creation proof, so the proof tracker notices
+-- when a chain reorganization drops the block.
+
+ALTER TABLE "tokens" ADD COLUMN IF NOT EXISTS "bitcoinBlockHash" TEXT;
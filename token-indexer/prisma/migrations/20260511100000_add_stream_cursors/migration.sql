@@ -0,0 +1,11 @@
+-- Position of the Arkade transaction stream, so the indexer knows it has a
+-- gap to catch up on after a restart or a dropped connection.
+
+CREATE TABLE IF NOT EXISTS "stream_cursors" (
+    "id" TEXT NOT NULL,
+    "txid" TEXT NOT NULL,
+    "seenAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stream_cursors_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,6 @@
+-- When each request's deposit address was last checked for an unreported
+-- payment, so the checks rotate through all of them.
+
+ALTER TABLE "purchase_requests" ADD COLUMN IF NOT EXISTS "depositCheckedAt" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "purchase_requests_depositCheckedAt_idx" ON "purchase_requests"("depositCheckedAt");
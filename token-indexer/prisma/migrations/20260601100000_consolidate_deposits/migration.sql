@@ -0,0 +1,4 @@
+-- When a confirmed request's deposit address was consolidated into its pool
+-- wallet (see sweepProcessor.ts), so each deposit is moved at most once.
+
+ALTER TABLE "purchase_requests" ADD COLUMN IF NOT EXISTS "depositConsolidatedAt" TIMESTAMP(3);
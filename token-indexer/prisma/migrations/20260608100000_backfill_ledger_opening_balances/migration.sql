@@ -0,0 +1,84 @@
+-- Backfill the ledger for tokens minted before every balance change was
+-- posted to it (see token/ledger.ts). Those tokens have no 'create' entry, so
+-- a replay of the ledger cannot reproduce their balances. For each of them:
+--
+--   1. mint the total supply from the issuance account to the issuer
+--   2. post every confirmed burn recorded in token_transfers
+--   3. post opening transfers between the issuer and each holder so the replay
+--      ends at the live balance (the issuer absorbs the difference)
+--
+-- Entries carry metadata {"source": "opening"}. The supply counters are then
+-- recomputed from the ledger, which now includes the past burns.
+
+CREATE TEMP TABLE "opening_tokens" AS
+SELECT t."id", t."totalSupply", t."createdAt", COALESCE(NULLIF(t."issuer", ''), t."creator") AS "issuer"
+FROM "tokens" t
+WHERE t."status" <> 'pending'
+  AND NOT EXISTS (
+    SELECT 1 FROM "ledger_events" l WHERE l."type" = 'create' AND l."referenceId" = t."id"
+  );
+
+-- 1. Mint
+INSERT INTO "ledger_events" ("id", "type", "tokenId", "fromAddress", "toAddress", "amount", "referenceId", "metadata", "createdAt")
+SELECT gen_random_uuid()::text, 'create', o."id", 'issuance:' || o."id", o."issuer", o."totalSupply"::text, o."id",
+       '{"source": "opening"}'::jsonb, o."createdAt"
+FROM "opening_tokens" o;
+
+-- 2. Past burns (skipping any the ledger already has by txid)
+INSERT INTO "ledger_events" ("id", "type", "tokenId", "fromAddress", "toAddress", "amount", "referenceId", "txid", "metadata", "createdAt")
+SELECT gen_random_uuid()::text, 'burn', b."tokenId", b."fromAddress", b."toAddress", b."amount"::text, b."id", b."txid",
+       '{"source": "opening"}'::jsonb, b."timestamp"
+FROM "token_transfers" b
+JOIN "opening_tokens" o ON o."id" = b."tokenId"
+WHERE b."toAddress" = 'burn:' || b."tokenId"
+  AND b."status" = 'confirmed'
+  AND NOT EXISTS (
+    SELECT 1 FROM "ledger_events" l WHERE l."type" = 'burn' AND l."tokenId" = b."tokenId" AND l."txid" = b."txid"
+  );
+
+-- 3. Opening transfers, right after the mint
+WITH "ledger_net" AS (
+  SELECT "tokenId", "address", SUM("delta") AS "net"
+  FROM (
+    SELECT l."tokenId", l."toAddress" AS "address", l."amount"::numeric AS "delta"
+    FROM "ledger_events" l JOIN "opening_tokens" o ON o."id" = l."tokenId"
+    UNION ALL
+    SELECT l."tokenId", l."fromAddress", -l."amount"::numeric
+    FROM "ledger_events" l JOIN "opening_tokens" o ON o."id" = l."tokenId"
+  ) d
+  WHERE "address" NOT LIKE 'issuance:%' AND "address" NOT LIKE 'burn:%'
+  GROUP BY "tokenId", "address"
+),
+"opening" AS (
+  SELECT o."id" AS "tokenId", o."issuer", o."createdAt",
+         COALESCE(b."address", n."address") AS "address",
+         COALESCE(b."balance", 0) - COALESCE(n."net", 0) AS "delta"
+  FROM (
+    SELECT b."tokenId", b."address", b."balance"
+    FROM "token_balances" b JOIN "opening_tokens" o ON o."id" = b."tokenId"
+  ) b
+  FULL OUTER JOIN "ledger_net" n ON n."tokenId" = b."tokenId" AND n."address" = b."address"
+  JOIN "opening_tokens" o ON o."id" = COALESCE(b."tokenId", n."tokenId")
+)
+INSERT INTO "ledger_events" ("id", "type", "tokenId", "fromAddress", "toAddress", "amount", "referenceId", "metadata", "createdAt")
+SELECT gen_random_uuid()::text, 'transfer', p."tokenId",
+       CASE WHEN p."delta" > 0 THEN p."issuer" ELSE p."address" END,
+       CASE WHEN p."delta" > 0 THEN p."address" ELSE p."issuer" END,
+       ABS(p."delta")::text, 'opening:' || p."tokenId" || ':' || p."address",
+       '{"source": "opening"}'::jsonb, p."createdAt" + INTERVAL '1 millisecond'
+FROM "opening" p
+WHERE p."address" <> p."issuer" AND p."delta" <> 0;
+
+-- Supply counters, now including past burns
+UPDATE "tokens" t
+SET "burnedSupply" = COALESCE(b."burned", 0),
+    "circulatingSupply" = CASE WHEN t."status" <> 'pending' THEN t."totalSupply" - COALESCE(b."burned", 0) ELSE 0 END
+FROM (
+  SELECT tk."id", SUM(l."amount"::numeric) AS "burned"
+  FROM "tokens" tk
+  LEFT JOIN "ledger_events" l ON l."tokenId" = tk."id" AND l."type" = 'burn'
+  GROUP BY tk."id"
+) b
+WHERE b."id" = t."id";
+
+DROP TABLE "opening_tokens";
@@ -0,0 +1,6 @@
+-- Ledger amounts move from TEXT to NUMERIC(78,0) like the other token amounts
+-- (see 20260406100000_numeric_amount_columns), so the audit and the balance
+-- rebuild can sum them in Postgres.
+
+ALTER TABLE "ledger_events"
+  ALTER COLUMN "amount" TYPE NUMERIC(78,0) USING "amount"::numeric(78,0);
@@ -0,0 +1,6 @@
+-- When each pending transfer was last re-checked against the ASP, so the
+-- reconciler rotates through all of them.
+
+ALTER TABLE "token_transfers" ADD COLUMN IF NOT EXISTS "lastCheckedAt" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "token_transfers_lastCheckedAt_idx" ON "token_transfers"("lastCheckedAt");
@@ -0,0 +1,38 @@
+/**
+ * Shared pieces of the admin API routers (mounted under /api/admin)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { timingSafeEqual } from 'crypto';
+import { logger } from '../utils/logger';
+
+/**
+ * Admin authentication via `x-admin-key`.
+ * Unlike write auth, there is no open fallback: without ADMIN_API_KEY the
+ * admin API is disabled.
+ */
+export function adminAuth(req: Request, res: Response, next: NextFunction) {
+  const expected = process.env.ADMIN_API_KEY;
+  if (!expected) {
+    return res.status(503).json({ error: 'Admin API disabled (ADMIN_API_KEY not configured)' });
+  }
+
+  const provided = Buffer.from((req.headers['x-admin-key'] as string | undefined) || '');
+  const wanted = Buffer.from(expected);
+  if (provided.length !== wanted.length || !timingSafeEqual(provided, wanted)) {
+    logger.warn({ path: req.path, ip: req.ip, method: req.method }, 'Unauthorized admin API access attempt');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  return next();
+}
+
+export function rejectInvalid(req: Request, res: Response): boolean {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return true;
+  }
+  return false;
+}
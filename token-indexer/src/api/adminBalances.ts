@@ -0,0 +1,77 @@
+import { Router, Request, Response } from 'express';
+import { body, param } from 'express-validator';
+import { logger } from '../utils/logger';
+import {
+  BalanceRebuildError,
+  getBalanceRebuild,
+  rebuildBalances,
+  swapRebuiltBalances
+} from '../token/balanceRebuild';
+import { adminAuth, rejectInvalid } from './admin';
+
+const router = Router();
+
+router.use(adminAuth);
+
+function handleError(res: Response, error: any, action: string) {
+  if (error instanceof BalanceRebuildError) {
+    return res.status(error.code === 'not-found' ? 404 : 409).json({ error: error.message });
+  }
+  logger.error({ error: error.message }, `Error ${action}`);
+  return res.status(500).json({ error: 'Internal server error' });
+}
+
+/**
+ * POST /api/admin/balances/rebuild
+ * Replay the ledger into the shadow balance table and diff it against live balances.
+ * Live balances do not change until the rebuild is swapped in.
+ *
+ * Body:
+ * - tokenId: Optional token to rebuild (defaults to all tokens)
+ */
+router.post('/rebuild',
+  [body('tokenId').optional().isString().trim().notEmpty()],
+  async (req: Request, res: Response) => {
+    if (rejectInvalid(req, res)) return;
+    try {
+      res.status(201).json(await rebuildBalances({ tokenId: req.body?.tokenId }));
+    } catch (error: any) {
+      handleError(res, error, 'rebuilding balances');
+    }
+  }
+);
+
+/**
+ * GET /api/admin/balances/rebuilds/:rebuildId
+ * A rebuild and its differences from the live balances as they are now
+ */
+router.get('/rebuilds/:rebuildId',
+  [param('rebuildId').isString().trim().notEmpty()],
+  async (req: Request, res: Response) => {
+    if (rejectInvalid(req, res)) return;
+    try {
+      res.json(await getBalanceRebuild(req.params.rebuildId));
+    } catch (error: any) {
+      handleError(res, error, 'fetching balance rebuild');
+    }
+  }
+);
+
+/**
+ * POST /api/admin/balances/rebuilds/:rebuildId/swap
+ * Replace the live balances with the rebuilt ones in one transaction.
+ * Refused (409) if the ledger has changed since the rebuild.
+ */
+router.post('/rebuilds/:rebuildId/swap',
+  [param('rebuildId').isString().trim().notEmpty()],
+  async (req: Request, res: Response) => {
+    if (rejectInvalid(req, res)) return;
+    try {
+      res.json(await swapRebuiltBalances(req.params.rebuildId));
+    } catch (error: any) {
+      handleError(res, error, 'swapping balance rebuild');
+    }
+  }
+);
+
+export default router;
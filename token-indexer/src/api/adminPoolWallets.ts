@@ -0,0 +1,229 @@
+import { Router, Request, Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { logger } from '../utils/logger';
+import { isValidArkadeAddress } from '../utils/arkadeAddress';
+import { isCompressedPublicKey } from '../utils/secp256k1';
+import {
+  PoolWalletRegistryError,
+  addPoolWallet,
+  drainPoolWallet,
+  getPoolWalletSnapshots,
+  getPresaleSettings,
+  listPoolWallets,
+  retirePoolWallet,
+  rotateToken,
+  updatePresaleSettings
+} from '../services/poolWalletRegistry';
+import { sweepProcessor } from '../queue/sweepProcessor';
+import { refundProcessor } from '../queue/refundProcessor';
+import { adminAuth, rejectInvalid } from './admin';
+
+const router = Router();
+
+router.use(adminAuth);
+
+function handleError(res: Response, error: any, action: string) {
+  if (error instanceof PoolWalletRegistryError) {
+    const status = error.code === 'not-found' ? 404 : error.code === 'conflict' ? 409 : 400;
+    return res.status(status).json({ error: error.message });
+  }
+  logger.error({ error: error.message }, `Error ${action}`);
+  return res.status(500).json({ error: 'Internal server error' });
+}
+
+const addressParam = param('address').custom((value) => isValidArkadeAddress(value));
+const satsField = (field: string) => body(field).optional().isString().matches(/^\d+$/);
+
+/**
+ * GET /api/admin/pool-wallets
+ * List registered pool wallets with status, capacity and assigned tokens
+ */
+router.get('/pool-wallets', async (req, res) => {
+  try {
+    res.json({ wallets: await listPoolWallets() });
+  } catch (error: any) {
+    handleError(res, error, 'listing pool wallets');
+  }
+});
+
+/**
+ * POST /api/admin/pool-wallets
+ * Register a pool wallet. Payments to it are verified watch-only; refunds
+ * from it need its private key in a signer's keystore.
+ *
+ * Body:
+ * - address: Arkade address (optional if publicKey is given)
+ * - publicKey: Compressed public key (hex); enables per-request deposit addresses
+ * - label: Optional name
+ * - thresholdSats: Optional capacity override (sats, as string)
+ */
+router.post('/pool-wallets',
+  [
+    body('address').optional().isString().custom((value) => isValidArkadeAddress(value)),
+    body('publicKey').optional().isString().custom((value) => isCompressedPublicKey(value)),
+    body('label').optional().isString().trim().isLength({ max: 100 }),
+    satsField('thresholdSats'),
+  ],
+  async (req: Request, res: Response) => {
+    if (rejectInvalid(req, res)) return;
+    try {
+      const wallet = await addPoolWallet(req.body);
+      res.status(201).json(wallet);
+    } catch (error: any) {
+      handleError(res, error, 'adding pool wallet');
+    }
+  }
+);
+
+/**
+ * POST /api/admin/pool-wallets/:address/drain
+ * Stop assigning the wallet and move its tokens to other wallets
+ */
+router.post('/pool-wallets/:address/drain', [addressParam], async (req: Request, res: Response) => {
+  if (rejectInvalid(req, res)) return;
+  try {
+    const result = await drainPoolWallet(req.params.address);
+    res.json(result);
+  } catch (error: any) {
+    handleError(res, error, 'draining pool wallet');
+  }
+});
+
+/**
+ * POST /api/admin/pool-wallets/:address/retire
+ * Retire a wallet that no longer serves any token
+ */
+router.post('/pool-wallets/:address/retire', [addressParam], async (req: Request, res: Response) => {
+  if (rejectInvalid(req, res)) return;
+  try {
+    const wallet = await retirePoolWallet(req.params.address);
+    res.json(wallet);
+  } catch (error: any) {
+    handleError(res, error, 'retiring pool wallet');
+  }
+});
+
+/**
+ * POST /api/admin/pool-wallets/:address/sweep
+ * Sweep the wallet to cold storage now, keeping funds reserved for pending refunds
+ */
+router.post('/pool-wallets/:address/sweep', [addressParam], async (req: Request, res: Response) => {
+  if (rejectInvalid(req, res)) return;
+  try {
+    // Make sure payments awaiting refund are reserved before sweeping
+    await refundProcessor.queueRefunds();
+    const result = await sweepProcessor.sweepByAddress(req.params.address);
+    if (result.outcome === 'skipped') {
+      return res.status(409).json({ error: result.reason });
+    }
+    res.status(result.outcome === 'swept' ? 200 : 502).json(result.sweep);
+  } catch (error: any) {
+    handleError(res, error, 'sweeping pool wallet');
+  }
+});
+
+/**
+ * GET /api/admin/sweeps
+ * Sweep history and total swept, newest first
+ *
+ * Query:
+ * - address: Optional pool wallet filter
+ * - limit: Max sweeps returned (default 100)
+ */
+router.get('/sweeps',
+  [
+    query('address').optional().custom((value) => isValidArkadeAddress(value)),
+    query('limit').optional().isInt({ min: 1, max: 1000 }),
+  ],
+  async (req: Request, res: Response) => {
+    if (rejectInvalid(req, res)) return;
+    try {
+      const limit = req.query.limit ? Number(req.query.limit) : 100;
+      const address = req.query.address ? String(req.query.address) : undefined;
+      res.json(await sweepProcessor.listSweeps({ address, limit }));
+    } catch (error: any) {
+      handleError(res, error, 'listing sweeps');
+    }
+  }
+);
+
+/**
+ * GET /api/admin/pool-wallets/:address/snapshots
+ * Balance history, newest first
+ */
+router.get('/pool-wallets/:address/snapshots',
+  [addressParam, query('limit').optional().isInt({ min: 1, max: 1000 })],
+  async (req: Request, res: Response) => {
+    if (rejectInvalid(req, res)) return;
+    try {
+      const limit = req.query.limit ? Number(req.query.limit) : 100;
+      res.json({ snapshots: await getPoolWalletSnapshots(req.params.address, limit) });
+    } catch (error: any) {
+      handleError(res, error, 'fetching pool wallet snapshots');
+    }
+  }
+);
+
+/**
+ * POST /api/admin/tokens/:tokenId/rotate
+ * Move a token's presale payments to another pool wallet
+ *
+ * Body:
+ * - address: Optional target wallet (defaults to the next available wallet)
+ */
+router.post('/tokens/:tokenId/rotate',
+  [
+    param('tokenId').isString().trim().notEmpty(),
+    body('address').optional().isString().custom((value) => isValidArkadeAddress(value)),
+  ],
+  async (req: Request, res: Response) => {
+    if (rejectInvalid(req, res)) return;
+    try {
+      const address = await rotateToken(req.params.tokenId, 'admin-rotate', req.body?.address);
+      if (!address) {
+        return res.status(409).json({ error: 'Token is locked by another operation; retry shortly' });
+      }
+      res.json({ tokenId: req.params.tokenId, address });
+    } catch (error: any) {
+      handleError(res, error, 'rotating token wallet');
+    }
+  }
+);
+
+/**
+ * GET /api/admin/presale-settings
+ */
+router.get('/presale-settings', async (req, res) => {
+  try {
+    res.json(await getPresaleSettings());
+  } catch (error: any) {
+    handleError(res, error, 'fetching presale settings');
+  }
+});
+
+/**
+ * POST /api/admin/presale-settings
+ *
+ * Body:
+ * - poolEnabled: Route presale payments to pool wallets (false → token creator)
+ * - walletThresholdSats: Default pool wallet capacity (sats, as string)
+ */
+router.post('/presale-settings',
+  [
+    body('poolEnabled').optional().isBoolean().toBoolean(),
+    satsField('walletThresholdSats'),
+  ],
+  async (req: Request, res: Response) => {
+    if (rejectInvalid(req, res)) return;
+    try {
+      const { poolEnabled, walletThresholdSats } = req.body;
+      const settings = await updatePresaleSettings({ poolEnabled, walletThresholdSats });
+      logger.info({ poolEnabled: settings.poolEnabled, walletThresholdSats: settings.walletThresholdSats }, '⚙️ Presale settings updated');
+      res.json(settings);
+    } catch (error: any) {
+      handleError(res, error, 'updating presale settings');
+    }
+  }
+);
+
+export default router;
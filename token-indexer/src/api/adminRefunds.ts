@@ -0,0 +1,91 @@
+import { Router, Request, Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { logger } from '../utils/logger';
+import { RefundError, RefundStatus, refundProcessor } from '../queue/refundProcessor';
+import { adminAuth, rejectInvalid } from './admin';
+
+const router = Router();
+
+router.use(adminAuth);
+
+const REFUND_STATUSES: RefundStatus[] = ['pending', 'processing', 'completed', 'failed', 'closed'];
+
+function handleError(res: Response, error: any, action: string) {
+  if (error instanceof RefundError) {
+    const status = error.code === 'not-found' ? 404 : error.code === 'unavailable' ? 503 : 409;
+    return res.status(status).json({ error: error.message });
+  }
+  logger.error({ error: error.message }, `Error ${action}`);
+  return res.status(500).json({ error: 'Internal server error' });
+}
+
+/**
+ * GET /api/admin/refunds
+ * Refunds, newest first
+ *
+ * Query:
+ * - status: Optional status filter (failed refunds need review)
+ * - limit: Max refunds returned (default 100)
+ */
+router.get('/',
+  [
+    query('status').optional().isIn(REFUND_STATUSES),
+    query('limit').optional().isInt({ min: 1, max: 1000 }),
+  ],
+  async (req: Request, res: Response) => {
+    if (rejectInvalid(req, res)) return;
+    try {
+      const limit = req.query.limit ? Number(req.query.limit) : 100;
+      const status = req.query.status ? (String(req.query.status) as RefundStatus) : undefined;
+      res.json({ refunds: await refundProcessor.listRefunds({ status, limit }) });
+    } catch (error: any) {
+      handleError(res, error, 'listing refunds');
+    }
+  }
+);
+
+/**
+ * POST /api/admin/refunds/:refundId/retry
+ * Send a failed refund again. Refused (409) when its source address no longer
+ * holds the amount: the failed send may have gone out, so resolve it instead.
+ */
+router.post('/:refundId/retry',
+  [param('refundId').isString().trim().notEmpty()],
+  async (req: Request, res: Response) => {
+    if (rejectInvalid(req, res)) return;
+    try {
+      res.json(await refundProcessor.retryRefund(req.params.refundId));
+    } catch (error: any) {
+      handleError(res, error, 'retrying refund');
+    }
+  }
+);
+
+/**
+ * POST /api/admin/refunds/:refundId/resolve
+ * Close a failed refund by hand
+ *
+ * Body:
+ * - note: What was checked or done
+ * - refundTxid: Optional txid of a refund sent outside the indexer (marks it completed)
+ */
+router.post('/:refundId/resolve',
+  [
+    param('refundId').isString().trim().notEmpty(),
+    body('note').isString().trim().notEmpty(),
+    body('refundTxid').optional().isString().trim().notEmpty(),
+  ],
+  async (req: Request, res: Response) => {
+    if (rejectInvalid(req, res)) return;
+    try {
+      res.json(await refundProcessor.resolveRefund(req.params.refundId, {
+        note: req.body.note,
+        refundTxid: req.body.refundTxid
+      }));
+    } catch (error: any) {
+      handleError(res, error, 'resolving refund');
+    }
+  }
+);
+
+export default router;
@@ -6,46 +6,74 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
-import { body, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
 import { createServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
-import { PrismaClient } from '@prisma/client';
+import { PoolWallet, Prisma, PrismaClient } from '@prisma/client';
+import { decodeArkCreate, isCodecError } from '@arkade-token/sdk';
 import { logger } from '../utils/logger';
 import { advisoryLockKeysFromTokenId } from '../utils/advisoryLock';
-import { ArkadeClient } from '../services/arkadeClient';
-import { 
-  queryVtxosViaSdk, 
-  queryBalanceViaSdk, 
-  queryHistoryViaSdk, 
-  getAddressViaSdk,
-  verifyVtxoViaSdk,
-  getVtxoInfoViaSdk
-} from '../services/arkSdk';
+import { isValidArkadeAddress } from '../utils/arkadeAddress';
+import { decimalJsonReplacer, toAmountString, toBigInt } from '../utils/decimal';
+import { creditPresalePurchase, mintInitialSupply } from '../token/presaleReserve';
+import { LedgerError, burnAccount } from '../token/ledger';
+import { auditTokenSupply } from '../token/supplyAudit';
+import { isCreationConfirmed } from '../token/creationProof';
+import { TokenHoldersError, listTokenHolders } from '../token/holders';
+import { TOKEN_SORT_FIELDS, TokenSearchError, TokenSortField, searchTokens } from '../token/search';
+import { TickerError, assertTickerAvailable, claimTicker, getTickerClaim, isReservedTicker } from '../token/tickers';
+import {
+  TRANSFER_STATUSES,
+  TransferStatus,
+  describeBalance,
+  getPendingTransferTotals,
+  recordApiTransfer
+} from '../token/transfers';
+import {
+  checkPaymentAmount,
+  findPaymentReuse,
+  getReceivedAmount,
+  isPaymentFrom,
+  overpaidAmount,
+  presalePrice,
+  wrongSender,
+} from '../queue/paymentVerification';
+import { refundProcessor } from '../queue/refundProcessor';
+import { sweepProcessor } from '../queue/sweepProcessor';
+import { transferReconciler } from '../queue/transferReconciler';
+import { supplyAuditor } from '../queue/supplyAuditor';
+import { blockScanner, isDiscoveredToken } from '../queue/blockScanner';
+import { proofTracker } from '../queue/proofTracker';
+import { checkTransferVtxo } from '../queue/transferVerification';
+import { arkadeClient } from '../services/arkadeClient';
+import { chainBackend } from '../chain';
+import { fetchTickerCommitment, getBitcoinTipHeight } from '../services/tokenMonitor';
 import verifyTokenRouter from './verifyToken';
-import { 
-  PRESALE_POOL_CONFIG, 
-  PRESALE_POOL_WALLETS,
-  getNextAvailablePoolWallet, 
-  updatePoolWalletVolume,
+import adminPoolWalletsRouter from './adminPoolWallets';
+import adminBalancesRouter from './adminBalances';
+import adminRefundsRouter from './adminRefunds';
+import walletQueriesRouter from './walletQueries';
+import { verifyTokenClaim, verifyTransferAuthorization } from '../services/walletSignature';
+import { isCompressedPublicKey } from '../utils/secp256k1';
+import { PRESALE_POOL_CONFIG } from '../config/presale-pool';
+import { TRANSFER_CONFIG } from '../config/transfers';
+import { SUPPLY_AUDIT_CONFIG } from '../config/supplyAudit';
+import { TICKER_CONFIG } from '../config/tickers';
+import { NETWORK_PROFILE } from '../config/network';
+import { BLOCK_SCANNER_CONFIG } from '../config/blockScanner';
+import { PROOF_TRACKER_CONFIG } from '../config/proofTracker';
+import {
+  getPresaleSettings,
+  getNextAvailablePoolWallet,
   getPoolWalletStats,
-  checkAndRotateIfNeeded
-} from '../config/presale-pool';
+  checkAndRotateIfNeeded,
+  findPoolWallet,
+  openAssignment,
+  syncPoolWalletRegistry,
+  wouldExceedCapacity
+} from '../services/poolWalletRegistry';
 
 const prisma = new PrismaClient();
-function isValidArkadeAddress(address: string): boolean {
-  // Accept Arkade bech32-style addresses (mainnet ark1..., testnet tark1...)
-  // and keep backward compatibility with older/base58-like formats.
-  const a = (address || '').trim();
-  if (!a) return false;
-  const bech32Arkade = /^(t?ark1)[0-9a-z]{20,120}$/;
-  const legacy = /^[a-km-zA-HJ-NP-Z1-9]{25,90}$/;
-  return bech32Arkade.test(a) || legacy.test(a);
-}
-
-// Initialize Arkade client for VTXO verification
-const arkadeClient = new ArkadeClient(
-  process.env.ARKADE_ASP_URL || 'https://arkade.computer'
-);
 
 // Global WebSocket instance for real-time notifications
 let globalIO: SocketIOServer | null = null;
@@ -123,6 +151,9 @@ export function createApiServer() {
   // Trust proxy - required for rate limiting behind Render's proxy
   app.set('trust proxy', 1);
 
+  // Amount columns are Decimals; keep returning them as integer strings
+  app.set('json replacer', decimalJsonReplacer);
+
   // Security middleware
   app.use(helmet({
     contentSecurityPolicy: {
@@ -198,6 +229,14 @@ export function createApiServer() {
     return res.status(401).json({ error: 'Unauthorized' });
   };
 
+  // Admin API has its own (stricter) authentication
+  app.use('/api/admin/balances', adminBalancesRouter);
+  app.use('/api/admin/refunds', adminRefundsRouter);
+  app.use('/api/admin', adminPoolWalletsRouter);
+
+  // Wallet queries are authenticated by a signed challenge, not an API key
+  app.use('/api', walletQueriesRouter);
+
   // Apply write auth to all /api routes (GET remains public)
   app.use('/api', writeAuth);
 
@@ -247,20 +286,48 @@ export function createApiServer() {
     }
   });
 
-  // Get all tokens
-  app.get('/api/tokens', async (req, res) => {
-    try {
-      const tokens = await prisma.token.findMany({
-        orderBy: { createdAt: 'desc' },
-        take: 100,
-      });
+  // Search and list tokens (cursor-paginated)
+  app.get('/api/tokens',
+    [
+      query('q').optional().isString().trim().isLength({ min: 1, max: 64 }),
+      query('status').optional().isIn(['pending', 'confirmed', 'failed']),
+      query('isPresale').optional().isIn(['true', 'false']),
+      query('creator').optional().isString(),
+      query('issuer').optional().isString(),
+      query('sort').optional().isIn(TOKEN_SORT_FIELDS),
+      query('order').optional().isIn(['desc', 'asc']),
+      query('limit').optional().isInt({ min: 1, max: 500 }),
+      query('cursor').optional().isString(),
+    ],
+    async (req: express.Request, res: express.Response) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
 
-      res.json({ tokens });
-    } catch (error) {
-      logger.error({ error }, 'Error fetching tokens');
-      res.status(500).json({ error: 'Internal server error' });
+      try {
+        const page = await searchTokens(prisma, {
+          q: req.query.q as string | undefined,
+          status: req.query.status as string | undefined,
+          isPresale: req.query.isPresale === undefined ? undefined : req.query.isPresale === 'true',
+          creator: req.query.creator as string | undefined,
+          issuer: req.query.issuer as string | undefined,
+          sort: req.query.sort as TokenSortField | undefined,
+          order: req.query.order as 'desc' | 'asc' | undefined,
+          limit: req.query.limit ? Number(req.query.limit) : 100,
+          cursor: req.query.cursor as string | undefined,
+        });
+
+        res.json(page);
+      } catch (error) {
+        if (error instanceof TokenSearchError) {
+          return res.status(400).json({ error: error.message, code: error.code });
+        }
+        logger.error({ error }, 'Error fetching tokens');
+        res.status(500).json({ error: 'Internal server error' });
+      }
     }
-  });
+  );
 
   // Get token balance
   app.get('/api/balances/:address/:tokenId', async (req, res) => {
@@ -274,11 +341,14 @@ export function createApiServer() {
         },
       });
 
+      const pending = await getPendingTransferTotals(prisma, req.params.address, req.params.tokenId);
+      const amounts = describeBalance(balance ? toBigInt(balance.balance) : 0n, pending.get(req.params.tokenId));
+
       if (!balance) {
-        return res.json({ balance: '0' });
+        return res.json(amounts);
       }
 
-      res.json(balance);
+      res.json({ ...balance, ...amounts });
     } catch (error) {
       logger.error({ error }, 'Error fetching balance');
       res.status(500).json({ error: 'Internal server error' });
@@ -292,10 +362,12 @@ export function createApiServer() {
         where: { address: req.params.address },
         include: { token: true },
       });
+      const pending = await getPendingTransferTotals(prisma, req.params.address);
 
       res.json({
         balances: balances.map(b => ({
           ...b,
+          ...describeBalance(toBigInt(b.balance), pending.get(b.tokenId)),
           symbol: b.token.symbol,
         })),
       });
@@ -305,10 +377,14 @@ export function createApiServer() {
     }
   });
 
-  // Get transfers
+  // Get transfers (optionally filtered by status: pending, confirmed, failed)
   app.get('/api/transfers/:address', async (req, res) => {
     try {
-      const { tokenId } = req.query;
+      const { tokenId, status } = req.query;
+
+      if (status && !TRANSFER_STATUSES.includes(status as TransferStatus)) {
+        return res.status(400).json({ error: `status must be one of ${TRANSFER_STATUSES.join(', ')}` });
+      }
 
       const where: any = {
         OR: [
@@ -321,6 +397,10 @@ export function createApiServer() {
         where.tokenId = tokenId;
       }
 
+      if (status) {
+        where.status = status;
+      }
+
       const transfers = await prisma.tokenTransfer.findMany({
         where,
         orderBy: { timestamp: 'desc' },
@@ -352,11 +432,117 @@ export function createApiServer() {
     }
   });
 
+  // Audit a token's supply invariants (balances vs supply, ledger, presale reserve)
+  app.get('/api/tokens/:tokenId/audit', async (req, res) => {
+    try {
+      const audit = await auditTokenSupply(prisma, req.params.tokenId);
+
+      if (!audit) {
+        return res.status(404).json({ error: 'Token not found' });
+      }
+
+      res.json(audit);
+    } catch (error) {
+      logger.error({ error }, 'Error auditing token supply');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // List a token's holders by balance (cursor-paginated)
+  app.get('/api/tokens/:tokenId/holders',
+    [
+      query('limit').optional().isInt({ min: 1, max: 500 }),
+      query('order').optional().isIn(['desc', 'asc']),
+      query('minBalance').optional().matches(/^\d+$/),
+      query('cursor').optional().isString(),
+    ],
+    async (req: express.Request, res: express.Response) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      try {
+        const page = await listTokenHolders(prisma, req.params.tokenId, {
+          limit: req.query.limit ? Number(req.query.limit) : 100,
+          order: req.query.order as 'desc' | 'asc' | undefined,
+          minBalance: req.query.minBalance ? BigInt(req.query.minBalance as string) : undefined,
+          cursor: req.query.cursor as string | undefined,
+        });
+
+        if (!page) {
+          return res.status(404).json({ error: 'Token not found' });
+        }
+
+        res.json(page);
+      } catch (error) {
+        if (error instanceof TokenHoldersError) {
+          return res.status(400).json({ error: error.message, code: error.code });
+        }
+        logger.error({ error }, 'Error listing token holders');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
+  // Current claim on a ticker (symbols are matched in normalized form)
+  app.get('/api/tickers/:symbol', async (req, res) => {
+    try {
+      const claim = await getTickerClaim(prisma, req.params.symbol, await getBitcoinTipHeight());
+
+      if (!claim) {
+        return res.status(404).json({ error: 'Ticker not claimed', reserved: isReservedTicker(req.params.symbol) });
+      }
+
+      res.json(claim);
+    } catch (error) {
+      logger.error({ error }, 'Error fetching ticker');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Register an ARK COMMIT (ticker commitment) so a later CREATE can reveal it
+  app.post('/api/tickers/commitments',
+    [
+      body('txid').isString().matches(/^[0-9a-f]{64}$/),
+    ],
+    async (req: express.Request, res: express.Response) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      try {
+        const { txid } = req.body as { txid: string };
+        const commit = await fetchTickerCommitment(txid);
+
+        if (!commit) {
+          return res.status(404).json({ error: 'Transaction or OP_RETURN not found' });
+        }
+
+        logger.info({ txid, blockHeight: commit.blockHeight }, '🔒 Ticker commitment registered');
+        res.status(201).json({
+          txid,
+          commitment: commit.commitment.toString('hex'),
+          blockHeight: commit.blockHeight,
+        });
+      } catch (error) {
+        if (isCodecError(error)) {
+          return res.status(422).json({ error: error.message, code: error.code });
+        }
+        logger.error({ error }, 'Error registering ticker commitment');
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  );
+
   // Get transaction
   app.get('/api/transactions/:txid', async (req, res) => {
     try {
+      // A failed API transfer's VTXO can be reused, so prefer the latest record
       const transfer = await prisma.tokenTransfer.findFirst({
         where: { txid: req.params.txid },
+        orderBy: { timestamp: 'desc' },
       });
 
       if (!transfer) {
@@ -382,6 +568,8 @@ export function createApiServer() {
       body('decimals').optional().isInt({ min: 0, max: 18 }),
       body('creator').isString().custom((value) => isValidArkadeAddress(value)),
       body('bitcoinAddress').optional().isString(),
+      body('claimPublicKey').optional().isString(),
+      body('claimSignature').optional().isString(),
     ],
     async (req: express.Request, res: express.Response) => {
       // Validate request
@@ -407,7 +595,9 @@ export function createApiServer() {
           isPresale,         // Is presale token
           presaleBatchAmount,
           priceInSats,
-          maxPurchasesPerWallet
+          maxPurchasesPerWallet,
+          claimPublicKey,    // L1 funding key, proves authorship of a token found on L1
+          claimSignature
         } = req.body;
 
       // Validate required fields (vtxoId optional for pending tokens)
@@ -423,14 +613,44 @@ export function createApiServer() {
         hasBitcoinProof: !!bitcoinProof 
       }, 'Registering token (2-phase creation)');
 
-      // Check if token already exists
+      // Check if token already exists. A token the block scanner discovered on L1
+      // has no issuer yet; its creator registering it adopts it instead.
       const existing = await prisma.token.findUnique({
         where: { id: tokenId },
       });
+      const discovered = existing && isDiscoveredToken(existing) ? existing : null;
 
-      if (existing) {
+      if (existing && !discovered) {
         return res.status(409).json({ error: 'Token already exists' });
       }
+      if (discovered && opReturnData && opReturnData !== discovered.opReturnData) {
+        logger.warn({ tokenId }, 'Token registration rejected - OP_RETURN differs from the discovered CREATE');
+        return res.status(409).json({ error: 'OP_RETURN data does not match the token found on L1' });
+      }
+      if (discovered) {
+        // Only whoever funded the CREATE may name its issuer; otherwise it stays unassigned
+        const claimFailure = verifyTokenClaim(
+          { tokenId, issuer: creator, publicKey: claimPublicKey, signature: claimSignature },
+          discovered.bitcoinAddress
+        );
+        if (claimFailure) {
+          logger.warn({ tokenId, code: claimFailure.code }, 'Token registration rejected - no proof of authorship');
+          return res.status(403).json({ error: claimFailure.reason, code: claimFailure.code });
+        }
+      }
+
+      // Reserved tickers and tickers already finally claimed are refused up front;
+      // a pending token claims its ticker when its CREATE confirms
+      const tipHeight = await getBitcoinTipHeight();
+      try {
+        await assertTickerAvailable(prisma, symbol, tipHeight, discovered?.id);
+      } catch (error) {
+        if (error instanceof TickerError) {
+          logger.warn({ tokenId, symbol, code: error.code }, 'Token registration rejected - ticker unavailable');
+          return res.status(error.code === 'invalid-ticker' ? 400 : 409).json({ error: error.message, code: error.code });
+        }
+        throw error;
+      }
 
       // Check if VTXO was already used (prevent re-using same VTXO)
       // Only check if vtxoId is provided (not for pending tokens)
@@ -452,54 +672,38 @@ export function createApiServer() {
       
       if (opReturnData) {
         try {
-          const buffer = Buffer.from(opReturnData, 'hex');
-          let offset = 3 + 1 + 1; // Skip protocol, version, opType
-          
-          // Skip name
-          const nameLen = buffer[offset];
-          offset += 1 + nameLen;
+          const decoded = decodeArkCreate(Buffer.from(opReturnData, 'hex'));
           
-          // Skip symbol
-          const symbolLen = buffer[offset];
-          offset += 1 + symbolLen;
-          
-          // Skip supply (8 bytes) and decimals (1 byte)
-          offset += 8 + 1;
-          
-          // Check for pre-sale flag
-          if (offset < buffer.length) {
-            const presaleFlag = buffer[offset];
-            offset += 1;
+          if (decoded.isPresale) {
+            presaleData = {
+              isPresale: true,
+              presaleBatchAmount: decoded.presaleBatchAmount!.toString(),
+              priceInSats: decoded.priceInSats!.toString(),
+              maxPurchasesPerWallet: decoded.maxPurchasesPerWallet,
+            };
             
-            if (presaleFlag === 0x01 && offset + 18 <= buffer.length) {
-              presaleData.isPresale = true;
-              presaleData.presaleBatchAmount = buffer.readBigUInt64LE(offset).toString();
-              offset += 8;
-              presaleData.priceInSats = buffer.readBigUInt64LE(offset).toString();
-              offset += 8;
-              presaleData.maxPurchasesPerWallet = buffer.readUInt16LE(offset);
-              
-              logger.info({ tokenId, presaleData }, 'Pre-sale token detected');
-            }
+            logger.info({ tokenId, presaleData }, 'Pre-sale token detected');
           }
         } catch (error) {
-          logger.warn({ tokenId, error }, 'Failed to parse pre-sale data from OP_RETURN');
+          const reason = isCodecError(error) ? error.message : String(error);
+          logger.warn({ tokenId, reason }, 'Failed to parse pre-sale data from OP_RETURN');
         }
       }
 
       // Determine payment receiver address
       // If pool mode enabled and this is a pre-sale token, use pool wallet
       let paymentAddress = creator;
+      let poolWallet: PoolWallet | null = null;
       
-      if (PRESALE_POOL_CONFIG.enabled && presaleData.isPresale) {
+      if ((await getPresaleSettings()).poolEnabled && presaleData.isPresale) {
         try {
-          const poolWallet = await getNextAvailablePoolWallet();
+          poolWallet = await getNextAvailablePoolWallet();
           paymentAddress = poolWallet.address;
           logger.info({ 
             tokenId, 
             poolWallet: paymentAddress.slice(0, 20) + '...', 
             originalCreator: creator,
-            realBalance: poolWallet.currentVolume
+            realBalance: poolWallet.lastBalance
           }, 'Using pool wallet for pre-sale payments (ASP balance checked)');
         } catch (error: any) {
           logger.error({ error: error.message }, 'Failed to get pool wallet, using creator address');
@@ -517,6 +721,47 @@ export function createApiServer() {
         };
       }
 
+      // Adopt a discovered token: it keeps what was decoded from L1 and gains its
+      // creator. Its ticker claim is re-ranked, since a commit it revealed only
+      // counts once the creator is known.
+      if (discovered) {
+        const { token: adopted, displaced, ticker } = await prisma.$transaction(async (tx) => {
+          const updated = await tx.token.update({
+            where: { id: tokenId },
+            data: {
+              creator: paymentAddress,
+              issuer: creator,
+              bitcoinAddress: discovered.bitcoinAddress ?? bitcoinAddress,
+            },
+          });
+
+          if (poolWallet) {
+            await openAssignment(tx, tokenId, poolWallet.id, 'initial');
+          }
+          const claim = updated.bitcoinBlock && updated.status !== 'failed'
+            ? await claimTicker(tx, updated, updated.bitcoinBlock, tipHeight)
+            : null;
+
+          const token = await tx.token.findUniqueOrThrow({ where: { id: tokenId } });
+          const displaced = claim?.displacedTokenId
+            ? await tx.token.findUnique({ where: { id: claim.displacedTokenId } })
+            : null;
+          return { token, displaced, ticker: claim?.ticker };
+        });
+
+        if (displaced) {
+          io.to(`wallet:${displaced.issuer || displaced.creator}`).emit('token-failed', {
+            tokenId: displaced.id,
+            symbol: displaced.symbol,
+            status: 'failed',
+            reason: `Ticker ${ticker} was claimed earlier by token ${tokenId}`,
+          });
+        }
+
+        logger.info({ tokenId, symbol: adopted.symbol, status: adopted.status }, 'Discovered token adopted by its creator');
+        return res.status(201).json(adopted);
+      }
+
       // Create token and record VTXO usage atomically
       const token = await prisma.$transaction(async (tx) => {
         // Create token with L1 proof and pre-sale data
@@ -543,16 +788,16 @@ export function createApiServer() {
           },
         });
 
+        if (poolWallet) {
+          await openAssignment(tx, tokenId, poolWallet.id, 'initial');
+        }
+
         // Only create initial balance and VTXO usage for confirmed tokens
         if (status !== 'pending') {
-          // Create initial balance for creator
-          await tx.tokenBalance.create({
-            data: {
-              address: creator,
-              tokenId,
-              balance: totalSupply,
-            },
-          });
+          await claimTicker(tx, newToken, 0, tipHeight);
+
+          // Create initial balance for creator (presale tokens also fund their reserve)
+          await mintInitialSupply(tx, newToken, creator);
 
           // Record VTXO usage to prevent double-spending (only if vtxoId provided)
           if (vtxoId) {
@@ -592,6 +837,9 @@ export function createApiServer() {
       
       res.status(201).json(token);
     } catch (error) {
+      if (error instanceof TickerError) {
+        return res.status(409).json({ error: error.message, code: error.code });
+      }
       logger.error({ error }, 'Error registering token');
       res.status(500).json({ error: 'Internal server error' });
     }
@@ -631,16 +879,22 @@ export function createApiServer() {
           return res.status(409).json({ error: 'Token already settled/confirmed' });
         }
 
+        if (token.status === 'failed') {
+          return res.status(409).json({ error: 'Token failed and cannot be settled' });
+        }
+
+        if (isDiscoveredToken(token)) {
+          return res.status(409).json({ error: 'Token was discovered on L1 and must be registered by its creator first' });
+        }
+
         // Guard: ensure L1 confirmation happened before accepting settlement.
-        // If the monitor hasn't updated yet, check mempool.space directly.
+        // If the monitor hasn't updated yet, ask the chain backend directly.
         if (token.status === 'pending') {
           try {
-            const txid = token.bitcoinProof || token.id;
-            const resp = await fetch(`https://mempool.space/api/tx/${txid}/status`);
-            if (!resp.ok) {
+            const status = await chainBackend.getTxStatus(token.bitcoinProof || token.id);
+            if (!status) {
               return res.status(400).json({ error: 'Unable to verify Bitcoin confirmation yet' });
             }
-            const status = await resp.json() as { confirmed: boolean };
             if (!status.confirmed) {
               return res.status(400).json({ error: 'Token not ready for settlement yet (still pending confirmations)' });
             }
@@ -649,6 +903,19 @@ export function createApiServer() {
           }
         }
 
+        // Guard: the token must hold its ticker, and the claim must be final
+        // (until then an earlier claim can still displace it)
+        const tickerClaim = await getTickerClaim(prisma, token.symbol, await getBitcoinTipHeight());
+        if (!tickerClaim || tickerClaim.tokenId !== tokenId) {
+          return res.status(400).json({ error: 'Token has not claimed its ticker yet', code: 'ticker-unclaimed' });
+        }
+        if (!tickerClaim.final) {
+          return res.status(400).json({
+            error: `Ticker claim is not final yet (needs ${TICKER_CONFIG.CLAIM_FINALITY_BLOCKS} confirmations)`,
+            code: 'ticker-not-final'
+          });
+        }
+
         // Prevent reuse (double-spend / replay).
         const existingUsage = await prisma.vtxoUsage.findUnique({ where: { outpoint: settlementId } });
         if (existingUsage) {
@@ -698,22 +965,7 @@ export function createApiServer() {
           });
 
           // Pending tokens skip initial balances at registration; ensure issuer has the initial mint.
-          await tx.tokenBalance.upsert({
-            where: {
-              address_tokenId: {
-                address: issuerAddress,
-                tokenId,
-              },
-            },
-            update: {
-              balance: token.totalSupply,
-            },
-            create: {
-              address: issuerAddress,
-              tokenId,
-              balance: token.totalSupply,
-            },
-          });
+          await mintInitialSupply(tx, token, issuerAddress);
 
           return updated;
         });
@@ -740,8 +992,11 @@ export function createApiServer() {
       body('tokenId').isString().trim().notEmpty(),
       body('fromAddress').isString().custom((value) => isValidArkadeAddress(value)),
       body('toAddress').isString().custom((value) => isValidArkadeAddress(value)),
-      body('amount').isString().matches(/^\d+$/),
+      body('amount').isString().matches(/^[1-9]\d*$/),
       body('vtxoId').isString().trim().notEmpty(),
+      body('nonce').isString().matches(/^[0-9a-f]{64}$/),
+      body('publicKey').isString().custom((value) => /^[0-9a-fA-F]{64}$/.test(value) || isCompressedPublicKey(value)),
+      body('signature').isString().matches(/^[0-9a-fA-F]{128}$/),
     ],
     async (req: express.Request, res: express.Response) => {
       // Validate request
@@ -751,11 +1006,19 @@ export function createApiServer() {
       }
 
       try {
-        const { tokenId, fromAddress, toAddress, amount, vtxoId } = req.body;
+        const { tokenId, fromAddress, toAddress, amount, vtxoId, nonce, publicKey, signature } = req.body;
 
-      // VERIFY VTXO with Arkade ASP before accepting transfer
-      // Note: VTXO verification with ASP is optional
-      logger.info({ tokenId, vtxoId, fromAddress, toAddress }, 'Recording transfer with vtxoId');
+      // The sender must have signed exactly this transfer
+      const authFailure = await verifyTransferAuthorization({
+        tokenId, fromAddress, toAddress, amount, vtxoId, nonce, publicKey, signature
+      });
+      if (authFailure) {
+        logger.warn({ tokenId, fromAddress, code: authFailure.code }, 'Transfer rejected - authorization failed');
+        return res.status(authFailure.code === 'nonce-reused' ? 409 : 401).json({
+          error: authFailure.reason,
+          code: authFailure.code
+        });
+      }
 
       // Check if VTXO was already used (prevent double-spending)
       const vtxoUsed = await prisma.vtxoUsage.findUnique({
@@ -776,100 +1039,129 @@ export function createApiServer() {
         return res.status(404).json({ error: 'Token not found' });
       }
 
-      // Check sender balance
-      const senderBalance = await prisma.tokenBalance.findUnique({
-        where: {
-          address_tokenId: {
-            address: fromAddress,
-            tokenId,
-          },
-        },
-      });
+      // The VTXO must exist, belong to the sender, be settled in a round and be unspent
+      const vtxoCheck = await checkTransferVtxo(fromAddress, vtxoId);
+      if (vtxoCheck.outcome === 'rejected') {
+        logger.warn({ tokenId, vtxoId, code: vtxoCheck.code }, 'Transfer rejected - VTXO verification failed');
+        return res.status(400).json({ error: vtxoCheck.reason, code: vtxoCheck.code });
+      }
 
-      const currentBalance = BigInt(senderBalance?.balance || '0');
-      const transferAmount = BigInt(amount);
+      // Record the transfer as pending; balances move only once the VTXO is verified.
+      // Unverified transfers are settled or failed later by the transfer reconciler.
+      const transfer = await prisma.$transaction((tx) => recordApiTransfer(tx, {
+        tokenId, fromAddress, toAddress, amount, vtxoId, nonce, publicKey, signature
+      }, vtxoCheck.outcome === 'verified'));
 
-      if (currentBalance < transferAmount) {
-        return res.status(400).json({ error: 'Insufficient balance' });
+      if (vtxoCheck.outcome === 'pending') {
+        logger.info({ tokenId, fromAddress, toAddress, amount, vtxoId, reason: vtxoCheck.reason }, 'Transfer pending ASP confirmation');
+        return res.status(202).json({
+          success: true,
+          transferId: transfer.id,
+          status: 'pending',
+          reason: vtxoCheck.reason,
+        });
       }
 
-      // Update balances
-      await prisma.$transaction(async (tx) => {
-        // Deduct from sender
-        await tx.tokenBalance.upsert({
-          where: {
-            address_tokenId: {
-              address: fromAddress,
-              tokenId,
-            },
-          },
-          update: {
-            balance: (currentBalance - transferAmount).toString(),
-          },
-          create: {
-            address: fromAddress,
-            tokenId,
-            balance: (currentBalance - transferAmount).toString(),
-          },
-        });
+      logger.info({ tokenId, fromAddress, toAddress, amount, vtxoId }, 'Transfer recorded with VTXO verification');
+      res.status(201).json({ success: true, transferId: transfer.id, status: 'confirmed' });
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(400).json({ error: error.message, code: error.code });
+      }
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return res.status(409).json({ error: 'Transfer nonce or VTXO already used' });
+      }
+      logger.error({ error }, 'Error recording transfer');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
 
-        // Add to recipient
-        const recipientBalance = await tx.tokenBalance.findUnique({
-          where: {
-            address_tokenId: {
-              address: toAddress,
-              tokenId,
-            },
-          },
-        });
+  // Register token burn (called by wallet after burn). A burn is a transfer to
+  // the token's burn account, authorized and verified the same way.
+  app.post('/api/burns',
+    [
+      body('tokenId').isString().trim().notEmpty(),
+      body('fromAddress').isString().custom((value) => isValidArkadeAddress(value)),
+      body('amount').isString().matches(/^[1-9]\d*$/),
+      body('vtxoId').isString().trim().notEmpty(),
+      body('nonce').isString().matches(/^[0-9a-f]{64}$/),
+      body('publicKey').isString().custom((value) => /^[0-9a-fA-F]{64}$/.test(value) || isCompressedPublicKey(value)),
+      body('signature').isString().matches(/^[0-9a-fA-F]{128}$/),
+    ],
+    async (req: express.Request, res: express.Response) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
 
-        const recipientCurrent = BigInt(recipientBalance?.balance || '0');
+      try {
+        const { tokenId, fromAddress, amount, vtxoId, nonce, publicKey, signature } = req.body;
+        const toAddress = burnAccount(tokenId);
 
-        await tx.tokenBalance.upsert({
-          where: {
-            address_tokenId: {
-              address: toAddress,
-              tokenId,
-            },
-          },
-          update: {
-            balance: (recipientCurrent + transferAmount).toString(),
-          },
-          create: {
-            address: toAddress,
-            tokenId,
-            balance: (recipientCurrent + transferAmount).toString(),
-          },
+        // The holder signs a transfer authorization to the burn account
+        const authFailure = await verifyTransferAuthorization({
+          tokenId, fromAddress, toAddress, amount, vtxoId, nonce, publicKey, signature
         });
+        if (authFailure) {
+          logger.warn({ tokenId, fromAddress, code: authFailure.code }, 'Burn rejected - authorization failed');
+          return res.status(authFailure.code === 'nonce-reused' ? 409 : 401).json({
+            error: authFailure.reason,
+            code: authFailure.code
+          });
+        }
 
-        // Record transfer
-        await tx.tokenTransfer.create({
-          data: {
-            txid: vtxoId,
-            tokenId,
-            fromAddress,
-            toAddress,
-            amount,
-          },
+        const vtxoUsed = await prisma.vtxoUsage.findUnique({
+          where: { outpoint: vtxoId },
         });
 
-        // Record VTXO usage to prevent double-spending
-        await tx.vtxoUsage.create({
-          data: {
-            outpoint: vtxoId,
-            tokenId,
-            usedInTx: vtxoId,
-          },
+        if (vtxoUsed) {
+          logger.warn({ tokenId, vtxoId }, 'Burn rejected - VTXO already used');
+          return res.status(400).json({ error: 'VTXO already used for another transfer' });
+        }
+
+        const token = await prisma.token.findUnique({
+          where: { id: tokenId },
         });
-      });
 
-      logger.info({ tokenId, fromAddress, toAddress, amount, vtxoId }, 'Transfer recorded with VTXO verification');
-      res.status(201).json({ success: true });
-    } catch (error) {
-      logger.error({ error }, 'Error recording transfer');
-      res.status(500).json({ error: 'Internal server error' });
+        if (!token) {
+          return res.status(404).json({ error: 'Token not found' });
+        }
+
+        const vtxoCheck = await checkTransferVtxo(fromAddress, vtxoId);
+        if (vtxoCheck.outcome === 'rejected') {
+          logger.warn({ tokenId, vtxoId, code: vtxoCheck.code }, 'Burn rejected - VTXO verification failed');
+          return res.status(400).json({ error: vtxoCheck.reason, code: vtxoCheck.code });
+        }
+
+        // Pending burns are settled or failed later by the transfer reconciler
+        const burn = await prisma.$transaction((tx) => recordApiTransfer(tx, {
+          tokenId, fromAddress, toAddress, amount, vtxoId, nonce, publicKey, signature
+        }, vtxoCheck.outcome === 'verified'));
+
+        if (vtxoCheck.outcome === 'pending') {
+          logger.info({ tokenId, fromAddress, amount, vtxoId, reason: vtxoCheck.reason }, 'Burn pending ASP confirmation');
+          return res.status(202).json({
+            success: true,
+            transferId: burn.id,
+            status: 'pending',
+            reason: vtxoCheck.reason,
+          });
+        }
+
+        logger.info({ tokenId, fromAddress, amount, vtxoId }, '🔥 Burn recorded with VTXO verification');
+        res.status(201).json({ success: true, transferId: burn.id, status: 'confirmed' });
+      } catch (error) {
+        if (error instanceof LedgerError) {
+          return res.status(400).json({ error: error.message, code: error.code });
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          return res.status(409).json({ error: 'Burn nonce or VTXO already used' });
+        }
+        logger.error({ error }, 'Error recording burn');
+        res.status(500).json({ error: 'Internal server error' });
+      }
     }
-  });
+  );
 
   // ============================================
   // ASP VTXO INDEXER ENDPOINTS
@@ -881,7 +1173,7 @@ export function createApiServer() {
       const { address } = req.params;
       const axios = require('axios');
       
-      const ASP_URL = process.env.ARKADE_ASP_URL || 'https://arkade.computer';
+      const ASP_URL = NETWORK_PROFILE.aspUrl;
       const url = `${ASP_URL}/v1/history/${address}`;
       
       const response = await axios.get(url, {
@@ -920,7 +1212,7 @@ export function createApiServer() {
       const { spendableOnly, spentOnly } = req.query;
       const axios = require('axios');
       
-      const ASP_URL = process.env.ARKADE_ASP_URL || 'https://arkade.computer';
+      const ASP_URL = NETWORK_PROFILE.aspUrl;
       let url = `${ASP_URL}/v1/getVtxos/${address}`;
       
       const params = [];
@@ -963,7 +1255,7 @@ export function createApiServer() {
       const { txid, vout } = req.params;
       const axios = require('axios');
       
-      const ASP_URL = process.env.ARKADE_ASP_URL || 'https://arkade.computer';
+      const ASP_URL = NETWORK_PROFILE.aspUrl;
       const url = `${ASP_URL}/v1/vtxo/${txid}/${vout}/chain`;
       
       const response = await axios.get(url, {
@@ -1000,153 +1292,6 @@ export function createApiServer() {
     }
   });
 
-  // SDK-based endpoints - Query wallet data using Ark SDK
-  
-  // Get all VTXOs for a wallet
-  app.post('/api/asp/sdk/vtxos', async (req, res) => {
-    try {
-      if (process.env.ALLOW_UNSAFE_PRIVATE_KEY_API !== 'true') {
-        return res.status(410).json({
-          success: false,
-          error: 'This endpoint is disabled (unsafe: would handle private keys on the server).',
-        });
-      }
-      const { privateKey } = req.body;
-      
-      if (!privateKey) {
-        return res.status(400).json({ 
-          success: false,
-          error: 'privateKey required in request body' 
-        });
-      }
-      
-      const result = await queryVtxosViaSdk(privateKey);
-      res.json(result);
-    } catch (error: any) {
-      logger.error({ error }, 'SDK VTXOs error');
-      res.status(500).json({ 
-        success: false,
-        error: error.message 
-      });
-    }
-  });
-
-  // Get balance for a wallet
-  app.post('/api/asp/sdk/balance', async (req, res) => {
-    try {
-      if (process.env.ALLOW_UNSAFE_PRIVATE_KEY_API !== 'true') {
-        return res.status(410).json({
-          success: false,
-          error: 'This endpoint is disabled (unsafe: would handle private keys on the server).',
-        });
-      }
-      const { privateKey } = req.body;
-      
-      if (!privateKey) {
-        return res.status(400).json({ 
-          success: false,
-          error: 'privateKey required in request body' 
-        });
-      }
-      
-      const result = await queryBalanceViaSdk(privateKey);
-      res.json(result);
-    } catch (error: any) {
-      logger.error({ error }, 'SDK balance error');
-      res.status(500).json({ 
-        success: false,
-        error: error.message 
-      });
-    }
-  });
-
-  // Get transaction history for a wallet
-  app.post('/api/asp/sdk/history', async (req, res) => {
-    try {
-      if (process.env.ALLOW_UNSAFE_PRIVATE_KEY_API !== 'true') {
-        return res.status(410).json({
-          success: false,
-          error: 'This endpoint is disabled (unsafe: would handle private keys on the server).',
-        });
-      }
-      const { privateKey } = req.body;
-      
-      if (!privateKey) {
-        return res.status(400).json({ 
-          success: false,
-          error: 'privateKey required in request body' 
-        });
-      }
-      
-      const result = await queryHistoryViaSdk(privateKey);
-      res.json(result);
-    } catch (error: any) {
-      logger.error({ error }, 'SDK history error');
-      res.status(500).json({ 
-        success: false,
-        error: error.message 
-      });
-    }
-  });
-
-  // Get Arkade address from private key
-  app.post('/api/asp/sdk/address', async (req, res) => {
-    try {
-      if (process.env.ALLOW_UNSAFE_PRIVATE_KEY_API !== 'true') {
-        return res.status(410).json({
-          success: false,
-          error: 'This endpoint is disabled (unsafe: would handle private keys on the server).',
-        });
-      }
-      const { privateKey } = req.body;
-      
-      if (!privateKey) {
-        return res.status(400).json({ 
-          success: false,
-          error: 'privateKey required in request body' 
-        });
-      }
-      
-      const result = await getAddressViaSdk(privateKey);
-      res.json(result);
-    } catch (error: any) {
-      logger.error({ error }, 'SDK address error');
-      res.status(500).json({ 
-        success: false,
-        error: error.message 
-      });
-    }
-  });
-
-  // Verify if specific VTXO exists in a wallet
-  app.post('/api/asp/sdk/verify-vtxo', async (req, res) => {
-    try {
-      if (process.env.ALLOW_UNSAFE_PRIVATE_KEY_API !== 'true') {
-        return res.status(410).json({
-          success: false,
-          error: 'This endpoint is disabled (unsafe: would handle private keys on the server).',
-        });
-      }
-      const { privateKey, vtxoId } = req.body;
-      
-      if (!privateKey || !vtxoId) {
-        return res.status(400).json({ 
-          success: false,
-          error: 'privateKey and vtxoId required in request body' 
-        });
-      }
-      
-      const result = await verifyVtxoViaSdk(privateKey, vtxoId);
-      res.json(result);
-    } catch (error: any) {
-      logger.error({ error }, 'SDK verify VTXO error');
-      res.status(500).json({ 
-        success: false,
-        error: error.message 
-      });
-    }
-  });
-
   // Get active pre-sale tokens
   app.get('/api/presale/tokens', async (req, res) => {
     try {
@@ -1183,7 +1328,7 @@ export function createApiServer() {
       const totalBatchesSold = purchases.reduce((sum, p) => sum + p.batchesPurchased, 0);
       const batchAmount = BigInt(token.presaleBatchAmount || '0');
       const totalTokensSold = BigInt(totalBatchesSold) * batchAmount;
-      const totalSupply = BigInt(token.totalSupply);
+      const totalSupply = toBigInt(token.totalSupply);
       // Calculate percentage using floating point to avoid truncation
       const progressPercent = totalSupply > BigInt(0)
         ? (Number(totalTokensSold) / Number(totalSupply)) * 100
@@ -1222,13 +1367,15 @@ export function createApiServer() {
         orderBy: { purchasedAt: 'desc' },
       });
 
-      const totalBatches = purchases.reduce((sum, p) => sum + p.batchesPurchased, 0);
-      const totalPaid = purchases.reduce((sum, p) => sum + BigInt(p.totalPaid), 0n);
+      const totals = await prisma.presalePurchase.aggregate({
+        where: { tokenId, walletAddress: address },
+        _sum: { batchesPurchased: true, totalPaid: true },
+      });
 
       res.json({
         purchases,
-        totalBatches,
-        totalPaid: totalPaid.toString(),
+        totalBatches: totals._sum.batchesPurchased ?? 0,
+        totalPaid: totals._sum.totalPaid ? toAmountString(totals._sum.totalPaid) : '0',
       });
     } catch (error) {
       logger.error({ error }, 'Error fetching user purchases');
@@ -1291,6 +1438,23 @@ export function createApiServer() {
         return res.status(404).json({ error: 'Pre-sale token not found' });
       }
 
+      if (!isCreationConfirmed(token)) {
+        return res.status(409).json({ error: 'Pre-sale is frozen until the token creation confirms on L1', code: 'token-unconfirmed' });
+      }
+
+      // The price comes from the token, never from the client
+      const price = presalePrice(token, batchesPurchased);
+      if (price === null) {
+        return res.status(409).json({ error: 'Pre-sale price is not set', code: 'price-unset' });
+      }
+      if (BigInt(totalPaid) !== price) {
+        return res.status(400).json({
+          error: `totalPaid must be ${price} sats for ${batchesPurchased} batches`,
+          code: 'price-mismatch',
+          expectedAmount: price.toString(),
+        });
+      }
+
       // ============================================================================
       // PRE-FLIGHT CHECK: Verify supply available BEFORE accepting payment
       // ============================================================================
@@ -1304,7 +1468,7 @@ export function createApiServer() {
       
       const totalBatchesSold = allPurchases._sum.batchesPurchased || 0;
       const batchAmount = BigInt(token.presaleBatchAmount || '0');
-      const tokenSupply = BigInt(token.totalSupply);
+      const tokenSupply = toBigInt(token.totalSupply);
       const maxBatches = Number(tokenSupply / batchAmount);
       
       if (totalBatchesSold + batchesPurchased > maxBatches) {
@@ -1332,15 +1496,25 @@ export function createApiServer() {
         percentSold: ((totalBatchesSold / maxBatches) * 100).toFixed(2) + '%'
       }, '✅ Pre-flight passed: Supply available');
 
+      // A payment txid can back exactly one purchase
+      const reuse = await findPaymentReuse(prisma, txid);
+      if (reuse && reuse.outcome === 'rejected') {
+        logger.warn({ tokenId, txid }, '🚫 Payment txid already used by another purchase');
+        return res.status(409).json({ error: reuse.reason, code: reuse.code });
+      }
+
       // ============================================================================
       // PAYMENT VERIFICATION: Verify VTXO payment actually arrived at pool wallet
       // ============================================================================
       
       logger.info({ tokenId, txid, receiverAddress: token.creator }, '🔍 Verifying VTXO payment...');
       
+      // Amount received for txid, kept so a purchase that fails after payment can be refunded
+      let receivedAmount = 0n;
+      
       try {
-        // Find the pool wallet to get its private key for verification
-        const poolWallet = PRESALE_POOL_WALLETS.find(w => w.address === token.creator);
+        // Watch-only: the pool wallet's received payments come from the ASP by address
+        const poolWallet = await findPoolWallet(token.creator);
         
         if (!poolWallet) {
           logger.error({ tokenAddress: token.creator }, 'Token creator is not a pool wallet - cannot verify VTXO');
@@ -1349,48 +1523,55 @@ export function createApiServer() {
           });
         }
         
-        // Verify VTXO exists in the pool wallet using SDK
-        const verificationResult = await verifyVtxoViaSdk(poolWallet.privateKey, txid);
+        const vtxoValue = await getReceivedAmount(token.creator, txid);
         
-        if (!verificationResult.success || !verificationResult.exists) {
-          logger.warn({ txid, verificationResult }, 'VTXO not found in pool wallet - payment not confirmed');
+        if (vtxoValue === null) {
+          logger.warn({ txid }, 'VTXO not found in pool wallet - payment not confirmed');
           return res.status(400).json({ 
             error: 'Payment not confirmed. VTXO not found in destination wallet.' 
           });
         }
         
-        logger.info({ txid, verificationResult }, '📦 VTXO found in pool wallet');
+        logger.info({ txid, amount: vtxoValue.toString() }, '📦 VTXO found in pool wallet');
         
-        // Extract VTXO value
-        const vtxoValue = verificationResult.vtxo?.value;
+        // Verify payment amount covers the price (an excess is refunded after the purchase)
+        const expectedAmount = price;
+        const actualAmount = vtxoValue;
+        receivedAmount = actualAmount;
+        const amountCheck = checkPaymentAmount(expectedAmount, actualAmount);
         
-        if (!vtxoValue) {
-          logger.warn({ txid, verificationResult }, 'VTXO found but has no value');
-          return res.status(400).json({ 
-            error: 'Payment verification failed. VTXO has no value.' 
-          });
-        }
-        
-        // Verify payment amount matches expected amount
-        const expectedAmount = parseInt(totalPaid.toString());
-        const actualAmount = parseInt(vtxoValue.toString());
-        
-        if (actualAmount !== expectedAmount) {
+        if (amountCheck && amountCheck.outcome === 'rejected') {
           logger.warn({ 
             txid, 
-            expectedAmount,
-            actualAmount
+            expectedAmount: expectedAmount.toString(),
+            actualAmount: actualAmount.toString(),
+            code: amountCheck.code
           }, 'VTXO amount mismatch');
           return res.status(400).json({ 
-            error: `Payment amount mismatch. Expected ${expectedAmount} sats, received ${actualAmount} sats.` 
+            error: amountCheck.reason,
+            code: amountCheck.code
+          });
+        }
+        
+        // The buyer must have sent the payment, not just know its txid
+        const fromBuyer = await isPaymentFrom(walletAddress, txid);
+        if (fromBuyer === null) {
+          logger.warn({ txid, walletAddress }, 'Buyer wallet history unavailable - cannot verify sender');
+          return res.status(503).json({ error: 'Payment verification failed. Please try again.' });
+        }
+        if (!fromBuyer) {
+          const rejection = wrongSender(txid, walletAddress);
+          logger.warn({ txid, walletAddress }, '🚫 Payment was not sent by the buyer');
+          return res.status(400).json({
+            error: rejection.reason,
+            code: rejection.code
           });
         }
         
         logger.info({ 
           txid, 
           receiver: token.creator,
-          amount: actualAmount,
-          vtxoStatus: verificationResult.vtxo?.status
+          amount: actualAmount.toString()
         }, '✅ VTXO payment verified in pool wallet');
         
       } catch (error: any) {
@@ -1405,33 +1586,25 @@ export function createApiServer() {
       // ============================================================================
       
       // PRE-TRANSACTION: Check if rotation needed and get next wallet BEFORE transaction
-      let nextWalletForRotation: string | null = null;
+      let nextWalletForRotation: PoolWallet | null = null;
       
-      if (PRESALE_POOL_CONFIG.enabled && token.creator) {
-        const amountInSats = parseInt(totalPaid.toString());
-        const currentWallet = PRESALE_POOL_WALLETS.find(w => w.address === token.creator);
+      if ((await getPresaleSettings()).poolEnabled && token.creator) {
+        const amountInSats = price;
         
-        if (currentWallet) {
-          const wouldExceedThreshold = (currentWallet.currentVolume + amountInSats) > PRESALE_POOL_CONFIG.WALLET_THRESHOLD_SATS;
+        if (await wouldExceedCapacity(token.creator, amountInSats)) {
+          logger.info({ 
+            tokenId, 
+            currentWallet: token.creator.slice(0, 20) + '...', 
+            newAmount: amountInSats.toString()
+          }, '🔄 Pre-checking: Rotation will be needed');
           
-          if (wouldExceedThreshold) {
-            logger.info({ 
-              tokenId, 
-              currentWallet: currentWallet.address.slice(0, 20) + '...', 
-              currentVolume: currentWallet.currentVolume,
-              newAmount: amountInSats,
-              threshold: PRESALE_POOL_CONFIG.WALLET_THRESHOLD_SATS
-            }, '🔄 Pre-checking: Rotation will be needed');
-            
-            // Get next available wallet BEFORE starting transaction (this is slow - queries ASP)
-            const nextWallet = await getNextAvailablePoolWallet();
-            nextWalletForRotation = nextWallet.address;
-            
-            logger.info({ 
-              tokenId, 
-              nextWallet: nextWalletForRotation.slice(0, 20) + '...' 
-            }, '✅ Next wallet prepared for rotation');
-          }
+          // Get next available wallet BEFORE starting transaction (this is slow - queries ASP)
+          nextWalletForRotation = await getNextAvailablePoolWallet(token.creator);
+          
+          logger.info({ 
+            tokenId, 
+            nextWallet: nextWalletForRotation.address.slice(0, 20) + '...' 
+          }, '✅ Next wallet prepared for rotation');
         }
       }
       
@@ -1446,6 +1619,12 @@ export function createApiServer() {
 
           logger.info({ tokenId, lockKey1, lockKey2 }, '🔒 Acquired database lock for purchase');
           
+          // Re-check under the lock so two concurrent submissions cannot share a txid
+          const reusedInTx = await findPaymentReuse(tx, txid);
+          if (reusedInTx && reusedInTx.outcome === 'rejected') {
+            throw new Error(reusedInTx.reason);
+          }
+          
           // Lock the token row to prevent concurrent modifications
           const [lockedToken] = await tx.$queryRaw<any[]>`
             SELECT * FROM "tokens" WHERE id = ${tokenId} FOR UPDATE
@@ -1462,14 +1641,15 @@ export function createApiServer() {
             // Update token's creator address to new wallet (fast - no ASP queries)
             await tx.token.update({
               where: { id: tokenId },
-              data: { creator: nextWalletForRotation }
+              data: { creator: nextWalletForRotation.address }
             });
+            await openAssignment(tx, tokenId, nextWalletForRotation.id, 'rotation');
             
-            currentCreatorAddress = nextWalletForRotation;
+            currentCreatorAddress = nextWalletForRotation.address;
             
             logger.info({ 
               tokenId, 
-              newWallet: nextWalletForRotation.slice(0, 20) + '...' 
+              newWallet: currentCreatorAddress.slice(0, 20) + '...' 
             }, '✅ Rotated to new pool wallet (atomic)');
           }
           
@@ -1497,15 +1677,14 @@ export function createApiServer() {
           
           const totalBatchesSoldSoFar = allPurchases._sum.batchesPurchased || 0;
           const batchAmount = BigInt(lockedToken.presaleBatchAmount || '0');
-          const tokenSupply = BigInt(lockedToken.totalSupply);
+          const tokenSupply = toBigInt(lockedToken.totalSupply);
           const maxBatches = Number(tokenSupply / batchAmount);
           
           if (totalBatchesSoldSoFar + batchesPurchased > maxBatches) {
             const remainingBatches = maxBatches - totalBatchesSoldSoFar;
             
-            // TODO: CRITICAL - User already paid! Need refund mechanism
-            // Their VTXO payment was verified but supply ran out due to race condition
-            // Options: 1) Automatic refund via SDK, 2) Manual refund process, 3) Failed purchase table
+            // User already paid: their VTXO payment was verified but supply ran out
+            // due to a race condition. The payment is refunded after the transaction.
             logger.error({
               tokenId,
               walletAddress,
@@ -1513,7 +1692,7 @@ export function createApiServer() {
               amountPaid: totalPaid.toString(),
               batchesRequested: batchesPurchased,
               remainingBatches
-            }, '🚨 PAYMENT RECEIVED BUT SUPPLY INSUFFICIENT - REFUND NEEDED');
+            }, '🚨 PAYMENT RECEIVED BUT SUPPLY INSUFFICIENT - REFUNDING');
             
             throw new Error(`Insufficient supply. Only ${remainingBatches} batches remaining (you tried to purchase ${batchesPurchased} batches).`);
           }
@@ -1537,6 +1716,9 @@ export function createApiServer() {
             },
           });
           
+          // Deliver tokens from the presale reserve (within transaction)
+          await creditPresalePurchase(tx, lockedToken, newPurchase);
+          
           logger.info({ 
             tokenId, 
             walletAddress, 
@@ -1545,12 +1727,6 @@ export function createApiServer() {
             finalCreator: currentCreatorAddress 
           }, '✅ Pre-sale purchase recorded (atomic)');
           
-          // Update pool wallet volume tracking (deprecated but kept for compatibility)
-          if (PRESALE_POOL_CONFIG.enabled && currentCreatorAddress) {
-            const amountInSats = parseInt(totalPaid.toString());
-            updatePoolWalletVolume(currentCreatorAddress, amountInSats);
-          }
-          
           return newPurchase;
         }, {
           timeout: 15000, // 15 seconds timeout (increased from default 5s)
@@ -1559,13 +1735,48 @@ export function createApiServer() {
         // Transaction committed successfully - lock released
         logger.info({ tokenId }, '🔓 Database lock released');
         
-        res.json({ success: true, purchase });
+        // The purchase stands; what was paid beyond the price goes back to the payer
+        const excess = overpaidAmount(price, receivedAmount);
+        let overpaymentRefund: string | undefined;
+        if (excess > 0n) {
+          try {
+            const refund = await refundProcessor.queueRefund({
+              paymentTxid: txid,
+              tokenId,
+              walletAddress,
+              poolWalletAddress: token.creator,
+              amount: excess,
+              reason: 'overpaid'
+            }, globalIO || undefined);
+            overpaymentRefund = refund?.status || 'pending';
+          } catch (error: any) {
+            logger.error({ tokenId, txid, excess: excess.toString(), error: error.message }, '🚨 Failed to queue overpayment refund - manual review needed');
+          }
+        }
+        
+        res.json({ success: true, purchase, ...(overpaymentRefund ? { refund: overpaymentRefund } : {}) });
         
       } catch (error: any) {
         logger.error({ tokenId, error: error.message }, 'Transaction failed');
         
-        if (error.message.includes('Purchase limit exceeded')) {
-          return res.status(400).json({ error: error.message });
+        // The payment was verified but cannot buy anything: send it back
+        if (error.message.includes('Purchase limit exceeded') || error.message.startsWith('Insufficient supply')) {
+          const refund = await refundProcessor.queueRefund({
+            paymentTxid: txid,
+            tokenId,
+            walletAddress,
+            poolWalletAddress: token.creator,
+            amount: receivedAmount,
+            reason: error.message.startsWith('Insufficient supply') ? 'supply-exhausted' : 'purchase-limit'
+          }, globalIO || undefined);
+          return res.status(400).json({
+            error: error.message,
+            refund: refund?.status || 'pending'
+          });
+        }
+        
+        if (error.message.startsWith('Payment reused')) {
+          return res.status(409).json({ error: error.message, code: 'payment-reused' });
         }
         
         return res.status(500).json({ error: 'Purchase transaction failed. Please try again.' });
@@ -1595,97 +1806,251 @@ export function createApiServer() {
   
   /**
    * Background monitor that checks all presale tokens periodically
-   * and rotates wallets when they reach threshold - independent of purchases
+   * and rotates wallets when they reach threshold - independent of purchases.
+   * Registry state lives in the database, so every instance may run it; the
+   * rotation itself is skipped while a purchase holds the token lock.
    */
-  if (PRESALE_POOL_CONFIG.enabled) {
-    logger.info({ 
-      intervalMs: PRESALE_POOL_CONFIG.MONITOR_INTERVAL_MS,
-      intervalSeconds: PRESALE_POOL_CONFIG.MONITOR_INTERVAL_MS / 1000 
-    }, '🔄 Starting pool wallet background monitor');
-    
-    setInterval(async () => {
-      try {
-        logger.info('🔍 [Monitor] Checking all presale tokens for wallet rotation...');
-        
-        // Find all presale tokens using pool wallets
-        const presaleTokens = await prisma.token.findMany({
-          where: {
-            isPresale: true,
-            creator: {
-              in: PRESALE_POOL_WALLETS.map(w => w.address)
-            }
-          },
-          select: {
-            id: true,
-            name: true,
-            creator: true
-          }
-        });
-        
-        if (presaleTokens.length === 0) {
-          logger.info('[Monitor] No active presale tokens found');
-          return;
+  syncPoolWalletRegistry().catch((error) => {
+    logger.error({ error: error.message }, '❌ Failed to sync pool wallet registry');
+  });
+
+  logger.info({ 
+    intervalMs: PRESALE_POOL_CONFIG.MONITOR_INTERVAL_MS,
+    intervalSeconds: PRESALE_POOL_CONFIG.MONITOR_INTERVAL_MS / 1000 
+  }, '🔄 Starting pool wallet background monitor');
+  
+  setInterval(async () => {
+    try {
+      if (!(await getPresaleSettings()).poolEnabled) {
+        return;
+      }
+
+      logger.info('🔍 [Monitor] Checking all presale tokens for wallet rotation...');
+      
+      // Find all presale tokens currently assigned to a pool wallet
+      const presaleTokens = await prisma.token.findMany({
+        where: {
+          isPresale: true,
+          poolWalletAssignments: { some: { releasedAt: null } }
+        },
+        select: {
+          id: true,
+          name: true,
+          creator: true
         }
-        
-        logger.info({ count: presaleTokens.length }, '[Monitor] Found presale tokens to check');
-        
-        // Check each token and rotate if needed (with database locks)
-        for (const token of presaleTokens) {
-          try {
-            // Check if rotation is needed BEFORE transaction (query ASP first)
-            const newWalletAddress = await checkAndRotateIfNeeded(token.id, token.creator);
-            
-            if (newWalletAddress) {
-              // Use PostgreSQL advisory lock to prevent race conditions during update
-              await prisma.$transaction(async (tx) => {
-                // Create numeric lock ID from tokenId (use 15 chars to stay in safe integer range)
-                const lockId = parseInt(token.id.slice(0, 15), 16);
-                
-                // Try to acquire lock (skip if already locked by purchase)
-                const [lockResult] = await tx.$queryRaw<Array<{ pg_try_advisory_xact_lock: boolean }>>`
-                  SELECT pg_try_advisory_xact_lock(${lockId}::bigint)
-                `;
-                
-                if (!lockResult.pg_try_advisory_xact_lock) {
-                  logger.info({ tokenId: token.id }, '[Monitor] Token locked by another operation, skipping rotation');
-                  return;
-                }
-                
-                logger.info({ tokenId: token.id, lockId }, '🔒 [Monitor] Acquired database lock for rotation');
-                
-                // Update token's creator to new wallet (within transaction)
-                await tx.token.update({
-                  where: { id: token.id },
-                  data: { creator: newWalletAddress }
-                });
-                
-                logger.info({ 
-                  tokenId: token.id,
-                  tokenName: token.name,
-                  oldWallet: token.creator.slice(0, 20) + '...',
-                  newWallet: newWalletAddress.slice(0, 20) + '...'
-                }, '✅ [Monitor] Token wallet rotated (atomic)');
-                
-                logger.info({ tokenId: token.id }, '🔓 [Monitor] Database lock released');
-              });
-            }
-          } catch (error: any) {
-            logger.error({ 
-              tokenId: token.id, 
-              errorName: error.name,
-              errorMessage: error.message,
-              errorStack: error.stack
-            }, '[Monitor] Failed to rotate token wallet');
+      });
+      
+      if (presaleTokens.length === 0) {
+        logger.info('[Monitor] No active presale tokens found');
+        return;
+      }
+      
+      logger.info({ count: presaleTokens.length }, '[Monitor] Found presale tokens to check');
+      
+      // Check each token and rotate if needed (rotation takes the token lock)
+      for (const token of presaleTokens) {
+        try {
+          const newWalletAddress = await checkAndRotateIfNeeded(token.id, token.creator);
+          
+          if (newWalletAddress) {
+            logger.info({ 
+              tokenId: token.id,
+              tokenName: token.name,
+              oldWallet: token.creator.slice(0, 20) + '...',
+              newWallet: newWalletAddress.slice(0, 20) + '...'
+            }, '✅ [Monitor] Token wallet rotated (atomic)');
           }
+        } catch (error: any) {
+          logger.error({ 
+            tokenId: token.id, 
+            errorName: error.name,
+            errorMessage: error.message,
+            errorStack: error.stack
+          }, '[Monitor] Failed to rotate token wallet');
         }
-        
-        logger.info('[Monitor] Check completed');
-      } catch (error) {
-        logger.error({ error }, '[Monitor] Error in background wallet check');
       }
-    }, PRESALE_POOL_CONFIG.MONITOR_INTERVAL_MS);
+      
+      logger.info('[Monitor] Check completed');
+    } catch (error) {
+      logger.error({ error }, '[Monitor] Error in background wallet check');
+    }
+  }, PRESALE_POOL_CONFIG.MONITOR_INTERVAL_MS);
+
+  // ============================================================================
+  // BACKGROUND MONITOR: Presale Refunds
+  // ============================================================================
+
+  /**
+   * Queues refunds for paid-but-rejected requests (including late payments found
+   * on deposit addresses) and sends them from the receiving address, then moves
+   * the deposits of confirmed requests into their pool wallet. Refunds and
+   * deposits are claimed atomically, so running this on several instances is safe.
+   */
+  if (PRESALE_POOL_CONFIG.REFUNDS_ENABLED) {
+    logger.info({
+      intervalMs: PRESALE_POOL_CONFIG.REFUND_INTERVAL_MS
+    }, '↩️ Starting presale refund monitor');
+
+    setInterval(async () => {
+      try {
+        const { roundProcessor } = await import('../queue/roundProcessor');
+        await roundProcessor.detectDepositPayments();
+        await refundProcessor.queueRefunds(globalIO || undefined);
+        await refundProcessor.processRefunds(globalIO || undefined);
+        await sweepProcessor.consolidateDeposits();
+      } catch (error: any) {
+        logger.error({ error: error.message }, '[Refunds] Error in refund run');
+      }
+    }, PRESALE_POOL_CONFIG.REFUND_INTERVAL_MS);
   }
 
+  /**
+   * Cold storage sweep monitor
+   * Moves funds out of full (or over-limit) pool wallets to the configured
+   * destination, keeping what pending refunds still need. Runs only where the
+   * keystore holds the wallet keys.
+   */
+  if (PRESALE_POOL_CONFIG.SWEEP_ENABLED) {
+    if (!PRESALE_POOL_CONFIG.SWEEP_DESTINATION_ADDRESS) {
+      logger.warn('⚠️ PRESALE_SWEEP_ENABLED is set but PRESALE_SWEEP_DESTINATION_ADDRESS is not - sweeps disabled');
+    } else {
+      logger.info({
+        intervalMs: PRESALE_POOL_CONFIG.SWEEP_INTERVAL_MS,
+        destination: PRESALE_POOL_CONFIG.SWEEP_DESTINATION_ADDRESS.slice(0, 20) + '...'
+      }, '🧊 Starting pool wallet sweep monitor');
+
+      setInterval(async () => {
+        try {
+          // Make sure payments awaiting refund are reserved before sweeping
+          await refundProcessor.queueRefunds(globalIO || undefined);
+          await sweepProcessor.processSweeps();
+        } catch (error: any) {
+          logger.error({ error: error.message }, '[Sweeps] Error in sweep run');
+        }
+      }, PRESALE_POOL_CONFIG.SWEEP_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Pending transfer reconciler
+   * Settles API transfers once the ASP confirms their VTXO, and fails those it
+   * rejects or never confirms. Claims are conditional, so several instances
+   * can run it.
+   */
+  logger.info({
+    intervalMs: TRANSFER_CONFIG.RECONCILE_INTERVAL_MS,
+    pendingTimeoutMs: TRANSFER_CONFIG.PENDING_TIMEOUT_MS
+  }, '🔁 Starting pending transfer reconciler');
+
+  setInterval(async () => {
+    try {
+      await transferReconciler.reconcilePendingTransfers(globalIO || undefined);
+    } catch (error: any) {
+      logger.error({ error: error.message }, '[Transfers] Error in reconciler run');
+    }
+  }, TRANSFER_CONFIG.RECONCILE_INTERVAL_MS);
+
+  /**
+   * Supply auditor
+   * Checks every token's supply invariants and alerts (log + supply-alert
+   * event) when one diverges. Read-only, safe on every instance.
+   */
+  if (SUPPLY_AUDIT_CONFIG.ENABLED) {
+    logger.info({
+      intervalMs: SUPPLY_AUDIT_CONFIG.INTERVAL_MS
+    }, '🔎 Starting supply auditor');
+
+    setInterval(async () => {
+      try {
+        await supplyAuditor.auditAllTokens(globalIO || undefined);
+      } catch (error: any) {
+        logger.error({ error: error.message }, '[Audit] Error in supply audit run');
+      }
+    }, SUPPLY_AUDIT_CONFIG.INTERVAL_MS);
+  }
+
+  /**
+   * L1 block scanner
+   * Registers ARK CREATE transactions nobody registered through the API and
+   * records ARK COMMITs, resuming from its checkpoint. Enable it on one instance.
+   */
+  if (BLOCK_SCANNER_CONFIG.ENABLED) {
+    logger.info({
+      intervalMs: BLOCK_SCANNER_CONFIG.INTERVAL_MS,
+      startHeight: BLOCK_SCANNER_CONFIG.START_HEIGHT
+    }, '⛓️ Starting L1 block scanner');
+
+    setInterval(async () => {
+      try {
+        await blockScanner.scanNewBlocks();
+      } catch (error: any) {
+        logger.error({ error: error.message }, '[Scanner] Error in block scan run');
+      }
+    }, BLOCK_SCANNER_CONFIG.INTERVAL_MS);
+  }
+
+  /**
+   * Creation proof tracker
+   * Counts confirmations of token creation proofs from the tip and sends a
+   * token back to pending (or failed) when a reorg drops its block, freezing
+   * settlement and presale until it confirms again.
+   */
+  if (PROOF_TRACKER_CONFIG.ENABLED) {
+    logger.info({
+      intervalMs: PROOF_TRACKER_CONFIG.INTERVAL_MS,
+      safeConfirmations: PROOF_TRACKER_CONFIG.SAFE_CONFIRMATIONS
+    }, '⛓️ Starting creation proof tracker');
+
+    setInterval(async () => {
+      try {
+        await proofTracker.checkProofs(globalIO || undefined);
+      } catch (error: any) {
+        logger.error({ error: error.message }, '[Proofs] Error in proof tracker run');
+      }
+    }, PROOF_TRACKER_CONFIG.INTERVAL_MS);
+  }
+
+  /**
+   * GET /api/presale/refunds/:walletAddress
+   * Refund status for a payer
+   *
+   * Response:
+   * - refunds: Refunds for this wallet, newest first
+   */
+  app.get('/api/presale/refunds/:walletAddress', async (req, res) => {
+    try {
+      const { walletAddress } = req.params;
+
+      if (!isValidArkadeAddress(String(walletAddress))) {
+        return res.status(400).json({ error: 'Invalid walletAddress' });
+      }
+
+      const refunds = await prisma.refund.findMany({
+        where: { walletAddress },
+        orderBy: { createdAt: 'desc' },
+        take: 100
+      });
+
+      res.json({
+        refunds: refunds.map((r) => ({
+          id: r.id,
+          requestId: r.purchaseRequestId,
+          tokenId: r.tokenId,
+          paymentTxid: r.paymentTxid,
+          amount: r.amount,
+          reason: r.reason,
+          status: r.status,
+          refundTxid: r.refundTxid,
+          createdAt: r.createdAt,
+          completedAt: r.completedAt
+        }))
+      });
+    } catch (error: any) {
+      logger.error({ error: error.message }, 'Error fetching refunds');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // ============================================================================
   // ROUND-BASED PURCHASE ENDPOINTS
   // ============================================================================
@@ -1717,7 +2082,7 @@ export function createApiServer() {
       }
 
       // Calculate available supply
-      const totalSupply = BigInt(token.totalSupply);
+      const totalSupply = toBigInt(token.totalSupply);
       const batchAmount = BigInt(token.presaleBatchAmount || '0');
       const maxBatches = Number(totalSupply / batchAmount);
 
@@ -1868,6 +2233,23 @@ export function createApiServer() {
         return await respond(404, { error: 'Pre-sale token not found' });
       }
 
+      if (!isCreationConfirmed(token)) {
+        return await respond(409, { error: 'Pre-sale is frozen until the token creation confirms on L1', code: 'token-unconfirmed' });
+      }
+
+      // The price comes from the token, never from the client
+      const price = presalePrice(token, Number(batchesPurchased));
+      if (price === null) {
+        return await respond(409, { error: 'Pre-sale price is not set', code: 'price-unset' });
+      }
+      if (!/^\d+$/.test(String(totalPaid)) || BigInt(totalPaid) !== price) {
+        return await respond(400, {
+          error: `totalPaid must be ${price} sats for ${batchesPurchased} batches`,
+          code: 'price-mismatch',
+          expectedAmount: price.toString(),
+        });
+      }
+
       logger.info({ 
         tokenId, 
         walletAddress: walletAddress.slice(0, 20) + '...',
@@ -2040,10 +2422,27 @@ export function createApiServer() {
         await roundProcessor.processPaymentTimeouts(globalIO || undefined, reqRow.tokenId);
       }
 
-      const updated = await roundProcessor.submitPaymentTxid(requestId, txid);
-
-      if (!updated) {
-        logger.warn({ requestId }, '⚠️ Request not found or expired');
+      const submitted = await roundProcessor.submitPaymentTxid(requestId, txid);
+
+      if (!submitted.ok) {
+        if (submitted.refundable) {
+          await refundProcessor.queueRefunds(globalIO || undefined, reqRow?.tokenId);
+          const refund = await prisma.refund.findUnique({ where: { purchaseRequestId: requestId } });
+          return await respond(400, {
+            success: false,
+            status: 'rejected',
+            code: submitted.code,
+            error: submitted.reason,
+            refund: refund?.status || 'pending'
+          });
+        }
+        if (submitted.code === 'payment-reused') {
+          return await respond(409, { error: submitted.reason, code: submitted.code });
+        }
+        if (submitted.code === 'wrong-sender') {
+          return await respond(400, { error: submitted.reason, code: submitted.code });
+        }
+        logger.warn({ requestId, reason: submitted.reason }, '⚠️ Request not found or expired');
         return await respond(404, {
           error: 'Request not found or payment window expired' 
         });
@@ -2060,6 +2459,19 @@ export function createApiServer() {
         });
       }
 
+      if (result.status === 'rejected') {
+        // Underpaid/overpaid payments go back to the payer
+        await refundProcessor.queueRefunds(globalIO || undefined, reqRow?.tokenId);
+        const refund = await prisma.refund.findUnique({ where: { purchaseRequestId: requestId } });
+        return await respond(400, {
+          success: false,
+          status: 'rejected',
+          code: result.code,
+          error: result.reason || 'Payment rejected',
+          ...(refund ? { refund: refund.status } : {})
+        });
+      }
+
       return await respond(200, {
         success: true,
         status: 'pending',
@@ -2190,6 +2602,7 @@ export function createApiServer() {
           status: 'rejected',
           paymentStatus: 'rejected',
           rejectionReason: 'User canceled payment',
+          rejectionCode: 'canceled',
           processedAt: new Date()
         }
       });
@@ -2228,6 +2641,7 @@ export function createApiServer() {
 
       // On-demand cleanup + promotion (no background loops)
       const { roundProcessor } = await import('../queue/roundProcessor');
+      await roundProcessor.detectDepositPayments(tokenId);
       await roundProcessor.processPaymentTimeouts(globalIO || undefined, tokenId);
       await roundProcessor.processSupplyCheckRound(tokenId, globalIO || undefined);
 
@@ -2272,6 +2686,10 @@ export function createApiServer() {
             paymentRequestedAt: r.paymentRequestedAt,
             roundNumber: r.roundNumber,
             rejectionReason: r.rejectionReason,
+            rejectionCode: r.rejectionCode,
+            paymentAddress: r.paymentAddress,
+            depositAddress: r.depositAddress,
+            paidAmount: r.paidAmount,
             queuePosition: rows?.[0]?.position ?? 0
           };
         })
@@ -2318,6 +2736,7 @@ export function createApiServer() {
 
       // On-demand cleanup + promotion (no background loops)
       const { roundProcessor } = await import('../queue/roundProcessor');
+      await roundProcessor.detectDepositPayments(tokenId);
       await roundProcessor.processPaymentTimeouts(globalIO || undefined, tokenId);
       await roundProcessor.processSupplyCheckRound(tokenId, globalIO || undefined);
 
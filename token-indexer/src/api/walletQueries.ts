@@ -0,0 +1,206 @@
+import { Router, Request, Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { logger } from '../utils/logger';
+import { isValidArkadeAddress } from '../utils/arkadeAddress';
+import { isCompressedPublicKey } from '../utils/secp256k1';
+import { arkadeClient } from '../services/arkadeClient';
+import { getAddressFromPublicKeyViaSdk } from '../services/arkSdk';
+import {
+  WalletChallengeError,
+  issueWalletChallenge,
+  verifyWalletChallenge
+} from '../services/walletChallenge';
+
+/**
+ * Wallet queries authenticated by a signed challenge instead of a private key.
+ * Answers come from public ASP indexer data only.
+ */
+const router = Router();
+
+const addressField = body('address').isString().custom((value) => isValidArkadeAddress(value));
+
+const proofFields = [
+  addressField,
+  body('publicKey').isString().custom((value) => /^[0-9a-fA-F]{64}$/.test(value) || isCompressedPublicKey(value)),
+  body('nonce').isString().matches(/^[0-9a-f]{64}$/),
+  body('signature').isString().matches(/^[0-9a-fA-F]{128}$/),
+];
+
+function rejectInvalid(req: Request, res: Response): boolean {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ success: false, errors: errors.array() });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Validate the request and its challenge proof.
+ * Returns false once a response has been sent.
+ */
+async function authorize(req: Request, res: Response): Promise<boolean> {
+  if (rejectInvalid(req, res)) return false;
+
+  const { address, publicKey, nonce, signature } = req.body;
+  try {
+    await verifyWalletChallenge({ address, publicKey, nonce, signature });
+    return true;
+  } catch (error: any) {
+    if (error instanceof WalletChallengeError) {
+      logger.warn({ address, code: error.code }, 'Wallet challenge rejected');
+      res.status(401).json({ success: false, error: error.message, code: error.code });
+      return false;
+    }
+    throw error;
+  }
+}
+
+function aspUnavailable(res: Response) {
+  return res.status(502).json({ success: false, error: 'ASP indexer unavailable' });
+}
+
+/**
+ * POST /api/wallet/challenge
+ * Issue a single-use challenge for an address
+ *
+ * Body:
+ * - address: Arkade address to prove ownership of
+ *
+ * Response:
+ * - nonce: Send back with the query
+ * - message: Sign SHA-256(message) with BIP340 Schnorr
+ * - expiresAt: Challenge expiry
+ */
+router.post('/wallet/challenge', [addressField], async (req: Request, res: Response) => {
+  if (rejectInvalid(req, res)) return;
+  try {
+    res.status(201).json({ success: true, ...(await issueWalletChallenge(req.body.address)) });
+  } catch (error: any) {
+    logger.error({ error: error.message }, 'Error issuing wallet challenge');
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/wallet/vtxos
+ * VTXOs of the address (spent and unspent)
+ *
+ * Body (all challenge-signed queries):
+ * - address, publicKey, nonce, signature
+ */
+router.post('/wallet/vtxos', proofFields, async (req: Request, res: Response) => {
+  try {
+    if (!(await authorize(req, res))) return;
+
+    const vtxos = await arkadeClient.getVtxosByAddress(req.body.address);
+    if (!vtxos) return aspUnavailable(res);
+
+    res.json({
+      success: true,
+      vtxos: vtxos.map((v) => ({ ...v, amount: v.amount.toString() })),
+      total: vtxos.length,
+    });
+  } catch (error: any) {
+    logger.error({ error: error.message }, 'Wallet VTXOs error');
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/wallet/balance
+ * Available (unswept) and total unspent balance in sats
+ */
+router.post('/wallet/balance', proofFields, async (req: Request, res: Response) => {
+  try {
+    if (!(await authorize(req, res))) return;
+
+    const balance = await arkadeClient.getAddressBalance(req.body.address);
+    if (!balance) return aspUnavailable(res);
+
+    res.json({
+      success: true,
+      available: balance.available.toString(),
+      total: balance.total.toString(),
+    });
+  } catch (error: any) {
+    logger.error({ error: error.message }, 'Wallet balance error');
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/wallet/history
+ * Received and sent transactions, oldest first
+ */
+router.post('/wallet/history', proofFields, async (req: Request, res: Response) => {
+  try {
+    if (!(await authorize(req, res))) return;
+
+    const history = await arkadeClient.getAddressHistory(req.body.address);
+    if (!history) return aspUnavailable(res);
+
+    res.json({
+      success: true,
+      transactions: history.map((tx) => ({ ...tx, amount: tx.amount.toString() })),
+      total: history.length,
+    });
+  } catch (error: any) {
+    logger.error({ error: error.message }, 'Wallet history error');
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/wallet/verify-vtxo
+ * Whether a transaction created a VTXO at the address
+ *
+ * Body: challenge proof plus
+ * - vtxoId: Txid of the VTXO
+ */
+router.post('/wallet/verify-vtxo',
+  [...proofFields, body('vtxoId').isString().matches(/^[0-9a-fA-F]{64}$/)],
+  async (req: Request, res: Response) => {
+    try {
+      if (!(await authorize(req, res))) return;
+
+      const vtxos = await arkadeClient.getVtxosByAddress(req.body.address);
+      if (!vtxos) return aspUnavailable(res);
+
+      const matches = vtxos.filter((v) => v.txid === req.body.vtxoId);
+      res.json({
+        success: true,
+        exists: matches.length > 0,
+        vtxos: matches.map((v) => ({ ...v, amount: v.amount.toString() })),
+      });
+    } catch (error: any) {
+      logger.error({ error: error.message }, 'Wallet verify VTXO error');
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * GET /api/wallet/address/:publicKey
+ * Arkade address of a public key (x-only or compressed, hex). Public data, no challenge.
+ */
+router.get('/wallet/address/:publicKey',
+  [param('publicKey').custom((value) => /^[0-9a-fA-F]{64}$/.test(value) || isCompressedPublicKey(value))],
+  async (req: Request, res: Response) => {
+    if (rejectInvalid(req, res)) return;
+    try {
+      const { publicKey } = req.params;
+      const compressed = publicKey.length === 64 ? `02${publicKey}` : publicKey;
+      const result = await getAddressFromPublicKeyViaSdk(compressed);
+      if (!result.success) {
+        return res.status(502).json(result);
+      }
+      res.json(result);
+    } catch (error: any) {
+      logger.error({ error: error.message }, 'Wallet address error');
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
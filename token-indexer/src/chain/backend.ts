@@ -0,0 +1,69 @@
+/**
+ * Chain backend - read access to the Bitcoin L1 chain
+ *
+ * The indexer only sees the chain through this interface, so it can run
+ * against any backend that implements it: Esplora (esplora.ts) or Bitcoin
+ * Core JSON-RPC (bitcoind.ts), chosen by CHAIN_CONFIG (see chain/index.ts).
+ */
+
+import { extractOpReturnPayload } from '@arkade-token/sdk';
+
+export interface ChainTip {
+  height: number;
+  hash: string;
+}
+
+export interface ChainOutput {
+  scriptHex: string;
+  value: number; // sats
+}
+
+export interface ChainTransaction {
+  txid: string;
+  outputs: ChainOutput[];
+}
+
+export interface ChainBlock {
+  height: number;
+  hash: string;
+  previousHash: string;
+  transactions: ChainTransaction[];
+}
+
+// Where a transaction sits in the best chain; unconfirmed means it is in the mempool
+export interface ChainTxStatus {
+  confirmed: boolean;
+  blockHeight: number | null;
+  blockHash: string | null;
+  blockTime: number | null; // Unix seconds
+}
+
+// A transaction with its funding address (address of the first input's prevout, if standard)
+export interface ChainTransactionDetails extends ChainTransaction {
+  senderAddress: string | null;
+}
+
+export interface ChainBackend {
+  readonly name: string;
+  getTip(): Promise<ChainTip>;
+  getBlock(height: number): Promise<ChainBlock>;
+  getBlockHash(height: number): Promise<string>;
+  // null if the backend does not know the transaction
+  getTx(txid: string): Promise<ChainTransactionDetails | null>;
+  // null if the transaction is neither in the best chain nor in the mempool
+  getTxStatus(txid: string): Promise<ChainTxStatus | null>;
+}
+
+/**
+ * Payload of a transaction's first OP_RETURN output, or null if it has none.
+ * Throws a CodecError if that output is malformed.
+ */
+export function firstOpReturnPayload(tx: ChainTransaction): Buffer | null {
+  for (const output of tx.outputs) {
+    const payload = extractOpReturnPayload(Buffer.from(output.scriptHex, 'hex'));
+    if (payload) {
+      return payload;
+    }
+  }
+  return null;
+}
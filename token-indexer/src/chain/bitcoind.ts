@@ -0,0 +1,127 @@
+/**
+ * Bitcoin Core JSON-RPC chain backend (a local bitcoind, e.g. on regtest)
+ *
+ * Looking up confirmed transactions by txid needs the node to run with
+ * txindex=1. Sender addresses come from the prevouts getrawtransaction
+ * returns at verbosity 2 (Bitcoin Core 25+); older nodes report none.
+ */
+
+import { ChainBackend, ChainBlock, ChainTip, ChainTransactionDetails, ChainTxStatus } from './backend';
+
+// Bitcoin Core error code for an unknown transaction or block
+const RPC_INVALID_ADDRESS_OR_KEY = -5;
+
+const NULL_HASH = '0'.repeat(64);
+
+class BitcoindRpcError extends Error {
+  constructor(message: string, public readonly code: number) {
+    super(message);
+    this.name = 'BitcoindRpcError';
+  }
+}
+
+// Amounts are reported in BTC
+function toSats(btc: number): number {
+  return Math.round(btc * 100_000_000);
+}
+
+export class BitcoindBackend implements ChainBackend {
+  readonly name = 'bitcoind';
+
+  private requestId = 0;
+
+  constructor(
+    private readonly url: string,
+    private readonly user: string,
+    private readonly password: string
+  ) {}
+
+  private async rpc<T>(method: string, params: unknown[] = []): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.user || this.password) {
+      headers.Authorization = `Basic ${Buffer.from(`${this.user}:${this.password}`).toString('base64')}`;
+    }
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ jsonrpc: '1.0', id: ++this.requestId, method, params }),
+    });
+
+    // bitcoind answers RPC errors with HTTP 404/500 and a JSON body
+    const body = await response.json().catch(() => null) as { result: T; error: { code: number; message: string } | null } | null;
+    if (!body) {
+      throw new Error(`bitcoind ${method} failed: ${response.status}`);
+    }
+    if (body.error) {
+      throw new BitcoindRpcError(`bitcoind ${method} failed: ${body.error.message}`, body.error.code);
+    }
+    return body.result;
+  }
+
+  // Like rpc(), but null for an unknown transaction
+  private async rpcTx<T>(method: string, params: unknown[]): Promise<T | null> {
+    try {
+      return await this.rpc<T>(method, params);
+    } catch (error) {
+      if (error instanceof BitcoindRpcError && error.code === RPC_INVALID_ADDRESS_OR_KEY) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getTip(): Promise<ChainTip> {
+    const info = await this.rpc<{ blocks: number; bestblockhash: string }>('getblockchaininfo');
+    return { height: info.blocks, hash: info.bestblockhash };
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    return this.rpc<string>('getblockhash', [height]);
+  }
+
+  async getBlock(height: number): Promise<ChainBlock> {
+    const hash = await this.getBlockHash(height);
+    const block = await this.rpc<any>('getblock', [hash, 2]);
+
+    return {
+      height,
+      hash,
+      previousHash: block.previousblockhash ?? NULL_HASH,
+      transactions: block.tx.map((tx: any) => ({
+        txid: tx.txid,
+        outputs: tx.vout.map((out: any) => ({ scriptHex: out.scriptPubKey.hex, value: toSats(out.value) })),
+      })),
+    };
+  }
+
+  async getTx(txid: string): Promise<ChainTransactionDetails | null> {
+    const tx = await this.rpcTx<any>('getrawtransaction', [txid, 2]);
+    if (!tx) {
+      return null;
+    }
+    return {
+      txid: tx.txid,
+      outputs: tx.vout.map((out: any) => ({ scriptHex: out.scriptPubKey.hex, value: toSats(out.value) })),
+      senderAddress: tx.vin?.[0]?.prevout?.scriptPubKey?.address ?? null,
+    };
+  }
+
+  async getTxStatus(txid: string): Promise<ChainTxStatus | null> {
+    const tx = await this.rpcTx<{ blockhash?: string }>('getrawtransaction', [txid, 1]);
+    if (!tx) {
+      return null;
+    }
+    const unconfirmed = { confirmed: false, blockHeight: null, blockHash: null, blockTime: null };
+    if (!tx.blockhash) {
+      return unconfirmed;
+    }
+
+    // A block off the best chain reports -1 confirmations
+    const header = await this.rpc<{ height: number; time: number; confirmations: number }>('getblockheader', [tx.blockhash]);
+    if (header.confirmations < 1) {
+      return unconfirmed;
+    }
+    return { confirmed: true, blockHeight: header.height, blockHash: tx.blockhash, blockTime: header.time };
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Esplora REST chain backend (mempool.space, blockstream.info, mutinynet, local esplora)
+ *
+ * Blocks are fetched raw and parsed locally: one request per block, whatever
+ * its transaction count.
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import { ChainBackend, ChainBlock, ChainTip, ChainTransactionDetails, ChainTxStatus } from './backend';
+
+export class EsploraBackend implements ChainBackend {
+  readonly name = 'esplora';
+
+  constructor(private readonly baseUrl: string) {}
+
+  private async get(path: string): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`);
+    if (!response.ok) {
+      throw new Error(`Esplora ${path} failed: ${response.status}`);
+    }
+    return response;
+  }
+
+  async getTip(): Promise<ChainTip> {
+    const height = parseInt(await (await this.get('/blocks/tip/height')).text(), 10);
+    const hash = (await (await this.get('/blocks/tip/hash')).text()).trim();
+    return { height, hash };
+  }
+
+  async getBlockHash(height: number): Promise<string> {
+    return (await (await this.get(`/block-height/${height}`)).text()).trim();
+  }
+
+  async getBlock(height: number): Promise<ChainBlock> {
+    const hash = await this.getBlockHash(height);
+    const raw = Buffer.from(await (await this.get(`/block/${hash}/raw`)).arrayBuffer());
+    const block = bitcoin.Block.fromBuffer(raw);
+
+    return {
+      height,
+      hash,
+      previousHash: Buffer.from(block.prevHash!).reverse().toString('hex'),
+      transactions: (block.transactions ?? []).map((tx) => ({
+        txid: tx.getId(),
+        outputs: tx.outs.map((out) => ({ scriptHex: out.script.toString('hex'), value: out.value })),
+      })),
+    };
+  }
+
+  // Like get(), but null for a transaction Esplora does not know
+  private async getTxResource(path: string): Promise<any | null> {
+    const response = await fetch(`${this.baseUrl}${path}`);
+    if (response.status === 404 || response.status === 400) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Esplora ${path} failed: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async getTx(txid: string): Promise<ChainTransactionDetails | null> {
+    const tx = await this.getTxResource(`/tx/${txid}`);
+    if (!tx) {
+      return null;
+    }
+    return {
+      txid: tx.txid,
+      outputs: tx.vout.map((out: any) => ({ scriptHex: out.scriptpubkey, value: out.value })),
+      senderAddress: tx.vin?.[0]?.prevout?.scriptpubkey_address ?? null,
+    };
+  }
+
+  async getTxStatus(txid: string): Promise<ChainTxStatus | null> {
+    const status = await this.getTxResource(`/tx/${txid}/status`);
+    if (!status) {
+      return null;
+    }
+    return {
+      confirmed: !!status.confirmed,
+      blockHeight: status.confirmed ? status.block_height : null,
+      blockHash: status.confirmed ? status.block_hash : null,
+      blockTime: status.confirmed ? status.block_time : null,
+    };
+  }
+}
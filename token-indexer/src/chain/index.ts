@@ -0,0 +1,22 @@
+/**
+ * Chain backend used by the indexer, chosen by CHAIN_CONFIG
+ */
+
+import { CHAIN_CONFIG } from '../config/chain';
+import { ChainBackend } from './backend';
+import { BitcoindBackend } from './bitcoind';
+import { EsploraBackend } from './esplora';
+
+export * from './backend';
+export { BitcoindBackend } from './bitcoind';
+export { EsploraBackend } from './esplora';
+
+function createChainBackend(): ChainBackend {
+  if (CHAIN_CONFIG.BACKEND === 'bitcoind') {
+    return new BitcoindBackend(CHAIN_CONFIG.RPC_URL, CHAIN_CONFIG.RPC_USER, CHAIN_CONFIG.RPC_PASSWORD);
+  }
+  return new EsploraBackend(CHAIN_CONFIG.ESPLORA_URL);
+}
+
+// Singleton instance
+export const chainBackend: ChainBackend = createChainBackend();
@@ -0,0 +1,14 @@
+/**
+ * Arkade transaction indexer configuration - see indexer.ts
+ */
+
+export const ARKADE_INDEXER_CONFIG = {
+  // Follow the ASP's offchain transaction stream for token operations
+  ENABLED: process.env.ARKADE_INDEXER_ENABLED !== 'false',
+
+  // Wait before reconnecting after the stream closed or failed
+  RECONNECT_DELAY_MS: parseInt(process.env.ARKADE_INDEXER_RECONNECT_DELAY_MS || '5000', 10),
+
+  // Upper bound of the reconnect delay while the ASP keeps failing (doubles per failure)
+  MAX_RECONNECT_DELAY_MS: parseInt(process.env.ARKADE_INDEXER_MAX_RECONNECT_DELAY_MS || '300000', 10),
+};
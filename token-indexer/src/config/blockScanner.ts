@@ -0,0 +1,20 @@
+/**
+ * L1 block scanner configuration - see queue/blockScanner.ts
+ */
+
+export const BLOCK_SCANNER_CONFIG = {
+  // Scan L1 blocks for ARK CREATE / COMMIT transactions
+  ENABLED: process.env.BLOCK_SCANNER_ENABLED === 'true',
+
+  // First block to scan when there is no checkpoint yet (e.g. the protocol's launch height)
+  START_HEIGHT: parseInt(process.env.BLOCK_SCANNER_START_HEIGHT || '0', 10),
+
+  // Scanner interval - look for new blocks every X milliseconds
+  INTERVAL_MS: parseInt(process.env.BLOCK_SCANNER_INTERVAL_MS || '60000', 10),
+
+  // Blocks scanned per run at most, so catching up never blocks a run for long
+  MAX_BLOCKS_PER_RUN: parseInt(process.env.BLOCK_SCANNER_MAX_BLOCKS_PER_RUN || '50', 10),
+
+  // Blocks re-scanned below the checkpoint when a reorg replaced the checkpointed block
+  REORG_REWIND_BLOCKS: parseInt(process.env.BLOCK_SCANNER_REORG_REWIND_BLOCKS || '6', 10),
+};
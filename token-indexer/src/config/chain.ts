@@ -0,0 +1,39 @@
+/**
+ * Bitcoin L1 chain backend configuration - see chain/
+ *
+ * The network comes from the network profile (config/network.ts). Regtest
+ * defaults to a local bitcoind, every other network to its Esplora API.
+ */
+
+import { NetworkName } from '@arkade-token/sdk';
+import { NETWORK_PROFILE } from './network';
+
+export type ChainBackendType = 'esplora' | 'bitcoind';
+
+// Default Bitcoin Core RPC port per network
+const RPC_PORTS: Record<NetworkName, number> = {
+  mainnet: 8332,
+  mutinynet: 38332,
+  signet: 38332,
+  regtest: 18443,
+};
+
+function parseBackend(value: string): ChainBackendType {
+  if (value !== 'esplora' && value !== 'bitcoind') {
+    throw new Error(`Unknown CHAIN_BACKEND "${value}" (expected esplora or bitcoind)`);
+  }
+  return value;
+}
+
+export const CHAIN_CONFIG = {
+  // Chain backend: esplora (REST API) or bitcoind (Bitcoin Core JSON-RPC, needs txindex=1)
+  BACKEND: parseBackend(process.env.CHAIN_BACKEND || (NETWORK_PROFILE.name === 'regtest' ? 'bitcoind' : 'esplora')),
+
+  // Esplora REST API base URL (the profile's, or CHAIN_ESPLORA_URL)
+  ESPLORA_URL: NETWORK_PROFILE.esploraUrl,
+
+  // Bitcoin Core JSON-RPC endpoint and credentials
+  RPC_URL: (process.env.CHAIN_RPC_URL || `http://127.0.0.1:${RPC_PORTS[NETWORK_PROFILE.name]}`).replace(/\/+$/, ''),
+  RPC_USER: process.env.CHAIN_RPC_USER || '',
+  RPC_PASSWORD: process.env.CHAIN_RPC_PASSWORD || '',
+};
@@ -0,0 +1,39 @@
+/**
+ * Network profile of this indexer - see NETWORK_PROFILES in @arkade-token/sdk
+ *
+ * NETWORK picks the profile (mainnet | mutinynet | signet | regtest), which
+ * sets the ASP, the Arkade address HRP, the chain backend URL and explorer
+ * links. ARKADE_ASP_URL and CHAIN_ESPLORA_URL override its URLs.
+ *
+ * NETWORK is required: the indexer refuses to start without it, and at
+ * startup checks it against the network the ASP reports (assertAspNetwork).
+ */
+
+import { getNetworkProfile, NetworkProfile, withNetworkOverrides } from '@arkade-token/sdk';
+
+function configuredNetwork(): string {
+  const network = process.env.NETWORK?.trim();
+  if (!network) {
+    throw new Error('NETWORK is not set (expected mainnet, mutinynet, signet or regtest)');
+  }
+  return network;
+}
+
+export const NETWORK_PROFILE = withNetworkOverrides(getNetworkProfile(configuredNetwork()), {
+  aspUrl: process.env.ARKADE_ASP_URL || process.env.ASP_URL,
+  esploraUrl: process.env.CHAIN_ESPLORA_URL,
+});
+
+/**
+ * Throw unless the ASP serves the configured network
+ *
+ * @param reported - Network name from the ASP's /v1/info
+ */
+export function assertAspNetwork(reported: string, profile: NetworkProfile = NETWORK_PROFILE): void {
+  const aspProfile = getNetworkProfile(reported);
+  if (aspProfile.name !== profile.name) {
+    throw new Error(
+      `NETWORK is ${profile.name} but the ASP at ${profile.aspUrl} serves ${reported}; fix NETWORK or ARKADE_ASP_URL`
+    );
+  }
+}
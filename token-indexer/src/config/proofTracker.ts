@@ -0,0 +1,14 @@
+/**
+ * Creation proof tracker configuration - see queue/proofTracker.ts
+ */
+
+export const PROOF_TRACKER_CONFIG = {
+  // Re-check confirmed creation proofs against the chain (reorg detection)
+  ENABLED: process.env.PROOF_TRACKER_ENABLED !== 'false',
+
+  // Tracker interval - re-check proofs every X milliseconds
+  INTERVAL_MS: parseInt(process.env.PROOF_TRACKER_INTERVAL_MS || '60000', 10),
+
+  // Proofs with this many confirmations are considered safe and no longer re-checked
+  SAFE_CONFIRMATIONS: parseInt(process.env.PROOF_TRACKER_SAFE_CONFIRMATIONS || '100', 10),
+};
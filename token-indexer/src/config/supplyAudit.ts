@@ -0,0 +1,11 @@
+/**
+ * Supply auditor configuration - see queue/supplyAuditor.ts
+ */
+
+export const SUPPLY_AUDIT_CONFIG = {
+  // Periodically check every token's supply invariants
+  ENABLED: process.env.SUPPLY_AUDIT_ENABLED !== 'false',
+
+  // Auditor interval - audit all tokens every X milliseconds
+  INTERVAL_MS: parseInt(process.env.SUPPLY_AUDIT_INTERVAL_MS || '600000', 10),
+};
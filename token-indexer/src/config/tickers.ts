@@ -0,0 +1,23 @@
+/**
+ * Ticker registry configuration - see token/tickers.ts
+ *
+ * A token's claim on its ticker can be displaced by an earlier claim until
+ * the token's CREATE has CLAIM_FINALITY_BLOCKS confirmations; settlement
+ * waits for that.
+ */
+
+const DEFAULT_RESERVED_TICKERS = ['BTC', 'XBT', 'SAT', 'SATS', 'ARK', 'ARKADE', 'USD', 'USDT', 'USDC', 'EUR', 'LBTC'];
+
+export const TICKER_CONFIG = {
+  // Confirmations after which a ticker claim can no longer be displaced
+  CLAIM_FINALITY_BLOCKS: parseInt(process.env.TICKER_CLAIM_FINALITY_BLOCKS || '6', 10),
+
+  // A commitment older than this (in blocks) when the CREATE confirms gives no priority
+  COMMIT_MAX_AGE_BLOCKS: parseInt(process.env.TICKER_COMMIT_MAX_AGE_BLOCKS || '1008', 10),
+
+  // Tickers no token can claim (comma-separated, added to the defaults)
+  RESERVED: [
+    ...DEFAULT_RESERVED_TICKERS,
+    ...(process.env.TICKER_RESERVED || '').split(',').map((s) => s.trim()).filter(Boolean),
+  ],
+};
@@ -0,0 +1,15 @@
+/**
+ * Token transfer configuration
+ *
+ * Transfers recorded through POST /api/transfers are credited only once the
+ * ASP confirms the sender's VTXO. Transfers it cannot confirm yet stay pending
+ * and are retried by the transfer reconciler - see queue/transferReconciler.ts.
+ */
+
+export const TRANSFER_CONFIG = {
+  // Reconciler interval - re-check pending transfers every X milliseconds
+  RECONCILE_INTERVAL_MS: parseInt(process.env.TRANSFER_RECONCILE_INTERVAL_MS || '30000', 10),
+
+  // Pending transfers the ASP still cannot confirm after this long are failed
+  PENDING_TIMEOUT_MS: parseInt(process.env.TRANSFER_PENDING_TIMEOUT_MS || '3600000', 10),
+};
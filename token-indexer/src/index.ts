@@ -2,61 +2,80 @@
  * Main entry point for token indexer
  */
 
-import dotenv from 'dotenv';
+// Load environment variables before any config module reads them
+import 'dotenv/config';
 import { TokenIndexer } from './indexer';
 import { createApiServer } from './api/server';
 import { logger } from './utils/logger';
-
-// Load environment variables
-dotenv.config();
+import { chainBackend } from './chain';
+import { NETWORK_PROFILE, assertAspNetwork } from './config/network';
+import { arkadeClient } from './services/arkadeClient';
 
 const PORT = process.env.PORT || 3002;
-const ARKADE_INDEXER_URL = process.env.ARKADE_INDEXER_URL || 'http://localhost:7070';
 
 async function main() {
   logger.info('Starting Arkade Token Indexer...');
 
+  // Refuse to serve one network's tokens against another network's ASP
+  assertAspNetwork(await arkadeClient.getNetwork());
+
   // Start API server with WebSocket support
   const httpServer = createApiServer();
   httpServer.listen(PORT, () => {
     logger.info(`\n🚀 Token Indexer + ASP VTXO Service + WebSocket running on port ${PORT}`);
     logger.info(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
     logger.info(`\n📦 Token Endpoints:`);
-    logger.info(`   GET  /api/tokens - List all tokens`);
+    logger.info(`   GET  /api/tokens - Search and list tokens (?q, status, isPresale, creator, issuer, sort, cursor)`);
     logger.info(`   GET  /api/tokens/:tokenId - Get token details`);
+    logger.info(`   GET  /api/tokens/:tokenId/audit - Audit token supply invariants`);
+    logger.info(`   GET  /api/tokens/:tokenId/holders - List token holders by balance`);
+    logger.info(`   GET  /api/tickers/:symbol - Current claim on a ticker`);
+    logger.info(`   POST /api/tickers/commitments - Register an ARK COMMIT (ticker commitment)`);
     logger.info(`   GET  /api/balances/:address - Get balances for address`);
-    logger.info(`   POST /api/transfers - Record token transfer`);
+    logger.info(`   POST /api/transfers - Record token transfer (pending until the ASP confirms its VTXO)`);
+    logger.info(`   POST /api/burns - Record token burn (pending until the ASP confirms its VTXO)`);
     logger.info(`\n🔗 ASP VTXO Endpoints (Public):`);
     logger.info(`   GET  /api/asp/history/:address - Transaction history`);
     logger.info(`   GET  /api/asp/vtxos/:address - Get VTXOs for address`);
     logger.info(`   GET  /api/asp/vtxo-chain/:txid/:vout - VTXO chain info`);
-    logger.info(`\n🔐 ASP SDK Endpoints (POST with privateKey):`);
-    if (process.env.ALLOW_UNSAFE_PRIVATE_KEY_API === 'true') {
-      logger.warn('Unsafe SDK helper endpoints are ENABLED (server will accept private keys).');
-      logger.info(`   POST /api/asp/sdk/vtxos - Get wallet VTXOs`);
-      logger.info(`   POST /api/asp/sdk/balance - Get wallet balance`);
-      logger.info(`   POST /api/asp/sdk/history - Get wallet history`);
-      logger.info(`   POST /api/asp/sdk/address - Derive address`);
-      logger.info(`   POST /api/asp/sdk/verify-vtxo - Verify VTXO in wallet`);
-    } else {
-      logger.info('Unsafe SDK helper endpoints are DISABLED (ALLOW_UNSAFE_PRIVATE_KEY_API != true).');
-    }
+    logger.info(`\n🔐 Wallet Endpoints (challenge-signed, no private keys):`);
+    logger.info(`   POST /api/wallet/challenge - Issue a challenge for an address`);
+    logger.info(`   POST /api/wallet/vtxos - Get wallet VTXOs`);
+    logger.info(`   POST /api/wallet/balance - Get wallet balance`);
+    logger.info(`   POST /api/wallet/history - Get wallet history`);
+    logger.info(`   POST /api/wallet/verify-vtxo - Verify VTXO in wallet`);
+    logger.info(`   GET  /api/wallet/address/:publicKey - Derive address`);
     logger.info(`\n🎯 Round-Based Purchase Endpoints:`);
     logger.info(`   POST /api/presale/round-purchase - Submit purchase to queue`);
     logger.info(`   GET  /api/presale/queue-status/:tokenId/:wallet - Get queue status`);
     logger.info(`   GET  /api/presale/queue-stats/:tokenId - Get queue statistics`);
+    logger.info(`   GET  /api/presale/refunds/:wallet - Get refund status`);
+    logger.info(`\n🛠️ Admin Endpoints (x-admin-key):`);
+    logger.info(`   GET  /api/admin/pool-wallets - List pool wallets`);
+    logger.info(`   POST /api/admin/pool-wallets - Add pool wallet`);
+    logger.info(`   POST /api/admin/pool-wallets/:address/drain|retire - Drain / retire pool wallet`);
+    logger.info(`   POST /api/admin/pool-wallets/:address/sweep - Sweep pool wallet to cold storage`);
+    logger.info(`   GET  /api/admin/sweeps - Sweep history`);
+    logger.info(`   POST /api/admin/tokens/:tokenId/rotate - Rotate token pool wallet`);
+    logger.info(`   GET|POST /api/admin/presale-settings - Presale pool settings`);
+    logger.info(`   POST /api/admin/balances/rebuild - Rebuild balances from the ledger (shadow table + diff)`);
+    logger.info(`   GET  /api/admin/balances/rebuilds/:id - Rebuild diff against live balances`);
+    logger.info(`   POST /api/admin/balances/rebuilds/:id/swap - Swap rebuilt balances in`);
     logger.info(`\n🔌 WebSocket Events:`);
     logger.info(`   📥 join-wallet / join-token - Subscribe to updates`);
     logger.info(`   📤 round-countdown - Real-time countdown (every second)`);
     logger.info(`   📤 round-completed - Round result notification`);
     logger.info(`   📤 purchase-confirmed - Purchase success`);
     logger.info(`   📤 purchase-rejected - Purchase rejection with reason`);
+    logger.info(`   📤 refund-queued / refund-completed / refund-failed - Refund of a rejected payment`);
+    logger.info(`   📤 transfer-confirmed / transfer-failed - Pending transfer settled or failed`);
+    logger.info(`   📤 supply-alert / supply-recovered - Token supply invariants diverged / restored`);
+    logger.info(`   📤 token-reorged / token-failed - Token creation reorged out (back to pending) / failed`);
+    logger.info(`\n⛓️ Bitcoin ${NETWORK_PROFILE.name} via ${chainBackend.name}, ASP ${NETWORK_PROFILE.aspUrl}`);
     logger.info(`\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
   });
 
-  // Start indexer
-  const indexer = new TokenIndexer(ARKADE_INDEXER_URL);
-  await indexer.start();
+  const indexer = new TokenIndexer(arkadeClient, NETWORK_PROFILE);
 
   // Handle shutdown
   process.on('SIGINT', async () => {
@@ -64,6 +83,9 @@ async function main() {
     await indexer.stop();
     process.exit(0);
   });
+
+  // Start indexer (follows the ASP's transaction stream until stopped)
+  await indexer.start();
 }
 
 main().catch((error) => {
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NetworkProfile } from '@arkade-token/sdk';
+import { useMemoryDb, type MemoryDb } from './testing/memoryDb';
+import { ARKADE_INDEXER_CONFIG } from './config/arkadeIndexer';
+import type { ArkadeClient, ArkTxNotification, SpentVtxo } from './services/arkadeClient';
+import type { ArkadeTransaction } from './token/arkadeTx';
+import { TokenOpType, decodeTokenOperation } from './token/parser';
+import { processTokenTransfer } from './token/processor';
+import { LedgerError } from './token/ledger';
+import { TokenIndexer } from './indexer';
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  PrismaClient: (await import('./testing/prismaMock')).ForwardingPrismaClient,
+}));
+vi.mock('./token/arkadeTx', () => ({
+  decodeArkadeTransaction: vi.fn((notification: ArkTxNotification): ArkadeTransaction => ({
+    txid: notification.txid,
+    from: 'tark1sender',
+    to: 'tark1recipient',
+    outputs: [{ vout: 0, scriptPubKey: '6a', amount: 0n, address: null }],
+    blockHeight: null,
+  })),
+}));
+vi.mock('./token/parser', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  decodeTokenOperation: vi.fn(),
+  extractOpReturnFromScriptHex: vi.fn(() => Buffer.from('payload')),
+}));
+vi.mock('./token/validator', () => ({ validateTokenOperation: vi.fn(async () => ({ valid: true })) }));
+vi.mock('./token/processor', () => ({
+  processTokenCreate: vi.fn(),
+  processTokenTransfer: vi.fn(),
+  processTokenBurn: vi.fn(),
+}));
+
+const CURSOR_SEEN_AT = new Date('2024-06-01T00:00:00Z');
+
+let memory: MemoryDb;
+let client: ReturnType<typeof fakeClient>;
+let indexer: TokenIndexer;
+
+function fakeClient() {
+  return {
+    getSignerPubkey: vi.fn(async () => new Uint8Array(32)),
+    openTransactionStream: vi.fn(async () => streamOf()()),
+    getSpentVtxosByScripts: vi.fn(async (): Promise<SpentVtxo[]> => []),
+    getVirtualTxs: vi.fn(async (txids: string[]) => new Map(txids.map((txid) => [txid, `psbt-${txid}`]))),
+  };
+}
+
+function spent(arkTxid: string | undefined, createdAfterCursorMs: number, expiresAt: Date | null = null): SpentVtxo {
+  return {
+    txid: `vtxo-${arkTxid}-${createdAfterCursorMs}`, vout: 0, amount: 1000n, script: '5120',
+    createdAt: new Date(CURSOR_SEEN_AT.getTime() + createdAfterCursorMs), expiresAt, arkTxid,
+  };
+}
+
+// A stream that delivers the given transactions, then stops the indexer
+function streamOf(...txids: string[]) {
+  return async function* () {
+    for (const txid of txids) {
+      yield { txid, tx: `psbt-${txid}`, spentVtxos: [] };
+    }
+    await indexer.stop();
+  };
+}
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  memory = useMemoryDb();
+  ARKADE_INDEXER_CONFIG.RECONNECT_DELAY_MS = 0;
+  client = fakeClient();
+  indexer = new TokenIndexer(client as unknown as ArkadeClient, { aspUrl: 'http://asp' } as NetworkProfile);
+  vi.mocked(decodeTokenOperation).mockReturnValue({ opType: TokenOpType.TRANSFER, tokenId: 'token-1', amount: 10n } as any);
+
+  await memory.client.streamCursor.create({ data: { id: 'arkade-transactions', txid: 'cursor-tx', seenAt: CURSOR_SEEN_AT } });
+});
+
+const processed = () => Object.fromEntries(
+  memory.rows('processedTransaction').map((row) => [row.txid, row.success])
+);
+
+describe('TokenIndexer catch-up', () => {
+  it('processes the transactions missed since the cursor, parents first, before the stream', async () => {
+    await memory.client.processedTransaction.create({ data: { txid: 'tx-done', success: true } });
+    client.getSpentVtxosByScripts.mockResolvedValue([
+      spent('tx-child', 1000),
+      spent('tx-child', 3000),
+      spent('tx-parent', 2000),
+      spent('tx-expired', -5000, new Date(CURSOR_SEEN_AT.getTime() - 1)),
+      spent('tx-done', 500),
+      spent('cursor-tx', 100),
+      spent(undefined, 100),
+    ]);
+    client.openTransactionStream.mockImplementation(async () => streamOf('tx-streamed')());
+    const order = vi.spyOn(indexer, 'processTransaction');
+
+    await indexer.start();
+
+    // tx-child spent an output created after tx-parent's
+    expect(client.getVirtualTxs).toHaveBeenCalledWith(['tx-parent', 'tx-child']);
+    expect(order.mock.calls.map(([tx]) => tx.txid)).toEqual(['tx-parent', 'tx-child', 'tx-streamed']);
+    expect(await memory.client.streamCursor.findUnique({ where: { id: 'arkade-transactions' } }))
+      .toMatchObject({ txid: 'tx-streamed' });
+  });
+
+  it('skips a transaction the ASP no longer returns', async () => {
+    client.getSpentVtxosByScripts.mockResolvedValue([spent('tx-gone', 1000), spent('tx-kept', 2000)]);
+    client.getVirtualTxs.mockResolvedValue(new Map([['tx-kept', 'psbt-tx-kept']]));
+
+    await indexer.start();
+
+    expect(processed()).toEqual({ 'tx-kept': true });
+  });
+
+  it('leaves a transaction that hit an infrastructure error for the next catch-up', async () => {
+    client.getSpentVtxosByScripts.mockResolvedValue([spent('tx-transfer', 1000)]);
+    vi.mocked(processTokenTransfer).mockRejectedValueOnce(new Error('Connection terminated'));
+
+    await indexer.start();
+
+    expect(client.openTransactionStream).toHaveBeenCalledTimes(2);
+    expect(processTokenTransfer).toHaveBeenCalledTimes(2);
+    expect(processed()).toEqual({ 'tx-transfer': true });
+  });
+
+  it('records a transaction the ledger rejects as failed and does not retry it', async () => {
+    client.getSpentVtxosByScripts.mockResolvedValue([spent('tx-transfer', 1000)]);
+    vi.mocked(processTokenTransfer).mockRejectedValue(new LedgerError('Insufficient balance', 'insufficient-balance'));
+
+    await indexer.start();
+    await indexer.start();
+
+    expect(processTokenTransfer).toHaveBeenCalledTimes(1);
+    expect(memory.rows('processedTransaction')).toEqual([
+      expect.objectContaining({ txid: 'tx-transfer', success: false, errorMsg: 'Insufficient balance' }),
+    ]);
+  });
+});
@@ -1,35 +1,95 @@
 /**
  * Token Indexer - Main indexer logic
- * 
- * Watches Arkade commitment transactions for OP_RETURN data,
- * decodes token operations, and updates database.
+ *
+ * Follows the ASP's offchain transaction stream, decodes each virtual
+ * transaction's OP_RETURN as a token operation, attributes it to the owner
+ * of the VTXOs it spent (see token/arkadeTx.ts) and updates the database.
+ *
+ * The last streamed transaction is persisted as the stream cursor. The
+ * stream cannot be replayed, so when the indexer reconnects with a cursor it
+ * catches up on the gap through the ASP indexer: the spent VTXOs of every
+ * address that holds or issued a token, whose spending transactions are not
+ * processed yet, parents first. Only VTXOs that had not expired when the
+ * cursor was written can have been spent in the gap, so older ones are
+ * skipped before any lookup. Tokens created by other addresses during a
+ * gap are not caught up; their creators register them (POST /api/tokens).
+ * Processing is idempotent per txid, so the catch-up and the stream may overlap.
+ *
+ * A transaction whose payload or operation is rejected is recorded as failed
+ * and never looked at again. Any other error (e.g. the database is down) is
+ * not the transaction's fault: it is left unprocessed and the error ends the
+ * stream, so the catch-up after reconnecting retries it (if it reaches it:
+ * see above).
  */
 
 import { PrismaClient } from '@prisma/client';
+import { ArkAddress } from '@arkade-os/sdk';
+import { hex } from '@scure/base';
+import { isCodecError, NetworkProfile, UnknownProtocolError } from '@arkade-token/sdk';
 import { logger } from './utils/logger';
-import { decodeTokenOperation, TokenOpType } from './token/parser';
+import { ARKADE_INDEXER_CONFIG } from './config/arkadeIndexer';
+import { ArkadeClient, ArkTxNotification, SpentVtxo } from './services/arkadeClient';
+import { ArkadeTransaction, decodeArkadeTransaction } from './token/arkadeTx';
+import { decodeTokenOperation, extractOpReturnFromScriptHex, TokenOperation, TokenOpType } from './token/parser';
 import { validateTokenOperation } from './token/validator';
 import { processTokenCreate, processTokenTransfer, processTokenBurn } from './token/processor';
+import { LedgerError } from './token/ledger';
+import { TickerError } from './token/tickers';
 
 const prisma = new PrismaClient();
 
+const CURSOR_ID = 'arkade-transactions';
+// Spending txids per processed-transaction lookup
+const CATCH_UP_LOOKUP_BATCH_SIZE = 1000;
+
+/**
+ * Whether a processing error rejects the transaction itself: a malformed
+ * payload, or an operation the ledger or ticker registry refuses (e.g. a
+ * balance spent, or a ticker claimed, since validation)
+ */
+function isTransactionRejected(error: unknown): boolean {
+  return isCodecError(error) || error instanceof LedgerError || error instanceof TickerError;
+}
+
 export class TokenIndexer {
   private isRunning = false;
+  private abortController: AbortController | null = null;
 
   constructor(
-    private readonly arkadeIndexerUrl: string
+    private readonly client: ArkadeClient,
+    private readonly profile: NetworkProfile
   ) {}
 
   /**
-   * Start indexing
+   * Start indexing. Resolves when the indexer is stopped.
    */
   async start() {
+    if (!ARKADE_INDEXER_CONFIG.ENABLED) {
+      logger.info('Arkade transaction indexer disabled');
+      return;
+    }
     logger.info('Starting token indexer...');
     this.isRunning = true;
 
-    // TODO: Subscribe to Arkade indexer for new transactions (preferred).
-    // For now, we keep a polling loop for development against a compatible REST indexer.
-    await this.pollTransactions();
+    let retryDelay = ARKADE_INDEXER_CONFIG.RECONNECT_DELAY_MS;
+    while (this.isRunning) {
+      this.abortController = new AbortController();
+      try {
+        await this.followStream(this.abortController.signal);
+        logger.warn('Arkade transaction stream closed by the ASP; reconnecting');
+        retryDelay = ARKADE_INDEXER_CONFIG.RECONNECT_DELAY_MS;
+      } catch (error) {
+        if (!this.isRunning) {
+          break;
+        }
+        logger.error(
+          { message: (error as Error).message, url: this.profile.aspUrl, retryInMs: retryDelay },
+          'Arkade transaction stream failed'
+        );
+        retryDelay = Math.min(retryDelay * 2, ARKADE_INDEXER_CONFIG.MAX_RECONNECT_DELAY_MS);
+      }
+      await this.sleep(retryDelay);
+    }
   }
 
   /**
@@ -38,105 +98,126 @@ export class TokenIndexer {
   async stop() {
     logger.info('Stopping token indexer...');
     this.isRunning = false;
+    this.abortController?.abort();
   }
 
   /**
-   * Poll for new transactions (temporary until websocket subscription)
+   * Subscribe, catch up on the gap since the cursor, then index the stream until it ends
    */
-  private async pollTransactions() {
-    let hasReportedUnsupportedEndpoint = false;
-
-    while (this.isRunning) {
-      try {
-        // Query Arkade indexer for recent commitment transactions
-        // This is a placeholder - actual implementation depends on Arkade indexer API
-        
-        // Skip if no Arkade indexer URL configured
-        if (!this.arkadeIndexerUrl) {
-          logger.warn('Arkade indexer URL not configured. Waiting...');
-          await this.sleep(30000); // Wait 30 seconds
-          continue;
-        }
-        
-        const candidates = [
-          // Some deployments may expose a REST list endpoint under /v1/indexer.
-          `${this.arkadeIndexerUrl}/v1/indexer/transactions?limit=100`,
-          // Legacy / custom indexers.
-          `${this.arkadeIndexerUrl}/api/transactions?limit=100`,
-        ];
-
-        let response: Response | null = null;
-        let urlUsed = '';
-        for (const candidate of candidates) {
-          urlUsed = candidate;
-          response = await fetch(candidate, { headers: { Accept: 'application/json' } });
-          // If the endpoint is not found, try next candidate.
-          if (response.status === 404) continue;
-          break;
-        }
-
-        if (!response) {
-          // Should never happen, but fail safe.
-          await this.sleep(30000);
-          continue;
-        }
-
-        if (response.status === 404) {
-          if (!hasReportedUnsupportedEndpoint) {
-            logger.warn(
-              {
-                baseUrl: this.arkadeIndexerUrl,
-                tried: candidates,
-              },
-              'No compatible REST transaction listing endpoint found; chain polling is currently unsupported and will be paused.'
-            );
-            hasReportedUnsupportedEndpoint = true;
-          }
-
-          // Stop the polling loop to avoid endless noisy warnings.
-          this.isRunning = false;
-          break;
-        }
+  private async followStream(signal: AbortSignal) {
+    const signerPubkey = await this.client.getSignerPubkey();
+
+    // Subscribe before catching up, so nothing falls between the two
+    const stream = await this.client.openTransactionStream(signal);
+    const cursor = await prisma.streamCursor.findUnique({ where: { id: CURSOR_ID } });
+    if (cursor) {
+      await this.catchUp(signerPubkey, cursor);
+    }
+    logger.info({ url: this.profile.aspUrl, cursor: cursor?.txid ?? null }, '📡 Following Arkade transaction stream');
+
+    for await (const notification of stream) {
+      await this.indexNotification(notification, signerPubkey);
+      await prisma.streamCursor.upsert({
+        where: { id: CURSOR_ID },
+        update: { txid: notification.txid, seenAt: new Date() },
+        create: { id: CURSOR_ID, txid: notification.txid, seenAt: new Date() },
+      });
+    }
+  }
 
-        if (!response.ok) {
-          logger.warn(
-            { status: response.status, url: urlUsed },
-            'Failed to fetch transactions from Arkade indexer - is it running?'
-          );
-          await this.sleep(30000); // Wait 30 seconds before retry
-          continue;
-        }
+  /**
+   * Index the unprocessed transactions that spent VTXOs of token holders and
+   * issuers since the cursor
+   */
+  private async catchUp(signerPubkey: Uint8Array, cursor: { txid: string; seenAt: Date }) {
+    const scripts = await this.watchedScripts();
+    const spent = await this.client.getSpentVtxosByScripts(scripts);
+
+    // Group the spent VTXOs by the transaction that spent them, skipping VTXOs
+    // that expired before the gap (they were spent before it)
+    const byTx = new Map<string, SpentVtxo[]>();
+    for (const vtxo of spent) {
+      if (vtxo.arkTxid && (!vtxo.expiresAt || vtxo.expiresAt > cursor.seenAt)) {
+        byTx.set(vtxo.arkTxid, [...(byTx.get(vtxo.arkTxid) ?? []), vtxo]);
+      }
+    }
 
-        const data = (await response.json()) as any;
-        const transactions = data.transactions || data.txs || data.items || [];
-        
-        if (transactions.length > 0) {
-          logger.info({ count: transactions.length }, 'Processing transactions');
-        }
+    const candidates = [...byTx.keys()];
+    for (let i = 0; i < candidates.length; i += CATCH_UP_LOOKUP_BATCH_SIZE) {
+      const processed = await prisma.processedTransaction.findMany({
+        where: { txid: { in: candidates.slice(i, i + CATCH_UP_LOOKUP_BATCH_SIZE) } },
+        select: { txid: true },
+      });
+      for (const { txid } of processed) {
+        byTx.delete(txid);
+      }
+    }
+    // The cursor's own transaction was processed before it was written
+    byTx.delete(cursor.txid);
+    if (byTx.size === 0) {
+      return;
+    }
 
-        for (const tx of transactions) {
-          await this.processTransaction(tx);
-        }
+    // A transaction comes after the ones that created its inputs
+    const createdAt = (vtxos: SpentVtxo[]) => Math.max(...vtxos.map((v) => v.createdAt.getTime()));
+    const txids = [...byTx.keys()].sort((a, b) => createdAt(byTx.get(a)!) - createdAt(byTx.get(b)!));
+
+    logger.info(
+      { since: cursor.seenAt, cursor: cursor.txid, transactions: txids.length },
+      '📡 Catching up on Arkade transactions missed by the stream'
+    );
+    const txs = await this.client.getVirtualTxs(txids);
+    for (const txid of txids) {
+      const tx = txs.get(txid);
+      if (!tx) {
+        logger.warn({ txid }, 'Virtual tx not found on the ASP; skipped');
+        continue;
+      }
+      await this.indexNotification({ txid, tx, spentVtxos: byTx.get(txid)! }, signerPubkey);
+    }
+  }
 
-        // Wait before next poll
-        await this.sleep(5000); // 5 seconds
-      } catch (error) {
-        const err = error as Error;
-        logger.error({ 
-          message: err.message, 
-          stack: err.stack,
-          url: this.arkadeIndexerUrl 
-        }, 'Error polling transactions');
-        await this.sleep(30000); // Wait longer after error
+  /**
+   * VTXO scripts of every address that holds or issued a token
+   */
+  private async watchedScripts(): Promise<string[]> {
+    const [holders, issuers] = await Promise.all([
+      prisma.tokenBalance.findMany({ where: { balance: { gt: 0 } }, distinct: ['address'], select: { address: true } }),
+      prisma.token.findMany({ where: { issuer: { not: '' } }, distinct: ['issuer'], select: { issuer: true } }),
+    ]);
+
+    const scripts = new Set<string>();
+    for (const address of [...holders.map((h) => h.address), ...issuers.map((t) => t.issuer)]) {
+      try {
+        scripts.add(hex.encode(ArkAddress.decode(address).pkScript));
+      } catch {
+        // Not an Arkade address (e.g. a supply account)
       }
     }
+    return [...scripts];
   }
 
   /**
-   * Process a single transaction
+   * Decode a streamed or caught-up transaction and process it
    */
-  async processTransaction(tx: any) {
-    const txid = tx.txid || tx.id;
+  private async indexNotification(notification: ArkTxNotification, signerPubkey: Uint8Array) {
+    let tx: ArkadeTransaction;
+    try {
+      tx = decodeArkadeTransaction(notification, signerPubkey, this.profile);
+    } catch (error) {
+      logger.warn({ txid: notification.txid, reason: (error as Error).message }, 'Undecodable virtual tx');
+      await this.markProcessed(notification.txid, false, (error as Error).message);
+      return;
+    }
+    await this.processTransaction(tx);
+  }
+
+  /**
+   * Process a single transaction. Throws, leaving it unprocessed, on errors
+   * that do not reject it.
+   */
+  async processTransaction(tx: ArkadeTransaction) {
+    const txid = tx.txid;
 
     // Check if already processed (idempotency)
     const existing = await prisma.processedTransaction.findUnique({
@@ -158,12 +239,21 @@ export class TokenIndexer {
       }
 
       // Decode token operation
-      const tokenOp = decodeTokenOperation(opReturnData);
-
-      if (!tokenOp) {
-        // Not a valid token operation
-        await this.markProcessed(txid, true);
-        return;
+      let tokenOp: TokenOperation;
+      try {
+        tokenOp = decodeTokenOperation(opReturnData);
+      } catch (error) {
+        if (error instanceof UnknownProtocolError) {
+          // OP_RETURN from some other protocol, not a token transaction
+          await this.markProcessed(txid, true);
+          return;
+        }
+        if (isCodecError(error)) {
+          logger.warn({ txid, code: error.code, reason: error.message }, 'Malformed token payload');
+          await this.markProcessed(txid, false, error.message);
+          return;
+        }
+        throw error;
       }
 
       logger.info({ txid, opType: tokenOp.opType }, 'Processing token operation');
@@ -190,16 +280,17 @@ export class TokenIndexer {
         case TokenOpType.BURN:
           await processTokenBurn(tokenOp, tx, prisma);
           break;
-
-        default:
-          logger.warn({ opType: tokenOp.opType }, 'Unknown operation type');
       }
 
       await this.markProcessed(txid, true);
       logger.info({ txid }, 'Token operation processed successfully');
 
     } catch (error) {
-      logger.error({ error, txid }, 'Error processing transaction');
+      if (!isTransactionRejected(error)) {
+        logger.error({ error, txid }, 'Error processing transaction; left for retry');
+        throw error;
+      }
+      logger.warn({ txid, reason: (error as Error).message }, 'Token operation rejected');
       await this.markProcessed(txid, false, (error as Error).message);
     }
   }
@@ -207,30 +298,12 @@ export class TokenIndexer {
   /**
    * Extract OP_RETURN data from transaction
    */
-  private extractOpReturnData(tx: any): Buffer | null {
-    // TODO: Parse transaction outputs and find OP_RETURN
-    // This depends on the format of transactions from Arkade indexer
-    
-    if (!tx.outputs || tx.outputs.length === 0) {
-      return null;
-    }
-
+  private extractOpReturnData(tx: ArkadeTransaction): Buffer | null {
     for (const output of tx.outputs) {
       // Check if output is OP_RETURN
-      if (output.scriptPubKey && output.scriptPubKey.startsWith('6a')) {
-        // Parse hex script
-        const script = Buffer.from(output.scriptPubKey, 'hex');
-        
-        if (script[0] === 0x6a) { // OP_RETURN
-          // Extract data
-          if (script[1] === 0x4c) { // OP_PUSHDATA1
-            const length = script[2];
-            return script.slice(3, 3 + length);
-          } else {
-            const length = script[1];
-            return script.slice(2, 2 + length);
-          }
-        }
+      if (output.scriptPubKey.startsWith('6a')) {
+        // Malformed pushes throw a CodecError and fail the transaction
+        return extractOpReturnFromScriptHex(output.scriptPubKey);
       }
     }
 
@@ -0,0 +1,214 @@
+/**
+ * L1 Block Scanner
+ *
+ * Walks Bitcoin blocks through the chain backend, from BLOCK_SCANNER_START_HEIGHT
+ * up to the tip, and decodes every OP_RETURN with the ARK codec:
+ *
+ *   - ARK CREATE for a token nobody registered → the token is registered as
+ *     pending (no issuer yet) and handed to the token monitor, which claims
+ *     its ticker
+ *   - ARK COMMIT → the ticker commitment is recorded with its height
+ *
+ * The last scanned block is checkpointed after every block, so a restart
+ * resumes where the scanner stopped. Re-scanning a block is harmless: tokens
+ * and commitments already recorded are skipped. When the next block does not
+ * build on the checkpoint, a reorg replaced it: the scanner rewinds
+ * REORG_REWIND_BLOCKS and un-dates the commitments above that height, which
+ * the re-scan dates again. Token proofs are re-checked by the proof tracker.
+ */
+
+import { PrismaClient, Token } from '@prisma/client';
+import {
+  TokenOpType,
+  decodeArkCommit,
+  decodeArkCreate,
+  extractOpReturnPayload,
+  identifyProtocol,
+  isCodecError,
+  peekArkOpType,
+} from '@arkade-token/sdk';
+import { logger } from '../utils/logger';
+import { BLOCK_SCANNER_CONFIG } from '../config/blockScanner';
+import { ChainBackend, ChainBlock, ChainTransaction, chainBackend } from '../chain';
+import { isReservedTicker, recordTickerCommitment } from '../token/tickers';
+import { startMonitoringToken } from '../services/tokenMonitor';
+
+const prisma = new PrismaClient();
+
+const CHECKPOINT_ID = 'l1-block-scanner';
+
+export interface BlockScanResult {
+  fromHeight: number;
+  toHeight: number;
+  tokensDiscovered: number;
+  commitmentsRecorded: number;
+}
+
+/**
+ * A token the scanner registered that its creator has not registered yet
+ */
+export function isDiscoveredToken(token: Pick<Token, 'issuer' | 'creator'>): boolean {
+  return !token.issuer && !token.creator;
+}
+
+class BlockScanner {
+  private running = false;
+
+  constructor(private readonly backend: ChainBackend) {}
+
+  /**
+   * Scan the blocks after the checkpoint, up to MAX_BLOCKS_PER_RUN.
+   * Returns null if a run is already in progress or there is no new block.
+   */
+  async scanNewBlocks(): Promise<BlockScanResult | null> {
+    if (this.running) {
+      return null;
+    }
+    this.running = true;
+
+    try {
+      const checkpoint = await prisma.scanCheckpoint.findUnique({ where: { id: CHECKPOINT_ID } });
+      const fromHeight = checkpoint ? checkpoint.height + 1 : BLOCK_SCANNER_CONFIG.START_HEIGHT;
+      const tip = await this.backend.getTip();
+      if (fromHeight > tip.height) {
+        return null;
+      }
+      const toHeight = Math.min(tip.height, fromHeight + BLOCK_SCANNER_CONFIG.MAX_BLOCKS_PER_RUN - 1);
+
+      const result: BlockScanResult = { fromHeight, toHeight, tokensDiscovered: 0, commitmentsRecorded: 0 };
+      let previousHash = checkpoint?.blockHash || null;
+      for (let height = fromHeight; height <= toHeight; height++) {
+        const block = await this.backend.getBlock(height);
+        if (previousHash !== null && block.previousHash !== previousHash) {
+          await this.rewind(height - 1);
+          result.toHeight = height - 1;
+          break;
+        }
+        previousHash = block.hash;
+
+        const counts = await this.scanBlock(block);
+        result.tokensDiscovered += counts.tokensDiscovered;
+        result.commitmentsRecorded += counts.commitmentsRecorded;
+
+        await prisma.scanCheckpoint.upsert({
+          where: { id: CHECKPOINT_ID },
+          update: { height: block.height, blockHash: block.hash },
+          create: { id: CHECKPOINT_ID, height: block.height, blockHash: block.hash },
+        });
+      }
+
+      logger.info({ ...result, tipHeight: tip.height }, '⛓️ L1 blocks scanned');
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Move the checkpoint below a block a reorg replaced
+   */
+  private async rewind(replacedHeight: number): Promise<void> {
+    const height = Math.max(replacedHeight - BLOCK_SCANNER_CONFIG.REORG_REWIND_BLOCKS, BLOCK_SCANNER_CONFIG.START_HEIGHT - 1);
+    const blockHash = height >= 0 ? await this.backend.getBlockHash(height) : '';
+
+    await prisma.$transaction([
+      prisma.tickerCommitment.updateMany({ where: { blockHeight: { gt: height } }, data: { blockHeight: null } }),
+      prisma.scanCheckpoint.update({ where: { id: CHECKPOINT_ID }, data: { height, blockHash } }),
+    ]);
+    logger.warn({ replacedHeight, rewoundTo: height }, '⛓️ Chain reorganization detected; block scanner rewound');
+  }
+
+  private async scanBlock(block: ChainBlock): Promise<{ tokensDiscovered: number; commitmentsRecorded: number }> {
+    let tokensDiscovered = 0;
+    let commitmentsRecorded = 0;
+
+    for (const tx of block.transactions) {
+      const payload = arkPayload(tx);
+      if (!payload) {
+        continue;
+      }
+
+      try {
+        if (peekArkOpType(payload) === TokenOpType.COMMIT) {
+          const { commitment } = decodeArkCommit(payload);
+          await recordTickerCommitment(prisma, tx.txid, commitment, block.height);
+          commitmentsRecorded++;
+        } else if (await this.discoverToken(tx.txid, payload, block.height)) {
+          tokensDiscovered++;
+        }
+      } catch (error) {
+        if (!isCodecError(error)) {
+          throw error;
+        }
+        logger.debug({ txid: tx.txid, code: error.code, reason: error.message }, 'Malformed ARK payload');
+      }
+    }
+
+    return { tokensDiscovered, commitmentsRecorded };
+  }
+
+  /**
+   * Register a token from its ARK CREATE unless it is already known.
+   * Returns true if the token was registered.
+   */
+  private async discoverToken(txid: string, payload: Buffer, blockHeight: number): Promise<boolean> {
+    if (await prisma.token.findUnique({ where: { id: txid }, select: { id: true } })) {
+      return false;
+    }
+
+    const create = decodeArkCreate(payload);
+    if (isReservedTicker(create.symbol)) {
+      logger.info({ txid, symbol: create.symbol }, 'ARK CREATE for a reserved ticker ignored');
+      return false;
+    }
+
+    const details = await this.backend.getTx(txid);
+    await prisma.token.create({
+      data: {
+        id: txid,
+        name: create.name,
+        symbol: create.symbol,
+        totalSupply: create.totalSupply.toString(),
+        decimals: create.decimals,
+        creator: '',                 // Unknown until the creator registers the token
+        issuer: '',
+        createdInTx: 'pending',
+        status: 'pending',
+        bitcoinProof: txid,
+        bitcoinAddress: details?.senderAddress ?? null,
+        opReturnData: payload.toString('hex'),
+        bitcoinBlock: blockHeight,
+        isPresale: create.isPresale,
+        presaleBatchAmount: create.presaleBatchAmount?.toString() ?? null,
+        priceInSats: create.priceInSats?.toString() ?? null,
+        maxPurchasesPerWallet: create.maxPurchasesPerWallet ?? null,
+      },
+    });
+
+    logger.info({ tokenId: txid, symbol: create.symbol, blockHeight }, '🔭 Unregistered token discovered on L1');
+    startMonitoringToken(txid);
+    return true;
+  }
+}
+
+/**
+ * The ARK payload carried by a transaction's OP_RETURN, if any
+ */
+function arkPayload(tx: ChainTransaction): Buffer | null {
+  for (const output of tx.outputs) {
+    try {
+      const payload = extractOpReturnPayload(Buffer.from(output.scriptHex, 'hex'));
+      if (payload && identifyProtocol(payload) === 'ARK') {
+        return payload;
+      }
+    } catch (error) {
+      if (!isCodecError(error)) {
+        throw error;
+      }
+    }
+  }
+  return null;
+}
+
+// Singleton instance
+export const blockScanner = new BlockScanner(chainBackend);
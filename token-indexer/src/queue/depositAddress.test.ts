@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { deriveDepositKey, deriveDepositPublicKey } from './depositAddress';
+import { SECP256K1_N, publicKeyFromPrivate } from '../utils/secp256k1';
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  PrismaClient: (await import('../testing/prismaMock')).ForwardingPrismaClient,
+}));
+
+const poolKey = '11'.repeat(32);
+const poolPublicKey = publicKeyFromPrivate(poolKey);
+
+describe('deposit key derivation', () => {
+  it('derives the same public key from the pool public key as from the deposit key', () => {
+    for (const requestId of ['req-1', 'req-2', 'clx0000000000000000000000']) {
+      expect(deriveDepositPublicKey(poolPublicKey, requestId)).toBe(
+        publicKeyFromPrivate(deriveDepositKey(poolKey, requestId))
+      );
+    }
+  });
+
+  it('gives every request its own key', () => {
+    expect(deriveDepositPublicKey(poolPublicKey, 'req-1')).not.toBe(deriveDepositPublicKey(poolPublicKey, 'req-2'));
+    expect(deriveDepositPublicKey(poolPublicKey, 'req-1')).not.toBe(poolPublicKey);
+  });
+
+  it('gives each pool wallet its own keys for the same request', () => {
+    const otherPoolKey = '22'.repeat(32);
+    expect(deriveDepositKey(otherPoolKey, 'req-1')).not.toBe(deriveDepositKey(poolKey, 'req-1'));
+  });
+
+  it('reduces the deposit key mod n and pads it to 32 bytes', () => {
+    const highPoolKey = (SECP256K1_N - 1n).toString(16);
+    const depositKey = deriveDepositKey(highPoolKey, 'req-1');
+
+    expect(depositKey).toMatch(/^[0-9a-f]{64}$/);
+    expect(BigInt(`0x${depositKey}`) < SECP256K1_N).toBe(true);
+    expect(publicKeyFromPrivate(depositKey)).toBe(
+      deriveDepositPublicKey(publicKeyFromPrivate(highPoolKey), 'req-1')
+    );
+  });
+});
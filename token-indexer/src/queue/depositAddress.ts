@@ -0,0 +1,122 @@
+/**
+ * Per-request deposit addresses for presale payments
+ *
+ * Each purchase request is paid to its own address instead of the shared pool
+ * wallet. The deposit key is the pool wallet key tweaked by an HMAC of the
+ * request ID, keyed with the pool wallet's public key:
+ *
+ *   tweak      = HMAC-SHA256(poolPubKey, "presale-deposit:" + requestId)  (mod n)
+ *   depositPub = poolPubKey + tweak·G
+ *   depositKey = poolKey + tweak  (mod n)
+ *
+ * The address can therefore be derived from the pool wallet's public key alone
+ * (watch-only instances hand out deposit addresses), while only the signer that
+ * holds the pool key can spend from it. Any payment to the address belongs to
+ * that request - whether or not the client reports the txid.
+ */
+
+import { createHmac } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { SECP256K1_N, publicKeyFromPrivate, tweakPublicKey } from '../utils/secp256k1';
+import { getAddressFromPublicKeyViaSdk } from '../services/arkSdk';
+import { getPoolWalletKey } from '../config/presale-pool';
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+const prisma = new PrismaClient();
+
+const DEPOSIT_TWEAK_PREFIX = 'presale-deposit:';
+
+function depositTweak(poolPublicKeyHex: string, requestId: string): bigint {
+  const digest = createHmac('sha256', Buffer.from(poolPublicKeyHex, 'hex'))
+    .update(`${DEPOSIT_TWEAK_PREFIX}${requestId}`)
+    .digest('hex');
+  return BigInt(`0x${digest}`) % SECP256K1_N;
+}
+
+/**
+ * Public key (compressed hex) of a request's deposit address
+ */
+export function deriveDepositPublicKey(poolPublicKeyHex: string, requestId: string): string {
+  return tweakPublicKey(poolPublicKeyHex, depositTweak(poolPublicKeyHex, requestId));
+}
+
+/**
+ * Derive the private key of a request's deposit address from the pool wallet key
+ */
+export function deriveDepositKey(poolPrivateKeyHex: string, requestId: string): string {
+  const poolKey = BigInt(`0x${poolPrivateKeyHex}`);
+  const tweak = depositTweak(publicKeyFromPrivate(poolPrivateKeyHex), requestId);
+
+  const depositKey = (poolKey + tweak) % SECP256K1_N;
+  if (depositKey === 0n) {
+    throw new Error(`Invalid deposit key for request ${requestId}`);
+  }
+
+  return depositKey.toString(16).padStart(64, '0');
+}
+
+/**
+ * Derive and store a request's deposit address.
+ * Idempotent: an already assigned address is returned unchanged.
+ *
+ * @returns The deposit address, or null if the pool wallet's public key is unknown
+ *          or the address could not be derived (the request then pays the pool wallet)
+ */
+export async function assignDepositAddress(requestId: string, poolWalletAddress: string): Promise<string | null> {
+  const existing = await prisma.purchaseRequest.findUnique({
+    where: { id: requestId },
+    select: { depositAddress: true }
+  });
+  if (existing?.depositAddress) {
+    return existing.depositAddress;
+  }
+
+  const poolWallet = await prisma.poolWallet.findUnique({
+    where: { address: poolWalletAddress },
+    select: { publicKey: true }
+  });
+  if (!poolWallet?.publicKey) {
+    return null;
+  }
+
+  const derived = await getAddressFromPublicKeyViaSdk(deriveDepositPublicKey(poolWallet.publicKey, requestId));
+  if (!derived.success || !derived.address) {
+    logger.error({ requestId, error: derived.error }, '❌ Failed to derive deposit address');
+    return null;
+  }
+
+  await prisma.purchaseRequest.update({
+    where: { id: requestId },
+    data: { depositAddress: derived.address }
+  });
+
+  return derived.address;
+}
+
+/**
+ * Private key for an address that receives presale payments: a pool wallet or
+ * a request's deposit address. Only available where the keystore holds the
+ * pool wallet key (the refund signer); monitoring never needs it.
+ */
+export async function resolvePaymentKey(
+  db: Db,
+  address: string
+): Promise<{ privateKey: string; isDeposit: boolean } | null> {
+  const poolKey = getPoolWalletKey(address);
+  if (poolKey) {
+    return { privateKey: poolKey, isDeposit: false };
+  }
+
+  const request = await db.purchaseRequest.findUnique({
+    where: { depositAddress: address },
+    select: { id: true, paymentAddress: true }
+  });
+  const parentKey = request?.paymentAddress ? getPoolWalletKey(request.paymentAddress) : undefined;
+  if (!request || !parentKey) {
+    return null;
+  }
+
+  return { privateKey: deriveDepositKey(parentKey, request.id), isDeposit: true };
+}
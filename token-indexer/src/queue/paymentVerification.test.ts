@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useMemoryDb, type MemoryDb } from '../testing/memoryDb';
+import { PRESALE_POOL_CONFIG } from '../config/presale-pool';
+import { checkPaymentAmount, findPaymentReuse, overpaidAmount, presalePrice } from './paymentVerification';
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  PrismaClient: (await import('../testing/prismaMock')).ForwardingPrismaClient,
+}));
+
+let memory: MemoryDb;
+
+beforeEach(async () => {
+  memory = useMemoryDb();
+  await memory.client.token.create({
+    data: { id: 'token-1', name: 'Token', symbol: 'TKN', totalSupply: '1000', creator: 'tark1pool', createdInTx: 'vtxo:0' },
+  });
+});
+
+afterEach(() => {
+  PRESALE_POOL_CONFIG.OVERPAYMENT_TOLERANCE_SATS = 0;
+});
+
+describe('presalePrice', () => {
+  it('prices batches from the token, or null when it has no price', () => {
+    expect(presalePrice({ priceInSats: '2000' }, 3)).toBe(6000n);
+    expect(presalePrice({ priceInSats: null }, 3)).toBeNull();
+    expect(presalePrice({ priceInSats: '1e3' }, 3)).toBeNull();
+  });
+});
+
+describe('checkPaymentAmount', () => {
+  it('rejects an underpayment', () => {
+    expect(checkPaymentAmount(1000n, 999n)).toMatchObject({ outcome: 'rejected', code: 'underpaid', paidAmount: 999n });
+  });
+
+  it('accepts the exact price and any overpayment', () => {
+    expect(checkPaymentAmount(1000n, 1000n)).toBeNull();
+    expect(checkPaymentAmount(1000n, 5000n)).toBeNull();
+  });
+});
+
+describe('overpaidAmount', () => {
+  it('refunds the whole excess by default', () => {
+    expect(overpaidAmount(1000n, 1000n)).toBe(0n);
+    expect(overpaidAmount(1000n, 1500n)).toBe(500n);
+  });
+
+  it('keeps an excess within the tolerance', () => {
+    PRESALE_POOL_CONFIG.OVERPAYMENT_TOLERANCE_SATS = 100;
+    expect(overpaidAmount(1000n, 1100n)).toBe(0n);
+    expect(overpaidAmount(1000n, 1101n)).toBe(101n);
+  });
+});
+
+describe('findPaymentReuse', () => {
+  const request = (id: string, txid: string | null) => memory.client.purchaseRequest.create({
+    data: {
+      id, tokenId: 'token-1', walletAddress: 'tark1buyer', batchesPurchased: 1, totalPaid: '1000',
+      txid, timestamp: BigInt(Date.now()), status: 'pending',
+    },
+  });
+
+  it('accepts a txid no purchase uses', async () => {
+    await request('request-1', 'tx-1');
+    expect(await findPaymentReuse(memory.client, 'tx-1', 'request-1')).toBeNull();
+  });
+
+  it('rejects a txid bound to another request', async () => {
+    await request('request-1', 'tx-1');
+    expect(await findPaymentReuse(memory.client, 'tx-1', 'request-2')).toMatchObject({ code: 'payment-reused' });
+  });
+
+  it('rejects a txid that paid a direct purchase or is being refunded', async () => {
+    await memory.client.presalePurchase.create({
+      data: { tokenId: 'token-1', walletAddress: 'tark1buyer', batchesPurchased: 1, totalPaid: '1000', txid: 'tx-1' },
+    });
+    await memory.client.refund.create({
+      data: { paymentTxid: 'tx-2', tokenId: 'token-1', walletAddress: 'tark1buyer', poolWalletAddress: 'tark1pool', reason: 'canceled' },
+    });
+
+    expect(await findPaymentReuse(memory.client, 'tx-1')).toMatchObject({ code: 'payment-reused' });
+    expect(await findPaymentReuse(memory.client, 'tx-2')).toMatchObject({ code: 'payment-reused' });
+  });
+});
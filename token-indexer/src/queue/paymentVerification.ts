@@ -0,0 +1,176 @@
+/**
+ * Presale payment verification
+ *
+ * A payment is accepted only when the address the buyer was asked to pay (the
+ * request's deposit address, or the pool wallet for older requests) received
+ * at least the price of the batches bought, the payment spent VTXOs of the
+ * buyer's wallet, and the txid is not already bound to another purchase.
+ * An overpayment buys the same batches; what it paid beyond the price (and
+ * the configured tolerance) is refunded.
+ */
+
+import { Prisma, PrismaClient, Token } from '@prisma/client';
+import { arkadeClient } from '../services/arkadeClient';
+import { PRESALE_POOL_CONFIG } from '../config/presale-pool';
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+const prisma = new PrismaClient();
+
+export type PaymentRejectionCode =
+  | 'underpaid'
+  | 'overpaid' // Older requests, from before overpayments were accepted
+  | 'payment-reused'
+  | 'wrong-sender'
+  | 'payment-timeout'
+  | 'canceled';
+
+export type PaymentCheck =
+  | { outcome: 'verified'; paidAmount: bigint; paymentAddress: string }
+  | { outcome: 'not-found'; paymentAddress: string }
+  | { outcome: 'rejected'; code: PaymentRejectionCode; reason: string; paidAmount?: bigint; paymentAddress?: string };
+
+/**
+ * Price of `batches` presale batches in sats, computed from the token's price.
+ * Null when the token has no price set.
+ */
+export function presalePrice(token: Pick<Token, 'priceInSats'>, batches: number): bigint | null {
+  if (!token.priceInSats || !/^\d+$/.test(token.priceInSats)) {
+    return null;
+  }
+  return BigInt(token.priceInSats) * BigInt(batches);
+}
+
+/**
+ * Compare the received amount against the expected price.
+ * Only underpayments are rejected; see overpaidAmount for the excess.
+ */
+export function checkPaymentAmount(expected: bigint, received: bigint): PaymentCheck | null {
+  if (received < expected) {
+    return {
+      outcome: 'rejected',
+      code: 'underpaid',
+      reason: `Underpaid: received ${received} sats, expected ${expected} sats`,
+      paidAmount: received,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Sats to refund from an accepted payment: what it paid beyond the price,
+ * unless that is within the overpayment tolerance (0 then)
+ */
+export function overpaidAmount(expected: bigint, received: bigint): bigint {
+  const excess = received - expected;
+  const tolerance = BigInt(PRESALE_POOL_CONFIG.OVERPAYMENT_TOLERANCE_SATS);
+  return excess > tolerance ? excess : 0n;
+}
+
+/**
+ * Reject a txid already bound to another purchase request, direct purchase or refund.
+ * Call this before the request itself is confirmed (confirmation creates its
+ * own PresalePurchase row with the same txid).
+ */
+export async function findPaymentReuse(db: Db, txid: string, requestId?: string): Promise<PaymentCheck | null> {
+  const otherRequest = await db.purchaseRequest.findFirst({
+    where: { txid, ...(requestId ? { id: { not: requestId } } : {}) },
+    select: { id: true },
+  });
+  const otherPurchase = await db.presalePurchase.findFirst({ where: { txid }, select: { id: true } });
+
+  if (!otherRequest && !otherPurchase) {
+    // A payment queued for refund can no longer buy anything
+    const refund = await db.refund.findUnique({ where: { paymentTxid: txid }, select: { id: true } });
+    if (refund) {
+      return {
+        outcome: 'rejected',
+        code: 'payment-reused',
+        reason: `Payment reused: txid ${txid} is being refunded`,
+      };
+    }
+    return null;
+  }
+
+  return {
+    outcome: 'rejected',
+    code: 'payment-reused',
+    reason: `Payment reused: txid ${txid} already used by another purchase`,
+  };
+}
+
+/**
+ * Payments received by a pool wallet or deposit address, oldest first.
+ * Watch-only: read from the ASP indexer by address, no key needed.
+ * Returns null when the address history is unavailable.
+ */
+async function getReceipts(
+  paymentAddress: string
+): Promise<{ receipts: Array<{ txid: string; amount: bigint }>; isDeposit: boolean } | null> {
+  const receipts = await arkadeClient.getReceivedPayments(paymentAddress);
+  if (!receipts) {
+    return null;
+  }
+
+  const deposit = await prisma.purchaseRequest.findUnique({
+    where: { depositAddress: paymentAddress },
+    select: { id: true }
+  });
+
+  return { receipts, isDeposit: Boolean(deposit) };
+}
+
+/**
+ * Sum what the assigned address received for txid.
+ * A deposit address belongs to a single request, so everything it received is
+ * attributed to that request once txid is among its receipts.
+ * Returns null when the address history is unavailable, or the payment is not
+ * yet visible in it.
+ */
+export async function getReceivedAmount(paymentAddress: string, txid: string): Promise<bigint | null> {
+  const found = await getReceipts(paymentAddress);
+  if (!found || !found.receipts.some((r) => r.txid === txid)) {
+    return null;
+  }
+
+  const attributed = found.isDeposit
+    ? found.receipts
+    : found.receipts.filter((r) => r.txid === txid);
+
+  return attributed.reduce((sum, r) => sum + r.amount, 0n);
+}
+
+/**
+ * First payment received by a deposit address, whether or not it was reported
+ */
+export async function findDepositPayment(depositAddress: string): Promise<string | null> {
+  const found = await getReceipts(depositAddress);
+  if (!found || !found.isDeposit || found.receipts.length === 0) {
+    return null;
+  }
+  return found.receipts[0].txid;
+}
+
+/**
+ * Whether txid spent a VTXO of the sender's address, i.e. the sender paid it.
+ * Watch-only, like the receipts. Returns null when the sender's history is unavailable.
+ */
+export async function isPaymentFrom(senderAddress: string, txid: string): Promise<boolean | null> {
+  const vtxos = await arkadeClient.getVtxosByAddress(senderAddress);
+  if (!vtxos) {
+    return null;
+  }
+  return vtxos.some((v) => v.arkTxid === txid);
+}
+
+/**
+ * Rejection for a payment the buyer did not send
+ */
+export function wrongSender(txid: string, senderAddress: string): Extract<PaymentCheck, { outcome: 'rejected' }> {
+  return {
+    outcome: 'rejected',
+    code: 'wrong-sender',
+    reason: `Wrong sender: txid ${txid} was not paid from ${senderAddress}`,
+  };
+}
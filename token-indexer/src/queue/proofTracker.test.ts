@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server as SocketIOServer } from 'socket.io';
+import { useMemoryDb, type MemoryDb } from '../testing/memoryDb';
+import { chainBackend, type ChainTxStatus } from '../chain';
+import { startMonitoringToken } from '../services/tokenMonitor';
+import { proofTracker } from './proofTracker';
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  PrismaClient: (await import('../testing/prismaMock')).ForwardingPrismaClient,
+}));
+vi.mock('../chain', () => ({ chainBackend: { getTip: vi.fn(), getTxStatus: vi.fn() } }));
+vi.mock('../services/tokenMonitor', () => ({ startMonitoringToken: vi.fn() }));
+
+const TIP = 104;
+
+let memory: MemoryDb;
+let emitted: Array<{ room: string; event: string; payload: any }>;
+let io: SocketIOServer;
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  memory = useMemoryDb();
+  emitted = [];
+  io = {
+    to: (room: string) => ({ emit: (event: string, payload: any) => emitted.push({ room, event, payload }) }),
+  } as unknown as SocketIOServer;
+  vi.mocked(chainBackend.getTip).mockResolvedValue({ height: TIP, hash: 'tip' });
+
+  await createToken('token-a', 'tark1alice', { bitcoinBlock: 100, bitcoinBlockHash: 'block-100' });
+  await memory.client.ticker.create({
+    data: { ticker: 'TKN', tokenId: 'token-a', priorityHeight: 100, claimHeight: 100 },
+  });
+});
+
+function createToken(id: string, issuer: string, overrides: Record<string, unknown> = {}) {
+  return memory.client.token.create({
+    data: {
+      id, name: 'Token', symbol: 'TKN', totalSupply: '1000', creator: issuer, issuer, createdInTx: 'vtxo:0',
+      status: 'awaiting_settlement', confirmations: 1, ...overrides,
+    },
+  });
+}
+
+const chainHas = (status: Omit<ChainTxStatus, 'blockTime'> | null) =>
+  vi.mocked(chainBackend.getTxStatus).mockResolvedValue(status && { ...status, blockTime: null });
+const token = (id: string) => memory.client.token.findUniqueOrThrow({ where: { id } });
+const tickerHolder = async () => (await memory.client.ticker.findUnique({ where: { ticker: 'TKN' } }))?.tokenId;
+const walletEvents = () => emitted.filter((e) => e.room.startsWith('wallet:')).map((e) => [e.room, e.event]);
+
+describe('proofTracker.checkProofs', () => {
+  it('updates the confirmations of a proof still in its block', async () => {
+    chainHas({ confirmed: true, blockHeight: 100, blockHash: 'block-100' });
+
+    expect(await proofTracker.checkProofs(io)).toEqual({ checked: 1, moved: 0, reverted: 0, failed: 0 });
+    expect(await token('token-a')).toMatchObject({ status: 'awaiting_settlement', confirmations: 5, bitcoinBlock: 100 });
+    expect(emitted).toEqual([]);
+  });
+
+  it('sends a token whose block was reorged out back to pending', async () => {
+    chainHas({ confirmed: false, blockHeight: null, blockHash: null });
+
+    expect(await proofTracker.checkProofs(io)).toMatchObject({ reverted: 1 });
+    expect(await token('token-a')).toMatchObject({ status: 'pending', bitcoinBlock: null, confirmations: 0 });
+    expect(await tickerHolder()).toBeUndefined();
+    expect(walletEvents()).toEqual([['wallet:tark1alice', 'token-reorged']]);
+    expect(startMonitoringToken).toHaveBeenCalledWith('token-a');
+  });
+
+  it('fails a token whose creation left the chain', async () => {
+    chainHas(null);
+
+    expect(await proofTracker.checkProofs(io)).toMatchObject({ failed: 1 });
+    expect(await token('token-a')).toMatchObject({ status: 'failed', bitcoinBlock: null });
+    expect(await tickerHolder()).toBeUndefined();
+    expect(walletEvents()).toEqual([['wallet:tark1alice', 'token-failed']]);
+  });
+
+  it('moves the proof of a token mined again in another block and keeps its claim', async () => {
+    chainHas({ confirmed: true, blockHeight: 101, blockHash: 'block-101' });
+
+    expect(await proofTracker.checkProofs(io)).toMatchObject({ moved: 1 });
+    expect(await token('token-a')).toMatchObject({ status: 'awaiting_settlement', bitcoinBlock: 101, confirmations: 4 });
+    expect(await memory.client.ticker.findUnique({ where: { ticker: 'TKN' } }))
+      .toMatchObject({ tokenId: 'token-a', claimHeight: 101 });
+    expect(emitted).toEqual([]);
+  });
+
+  describe('when another token holds the ticker', () => {
+    beforeEach(async () => {
+      await createToken('token-b', 'tark1bob', { bitcoinBlock: 102, bitcoinBlockHash: 'block-102', status: 'confirmed', confirmations: 100 });
+      await memory.client.ticker.update({ where: { ticker: 'TKN' }, data: { tokenId: 'token-b', priorityHeight: 102, claimHeight: 102 } });
+    });
+
+    it('fails the moved token if it now ranks after the holder', async () => {
+      chainHas({ confirmed: true, blockHeight: 103, blockHash: 'block-103' });
+
+      expect(await proofTracker.checkProofs(io)).toMatchObject({ moved: 1 });
+      expect((await token('token-a')).status).toBe('failed');
+      expect(await tickerHolder()).toBe('token-b');
+      expect(walletEvents()).toEqual([['wallet:tark1alice', 'token-failed']]);
+    });
+
+    it('fails and notifies the holder the moved token displaces, canceling its open purchases', async () => {
+      await memory.client.purchaseRequest.create({
+        data: {
+          id: 'request-1', tokenId: 'token-b', walletAddress: 'tark1buyer', batchesPurchased: 1, totalPaid: '1000',
+          txid: 'payment-1', timestamp: BigInt(Date.now()), status: 'pending', paymentStatus: 'payment-sent',
+        },
+      });
+      chainHas({ confirmed: true, blockHeight: 101, blockHash: 'block-101' });
+
+      expect(await proofTracker.checkProofs(io)).toMatchObject({ moved: 1 });
+      expect((await token('token-a')).status).toBe('awaiting_settlement');
+      expect((await token('token-b')).status).toBe('failed');
+      expect(await tickerHolder()).toBe('token-a');
+      expect(walletEvents()).toEqual([['wallet:tark1bob', 'token-failed']]);
+      expect(await memory.client.purchaseRequest.findUnique({ where: { id: 'request-1' } }))
+        .toMatchObject({ status: 'rejected', paymentStatus: 'rejected', rejectionCode: 'canceled' });
+    });
+  });
+});
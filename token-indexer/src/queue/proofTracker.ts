@@ -0,0 +1,169 @@
+/**
+ * Creation Proof Tracker
+ *
+ * Re-checks the creation proof of every confirmed token against the chain
+ * until it has SAFE_CONFIRMATIONS (see token/creationProof.ts):
+ *
+ *   - still in its block → confirmations are updated from the tip
+ *   - mined again in another block → the proof moves and the ticker claim is
+ *     re-ranked at the new height; whichever token loses it fails
+ *     (`token-failed`)
+ *   - back in the mempool → the token returns to pending (`token-reorged`)
+ *     and the token monitor waits for it to confirm again
+ *   - unknown to the chain → the token fails (`token-failed`)
+ *
+ * Updates are idempotent, so several instances can run it.
+ */
+
+import { PrismaClient, Token } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { logger } from '../utils/logger';
+import { PROOF_TRACKER_CONFIG } from '../config/proofTracker';
+import { ChainBackend, chainBackend } from '../chain';
+import { confirmationsAt, revertCreationProof } from '../token/creationProof';
+import { claimTicker } from '../token/tickers';
+import { startMonitoringToken } from '../services/tokenMonitor';
+
+const prisma = new PrismaClient();
+
+type TrackedToken = Pick<
+  Token,
+  'id' | 'symbol' | 'creator' | 'issuer' | 'opReturnData' | 'status' | 'bitcoinProof' | 'bitcoinBlock' | 'bitcoinBlockHash'
+>;
+
+export interface ProofCheckResult {
+  checked: number;
+  moved: number;
+  reverted: number;
+  failed: number;
+}
+
+class CreationProofTracker {
+  constructor(private readonly backend: ChainBackend) {}
+
+  /**
+   * Check every confirmed token whose proof is not deep enough yet
+   */
+  async checkProofs(io?: SocketIOServer): Promise<ProofCheckResult> {
+    const result: ProofCheckResult = { checked: 0, moved: 0, reverted: 0, failed: 0 };
+
+    const tokens = await prisma.token.findMany({
+      where: {
+        status: { in: ['awaiting_settlement', 'confirmed'] },
+        bitcoinBlock: { not: null },
+        confirmations: { lt: PROOF_TRACKER_CONFIG.SAFE_CONFIRMATIONS },
+      },
+      select: {
+        id: true,
+        symbol: true,
+        creator: true,
+        issuer: true,
+        opReturnData: true,
+        status: true,
+        bitcoinProof: true,
+        bitcoinBlock: true,
+        bitcoinBlockHash: true,
+      },
+    });
+    if (tokens.length === 0) {
+      return result;
+    }
+
+    const tip = await this.backend.getTip();
+    for (const token of tokens) {
+      try {
+        const outcome = await this.checkProof(token, tip.height, io);
+        result.checked++;
+        if (outcome !== 'unchanged') {
+          result[outcome]++;
+        }
+      } catch (error: any) {
+        logger.error({ tokenId: token.id, error: error.message }, '❌ Creation proof check failed');
+      }
+    }
+
+    if (result.moved + result.reverted + result.failed > 0) {
+      logger.warn({ ...result, tipHeight: tip.height }, '⛓️ Chain reorganization affected token creation proofs');
+    }
+    return result;
+  }
+
+  private async checkProof(
+    token: TrackedToken,
+    tipHeight: number,
+    io?: SocketIOServer
+  ): Promise<'unchanged' | 'moved' | 'reverted' | 'failed'> {
+    const status = await this.backend.getTxStatus(token.bitcoinProof || token.id);
+
+    if (!status) {
+      await prisma.$transaction((tx) => revertCreationProof(tx, token.id, 'failed'));
+      logger.warn({ tokenId: token.id, block: token.bitcoinBlock }, '❌ Creation transaction left the chain; token failed');
+      this.notify(io, token, 'token-failed', 'failed', 'Creation transaction was dropped from the chain');
+      return 'failed';
+    }
+
+    if (!status.confirmed || status.blockHeight === null || status.blockHash === null) {
+      await prisma.$transaction((tx) => revertCreationProof(tx, token.id, 'pending'));
+      logger.warn({ tokenId: token.id, block: token.bitcoinBlock }, '↩️ Creation block reorged out; token back to pending');
+      this.notify(io, token, 'token-reorged', 'pending', 'Creation block was reorged out; waiting for it to confirm again');
+      startMonitoringToken(token.id);
+      return 'reverted';
+    }
+
+    const confirmations = confirmationsAt(status.blockHeight, tipHeight);
+    const sameBlock = token.bitcoinBlockHash
+      ? token.bitcoinBlockHash === status.blockHash
+      : token.bitcoinBlock === status.blockHeight;
+    if (sameBlock) {
+      await prisma.token.update({
+        where: { id: token.id },
+        data: { confirmations, bitcoinBlockHash: status.blockHash },
+      });
+      return 'unchanged';
+    }
+
+    // Mined again in another block: the claim ranks by the new height
+    const claim = await prisma.$transaction(async (tx) => {
+      await tx.token.update({
+        where: { id: token.id },
+        data: { bitcoinBlock: status.blockHeight, bitcoinBlockHash: status.blockHash, confirmations },
+      });
+      return claimTicker(tx, token, status.blockHeight!, tipHeight);
+    });
+    logger.warn({
+      tokenId: token.id,
+      fromBlock: token.bitcoinBlock,
+      toBlock: status.blockHeight
+    }, '⛓️ Creation transaction moved to another block');
+
+    if (!claim.claimed) {
+      this.notify(io, token, 'token-failed', 'failed', `Ticker ${claim.ticker} is held by token ${claim.heldBy} after a reorg`);
+    }
+    if (claim.displacedTokenId) {
+      const displaced = await prisma.token.findUnique({ where: { id: claim.displacedTokenId } });
+      if (displaced) {
+        this.notify(io, displaced, 'token-failed', 'failed', `Ticker ${claim.ticker} was claimed earlier by token ${token.id} after a reorg`);
+      }
+    }
+    return 'moved';
+  }
+
+  private notify(
+    io: SocketIOServer | undefined,
+    token: Pick<Token, 'id' | 'symbol' | 'creator' | 'issuer'>,
+    event: string,
+    status: string,
+    reason: string
+  ): void {
+    io?.to(`wallet:${token.issuer || token.creator}`).emit(event, {
+      tokenId: token.id,
+      symbol: token.symbol,
+      status,
+      reason,
+    });
+    io?.to(`token:${token.id}`).emit(event, { tokenId: token.id, status, reason });
+  }
+}
+
+// Singleton instance
+export const proofTracker = new CreationProofTracker(chainBackend);
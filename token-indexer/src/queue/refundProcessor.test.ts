@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useMemoryDb, type MemoryDb } from '../testing/memoryDb';
+import { sendViaSdk } from '../services/arkSdk';
+import { arkadeClient } from '../services/arkadeClient';
+import { resolvePaymentKey } from './depositAddress';
+import { RefundError, refundProcessor } from './refundProcessor';
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  PrismaClient: (await import('../testing/prismaMock')).ForwardingPrismaClient,
+}));
+vi.mock('../services/arkSdk', () => ({ sendViaSdk: vi.fn() }));
+vi.mock('../services/arkadeClient', () => ({
+  arkadeClient: { getVtxosByAddress: vi.fn(), getReceivedPayments: vi.fn(), getAddressBalance: vi.fn() },
+}));
+vi.mock('./depositAddress', () => ({ resolvePaymentKey: vi.fn() }));
+
+const POOL = 'tark1pool';
+const BUYER = 'tark1buyer';
+
+let memory: MemoryDb;
+
+beforeEach(async () => {
+  vi.resetAllMocks();
+  memory = useMemoryDb();
+  await memory.client.token.create({
+    data: { id: 'token-1', name: 'Token', symbol: 'TKN', totalSupply: '1000', creator: POOL, createdInTx: 'vtxo:0' },
+  });
+  vi.mocked(resolvePaymentKey).mockResolvedValue({ privateKey: 'pool-key', isDeposit: false });
+  vi.mocked(sendViaSdk).mockResolvedValue({ success: true, txid: 'refund-tx' } as any);
+});
+
+async function createRequest(id: string, overrides: Record<string, unknown> = {}) {
+  return memory.client.purchaseRequest.create({
+    data: {
+      id, tokenId: 'token-1', walletAddress: BUYER, batchesPurchased: 1, totalPaid: '1000',
+      txid: `tx-${id}`, paymentAddress: POOL, timestamp: BigInt(Date.now()), status: 'rejected',
+      rejectionCode: 'payment-timeout', processedAt: new Date(), ...overrides,
+    },
+  });
+}
+
+async function createRefund(overrides: Record<string, unknown> = {}) {
+  return memory.client.refund.create({
+    data: {
+      paymentTxid: 'tx-1', tokenId: 'token-1', walletAddress: BUYER, poolWalletAddress: POOL,
+      amount: '1000', reason: 'canceled', ...overrides,
+    },
+  });
+}
+
+const paidBy = (txid: string) => vi.mocked(arkadeClient.getVtxosByAddress).mockResolvedValue([{ arkTxid: txid }] as any);
+
+describe('queueRefunds', () => {
+  it('queues one refund per paid, rejected request', async () => {
+    await createRequest('request-1', { paidAmount: '1000' });
+    await createRequest('request-2', { txid: null });
+    await createRequest('request-3', { status: 'confirmed', rejectionCode: null });
+
+    expect(await refundProcessor.queueRefunds()).toBe(1);
+    expect(await refundProcessor.queueRefunds()).toBe(0);
+
+    expect(memory.rows('refund')).toEqual([
+      expect.objectContaining({
+        purchaseRequestId: 'request-1', paymentTxid: 'tx-request-1', poolWalletAddress: POOL,
+        amount: '1000', reason: 'payment-timeout', status: 'pending',
+      }),
+    ]);
+  });
+
+  it('skips payments that are not the buyer\'s to get back', async () => {
+    await createRequest('request-1', { rejectionCode: 'payment-reused' });
+    await createRequest('request-2', { rejectionCode: 'wrong-sender' });
+
+    expect(await refundProcessor.queueRefunds()).toBe(0);
+    expect(memory.rows('refund')).toHaveLength(0);
+  });
+});
+
+describe('processRefunds', () => {
+  it('sends the refund to the payer and completes it', async () => {
+    await createRefund();
+    paidBy('tx-1');
+
+    await refundProcessor.processRefunds();
+
+    expect(sendViaSdk).toHaveBeenCalledWith('pool-key', BUYER, 1000);
+    expect(memory.rows('refund')[0]).toMatchObject({ status: 'completed', refundTxid: 'refund-tx', attempts: 1 });
+  });
+
+  it('withholds a pool wallet refund for a payment the buyer did not send', async () => {
+    await createRefund();
+    paidBy('someone-elses-tx');
+
+    await refundProcessor.processRefunds();
+
+    expect(sendViaSdk).not.toHaveBeenCalled();
+    expect(memory.rows('refund')[0]).toMatchObject({ status: 'failed', lastError: expect.stringMatching(/^Wrong sender/) });
+  });
+
+  it('waits while the payer history is unavailable', async () => {
+    await createRefund();
+    vi.mocked(arkadeClient.getVtxosByAddress).mockResolvedValue(null);
+
+    await refundProcessor.processRefunds();
+
+    expect(sendViaSdk).not.toHaveBeenCalled();
+    expect(memory.rows('refund')[0]).toMatchObject({ status: 'pending', lastError: 'Payer wallet history unavailable' });
+  });
+
+  it('refunds from a deposit address without checking the sender', async () => {
+    await createRefund({ poolWalletAddress: 'tark1deposit' });
+    vi.mocked(resolvePaymentKey).mockResolvedValue({ privateKey: 'deposit-key', isDeposit: true });
+
+    await refundProcessor.processRefunds();
+
+    expect(arkadeClient.getVtxosByAddress).not.toHaveBeenCalled();
+    expect(sendViaSdk).toHaveBeenCalledWith('deposit-key', BUYER, 1000);
+  });
+
+  it('marks a failed send failed', async () => {
+    await createRefund();
+    paidBy('tx-1');
+    vi.mocked(sendViaSdk).mockResolvedValue({ success: false, error: 'timeout' } as any);
+
+    await refundProcessor.processRefunds();
+
+    expect(memory.rows('refund')[0]).toMatchObject({ status: 'failed', lastError: 'timeout' });
+  });
+});
+
+describe('retryRefund', () => {
+  it('queues a failed refund again while its source holds the amount', async () => {
+    const refund = await createRefund({ status: 'failed', attempts: 1, lastError: 'timeout' });
+    vi.mocked(arkadeClient.getAddressBalance).mockResolvedValue({ available: 1000n, total: 1000n });
+
+    expect(await refundProcessor.retryRefund(refund.id)).toMatchObject({ status: 'pending', attempts: 0, lastError: null });
+  });
+
+  it('refuses when the amount may already have gone out', async () => {
+    const refund = await createRefund({ status: 'failed' });
+    vi.mocked(arkadeClient.getAddressBalance).mockResolvedValue({ available: 999n, total: 999n });
+
+    await expect(refundProcessor.retryRefund(refund.id)).rejects.toMatchObject({ code: 'conflict' });
+    expect(memory.rows('refund')[0].status).toBe('failed');
+  });
+
+  it('refuses refunds that are not failed, or unknown', async () => {
+    const refund = await createRefund({ status: 'completed' });
+
+    await expect(refundProcessor.retryRefund(refund.id)).rejects.toMatchObject({ code: 'conflict' });
+    await expect(refundProcessor.retryRefund('missing')).rejects.toBeInstanceOf(RefundError);
+  });
+});
+
+describe('resolveRefund', () => {
+  it('completes a refund sent by hand', async () => {
+    const refund = await createRefund({ status: 'failed' });
+
+    expect(await refundProcessor.resolveRefund(refund.id, { refundTxid: 'manual-tx', note: 'sent by hand' }))
+      .toMatchObject({ status: 'completed', refundTxid: 'manual-tx', lastError: 'sent by hand' });
+  });
+
+  it('closes a refund without a refund', async () => {
+    const refund = await createRefund({ status: 'failed' });
+
+    expect(await refundProcessor.resolveRefund(refund.id, { note: 'not the buyer\'s payment' }))
+      .toMatchObject({ status: 'closed', refundTxid: null });
+  });
+});
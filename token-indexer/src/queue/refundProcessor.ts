@@ -0,0 +1,417 @@
+/**
+ * Refund Processor for presale payments
+ *
+ * A payment that reached a pool wallet or deposit address but did not buy anything (request
+ * timed out, was canceled, underpaid, or a direct purchase ran out of
+ * supply) is returned to the payer, as is the excess of an overpayment:
+ *
+ *   1. queueRefunds: create one Refund row per rejected, paid request
+ *      (excess refunds are queued by the purchase itself, with their amount)
+ *   2. processRefunds: look up the amount received for the payment txid,
+ *      claim the refund (pending → processing) and send it from the receiving
+ *      deposit address or pool wallet back to the payer's Arkade address
+ *
+ * The claim is a conditional update, so concurrent instances never send the
+ * same refund twice. A failed send is marked failed rather than retried: the
+ * payment may have gone out, so it needs a manual check. An admin then retries
+ * it (only while the source address still holds the amount) or resolves it.
+ *
+ * Refunds from a shared pool wallet or creator address go only to the payer:
+ * a txid reported for a canceled or expired request could be another buyer's
+ * payment to the same address. Deposit addresses belong to one request.
+ *
+ * Sending is the only step that needs a signing key. An instance whose
+ * keystore does not hold the receiving wallet's key (watch-only) leaves the
+ * refund pending for an instance that does.
+ */
+
+import { Prisma, PrismaClient, Refund } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { logger } from '../utils/logger';
+import { sendViaSdk } from '../services/arkSdk';
+import { arkadeClient } from '../services/arkadeClient';
+import { getReceivedAmount, isPaymentFrom, wrongSender } from './paymentVerification';
+import { resolvePaymentKey } from './depositAddress';
+
+const prisma = new PrismaClient();
+const MAX_REFUNDS_PER_RUN = 10;
+// How many times to look for the payment in the receiving address history before giving up
+const MAX_LOOKUP_ATTEMPTS = 10;
+// The txid belongs to another purchase, or was paid by someone other than the buyer;
+// refunding it would hand someone else's payment to the buyer
+const NON_REFUNDABLE_CODES = ['payment-reused', 'wrong-sender'];
+const NO_SIGNING_KEY = 'No signing key for the receiving address on this instance';
+const PAYER_UNAVAILABLE = 'Payer wallet history unavailable';
+
+export type RefundStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'closed';
+
+export class RefundError extends Error {
+  constructor(message: string, public readonly code: 'not-found' | 'conflict' | 'unavailable') {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+export interface QueueRefundParams {
+  paymentTxid: string;
+  purchaseRequestId?: string;
+  tokenId: string;
+  walletAddress: string;
+  poolWalletAddress: string;
+  amount?: bigint;
+  reason: string;
+}
+
+class RefundProcessor {
+  /**
+   * Queue a refund for a payment. Idempotent per payment txid.
+   *
+   * @returns The new refund, or null if the payment already has one
+   */
+  async queueRefund(params: QueueRefundParams, io?: SocketIOServer): Promise<Refund | null> {
+    try {
+      const refund = await prisma.refund.create({
+        data: {
+          paymentTxid: params.paymentTxid,
+          purchaseRequestId: params.purchaseRequestId,
+          tokenId: params.tokenId,
+          walletAddress: params.walletAddress,
+          poolWalletAddress: params.poolWalletAddress,
+          amount: params.amount?.toString(),
+          reason: params.reason
+        }
+      });
+
+      logger.info({
+        refundId: refund.id,
+        paymentTxid: refund.paymentTxid,
+        walletAddress: refund.walletAddress.slice(0, 20) + '...',
+        reason: refund.reason
+      }, '↩️ Refund queued');
+
+      if (io) {
+        io.to(`wallet:${refund.walletAddress}`).emit('refund-queued', {
+          refundId: refund.id,
+          requestId: refund.purchaseRequestId,
+          tokenId: refund.tokenId,
+          paymentTxid: refund.paymentTxid,
+          amount: refund.amount,
+          reason: refund.reason
+        });
+      }
+
+      return refund;
+    } catch (error: any) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Queue refunds for rejected requests that were paid
+   *
+   * @param io - Socket.IO instance for WebSocket notifications
+   * @param tokenId - Limit to one token
+   * @returns Number of refunds queued
+   */
+  async queueRefunds(io?: SocketIOServer, tokenId?: string): Promise<number> {
+    const paidRejected = await prisma.purchaseRequest.findMany({
+      where: {
+        status: 'rejected',
+        txid: { not: null },
+        ...(tokenId ? { tokenId } : {}),
+        OR: [
+          { rejectionCode: null },
+          { rejectionCode: { notIn: NON_REFUNDABLE_CODES } }
+        ]
+      },
+      include: { token: { select: { creator: true } } },
+      orderBy: { processedAt: 'asc' }
+    });
+
+    if (paidRejected.length === 0) {
+      return 0;
+    }
+
+    const existing = await prisma.refund.findMany({
+      where: { purchaseRequestId: { in: paidRejected.map((r) => r.id) } },
+      select: { purchaseRequestId: true }
+    });
+    const alreadyQueued = new Set(existing.map((r) => r.purchaseRequestId));
+
+    let queued = 0;
+    for (const request of paidRejected) {
+      if (alreadyQueued.has(request.id) || !request.txid) {
+        continue;
+      }
+
+      const refund = await this.queueRefund({
+        paymentTxid: request.txid,
+        purchaseRequestId: request.id,
+        tokenId: request.tokenId,
+        walletAddress: request.walletAddress,
+        poolWalletAddress: request.depositAddress || request.paymentAddress || request.token.creator,
+        amount: request.paidAmount ? BigInt(request.paidAmount) : undefined,
+        reason: request.rejectionCode || 'rejected'
+      }, io);
+
+      if (refund) {
+        queued++;
+      }
+    }
+
+    return queued;
+  }
+
+  /**
+   * Send pending refunds
+   *
+   * @param io - Socket.IO instance for WebSocket notifications
+   */
+  async processRefunds(io?: SocketIOServer): Promise<void> {
+    try {
+      const pending = await prisma.refund.findMany({
+        where: { status: 'pending' },
+        orderBy: { createdAt: 'asc' },
+        take: MAX_REFUNDS_PER_RUN
+      });
+
+      if (pending.length === 0) {
+        return;
+      }
+
+      logger.info({ count: pending.length }, '↩️ Processing pending refunds');
+
+      for (const refund of pending) {
+        try {
+          await this.executeRefund(refund, io);
+        } catch (error: any) {
+          logger.error({
+            refundId: refund.id,
+            error: error.message
+          }, '❌ Refund processing failed');
+        }
+      }
+    } catch (error: any) {
+      logger.error({
+        error: error.message,
+        stack: error.stack
+      }, '❌ Refund run failed');
+    }
+  }
+
+  private async executeRefund(refund: Refund, io?: SocketIOServer): Promise<void> {
+    const paymentKey = await resolvePaymentKey(prisma, refund.poolWalletAddress);
+    if (!paymentKey) {
+      if (refund.lastError !== NO_SIGNING_KEY) {
+        await prisma.refund.update({ where: { id: refund.id }, data: { lastError: NO_SIGNING_KEY } });
+        logger.warn({ refundId: refund.id }, '🔐 No signing key for refund here, leaving it for the signer');
+      }
+      return;
+    }
+
+    if (!paymentKey.isDeposit) {
+      const fromPayer = await isPaymentFrom(refund.walletAddress, refund.paymentTxid);
+      if (fromPayer === null) {
+        if (refund.lastError !== PAYER_UNAVAILABLE) {
+          await prisma.refund.update({ where: { id: refund.id }, data: { lastError: PAYER_UNAVAILABLE } });
+        }
+        return;
+      }
+      if (!fromPayer) {
+        await this.markFailed(refund, wrongSender(refund.paymentTxid, refund.walletAddress).reason, io);
+        return;
+      }
+    }
+
+    const amount = refund.amount
+      ? BigInt(refund.amount)
+      : await getReceivedAmount(refund.poolWalletAddress, refund.paymentTxid);
+
+    if (amount === null) {
+      // History can lag behind the payment; try again on the next run
+      const updated = await prisma.refund.update({
+        where: { id: refund.id },
+        data: { attempts: { increment: 1 }, lastError: 'Payment not found at receiving address' }
+      });
+      if (updated.attempts >= MAX_LOOKUP_ATTEMPTS) {
+        await this.markFailed(updated, 'Payment not found at receiving address', io);
+      }
+      return;
+    }
+
+    if (amount <= 0n) {
+      await this.markFailed(refund, 'Nothing to refund', io);
+      return;
+    }
+
+    const claimed = await prisma.refund.updateMany({
+      where: { id: refund.id, status: 'pending' },
+      data: {
+        status: 'processing',
+        amount: amount.toString(),
+        attempts: { increment: 1 }
+      }
+    });
+
+    if (claimed.count === 0) {
+      // Another instance is handling it
+      return;
+    }
+
+    logger.info({
+      refundId: refund.id,
+      paymentTxid: refund.paymentTxid,
+      amount: amount.toString(),
+      from: refund.poolWalletAddress.slice(0, 20) + '...',
+      to: refund.walletAddress.slice(0, 20) + '...'
+    }, '💸 Sending refund');
+
+    const sent = await sendViaSdk(paymentKey.privateKey, refund.walletAddress, Number(amount));
+
+    if (!sent.success || !sent.txid) {
+      await this.markFailed({ ...refund, amount: amount.toString() }, sent.error || 'Refund send failed', io);
+      return;
+    }
+
+    const completed = await prisma.refund.update({
+      where: { id: refund.id },
+      data: {
+        status: 'completed',
+        refundTxid: sent.txid,
+        lastError: null,
+        completedAt: new Date()
+      }
+    });
+
+    logger.info({
+      refundId: completed.id,
+      refundTxid: completed.refundTxid,
+      amount: completed.amount
+    }, '✅ Refund sent');
+
+    if (io) {
+      io.to(`wallet:${completed.walletAddress}`).emit('refund-completed', {
+        refundId: completed.id,
+        requestId: completed.purchaseRequestId,
+        tokenId: completed.tokenId,
+        paymentTxid: completed.paymentTxid,
+        refundTxid: completed.refundTxid,
+        amount: completed.amount
+      });
+    }
+  }
+
+  /**
+   * Refunds, newest first
+   *
+   * @param status - Optional status filter (e.g. failed, for review)
+   * @param limit - Max refunds returned
+   */
+  async listRefunds({ status, limit = 100 }: { status?: RefundStatus; limit?: number } = {}): Promise<Refund[]> {
+    return prisma.refund.findMany({
+      where: status ? { status } : {},
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+  }
+
+  /**
+   * Queue a failed refund to be sent again.
+   * The failed send may have gone out, so a refund with a known amount is only
+   * retried while its source address still holds that amount.
+   */
+  async retryRefund(refundId: string): Promise<Refund> {
+    const refund = await this.getFailedRefund(refundId);
+
+    if (refund.amount) {
+      const balance = await arkadeClient.getAddressBalance(refund.poolWalletAddress);
+      if (!balance) {
+        throw new RefundError('Balance of the refund source is unavailable; try again later', 'unavailable');
+      }
+      if (balance.available < BigInt(refund.amount)) {
+        throw new RefundError(
+          `Refund source holds ${balance.available} sats, less than the ${refund.amount} sats to refund; ` +
+            'check whether the refund went out and resolve it instead',
+          'conflict'
+        );
+      }
+    }
+
+    const requeued = await prisma.refund.updateMany({
+      where: { id: refund.id, status: 'failed' },
+      data: { status: 'pending', attempts: 0, lastError: null }
+    });
+    if (requeued.count === 0) {
+      throw new RefundError('Refund is no longer failed', 'conflict');
+    }
+
+    logger.info({ refundId, paymentTxid: refund.paymentTxid }, '🔁 Failed refund queued again');
+    return prisma.refund.findUniqueOrThrow({ where: { id: refund.id } });
+  }
+
+  /**
+   * Close a failed refund by hand: completed with the txid of a refund sent
+   * outside the indexer, or closed without a refund
+   */
+  async resolveRefund(refundId: string, resolution: { refundTxid?: string; note: string }): Promise<Refund> {
+    const refund = await this.getFailedRefund(refundId);
+
+    const resolved = await prisma.refund.updateMany({
+      where: { id: refund.id, status: 'failed' },
+      data: resolution.refundTxid
+        ? { status: 'completed', refundTxid: resolution.refundTxid, lastError: resolution.note, completedAt: new Date() }
+        : { status: 'closed', lastError: resolution.note }
+    });
+    if (resolved.count === 0) {
+      throw new RefundError('Refund is no longer failed', 'conflict');
+    }
+
+    logger.info({ refundId, refundTxid: resolution.refundTxid, note: resolution.note }, '🗂️ Failed refund resolved');
+    return prisma.refund.findUniqueOrThrow({ where: { id: refund.id } });
+  }
+
+  private async getFailedRefund(refundId: string): Promise<Refund> {
+    const refund = await prisma.refund.findUnique({ where: { id: refundId } });
+    if (!refund) {
+      throw new RefundError('Refund not found', 'not-found');
+    }
+    if (refund.status !== 'failed') {
+      throw new RefundError(`Only failed refunds can be retried or resolved (refund is ${refund.status})`, 'conflict');
+    }
+    return refund;
+  }
+
+  private async markFailed(refund: Refund, error: string, io?: SocketIOServer): Promise<void> {
+    await prisma.refund.update({
+      where: { id: refund.id },
+      data: {
+        status: 'failed',
+        lastError: error
+      }
+    });
+
+    logger.error({
+      refundId: refund.id,
+      paymentTxid: refund.paymentTxid,
+      walletAddress: refund.walletAddress.slice(0, 20) + '...',
+      error
+    }, '🚨 Refund failed - manual review needed');
+
+    if (io) {
+      io.to(`wallet:${refund.walletAddress}`).emit('refund-failed', {
+        refundId: refund.id,
+        requestId: refund.purchaseRequestId,
+        tokenId: refund.tokenId,
+        paymentTxid: refund.paymentTxid,
+        amount: refund.amount,
+        reason: error
+      });
+    }
+  }
+}
+
+// Singleton instance
+export const refundProcessor = new RefundProcessor();
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useMemoryDb, type MemoryDb } from '../testing/memoryDb';
+import { arkadeClient } from '../services/arkadeClient';
+import { roundProcessor } from './roundProcessor';
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  PrismaClient: (await import('../testing/prismaMock')).ForwardingPrismaClient,
+}));
+vi.mock('../services/arkadeClient', () => ({
+  arkadeClient: { getVtxosByAddress: vi.fn(), getReceivedPayments: vi.fn(), getAddressBalance: vi.fn() },
+}));
+
+const BUYER = 'tark1buyer';
+
+let memory: MemoryDb;
+
+beforeEach(async () => {
+  vi.resetAllMocks();
+  memory = useMemoryDb();
+  await memory.client.token.create({
+    data: { id: 'token-1', name: 'Token', symbol: 'TKN', totalSupply: '1000', creator: 'tark1pool', createdInTx: 'vtxo:0' },
+  });
+});
+
+async function createRequest(overrides: Record<string, unknown> = {}) {
+  return memory.client.purchaseRequest.create({
+    data: {
+      id: 'request-1', tokenId: 'token-1', walletAddress: BUYER, batchesPurchased: 1, totalPaid: '1000',
+      paymentAddress: 'tark1pool', timestamp: BigInt(Date.now()), status: 'rejected', paymentStatus: 'rejected',
+      rejectionCode: 'canceled', processedAt: new Date(), ...overrides,
+    },
+  });
+}
+
+describe('submitPaymentTxid', () => {
+  it('binds a late payment from the buyer for a refund', async () => {
+    await createRequest();
+    vi.mocked(arkadeClient.getVtxosByAddress).mockResolvedValue([{ arkTxid: 'tx-1' }] as any);
+
+    expect(await roundProcessor.submitPaymentTxid('request-1', 'tx-1'))
+      .toMatchObject({ ok: false, code: 'canceled', refundable: true });
+    expect(memory.rows('purchaseRequest')[0]).toMatchObject({ txid: 'tx-1', rejectionCode: 'canceled' });
+  });
+
+  it('does not bind a late txid the buyer did not send', async () => {
+    await createRequest();
+    vi.mocked(arkadeClient.getVtxosByAddress).mockResolvedValue([{ arkTxid: 'tx-other' }] as any);
+
+    expect(await roundProcessor.submitPaymentTxid('request-1', 'tx-1'))
+      .toMatchObject({ ok: false, code: 'wrong-sender', refundable: false });
+    expect(memory.rows('purchaseRequest')[0].txid).toBeNull();
+  });
+
+  it('does not bind a late txid while the buyer history is unavailable', async () => {
+    await createRequest({ rejectionCode: 'payment-timeout' });
+    vi.mocked(arkadeClient.getVtxosByAddress).mockResolvedValue(null);
+
+    expect(await roundProcessor.submitPaymentTxid('request-1', 'tx-1')).toMatchObject({ ok: false });
+    expect(memory.rows('purchaseRequest')[0].txid).toBeNull();
+  });
+
+  it('binds a late payment to a deposit address without checking the sender', async () => {
+    await createRequest({ depositAddress: 'tark1deposit' });
+
+    expect(await roundProcessor.submitPaymentTxid('request-1', 'tx-1')).toMatchObject({ refundable: true });
+    expect(arkadeClient.getVtxosByAddress).not.toHaveBeenCalled();
+    expect(memory.rows('purchaseRequest')[0].txid).toBe('tx-1');
+  });
+});
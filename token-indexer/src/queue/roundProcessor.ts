@@ -6,32 +6,52 @@
  * Phase 1 - Supply Check & Payment Request (every 15s):
  *   1. Fetch pending requests with paymentStatus='pending' (no txid yet)
  *   2. Check supply availability (FCFS order)
- *   3. Emit 'payment-requested' WebSocket events for accepted requests
- *   4. Reject requests that exceed supply (no money lost!)
+ *   3. Derive a deposit address per accepted request (see depositAddress.ts)
+ *   4. Emit 'payment-requested' WebSocket events for accepted requests
+ *   5. Reject requests that exceed supply (no money lost!)
  * 
  * Phase 2 - Payment Verification & Execution (every 5s):
- *   1. Find requests with paymentStatus='payment-sent' (user has paid)
- *   2. Verify VTXOs for paid requests
- *   3. Execute atomic batch and confirm purchases
+ *   1. Find requests with paymentStatus='payment-sent' (user has paid), binding
+ *      payments to deposit addresses that were never reported
+ *   2. Verify each payment reached the request's deposit address (or assigned
+ *      pool wallet) with the right amount and that its txid is not bound to
+ *      another purchase
+ *   3. Execute atomic batch and confirm purchases (underpaid/reused are rejected,
+ *      the excess of an overpayment is refunded)
  * 
  * Phase 3 - Timeout Handling (every 5s):
  *   1. Find requests where payment requested >30s ago
  *   2. Reject expired requests and free supply
+ *   3. Payments submitted after expiry are recorded and refunded (see refundProcessor)
  */
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { queueManager } from './queueManager';
 import { PurchaseRequest } from './types';
 import { logger } from '../utils/logger';
+import { toBigInt } from '../utils/decimal';
 import { advisoryLockKeysFromTokenId } from '../utils/advisoryLock';
-import { queryHistoryViaSdk } from '../services/arkSdk';
-import { PRESALE_POOL_WALLETS } from '../config/presale-pool';
-import { TxType } from '@arkade-os/sdk';
+import { creditPresalePurchase } from '../token/presaleReserve';
+import { refundProcessor } from './refundProcessor';
+import { isCreationConfirmed } from '../token/creationProof';
+import {
+  checkPaymentAmount,
+  findDepositPayment,
+  findPaymentReuse,
+  getReceivedAmount,
+  isPaymentFrom,
+  overpaidAmount,
+  PaymentRejectionCode,
+  wrongSender,
+} from './paymentVerification';
+import { assignDepositAddress } from './depositAddress';
 
 const prisma = new PrismaClient();
 const MAX_REQUESTS_PER_ROUND = 10;
 // Cloud deployments are slower (network + DB + ASP history propagation). Keep this generous.
 const PAYMENT_TIMEOUT_MS = 60 * 1000; // 60 seconds
+// Keep watching deposit addresses of expired/canceled requests for late payments
+const DEPOSIT_WATCH_WINDOW_MS = 24 * 60 * 60 * 1000;
 
 interface RoundResult {
   roundNumber: number;
@@ -56,6 +76,9 @@ class RoundProcessor {
     this.roundNumber++;
     
     const startTime = Date.now();
+    if (await this.isPresaleFrozen(tokenId)) {
+      return;
+    }
     logger.info({ tokenId, roundNumber: this.roundNumber }, '🎯 Supply check round started');
 
     try {
@@ -105,6 +128,9 @@ class RoundProcessor {
 
           const { accepted, rejected } = await this.checkSupplyForBatch(tokenId, requests, tx);
 
+          // Payments are verified against the wallet quoted here, even if the token rotates later
+          const token = await tx.token.findUnique({ where: { id: tokenId }, select: { creator: true } });
+
           // Mark accepted requests as payment-requested
           if (accepted.length > 0) {
             await tx.purchaseRequest.updateMany({
@@ -117,6 +143,7 @@ class RoundProcessor {
               data: {
                 paymentStatus: 'payment-requested',
                 paymentRequestedAt: new Date(),
+                paymentAddress: token?.creator,
                 roundNumber: this.roundNumber
               }
             });
@@ -137,8 +164,6 @@ class RoundProcessor {
             });
           }
 
-          const token = await tx.token.findUnique({ where: { id: tokenId }, select: { creator: true } });
-
           return {
             acceptedToNotify: accepted.map((r) => ({
               id: r.id,
@@ -163,6 +188,17 @@ class RoundProcessor {
         return;
       }
 
+      // Derive deposit addresses outside the lock (ASP round trip per request)
+      const depositAddresses = new Map<string, string>();
+      if (creatorAddress) {
+        for (const req of acceptedToNotify) {
+          const depositAddress = await assignDepositAddress(req.id, creatorAddress);
+          if (depositAddress) {
+            depositAddresses.set(req.id, depositAddress);
+          }
+        }
+      }
+
       // Emit payment-requested events for accepted requests
       if (acceptedToNotify.length > 0 && io) {
         for (const req of acceptedToNotify) {
@@ -170,7 +206,9 @@ class RoundProcessor {
             requestId: req.id,
             tokenId,
             amount: req.totalPaid,
-            creatorAddress,
+            // Clients pay creatorAddress; it carries the deposit address when one was derived
+            creatorAddress: depositAddresses.get(req.id) || creatorAddress,
+            depositAddress: depositAddresses.get(req.id),
             timeoutSeconds: Math.floor(PAYMENT_TIMEOUT_MS / 1000),
             roundNumber: this.roundNumber
           });
@@ -219,31 +257,87 @@ class RoundProcessor {
 
   /**
    * Record payment txid for a request (idempotent).
-   * Does NOT reject if verification is slow.
+   * Does NOT reject if verification is slow. A txid already bound to another
+   * purchase is refused so the buyer can submit the correct one.
    */
-  async submitPaymentTxid(requestId: string, txid: string): Promise<boolean> {
+  async submitPaymentTxid(
+    requestId: string,
+    txid: string
+  ): Promise<{ ok: true } | { ok: false; reason: string; code?: PaymentRejectionCode; refundable?: boolean }> {
     try {
       const req = await prisma.purchaseRequest.findUnique({ where: { id: requestId } });
-      if (!req) return false;
+      if (!req) return { ok: false, reason: 'Request not found' };
 
       // Allow idempotent re-submissions
       if (req.txid && req.txid === txid && req.paymentStatus === 'payment-sent') {
-        return true;
+        return { ok: true };
       }
 
-      if (req.paymentStatus !== 'payment-requested' && req.paymentStatus !== 'payment-sent') {
-        logger.warn({ requestId, currentStatus: req.paymentStatus }, 'Request not in payable state');
-        return false;
-      }
+      // Paid after the window closed (or after canceling): keep the txid so the payment is refunded
+      const expiredUnpaid = req.status === 'rejected' && !req.txid &&
+        (req.rejectionCode === 'payment-timeout' || req.rejectionCode === 'canceled');
+      let expiredNow = false;
 
       if (req.paymentStatus === 'payment-requested' && req.paymentRequestedAt) {
         const elapsedMs = Date.now() - req.paymentRequestedAt.getTime();
         if (elapsedMs > PAYMENT_TIMEOUT_MS) {
           logger.warn({ requestId, elapsedSeconds: elapsedMs / 1000 }, '⏰ Payment window expired');
-          return false;
+          expiredNow = true;
         }
       }
 
+      if (!expiredUnpaid && req.paymentStatus !== 'payment-requested' && req.paymentStatus !== 'payment-sent') {
+        logger.warn({ requestId, currentStatus: req.paymentStatus }, 'Request not in payable state');
+        return { ok: false, reason: 'Request not in payable state' };
+      }
+
+      const reuse = await findPaymentReuse(prisma, txid, requestId);
+      if (reuse && reuse.outcome === 'rejected') {
+        logger.warn({ requestId, txid }, '🚫 Payment txid already bound to another purchase');
+        return { ok: false, reason: reuse.reason, code: reuse.code };
+      }
+
+      if (expiredUnpaid || expiredNow) {
+        // Binding the txid queues a refund of it. A shared pool wallet or creator
+        // address receives everyone's payments, so only the payer may bind one;
+        // a deposit address belongs to this request alone.
+        if (!req.depositAddress) {
+          const fromBuyer = await isPaymentFrom(req.walletAddress, txid);
+          if (fromBuyer === null) {
+            logger.warn({ requestId, txid }, '⏳ Buyer wallet history unavailable, cannot bind late payment yet');
+            return { ok: false, reason: 'Payment sender could not be verified. Please try again.' };
+          }
+          if (!fromBuyer) {
+            const rejection = wrongSender(txid, req.walletAddress);
+            logger.warn({ requestId, txid }, '🚫 Late payment was not sent by the buyer');
+            return { ok: false, reason: rejection.reason, code: rejection.code, refundable: false };
+          }
+        }
+
+        const code: PaymentRejectionCode = expiredUnpaid && req.rejectionCode === 'canceled' ? 'canceled' : 'payment-timeout';
+        const reason = code === 'canceled'
+          ? 'Payment received for a canceled request; it will be refunded'
+          : 'Payment window expired; the payment will be refunded';
+
+        await prisma.purchaseRequest.update({
+          where: { id: requestId },
+          data: {
+            txid,
+            status: 'rejected',
+            paymentStatus: 'rejected',
+            rejectionReason: expiredNow
+              ? `Payment timeout (${Math.floor(PAYMENT_TIMEOUT_MS / 1000)} seconds)`
+              : req.rejectionReason,
+            rejectionCode: code,
+            paymentSubmittedAt: new Date(),
+            processedAt: req.processedAt || new Date()
+          }
+        });
+
+        logger.warn({ requestId, txid, code }, '↩️ Late payment recorded for refund');
+        return { ok: false, reason, code, refundable: true };
+      }
+
       await prisma.purchaseRequest.update({
         where: { id: requestId },
         data: {
@@ -253,27 +347,39 @@ class RoundProcessor {
         }
       });
 
-      return true;
+      return { ok: true };
     } catch (error: any) {
+      // Unique constraint on txid: another request claimed it concurrently
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        logger.warn({ requestId, txid }, '🚫 Payment txid already bound to another purchase');
+        return {
+          ok: false,
+          code: 'payment-reused',
+          reason: `Payment reused: txid ${txid} already used by another purchase`
+        };
+      }
       logger.error({ requestId, error: error.message }, 'Failed to record payment txid');
-      return false;
+      return { ok: false, reason: 'Failed to record payment txid' };
     }
   }
 
   /**
    * Verify a single paid request and finalize it if verified.
-   * Returns confirmed if the txid is visible; otherwise returns pending.
+   * Returns confirmed if the payment checks out, rejected (with reason) if it
+   * was underpaid, overpaid or reused; otherwise returns pending.
    */
   async verifyAndFinalizeSingleRequest(
     requestId: string,
     io?: any
-  ): Promise<{ status: 'confirmed' | 'pending' | 'rejected' }>
+  ): Promise<{ status: 'confirmed' | 'pending' | 'rejected'; reason?: string; code?: string }>
   {
     const req = await prisma.purchaseRequest.findUnique({ where: { id: requestId } });
     if (!req) return { status: 'rejected' };
 
     if (req.status !== 'pending') {
-      return req.status === 'confirmed' ? { status: 'confirmed' } : { status: 'rejected' };
+      return req.status === 'confirmed'
+        ? { status: 'confirmed' }
+        : { status: 'rejected', reason: req.rejectionReason || undefined, code: req.rejectionCode || undefined };
     }
 
     if (req.paymentStatus !== 'payment-sent' || !req.txid) {
@@ -281,7 +387,7 @@ class RoundProcessor {
     }
 
     // If verification is slow, do NOT reject; client can retry later.
-    const verified = await this.verifyVtxos([
+    const { verified, rejected } = await this.verifyVtxos([
       {
         id: req.id,
         tokenId: req.tokenId,
@@ -293,38 +399,113 @@ class RoundProcessor {
         status: req.status as any,
         paymentStatus: req.paymentStatus as any,
         roundNumber: req.roundNumber || undefined,
-        rejectionReason: req.rejectionReason || undefined
+        rejectionReason: req.rejectionReason || undefined,
+        paymentAddress: req.paymentAddress || undefined,
+        depositAddress: req.depositAddress || undefined
       }
     ], req.tokenId);
 
+    if (rejected.length > 0) {
+      await this.rejectPayments(rejected, req.tokenId, io);
+      return { status: 'rejected', reason: rejected[0].rejectionReason, code: rejected[0].rejectionCode };
+    }
+
     if (verified.length === 0) {
       return { status: 'pending' };
     }
 
     // Finalize atomically under lock
-    await this.executeAtomicBatch(req.tokenId, verified);
+    const { confirmed, rejected: rejectedInBatch } = await this.executeAtomicBatch(req.tokenId, verified);
 
-    if (io) {
-      io.to(`wallet:${req.walletAddress}`).emit('purchase-confirmed', {
-        requestId: req.id,
-        tokenId: req.tokenId,
-        batchesPurchased: req.batchesPurchased,
-        totalPaid: req.totalPaid,
-        roundNumber: this.roundNumber
-      });
+    if (rejectedInBatch.length > 0) {
+      await this.notifyRejectedUsers(rejectedInBatch, req.tokenId, io);
+      return { status: 'rejected', reason: rejectedInBatch[0].rejectionReason, code: rejectedInBatch[0].rejectionCode };
     }
 
+    await this.refundOverpayments(confirmed, req.tokenId, io);
+    await this.notifyConfirmedUsers(confirmed, req.tokenId, io);
     return { status: 'confirmed' };
   }
 
+  /**
+   * Bind payments that reached a deposit address but were never reported.
+   * Awaiting requests move to payment-sent; payments to expired or canceled
+   * requests are recorded so they get refunded.
+   *
+   * @param tokenId - Limit to one token
+   * @returns Number of payments detected
+   */
+  async detectDepositPayments(tokenId?: string): Promise<number> {
+    const watchSince = new Date(Date.now() - DEPOSIT_WATCH_WINDOW_MS);
+    const unreportedDeposit = {
+      depositAddress: { not: null },
+      txid: null,
+      ...(tokenId ? { tokenId } : {}),
+    };
+    // Least recently checked first, so every deposit address gets its turn
+    const rotation: Prisma.PurchaseRequestOrderByWithRelationInput[] = [
+      { depositCheckedAt: { sort: 'asc', nulls: 'first' } },
+      { timestamp: 'asc' },
+      { id: 'asc' },
+    ];
+
+    // Awaiting and expired requests get separate slots, so stale expired
+    // requests never crowd out the ones still waiting for their payment
+    const [awaiting, expired] = await Promise.all([
+      prisma.purchaseRequest.findMany({
+        where: { ...unreportedDeposit, status: 'pending', paymentStatus: 'payment-requested' },
+        orderBy: rotation,
+        take: MAX_REQUESTS_PER_ROUND
+      }),
+      prisma.purchaseRequest.findMany({
+        where: {
+          ...unreportedDeposit,
+          status: 'rejected',
+          rejectionCode: { in: ['payment-timeout', 'canceled'] },
+          processedAt: { gte: watchSince }
+        },
+        orderBy: rotation,
+        take: MAX_REQUESTS_PER_ROUND
+      }),
+    ]);
+    const unreported = [...awaiting, ...expired];
+    if (unreported.length === 0) {
+      return 0;
+    }
+
+    await prisma.purchaseRequest.updateMany({
+      where: { id: { in: unreported.map((r) => r.id) } },
+      data: { depositCheckedAt: new Date() }
+    });
+
+    let detected = 0;
+    for (const request of unreported) {
+      const txid = await findDepositPayment(request.depositAddress!);
+      if (!txid) continue;
+
+      const submitted = await this.submitPaymentTxid(request.id, txid);
+      logger.info({
+        requestId: request.id,
+        txid,
+        depositAddress: request.depositAddress!.slice(0, 20) + '...',
+        outcome: submitted.ok ? 'payment-sent' : submitted.code || submitted.reason
+      }, '📬 Unreported deposit payment detected');
+      detected++;
+    }
+
+    return detected;
+  }
+
   /**
    * PHASE 2: Process paid requests (verify VTXOs and execute batch)
    * Runs every 5 seconds to process requests with paymentStatus='payment-sent'
-   * 
+   *
    * @param io - Socket.IO instance for WebSocket notifications
    */
   async processPaidRequests(io?: any): Promise<void> {
     try {
+      await this.detectDepositPayments();
+
       // Find all requests with payment sent (txid provided, awaiting verification)
       const paidRequests = await prisma.purchaseRequest.findMany({
         where: {
@@ -357,7 +538,9 @@ class RoundProcessor {
           status: req.status as 'pending' | 'processing' | 'confirmed' | 'rejected',
           paymentStatus: req.paymentStatus as any,
           roundNumber: req.roundNumber || undefined,
-          rejectionReason: req.rejectionReason || undefined
+          rejectionReason: req.rejectionReason || undefined,
+          paymentAddress: req.paymentAddress || undefined,
+          depositAddress: req.depositAddress || undefined
         });
         return acc;
       }, {} as Record<string, PurchaseRequest[]>);
@@ -365,14 +548,25 @@ class RoundProcessor {
       // Process each token's paid requests
       for (const [tokenId, requests] of Object.entries(byToken)) {
         try {
+          // Paid requests wait (as payment-sent) until the creation confirms again
+          if (await this.isPresaleFrozen(tokenId)) {
+            continue;
+          }
+
           logger.info({ tokenId, count: requests.length }, '🔍 Verifying VTXOs for token');
 
           // Verify VTXOs
-          const verified = await this.verifyVtxos(requests, tokenId);
+          const { verified, rejected } = await this.verifyVtxos(requests, tokenId);
+
+          if (rejected.length > 0) {
+            await this.rejectPayments(rejected, tokenId, io);
+          }
 
           if (verified.length > 0) {
-            await this.executeAtomicBatch(tokenId, verified);
-            await this.notifyConfirmedUsers(verified, tokenId, io);
+            const batch = await this.executeAtomicBatch(tokenId, verified);
+            await this.refundOverpayments(batch.confirmed, tokenId, io);
+            await this.notifyConfirmedUsers(batch.confirmed, tokenId, io);
+            await this.notifyRejectedUsers(batch.rejected, tokenId, io);
           }
 
           // IMPORTANT: Do not reject paid requests just because history is delayed.
@@ -396,6 +590,19 @@ class RoundProcessor {
     }
   }
 
+  /**
+   * A presale is frozen while its token's CREATE is unconfirmed on L1
+   * (e.g. after a reorg dropped its block) - see token/creationProof.ts
+   */
+  private async isPresaleFrozen(tokenId: string): Promise<boolean> {
+    const token = await prisma.token.findUnique({ where: { id: tokenId }, select: { status: true } });
+    if (!token || isCreationConfirmed(token)) {
+      return false;
+    }
+    logger.debug({ tokenId, status: token.status }, '🧊 Presale frozen until the token creation confirms');
+    return true;
+  }
+
   /**
    * PHASE 3: Handle payment timeouts
    * Runs every 5 seconds to reject requests where payment window expired
@@ -430,7 +637,8 @@ class RoundProcessor {
           data: {
             status: 'rejected',
             rejectionReason: `Payment timeout (${Math.floor(PAYMENT_TIMEOUT_MS / 1000)} seconds)`,
-              paymentStatus: 'rejected',
+            rejectionCode: 'payment-timeout',
+            paymentStatus: 'rejected',
             roundNumber: this.roundNumber,
             processedAt: new Date()
           }
@@ -483,7 +691,7 @@ class RoundProcessor {
     }
 
     // Calculate available supply
-    const totalSupply = BigInt(token.totalSupply);
+    const totalSupply = toBigInt(token.totalSupply);
     const batchAmount = BigInt(token.presaleBatchAmount || '0');
     const maxBatches = Number(totalSupply / batchAmount);
 
@@ -579,104 +787,231 @@ class RoundProcessor {
   }
 
   /**
-   * STEP 4: Verify VTXOs for all accepted requests (payment already sent)
-   * Runs in parallel for efficiency
-   * 
-   * @param requests - Accepted purchase requests
+   * STEP 4: Verify each payment reached the assigned pool wallet
+   *
+   * - not yet visible in the wallet history → left pending (retried later)
+   * - received < totalPaid → rejected as underpaid
+   * - received > totalPaid → verified; the excess is refunded once confirmed
+   * - txid bound to another purchase → rejected as reused
+   * - txid not paid from the buyer's wallet → rejected as wrong sender
+   *
+   * @param requests - Requests with paymentStatus='payment-sent'
    * @param tokenId - Token ID
-   * @returns Array of verified requests
+   * @returns Verified requests (with paidAmount) and definitively rejected ones
    */
-  private async verifyVtxos(requests: PurchaseRequest[], tokenId: string): Promise<PurchaseRequest[]> {
+  private async verifyVtxos(
+    requests: PurchaseRequest[],
+    tokenId: string
+  ): Promise<{ verified: PurchaseRequest[]; rejected: PurchaseRequest[] }> {
     logger.info({ 
       count: requests.length,
       roundNumber: this.roundNumber 
     }, '🔍 Verifying VTXOs in parallel...');
 
+    const token = await prisma.token.findUnique({ where: { id: tokenId }, select: { creator: true } });
+
     const verifications = await Promise.all(
-      requests.map(async (request) => {
+      requests.map(async (request): Promise<{ request: PurchaseRequest; outcome: 'verified' | 'pending' | 'rejected' }> => {
         try {
           // Safety check: request must have txid (payment sent)
           if (!request.txid) {
             logger.error({ 
               requestId: request.id 
             }, '❌ Cannot verify VTXO - no txid provided');
-            return null;
+            return { request, outcome: 'pending' };
           }
 
-          const expectedAmount = parseInt(request.totalPaid);
+          const reuse = await findPaymentReuse(prisma, request.txid, request.id);
+          if (reuse && reuse.outcome === 'rejected') {
+            logger.warn({ requestId: request.id, txid: request.txid }, '🚫 Payment txid reused');
+            return {
+              request: { ...request, rejectionReason: reuse.reason, rejectionCode: reuse.code },
+              outcome: 'rejected'
+            };
+          }
+
+          const paymentAddress = request.depositAddress || request.paymentAddress || token?.creator;
+          if (!paymentAddress) {
+            logger.error({ requestId: request.id, tokenId }, '❌ No payment address for request');
+            return { request, outcome: 'pending' };
+          }
+
+          const expectedAmount = BigInt(request.totalPaid);
 
           logger.info({
             requestId: request.id,
             txid: request.txid,
-            expectedAmount
-          }, '🔍 Verifying payment received (txid-based)...');
+            paymentAddress: paymentAddress.slice(0, 20) + '...',
+            expectedAmount: expectedAmount.toString()
+          }, '🔍 Verifying payment received...');
 
           const maxAttempts = 8;
           const sleepMs = 3000;
-          let paymentFound = false;
+          let received: bigint | null = null;
 
           for (let attempt = 1; attempt <= maxAttempts; attempt++) {
             if (attempt > 1) {
               await new Promise((resolve) => setTimeout(resolve, sleepMs));
             }
 
-            // First try: verify by exact txid match across pool wallets
-            for (const w of PRESALE_POOL_WALLETS) {
-              const history = await queryHistoryViaSdk(w.privateKey);
-              if (!history.success || !history.transactions) continue;
-
-              const matched = history.transactions.find(
-                (tx) => tx.type === TxType.TxReceived && tx.arkTxid === request.txid
-              );
-
-              if (matched) {
-                paymentFound = true;
-                logger.info({
-                  requestId: request.id,
-                  txid: request.txid,
-                  poolWalletAddress: w.address,
-                  amount: matched.amount
-                }, '✅ Payment verified by txid in pool wallet history');
-                break;
-              }
-            }
-
-            if (paymentFound) break;
+            received = await getReceivedAmount(paymentAddress, request.txid);
+            if (received !== null) break;
 
             logger.info({ requestId: request.id, attempt, maxAttempts }, '⏳ Payment not yet visible, retrying...');
           }
 
-          if (!paymentFound) {
+          if (received === null) {
             logger.warn({
               requestId: request.id,
               txid: request.txid,
-              expectedAmount,
+              paymentAddress: paymentAddress.slice(0, 20) + '...',
               totalWaitTimeSeconds: Math.round(((maxAttempts - 1) * sleepMs) / 1000)
-            }, '❌ Payment verification failed - txid not found in any pool wallet history');
-            return null;
+            }, '❌ Payment verification failed - txid not found in assigned address history');
+            return { request, outcome: 'pending' };
+          }
+
+          const amountCheck = checkPaymentAmount(expectedAmount, received);
+          if (amountCheck && amountCheck.outcome === 'rejected') {
+            logger.warn({
+              requestId: request.id,
+              txid: request.txid,
+              expectedAmount: expectedAmount.toString(),
+              received: received.toString(),
+              code: amountCheck.code
+            }, '🚫 Payment amount rejected');
+            return {
+              request: {
+                ...request,
+                rejectionReason: amountCheck.reason,
+                rejectionCode: amountCheck.code,
+                paidAmount: received.toString()
+              },
+              outcome: 'rejected'
+            };
           }
-          
-          return request;
+
+          const fromBuyer = await isPaymentFrom(request.walletAddress, request.txid);
+          if (fromBuyer === null) {
+            logger.warn({ requestId: request.id, txid: request.txid }, '⏳ Buyer wallet history unavailable, retrying later');
+            return { request, outcome: 'pending' };
+          }
+          if (!fromBuyer) {
+            const rejection = wrongSender(request.txid, request.walletAddress);
+            logger.warn({ requestId: request.id, txid: request.txid }, '🚫 Payment was not sent by the buyer');
+            return {
+              request: {
+                ...request,
+                rejectionReason: rejection.reason,
+                rejectionCode: rejection.code,
+                paidAmount: received.toString()
+              },
+              outcome: 'rejected'
+            };
+          }
+
+          logger.info({
+            requestId: request.id,
+            txid: request.txid,
+            paymentAddress: paymentAddress.slice(0, 20) + '...',
+            amount: received.toString()
+          }, '✅ Payment verified in assigned pool wallet');
+
+          return { request: { ...request, paidAmount: received.toString() }, outcome: 'verified' };
         } catch (error: any) {
           logger.error({ 
             requestId: request.id, 
             txid: request.txid,
             error: error.message 
           }, 'VTXO verification error');
-          return null;
+          return { request, outcome: 'pending' };
         }
       })
     );
 
-    const verified = verifications.filter((r): r is PurchaseRequest => r !== null);
+    const verified = verifications.filter((v) => v.outcome === 'verified').map((v) => v.request);
+    const rejected = verifications.filter((v) => v.outcome === 'rejected').map((v) => v.request);
     
     logger.info({ 
       verified: verified.length, 
+      rejected: rejected.length,
       total: requests.length,
       roundNumber: this.roundNumber 
     }, 'VTXO verification complete');
     
-    return verified;
+    return { verified, rejected };
+  }
+
+  /**
+   * Queue refunds of what confirmed requests paid beyond their price
+   * (above the overpayment tolerance). The purchase itself stands.
+   *
+   * @param requests - Confirmed requests, with paidAmount
+   * @param tokenId - Token ID
+   * @param io - Socket.IO instance
+   */
+  private async refundOverpayments(requests: PurchaseRequest[], tokenId: string, io?: any): Promise<void> {
+    const overpaid = requests.filter((request) =>
+      request.txid && request.paidAmount && overpaidAmount(BigInt(request.totalPaid), BigInt(request.paidAmount)) > 0n
+    );
+    if (overpaid.length === 0) {
+      return;
+    }
+
+    const token = await prisma.token.findUnique({ where: { id: tokenId }, select: { creator: true } });
+    for (const request of overpaid) {
+      const excess = overpaidAmount(BigInt(request.totalPaid), BigInt(request.paidAmount!));
+      try {
+        await refundProcessor.queueRefund({
+          paymentTxid: request.txid!,
+          purchaseRequestId: request.id,
+          tokenId,
+          walletAddress: request.walletAddress,
+          poolWalletAddress: request.depositAddress || request.paymentAddress || token!.creator,
+          amount: excess,
+          reason: 'overpaid'
+        }, io);
+      } catch (error: any) {
+        logger.error({
+          requestId: request.id,
+          txid: request.txid,
+          excess: excess.toString(),
+          error: error.message
+        }, '🚨 Failed to queue overpayment refund - manual review needed');
+      }
+    }
+  }
+
+  /**
+   * Reject paid requests whose payment failed verification (underpaid/reused)
+   *
+   * @param requests - Requests carrying rejectionReason/rejectionCode
+   * @param tokenId - Token ID
+   * @param io - Socket.IO instance
+   */
+  private async rejectPayments(requests: PurchaseRequest[], tokenId: string, io?: any): Promise<void> {
+    for (const request of requests) {
+      await prisma.purchaseRequest.updateMany({
+        where: { id: request.id, status: 'pending' },
+        data: {
+          status: 'rejected',
+          paymentStatus: 'rejected',
+          rejectionReason: request.rejectionReason,
+          rejectionCode: request.rejectionCode,
+          paidAmount: request.paidAmount,
+          roundNumber: this.roundNumber,
+          processedAt: new Date()
+        }
+      });
+
+      logger.warn({
+        requestId: request.id,
+        txid: request.txid,
+        code: request.rejectionCode,
+        reason: request.rejectionReason
+      }, '🚫 Paid request rejected');
+    }
+
+    await this.notifyRejectedUsers(requests, tokenId, io);
   }
 
   /**
@@ -685,8 +1020,12 @@ class RoundProcessor {
    * 
    * @param tokenId - Token ID
    * @param requests - Verified purchase requests
+   * @returns Confirmed requests, and any rejected because their txid was used meanwhile
    */
-  private async executeAtomicBatch(tokenId: string, requests: PurchaseRequest[]): Promise<void> {
+  private async executeAtomicBatch(
+    tokenId: string,
+    requests: PurchaseRequest[]
+  ): Promise<{ confirmed: PurchaseRequest[]; rejected: PurchaseRequest[] }> {
     // Filter out any requests without txid (safety check)
     const validRequests = requests.filter(r => r.txid !== null);
     
@@ -699,7 +1038,7 @@ class RoundProcessor {
 
     if (validRequests.length === 0) {
       logger.warn('No valid requests to execute (all missing txid)');
-      return;
+      return { confirmed: [], rejected: [] };
     }
 
     logger.info({ 
@@ -711,7 +1050,10 @@ class RoundProcessor {
     // Use PostgreSQL advisory lock
     const { key1: lockKey1, key2: lockKey2 } = advisoryLockKeysFromTokenId(tokenId);
 
-    await prisma.$transaction(async (tx) => {
+    const result = await prisma.$transaction(async (tx) => {
+      const confirmed: PurchaseRequest[] = [];
+      const rejected: PurchaseRequest[] = [];
+
       // Acquire lock
       await tx.$executeRaw`SELECT pg_advisory_xact_lock(${lockKey1}::int, ${lockKey2}::int)`;
       logger.info({ tokenId, lockKey1, lockKey2, roundNumber: this.roundNumber }, '🔒 Lock acquired');
@@ -721,7 +1063,7 @@ class RoundProcessor {
       if (!token) {
         throw new Error(`Token ${tokenId} not found`);
       }
-      const totalSupply = BigInt(token.totalSupply);
+      const totalSupply = toBigInt(token.totalSupply);
       const batchAmount = BigInt(token.presaleBatchAmount || '0');
       const maxBatches = Number(totalSupply / batchAmount);
 
@@ -745,8 +1087,28 @@ class RoundProcessor {
 
       // Create all purchases atomically
       for (const request of validRequests) {
+        // Re-check under the lock: a direct purchase may have claimed the txid since verification
+        const reuse = await findPaymentReuse(tx, request.txid!, request.id);
+        if (reuse && reuse.outcome === 'rejected') {
+          const rejectedRequest = { ...request, rejectionReason: reuse.reason, rejectionCode: reuse.code };
+          await tx.purchaseRequest.update({
+            where: { id: request.id },
+            data: {
+              status: 'rejected',
+              paymentStatus: 'rejected',
+              rejectionReason: reuse.reason,
+              rejectionCode: reuse.code,
+              paidAmount: request.paidAmount,
+              roundNumber: this.roundNumber,
+              processedAt: new Date()
+            }
+          });
+          rejected.push(rejectedRequest);
+          continue;
+        }
+
         // Create purchase record (txid is guaranteed non-null here)
-        await tx.presalePurchase.create({
+        const purchase = await tx.presalePurchase.create({
           data: {
             tokenId: request.tokenId,
             walletAddress: request.walletAddress,
@@ -762,29 +1124,39 @@ class RoundProcessor {
           data: {
             status: 'confirmed',
             paymentStatus: 'verified',
+            paidAmount: request.paidAmount,
             roundNumber: this.roundNumber,
             processedAt: new Date()
           }
         });
+        confirmed.push(request);
+
+        // Deliver tokens from the presale reserve in the SAME transaction
+        const credited = await creditPresalePurchase(tx, token, purchase);
 
         logger.info({
           requestId: request.id,
           walletAddress: request.walletAddress.slice(0, 20) + '...',
           batchesPurchased: request.batchesPurchased,
-          totalPaid: request.totalPaid
+          totalPaid: request.totalPaid,
+          credited: credited.toString()
         }, '✅ Purchase recorded');
       }
 
       logger.info({ 
         tokenId, 
-        count: validRequests.length,
+        count: confirmed.length,
+        rejected: rejected.length,
         roundNumber: this.roundNumber 
       }, '✅ All purchases recorded atomically');
+
+      return { confirmed, rejected };
     }, {
       timeout: 15000
     });
 
     logger.info({ tokenId, roundNumber: this.roundNumber }, '🔓 Lock released');
+    return result;
   }
 
   /**
@@ -809,6 +1181,7 @@ class RoundProcessor {
         requestId: request.id,
         tokenId,
         reason: request.rejectionReason,
+        code: request.rejectionCode,
         batchesRequested: request.batchesPurchased,
         roundNumber: this.roundNumber
       });
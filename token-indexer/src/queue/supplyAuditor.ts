@@ -0,0 +1,94 @@
+/**
+ * Supply Auditor
+ *
+ * Audits every token's supply invariants (see token/supplyAudit.ts) and raises
+ * an alert when a token diverges: an error log and a `supply-alert` event to
+ * the token's room. A token is alerted again only when its anomalies change,
+ * and a `supply-recovered` event follows once it is consistent again.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { logger } from '../utils/logger';
+import { SupplyAudit, auditTokenSupply } from '../token/supplyAudit';
+
+const prisma = new PrismaClient();
+
+class SupplyAuditor {
+  // Anomaly fingerprint per divergent token, as last alerted by this instance
+  private alerted = new Map<string, string>();
+
+  /**
+   * Audit all tokens and alert on divergence
+   */
+  async auditAllTokens(io?: SocketIOServer): Promise<SupplyAudit[]> {
+    const audits: SupplyAudit[] = [];
+
+    try {
+      const tokens = await prisma.token.findMany({ select: { id: true }, orderBy: { createdAt: 'asc' } });
+
+      for (const { id } of tokens) {
+        try {
+          const audit = await auditTokenSupply(prisma, id);
+          if (audit) {
+            this.report(audit, io);
+            audits.push(audit);
+          }
+        } catch (error: any) {
+          logger.error({ tokenId: id, error: error.message }, '❌ Supply audit failed');
+        }
+      }
+
+      const divergent = audits.filter((a) => !a.ok).length;
+      logger.info({ tokens: audits.length, divergent }, '🔎 Supply audit completed');
+    } catch (error: any) {
+      logger.error({
+        error: error.message,
+        stack: error.stack
+      }, '❌ Supply audit run failed');
+    }
+
+    return audits;
+  }
+
+  private report(audit: SupplyAudit, io?: SocketIOServer): void {
+    const previous = this.alerted.get(audit.tokenId);
+
+    if (audit.ok) {
+      if (previous !== undefined) {
+        this.alerted.delete(audit.tokenId);
+        logger.info({ tokenId: audit.tokenId }, '✅ Token supply consistent again');
+        if (io) {
+          io.to(`token:${audit.tokenId}`).emit('supply-recovered', { tokenId: audit.tokenId });
+        }
+      }
+      return;
+    }
+
+    const fingerprint = JSON.stringify(audit.anomalies);
+    if (fingerprint === previous) {
+      return;
+    }
+    this.alerted.set(audit.tokenId, fingerprint);
+
+    logger.error({
+      tokenId: audit.tokenId,
+      symbol: audit.symbol,
+      supply: audit.supply,
+      anomalies: audit.anomalies.slice(0, 20),
+      anomalyCount: audit.anomalies.length
+    }, '🚨 Token supply diverges - manual review needed');
+
+    if (io) {
+      io.to(`token:${audit.tokenId}`).emit('supply-alert', {
+        tokenId: audit.tokenId,
+        symbol: audit.symbol,
+        auditedAt: audit.auditedAt,
+        anomalies: audit.anomalies
+      });
+    }
+  }
+}
+
+// Singleton instance
+export const supplyAuditor = new SupplyAuditor();
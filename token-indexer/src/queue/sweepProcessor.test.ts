@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useMemoryDb, type MemoryDb } from '../testing/memoryDb';
+import { sendViaSdk } from '../services/arkSdk';
+import { arkadeClient } from '../services/arkadeClient';
+import { PRESALE_POOL_CONFIG, getPoolWalletKey } from '../config/presale-pool';
+import { resolvePaymentKey } from './depositAddress';
+import { sweepProcessor } from './sweepProcessor';
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  PrismaClient: (await import('../testing/prismaMock')).ForwardingPrismaClient,
+}));
+vi.mock('../services/arkSdk', () => ({ sendViaSdk: vi.fn() }));
+vi.mock('../services/arkadeClient', () => ({
+  arkadeClient: { getVtxosByAddress: vi.fn(), getReceivedPayments: vi.fn(), getAddressBalance: vi.fn() },
+}));
+vi.mock('../config/presale-pool', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  getPoolWalletKey: vi.fn(),
+}));
+vi.mock('../services/poolWalletRegistry', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  refreshPoolWalletBalance: vi.fn(async (wallet) => wallet),
+}));
+vi.mock('./depositAddress', () => ({ resolvePaymentKey: vi.fn() }));
+
+const POOL = 'tark1pool';
+const DEPOSIT = 'tark1deposit';
+const COLD = 'tark1cold';
+
+let memory: MemoryDb;
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  memory = useMemoryDb();
+  PRESALE_POOL_CONFIG.SWEEP_DESTINATION_ADDRESS = COLD;
+  PRESALE_POOL_CONFIG.SWEEP_MIN_AMOUNT_SATS = '1000';
+  await memory.client.token.create({
+    data: { id: 'token-1', name: 'Token', symbol: 'TKN', totalSupply: '1000', creator: POOL, createdInTx: 'vtxo:0' },
+  });
+  await memory.client.poolWallet.create({ data: { id: 'wallet-1', address: POOL } });
+  vi.mocked(getPoolWalletKey).mockReturnValue('pool-key');
+  vi.mocked(sendViaSdk).mockResolvedValue({ success: true, txid: 'sweep-tx' } as any);
+});
+
+afterEach(() => {
+  PRESALE_POOL_CONFIG.SWEEP_DESTINATION_ADDRESS = '';
+  PRESALE_POOL_CONFIG.SWEEP_MIN_AMOUNT_SATS = '100000';
+});
+
+async function createRequest(id: string, overrides: Record<string, unknown> = {}) {
+  return memory.client.purchaseRequest.create({
+    data: {
+      id, tokenId: 'token-1', walletAddress: 'tark1buyer', batchesPurchased: 1, totalPaid: '500',
+      txid: `tx-${id}`, paymentAddress: POOL, timestamp: BigInt(Date.now()), status: 'processing', ...overrides,
+    },
+  });
+}
+
+async function createRefund(paymentTxid: string, overrides: Record<string, unknown> = {}) {
+  return memory.client.refund.create({
+    data: {
+      paymentTxid, tokenId: 'token-1', walletAddress: 'tark1buyer', poolWalletAddress: POOL,
+      amount: '300', reason: 'canceled', ...overrides,
+    },
+  });
+}
+
+const holds = (available: bigint) =>
+  vi.mocked(arkadeClient.getAddressBalance).mockResolvedValue({ available, total: available });
+
+describe('getReservedForRefunds', () => {
+  it('keeps unsent refunds and payments of unsettled requests', async () => {
+    await createRefund('tx-refund-1');
+    await createRefund('tx-refund-2', { status: 'processing', amount: '200' });
+    await createRefund('tx-refund-3', { status: 'completed' });
+    await createRequest('request-1', { paidAmount: '700' });
+    await createRequest('request-2');
+    await createRequest('request-3', { status: 'confirmed' });
+    await createRequest('request-4', { depositAddress: DEPOSIT });
+
+    // request-2 has no paid amount and is not received yet: its price is kept
+    vi.mocked(arkadeClient.getReceivedPayments).mockResolvedValue([]);
+
+    expect(await sweepProcessor.getReservedForRefunds(POOL)).toBe(300n + 200n + 700n + 500n);
+  });
+
+  it('is unknown while a refund amount is unknown', async () => {
+    await createRefund('tx-refund-1', { amount: null });
+    vi.mocked(arkadeClient.getReceivedPayments).mockResolvedValue([]);
+
+    expect(await sweepProcessor.getReservedForRefunds(POOL)).toBeNull();
+  });
+});
+
+describe('sweepByAddress', () => {
+  it('sweeps what is not reserved to cold storage', async () => {
+    await createRefund('tx-refund-1');
+    holds(5000n);
+
+    const result = await sweepProcessor.sweepByAddress(POOL);
+
+    expect(result).toMatchObject({ outcome: 'swept', sweep: { amount: '4700', reservedAmount: '300', trigger: 'admin' } });
+    expect(sendViaSdk).toHaveBeenCalledWith('pool-key', COLD, 4700);
+  });
+
+  it('skips a sweep below the minimum', async () => {
+    await createRefund('tx-refund-1', { amount: '4500' });
+    holds(5000n);
+
+    expect(await sweepProcessor.sweepByAddress(POOL)).toMatchObject({ outcome: 'skipped', reason: expect.stringMatching(/500 sats is below/) });
+    expect(sendViaSdk).not.toHaveBeenCalled();
+    expect(memory.rows('sweep')).toHaveLength(0);
+  });
+});
+
+describe('consolidateDeposits', () => {
+  beforeEach(async () => {
+    await createRequest('request-1', { status: 'confirmed', depositAddress: DEPOSIT });
+    vi.mocked(resolvePaymentKey).mockResolvedValue({ privateKey: 'deposit-key', isDeposit: true });
+    holds(500n);
+  });
+
+  it('moves a confirmed deposit into its pool wallet once', async () => {
+    expect(await sweepProcessor.consolidateDeposits()).toBe(1);
+    expect(await sweepProcessor.consolidateDeposits()).toBe(0);
+
+    expect(sendViaSdk).toHaveBeenCalledTimes(1);
+    expect(sendViaSdk).toHaveBeenCalledWith('deposit-key', POOL, 500);
+    expect(memory.rows('sweep')[0]).toMatchObject({ trigger: 'consolidate', status: 'completed', fromAddress: DEPOSIT });
+  });
+
+  it('retries a consolidation whose send failed', async () => {
+    vi.mocked(sendViaSdk).mockResolvedValueOnce({ success: false, error: 'timeout' } as any);
+
+    expect(await sweepProcessor.consolidateDeposits()).toBe(0);
+    expect(memory.rows('purchaseRequest')[0].depositConsolidatedAt).toBeNull();
+
+    expect(await sweepProcessor.consolidateDeposits()).toBe(1);
+    expect(memory.rows('sweep').map((s) => s.status)).toEqual(['failed', 'completed']);
+  });
+
+  it('waits for an overpayment refund from the deposit', async () => {
+    await createRefund('tx-overpaid', { purchaseRequestId: 'request-1', poolWalletAddress: DEPOSIT });
+
+    expect(await sweepProcessor.consolidateDeposits()).toBe(0);
+    expect(sendViaSdk).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Sweep Processor for presale pool wallets
+ *
+ * Moves funds from hot pool wallets to a cold storage address so a full
+ * wallet does not keep its balance online:
+ *
+ *   - A wallet is swept when it is full, or when its available balance is
+ *     above SWEEP_MAX_HOT_BALANCE_SATS
+ *   - Funds still owed to payers (pending or in-flight refunds from the wallet,
+ *     and payments of requests not yet confirmed or rejected) stay behind; if
+ *     any refund amount is unknown, the wallet is not swept
+ *   - Sweeps below SWEEP_MIN_AMOUNT_SATS are skipped
+ *
+ * Each sweep is recorded in the sweeps table before the transfer is sent. A
+ * partial unique index allows one processing sweep per wallet, so concurrent
+ * instances never send twice. Like refunds, a failed send is marked failed
+ * rather than retried: the transfer may have gone out.
+ *
+ * Payments to per-request deposit addresses are first consolidated into the
+ * pool wallet once their request is confirmed (deposits of other requests may
+ * still be refunded from where they are). Consolidations are recorded in the
+ * sweeps table too (trigger 'consolidate'), so the wallet balance behind
+ * capacity and rotation includes them. Unlike sweeps, a failed consolidation
+ * is retried: each attempt sends only what the deposit still holds.
+ *
+ * Only wallets whose key is in this instance's keystore can be swept.
+ */
+
+import { PoolWallet, Prisma, PrismaClient, Sweep } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { arkadeClient } from '../services/arkadeClient';
+import { sendViaSdk } from '../services/arkSdk';
+import { findPoolWallet, refreshPoolWalletBalance } from '../services/poolWalletRegistry';
+import { PRESALE_POOL_CONFIG, getPoolWalletKey } from '../config/presale-pool';
+import { getReceivedAmount } from './paymentVerification';
+import { resolvePaymentKey } from './depositAddress';
+
+const prisma = new PrismaClient();
+const MAX_CONSOLIDATIONS_PER_RUN = 20;
+
+export type SweepTrigger = 'full' | 'max-hot-balance' | 'admin' | 'consolidate';
+
+export type SweepResult =
+  | { outcome: 'swept'; sweep: Sweep }
+  | { outcome: 'failed'; sweep: Sweep }
+  | { outcome: 'skipped'; reason: string };
+
+class SweepProcessor {
+  /**
+   * Sweep every pool wallet that is full or above the maximum hot balance
+   */
+  async processSweeps(): Promise<SweepResult[]> {
+    const results: SweepResult[] = [];
+
+    try {
+      const wallets = await prisma.poolWallet.findMany({ where: { status: { not: 'retired' } } });
+      const maxHot = BigInt(PRESALE_POOL_CONFIG.SWEEP_MAX_HOT_BALANCE_SATS);
+
+      for (const stored of wallets) {
+        if (!getPoolWalletKey(stored.address)) {
+          continue;
+        }
+
+        const wallet = await refreshPoolWalletBalance(stored);
+        const trigger: SweepTrigger | null = wallet.status === 'full'
+          ? 'full'
+          : BigInt(wallet.lastBalance) > maxHot ? 'max-hot-balance' : null;
+        if (!trigger) {
+          continue;
+        }
+
+        try {
+          const result = await this.sweepWallet(wallet, trigger);
+          if (result.outcome === 'skipped') {
+            logger.info({ wallet: wallet.address.slice(0, 20) + '...', reason: result.reason }, '🧊 Sweep skipped');
+          }
+          results.push(result);
+        } catch (error: any) {
+          logger.error({
+            wallet: wallet.address.slice(0, 20) + '...',
+            error: error.message
+          }, '❌ Sweep processing failed');
+        }
+      }
+    } catch (error: any) {
+      logger.error({
+        error: error.message,
+        stack: error.stack
+      }, '❌ Sweep run failed');
+    }
+
+    return results;
+  }
+
+  /**
+   * Move the deposit addresses of confirmed requests into their pool wallet.
+   * Each deposit is consolidated once; an empty deposit is marked done too.
+   *
+   * @returns Number of deposits consolidated
+   */
+  async consolidateDeposits(): Promise<number> {
+    // An overpayment refund is sent from the deposit address: consolidate what is
+    // left once it went out (a failed one waits for an admin to resolve it)
+    const refunding = await prisma.refund.findMany({
+      where: { purchaseRequestId: { not: null }, status: { in: ['pending', 'processing', 'failed'] } },
+      select: { purchaseRequestId: true }
+    });
+
+    const requests = await prisma.purchaseRequest.findMany({
+      where: {
+        status: 'confirmed',
+        depositAddress: { not: null },
+        paymentAddress: { not: null },
+        depositConsolidatedAt: null,
+        id: { notIn: refunding.map((r) => r.purchaseRequestId!) }
+      },
+      orderBy: { timestamp: 'asc' },
+      take: MAX_CONSOLIDATIONS_PER_RUN,
+      select: { id: true, depositAddress: true, paymentAddress: true }
+    });
+
+    let consolidated = 0;
+    for (const request of requests) {
+      try {
+        if (await this.consolidateDeposit(request.id, request.depositAddress!, request.paymentAddress!)) {
+          consolidated++;
+        }
+      } catch (error: any) {
+        logger.error({ requestId: request.id, error: error.message }, '❌ Deposit consolidation failed');
+      }
+    }
+    return consolidated;
+  }
+
+  private async consolidateDeposit(requestId: string, depositAddress: string, poolAddress: string): Promise<boolean> {
+    const wallet = await findPoolWallet(poolAddress);
+    const paymentKey = await resolvePaymentKey(prisma, depositAddress);
+    if (!wallet || !paymentKey?.isDeposit) {
+      // Not a pool wallet, or no signing key on this instance
+      return false;
+    }
+
+    const balance = await arkadeClient.getAddressBalance(depositAddress);
+    if (!balance) {
+      return false;
+    }
+
+    // Claim the deposit so concurrent runs consolidate it once. A failed send
+    // releases the claim: the next run re-reads the deposit balance, so what
+    // already went out is not sent again
+    const claimed = await prisma.purchaseRequest.updateMany({
+      where: { id: requestId, depositConsolidatedAt: null },
+      data: { depositConsolidatedAt: new Date() }
+    });
+    if (claimed.count === 0 || balance.available <= 0n) {
+      return false;
+    }
+
+    let sweep: Sweep;
+    try {
+      sweep = await prisma.sweep.create({
+        data: {
+          poolWalletId: wallet.id,
+          fromAddress: depositAddress,
+          toAddress: wallet.address,
+          amount: balance.available.toString(),
+          balanceBefore: balance.available.toString(),
+          reservedAmount: '0',
+          trigger: 'consolidate'
+        }
+      });
+    } catch (error: any) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        // A sweep of the pool wallet is in progress; retried next run
+        await prisma.purchaseRequest.update({ where: { id: requestId }, data: { depositConsolidatedAt: null } });
+        return false;
+      }
+      throw error;
+    }
+
+    const sent = await sendViaSdk(paymentKey.privateKey, wallet.address, Number(balance.available));
+
+    if (!sent.success || !sent.txid) {
+      const failed = await prisma.sweep.update({
+        where: { id: sweep.id },
+        data: { status: 'failed', error: sent.error || 'Consolidation send failed', completedAt: new Date() }
+      });
+      await prisma.purchaseRequest.update({ where: { id: requestId }, data: { depositConsolidatedAt: null } });
+      logger.error({
+        sweepId: failed.id,
+        requestId,
+        deposit: depositAddress.slice(0, 20) + '...',
+        error: failed.error
+      }, '❌ Deposit consolidation failed, retrying next run');
+      return false;
+    }
+
+    const completed = await prisma.sweep.update({
+      where: { id: sweep.id },
+      data: { status: 'completed', txid: sent.txid, completedAt: new Date() }
+    });
+
+    logger.info({
+      sweepId: completed.id,
+      requestId,
+      txid: completed.txid,
+      amount: completed.amount,
+      wallet: wallet.address.slice(0, 20) + '...'
+    }, '📦 Deposit consolidated into pool wallet');
+
+    return true;
+  }
+
+  /**
+   * Sweep one wallet on request, regardless of its status
+   */
+  async sweepByAddress(address: string): Promise<SweepResult> {
+    const wallet = await findPoolWallet(address);
+    if (!wallet) {
+      return { outcome: 'skipped', reason: `Pool wallet ${address} is not registered` };
+    }
+    return this.sweepWallet(wallet, 'admin');
+  }
+
+  /**
+   * Sats a wallet must keep for refunds not yet sent from it, and for
+   * payments to it whose request is not settled yet (they may still be
+   * refunded). Returns null while any refund amount is still unknown.
+   */
+  async getReservedForRefunds(address: string): Promise<bigint | null> {
+    const [refunds, unsettled] = await Promise.all([
+      prisma.refund.findMany({
+        where: { poolWalletAddress: address, status: { in: ['pending', 'processing'] } },
+        select: { paymentTxid: true, amount: true }
+      }),
+      // Requests paying the wallet itself; deposit addresses hold their own payments
+      prisma.purchaseRequest.findMany({
+        where: {
+          paymentAddress: address,
+          depositAddress: null,
+          txid: { not: null },
+          status: { in: ['pending', 'processing'] }
+        },
+        select: { txid: true, paidAmount: true, totalPaid: true }
+      })
+    ]);
+
+    let reserved = 0n;
+    for (const refund of refunds) {
+      const amount = refund.amount
+        ? BigInt(refund.amount)
+        : await getReceivedAmount(address, refund.paymentTxid);
+      if (amount === null) {
+        return null;
+      }
+      reserved += amount;
+    }
+
+    for (const request of unsettled) {
+      // Not received yet (or unknown): keep the expected amount in case it arrives
+      const amount = request.paidAmount
+        ? BigInt(request.paidAmount)
+        : await getReceivedAmount(address, request.txid!) ?? BigInt(request.totalPaid);
+      reserved += amount;
+    }
+    return reserved;
+  }
+
+  private async sweepWallet(wallet: PoolWallet, trigger: SweepTrigger): Promise<SweepResult> {
+    const destination = PRESALE_POOL_CONFIG.SWEEP_DESTINATION_ADDRESS;
+    if (!destination) {
+      return { outcome: 'skipped', reason: 'No sweep destination configured' };
+    }
+    if (destination === wallet.address) {
+      return { outcome: 'skipped', reason: 'Sweep destination is the pool wallet itself' };
+    }
+
+    const privateKey = getPoolWalletKey(wallet.address);
+    if (!privateKey) {
+      return { outcome: 'skipped', reason: 'No signing key for the pool wallet on this instance' };
+    }
+
+    const balance = await arkadeClient.getAddressBalance(wallet.address);
+    if (!balance) {
+      return { outcome: 'skipped', reason: 'Pool wallet balance unavailable' };
+    }
+
+    const reserved = await this.getReservedForRefunds(wallet.address);
+    if (reserved === null) {
+      return { outcome: 'skipped', reason: 'Pending refund amounts not yet known' };
+    }
+
+    const amount = balance.available - reserved;
+    if (amount < BigInt(PRESALE_POOL_CONFIG.SWEEP_MIN_AMOUNT_SATS)) {
+      return {
+        outcome: 'skipped',
+        reason: `Sweepable amount ${amount > 0n ? amount : 0n} sats is below the minimum`
+      };
+    }
+
+    let sweep: Sweep;
+    try {
+      sweep = await prisma.sweep.create({
+        data: {
+          poolWalletId: wallet.id,
+          fromAddress: wallet.address,
+          toAddress: destination,
+          amount: amount.toString(),
+          balanceBefore: balance.available.toString(),
+          reservedAmount: reserved.toString(),
+          trigger
+        }
+      });
+    } catch (error: any) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { outcome: 'skipped', reason: 'Another sweep of this wallet is in progress' };
+      }
+      throw error;
+    }
+
+    logger.info({
+      sweepId: sweep.id,
+      trigger,
+      amount: sweep.amount,
+      reserved: sweep.reservedAmount,
+      from: wallet.address.slice(0, 20) + '...',
+      to: destination.slice(0, 20) + '...'
+    }, '🧊 Sweeping pool wallet to cold storage');
+
+    const sent = await sendViaSdk(privateKey, destination, Number(amount));
+
+    if (!sent.success || !sent.txid) {
+      const failed = await prisma.sweep.update({
+        where: { id: sweep.id },
+        data: { status: 'failed', error: sent.error || 'Sweep send failed', completedAt: new Date() }
+      });
+      logger.error({
+        sweepId: failed.id,
+        wallet: wallet.address.slice(0, 20) + '...',
+        error: failed.error
+      }, '🚨 Sweep failed - manual review needed');
+      return { outcome: 'failed', sweep: failed };
+    }
+
+    const completed = await prisma.sweep.update({
+      where: { id: sweep.id },
+      data: { status: 'completed', txid: sent.txid, completedAt: new Date() }
+    });
+
+    logger.info({ sweepId: completed.id, txid: completed.txid, amount: completed.amount }, '✅ Sweep sent');
+
+    // Frees a full wallet for new assignments once its balance is below threshold
+    await refreshPoolWalletBalance(wallet);
+
+    return { outcome: 'swept', sweep: completed };
+  }
+
+  /**
+   * Sweep history for accounting, newest first. totalSwept counts only what
+   * left for cold storage, not deposit consolidations.
+   */
+  async listSweeps(filter: { address?: string; limit: number }) {
+    const where = filter.address ? { fromAddress: filter.address } : {};
+    const [sweeps, completed] = await Promise.all([
+      prisma.sweep.findMany({ where, orderBy: { createdAt: 'desc' }, take: filter.limit }),
+      prisma.sweep.findMany({
+        where: { ...where, status: 'completed', trigger: { not: 'consolidate' } },
+        select: { amount: true }
+      })
+    ]);
+
+    const totalSwept = completed.reduce((sum, s) => sum + BigInt(s.amount), 0n);
+    return { sweeps, totalSwept: totalSwept.toString() };
+  }
+}
+
+// Singleton instance
+export const sweepProcessor = new SweepProcessor();
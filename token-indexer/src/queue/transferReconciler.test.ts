@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useMemoryDb, type MemoryDb } from '../testing/memoryDb';
+import { TRANSFER_CONFIG } from '../config/transfers';
+import { getLedgerBalance, issuanceAccount, postLedgerEntry } from '../token/ledger';
+import { checkTransferVtxo } from './transferVerification';
+import { transferReconciler } from './transferReconciler';
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  PrismaClient: (await import('../testing/prismaMock')).ForwardingPrismaClient,
+}));
+vi.mock('./transferVerification', () => ({ checkTransferVtxo: vi.fn() }));
+
+const TOKEN = 'token-1';
+const SENDER = 'tark1sender';
+const RECIPIENT = 'tark1recipient';
+
+let memory: MemoryDb;
+
+beforeEach(async () => {
+  vi.resetAllMocks();
+  memory = useMemoryDb();
+  await memory.client.token.create({
+    data: { id: TOKEN, name: 'Token', symbol: 'TKN', totalSupply: '1000', creator: SENDER, createdInTx: 'vtxo:0' },
+  });
+  await memory.client.$transaction((tx) => postLedgerEntry(tx, {
+    type: 'create', tokenId: TOKEN, fromAddress: issuanceAccount(TOKEN), toAddress: SENDER,
+    amount: 1000n, referenceId: TOKEN, metadata: { source: 'api' },
+  }));
+});
+
+async function createPendingTransfer(amount: string, overrides: Record<string, unknown> = {}) {
+  await memory.client.vtxoUsage.create({ data: { outpoint: 'vtxo-1', tokenId: TOKEN, usedInTx: 'vtxo-1' } });
+  return memory.client.tokenTransfer.create({
+    data: { txid: 'vtxo-1', tokenId: TOKEN, fromAddress: SENDER, toAddress: RECIPIENT, amount, status: 'pending', ...overrides },
+  });
+}
+
+const balance = (address: string) => getLedgerBalance(memory.client, address, TOKEN);
+
+describe('reconcilePendingTransfers', () => {
+  it('settles a transfer once its VTXO is verified', async () => {
+    await createPendingTransfer('400');
+    vi.mocked(checkTransferVtxo).mockResolvedValue({ outcome: 'verified', vtxos: [] });
+
+    await transferReconciler.reconcilePendingTransfers();
+    await transferReconciler.reconcilePendingTransfers();
+
+    expect(memory.rows('tokenTransfer')[0]).toMatchObject({ status: 'confirmed', confirmedAt: expect.any(Date) });
+    expect(await balance(SENDER)).toBe(600n);
+    expect(await balance(RECIPIENT)).toBe(400n);
+  });
+
+  it('fails a transfer whose VTXO is rejected and releases the VTXO', async () => {
+    await createPendingTransfer('400');
+    vi.mocked(checkTransferVtxo).mockResolvedValue({ outcome: 'rejected', code: 'vtxo-spent', reason: 'VTXO vtxo-1 is already spent' });
+
+    await transferReconciler.reconcilePendingTransfers();
+
+    expect(memory.rows('tokenTransfer')[0]).toMatchObject({ status: 'failed', failureReason: 'VTXO vtxo-1 is already spent' });
+    expect(memory.rows('vtxoUsage')).toHaveLength(0);
+    expect(await balance(RECIPIENT)).toBe(0n);
+  });
+
+  it('fails a transfer the sender can no longer cover', async () => {
+    await createPendingTransfer('1500');
+    vi.mocked(checkTransferVtxo).mockResolvedValue({ outcome: 'verified', vtxos: [] });
+
+    await transferReconciler.reconcilePendingTransfers();
+
+    expect(memory.rows('tokenTransfer')[0]).toMatchObject({ status: 'failed', failureReason: expect.stringMatching(/nsufficient/) });
+    expect(await balance(SENDER)).toBe(1000n);
+  });
+
+  it('keeps an unconfirmed transfer pending until it times out', async () => {
+    await createPendingTransfer('400');
+    vi.mocked(checkTransferVtxo).mockResolvedValue({ outcome: 'pending', reason: 'ASP indexer unavailable' });
+
+    await transferReconciler.reconcilePendingTransfers();
+    expect(memory.rows('tokenTransfer')[0]).toMatchObject({ status: 'pending', lastCheckedAt: expect.any(Date) });
+
+    memory.rows('tokenTransfer')[0].timestamp = new Date(Date.now() - TRANSFER_CONFIG.PENDING_TIMEOUT_MS - 1000);
+    await transferReconciler.reconcilePendingTransfers();
+    expect(memory.rows('tokenTransfer')[0]).toMatchObject({
+      status: 'failed',
+      failureReason: 'Not confirmed by the ASP in time: ASP indexer unavailable',
+    });
+  });
+});
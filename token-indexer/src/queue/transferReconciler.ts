@@ -0,0 +1,150 @@
+/**
+ * Transfer Reconciler for pending API transfers
+ *
+ * POST /api/transfers records a transfer as pending when the ASP cannot yet
+ * confirm the sender's VTXO. Each run re-checks pending transfers, least
+ * recently checked first:
+ *
+ *   - VTXO verified → balances move, transfer confirmed
+ *   - VTXO rejected (spent, or not the sender's) → transfer failed
+ *   - still unconfirmed after TRANSFER_PENDING_TIMEOUT_MS → transfer failed
+ *
+ * Settling and failing are conditional on the transfer still being pending,
+ * so concurrent instances never apply a transfer twice.
+ */
+
+import { PrismaClient, TokenTransfer } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { logger } from '../utils/logger';
+import { toAmountString } from '../utils/decimal';
+import { TRANSFER_CONFIG } from '../config/transfers';
+import { LedgerError } from '../token/ledger';
+import { failTransfer, settleTransfer } from '../token/transfers';
+import { checkTransferVtxo } from './transferVerification';
+
+const prisma = new PrismaClient();
+const MAX_TRANSFERS_PER_RUN = 20;
+
+class TransferReconciler {
+  /**
+   * Promote or fail pending transfers
+   */
+  async reconcilePendingTransfers(io?: SocketIOServer): Promise<void> {
+    try {
+      // Least recently checked first, so every pending transfer gets its turn
+      const pending = await prisma.tokenTransfer.findMany({
+        where: { status: 'pending' },
+        orderBy: [
+          { lastCheckedAt: { sort: 'asc', nulls: 'first' } },
+          { timestamp: 'asc' },
+          { id: 'asc' }
+        ],
+        take: MAX_TRANSFERS_PER_RUN
+      });
+      if (pending.length === 0) {
+        return;
+      }
+
+      await prisma.tokenTransfer.updateMany({
+        where: { id: { in: pending.map((t) => t.id) } },
+        data: { lastCheckedAt: new Date() }
+      });
+
+      for (const transfer of pending) {
+        try {
+          await this.reconcileTransfer(transfer, io);
+        } catch (error: any) {
+          logger.error({
+            transferId: transfer.id,
+            error: error.message
+          }, '❌ Transfer reconciliation failed');
+        }
+      }
+    } catch (error: any) {
+      logger.error({
+        error: error.message,
+        stack: error.stack
+      }, '❌ Transfer reconciliation run failed');
+    }
+  }
+
+  private async reconcileTransfer(transfer: TokenTransfer, io?: SocketIOServer): Promise<void> {
+    const check = await checkTransferVtxo(transfer.fromAddress, transfer.txid);
+
+    if (check.outcome === 'rejected') {
+      await this.fail(transfer, check.reason, io);
+      return;
+    }
+
+    if (check.outcome === 'pending') {
+      if (Date.now() - transfer.timestamp.getTime() > TRANSFER_CONFIG.PENDING_TIMEOUT_MS) {
+        await this.fail(transfer, `Not confirmed by the ASP in time: ${check.reason}`, io);
+      }
+      return;
+    }
+
+    let settled: boolean;
+    try {
+      settled = await prisma.$transaction((tx) => settleTransfer(tx, transfer));
+    } catch (error: any) {
+      if (error instanceof LedgerError) {
+        await this.fail(transfer, error.message, io);
+        return;
+      }
+      throw error;
+    }
+    if (!settled) {
+      return;
+    }
+
+    logger.info({
+      transferId: transfer.id,
+      tokenId: transfer.tokenId,
+      amount: toAmountString(transfer.amount),
+      vtxoId: transfer.txid
+    }, '✅ Pending transfer confirmed');
+
+    if (io) {
+      for (const address of [transfer.fromAddress, transfer.toAddress]) {
+        io.to(`wallet:${address}`).emit('transfer-confirmed', {
+          transferId: transfer.id,
+          tokenId: transfer.tokenId,
+          fromAddress: transfer.fromAddress,
+          toAddress: transfer.toAddress,
+          amount: toAmountString(transfer.amount)
+        });
+      }
+    }
+  }
+
+  private async fail(transfer: TokenTransfer, reason: string, io?: SocketIOServer): Promise<void> {
+    const failed = await prisma.$transaction((tx) => failTransfer(tx, transfer, reason));
+    if (!failed) {
+      return;
+    }
+
+    logger.warn({
+      transferId: transfer.id,
+      tokenId: transfer.tokenId,
+      vtxoId: transfer.txid,
+      reason
+    }, '⛔ Pending transfer failed');
+
+    if (io) {
+      // The recipient's pending incoming amount goes away too
+      for (const address of [transfer.fromAddress, transfer.toAddress]) {
+        io.to(`wallet:${address}`).emit('transfer-failed', {
+          transferId: transfer.id,
+          tokenId: transfer.tokenId,
+          fromAddress: transfer.fromAddress,
+          toAddress: transfer.toAddress,
+          amount: toAmountString(transfer.amount),
+          reason
+        });
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const transferReconciler = new TransferReconciler();
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AddressVtxo, arkadeClient } from '../services/arkadeClient';
+import { checkTransferVtxo } from './transferVerification';
+
+vi.mock('../services/arkadeClient', () => ({
+  arkadeClient: { getVtxosByAddress: vi.fn(), verifyTransaction: vi.fn(), verifyVtxo: vi.fn() },
+}));
+
+const SENDER = 'tark1sender';
+const TXID = 'a'.repeat(64);
+const COMMITMENT = 'c'.repeat(64);
+
+function vtxo(overrides: Partial<AddressVtxo> = {}): AddressVtxo {
+  return {
+    txid: TXID, vout: 0, amount: 1000n, createdAt: new Date(), isPreconfirmed: false,
+    isSwept: false, isSpent: false, commitmentTxids: [COMMITMENT], ...overrides,
+  };
+}
+
+const senderHolds = (...vtxos: AddressVtxo[]) => vi.mocked(arkadeClient.getVtxosByAddress).mockResolvedValue(vtxos);
+
+beforeEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('checkTransferVtxo', () => {
+  it('verifies a settled, unspent VTXO of the sender by outpoint or commitment txid', async () => {
+    senderHolds(vtxo(), vtxo({ vout: 1 }));
+
+    expect(await checkTransferVtxo(SENDER, `${TXID}:1`)).toMatchObject({ outcome: 'verified', vtxos: [{ vout: 1 }] });
+    expect(await checkTransferVtxo(SENDER, COMMITMENT)).toMatchObject({ outcome: 'verified', vtxos: [{}, {}] });
+  });
+
+  it('waits while the ASP is unavailable', async () => {
+    vi.mocked(arkadeClient.getVtxosByAddress).mockResolvedValue(null);
+
+    expect(await checkTransferVtxo(SENDER, TXID)).toMatchObject({ outcome: 'pending' });
+  });
+
+  it('waits for a VTXO the ASP does not know yet', async () => {
+    senderHolds();
+    vi.mocked(arkadeClient.verifyTransaction).mockResolvedValue(false);
+    vi.mocked(arkadeClient.verifyVtxo).mockResolvedValue(false);
+
+    expect(await checkTransferVtxo(SENDER, `${TXID}:0`)).toMatchObject({ outcome: 'pending' });
+  });
+
+  it('rejects a known VTXO that is not the sender\'s', async () => {
+    senderHolds(vtxo({ txid: 'b'.repeat(64), commitmentTxids: [] }));
+    vi.mocked(arkadeClient.verifyTransaction).mockResolvedValue(true);
+
+    expect(await checkTransferVtxo(SENDER, `${TXID}:0`)).toMatchObject({ outcome: 'rejected', code: 'vtxo-not-owned' });
+  });
+
+  it('rejects a spent VTXO', async () => {
+    senderHolds(vtxo({ isSpent: true }));
+
+    expect(await checkTransferVtxo(SENDER, `${TXID}:0`)).toMatchObject({ outcome: 'rejected', code: 'vtxo-spent' });
+  });
+
+  it('waits for a preconfirmed VTXO to settle', async () => {
+    senderHolds(vtxo({ isPreconfirmed: true }));
+
+    expect(await checkTransferVtxo(SENDER, `${TXID}:0`)).toMatchObject({ outcome: 'pending', reason: expect.stringMatching(/not yet settled/) });
+  });
+});
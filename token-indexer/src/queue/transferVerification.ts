@@ -0,0 +1,71 @@
+/**
+ * Token transfer VTXO verification
+ *
+ * A transfer recorded through the API names the VTXO the sender settled for
+ * it. Before any balance moves, the ASP must confirm that the VTXO:
+ *
+ *   - exists and is locked to the sender's address
+ *   - was created in a settled round (not just preconfirmed)
+ *   - is not already spent
+ *
+ * `vtxoId` is either an outpoint ("txid:vout") or, as the SDK sends today, the
+ * commitment txid returned by `wallet.settle()`; the latter matches any of the
+ * sender's VTXOs created by that commitment.
+ *
+ * When the ASP cannot answer yet (unreachable, VTXO not indexed or not yet
+ * settled) the outcome is pending, so the caller can retry later.
+ */
+
+import { AddressVtxo, arkadeClient } from '../services/arkadeClient';
+
+export type TransferVtxoRejectionCode = 'vtxo-not-owned' | 'vtxo-spent';
+
+export type TransferVtxoCheck =
+  | { outcome: 'verified'; vtxos: AddressVtxo[] }
+  | { outcome: 'pending'; reason: string }
+  | { outcome: 'rejected'; code: TransferVtxoRejectionCode; reason: string };
+
+function matchesVtxoId(vtxo: AddressVtxo, vtxoId: string): boolean {
+  const [txid, vout] = vtxoId.split(':');
+  if (vout !== undefined) {
+    return vtxo.txid === txid && vtxo.vout === Number(vout);
+  }
+  return vtxo.txid === txid || vtxo.commitmentTxids.includes(txid);
+}
+
+/**
+ * Check a transfer's VTXO against the sender's VTXOs on the ASP
+ */
+export async function checkTransferVtxo(fromAddress: string, vtxoId: string): Promise<TransferVtxoCheck> {
+  const vtxos = await arkadeClient.getVtxosByAddress(fromAddress);
+  if (!vtxos) {
+    return { outcome: 'pending', reason: 'ASP indexer unavailable' };
+  }
+
+  const matches = vtxos.filter((v) => matchesVtxoId(v, vtxoId));
+  if (matches.length === 0) {
+    // Known to the ASP but not among the sender's VTXOs: someone else's
+    const txid = vtxoId.split(':')[0];
+    const known = (await arkadeClient.verifyTransaction(txid)) || (await arkadeClient.verifyVtxo(txid));
+    if (known) {
+      return {
+        outcome: 'rejected',
+        code: 'vtxo-not-owned',
+        reason: `VTXO ${vtxoId} does not belong to the sender`,
+      };
+    }
+    return { outcome: 'pending', reason: `VTXO ${vtxoId} not yet known to the ASP` };
+  }
+
+  const unspent = matches.filter((v) => !v.isSpent);
+  if (unspent.length === 0) {
+    return { outcome: 'rejected', code: 'vtxo-spent', reason: `VTXO ${vtxoId} is already spent` };
+  }
+
+  const settled = unspent.filter((v) => !v.isPreconfirmed);
+  if (settled.length === 0) {
+    return { outcome: 'pending', reason: `VTXO ${vtxoId} is not yet settled in a round` };
+  }
+
+  return { outcome: 'verified', vtxos: settled };
+}
@@ -15,6 +15,10 @@ export interface PurchaseRequest {
   paymentRequestedAt?: Date;
   roundNumber?: number;
   rejectionReason?: string;
+  rejectionCode?: string;    // underpaid | overpaid | payment-reused | wrong-sender | payment-timeout | canceled
+  paymentAddress?: string;   // Pool wallet the buyer was asked to pay
+  depositAddress?: string;   // Per-request receive address derived from the pool wallet key
+  paidAmount?: string;       // Sats actually received for txid
 }
 
 export interface QueueStats {
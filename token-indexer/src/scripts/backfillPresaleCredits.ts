@@ -0,0 +1,103 @@
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { advisoryLockKeysFromTokenId } from '../utils/advisoryLock';
+import { creditPresalePurchase } from '../token/presaleReserve';
+
+// Credits every confirmed presale purchase that never reached the buyer's balance.
+// Safe to re-run: purchases are skipped once creditedAt is set. A purchase whose
+// txid already paid for an earlier (or credited) purchase is skipped too: one
+// payment pays for one purchase.
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  const pending = await prisma.presalePurchase.groupBy({
+    by: ['tokenId'],
+    where: { creditedAt: null },
+    _count: { _all: true },
+  });
+
+  if (pending.length === 0) {
+    console.log('No uncredited presale purchases.');
+    return;
+  }
+
+  let totalCredited = 0;
+  let totalSkipped = 0;
+  let totalFailed = 0;
+
+  for (const group of pending) {
+    const tokenId = group.tokenId;
+    console.log(`\nToken ${tokenId}: ${group._count._all} uncredited purchase(s)`);
+
+    if (dryRun) {
+      continue;
+    }
+
+    try {
+      const { key1, key2 } = advisoryLockKeysFromTokenId(tokenId);
+      const { credited, skipped } = await prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(${key1}::int, ${key2}::int)`;
+
+        const token = await tx.token.findUnique({ where: { id: tokenId } });
+        if (!token) {
+          throw new Error(`Token ${tokenId} not found`);
+        }
+
+        const purchases = await tx.presalePurchase.findMany({
+          where: { tokenId, creditedAt: null },
+          orderBy: { purchasedAt: 'asc' },
+        });
+
+        let count = 0;
+        let skippedCount = 0;
+        for (const purchase of purchases) {
+          const paidFor = await tx.presalePurchase.findFirst({
+            where: {
+              txid: purchase.txid,
+              id: { not: purchase.id },
+              OR: [
+                { creditedAt: { not: null } },
+                { purchasedAt: { lt: purchase.purchasedAt } },
+                { purchasedAt: purchase.purchasedAt, id: { lt: purchase.id } },
+              ],
+            },
+            select: { id: true },
+          });
+          if (paidFor) {
+            console.log(`  Skipped purchase ${purchase.id}: txid ${purchase.txid} already paid for purchase ${paidFor.id}`);
+            skippedCount++;
+            continue;
+          }
+
+          const amount = await creditPresalePurchase(tx, token, purchase);
+          console.log(`  ${purchase.walletAddress} +${amount} (purchase ${purchase.id})`);
+          count++;
+        }
+        return { credited: count, skipped: skippedCount };
+      }, {
+        timeout: 60000,
+      });
+
+      totalCredited += credited;
+      totalSkipped += skipped;
+    } catch (err: any) {
+      // One token's failure (e.g. exhausted reserve) must not block the others
+      console.error(`  Failed: ${err?.message || String(err)}`);
+      totalFailed += group._count._all;
+    }
+  }
+
+  console.log(`\nDone. Credited ${totalCredited} purchase(s), skipped ${totalSkipped} reusing a paid txid, ${totalFailed} left uncredited${dryRun ? ' (dry run)' : ''}.`);
+}
+
+main()
+  .catch((err) => {
+    console.error(err?.stack || err?.message || String(err));
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,57 @@
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { TickerError, claimTicker } from '../token/tickers';
+
+// Claims tickers for tokens registered before the ticker registry, oldest first.
+// Pending tokens are left to the token monitor, which claims on confirmation.
+// A token whose ticker is already held is reported and left unclaimed (it cannot settle).
+// Safe to re-run: tokens that already hold their ticker are skipped.
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  const tokens = await prisma.token.findMany({
+    where: { status: { notIn: ['pending', 'failed'] }, ticker: null },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  });
+
+  if (tokens.length === 0) {
+    console.log('No tokens without a ticker claim.');
+    return;
+  }
+
+  let claimed = 0;
+  let conflicts = 0;
+
+  for (const token of tokens) {
+    if (dryRun) {
+      console.log(`${token.symbol} (${token.id})`);
+      continue;
+    }
+
+    try {
+      await prisma.$transaction((tx) => claimTicker(tx, token, 0, null));
+      console.log(`${token.symbol} (${token.id}): claimed`);
+      claimed++;
+    } catch (err: any) {
+      if (!(err instanceof TickerError)) {
+        throw err;
+      }
+      console.error(`${token.symbol} (${token.id}): ${err.message}`);
+      conflicts++;
+    }
+  }
+
+  console.log(`\nDone. Claimed ${claimed} ticker(s), ${conflicts} conflict(s)${dryRun ? ' (dry run)' : ''}.`);
+}
+
+main()
+  .catch((err) => {
+    console.error(err?.stack || err?.message || String(err));
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -1,22 +1,24 @@
 import axios from 'axios';
 import * as bitcoin from 'bitcoinjs-lib';
 import { bech32, bech32m } from '@scure/base';
-
-type NetworkName = 'bitcoin' | 'testnet' | 'regtest' | 'signet' | string;
+import { NetworkProfile, getNetworkProfile } from '@arkade-token/sdk';
+import { NETWORK_PROFILE } from '../config/network';
 
 function isHex(s: string): boolean {
   return /^[0-9a-fA-F]+$/.test(s);
 }
 
-function getBitcoinJsNetwork(networkName: NetworkName | undefined): bitcoin.Network {
-  const n = (networkName || '').toLowerCase();
-  if (n.includes('main')) return bitcoin.networks.bitcoin;
-  if (n.includes('bitcoin')) return bitcoin.networks.bitcoin;
-  if (n.includes('test')) return bitcoin.networks.testnet;
-  if (n.includes('mutiny')) return bitcoin.networks.testnet;
-  if (n.includes('signet')) return bitcoin.networks.testnet;
-  if (n.includes('regtest')) return bitcoin.networks.regtest;
-  return bitcoin.networks.testnet;
+function warnOnNetworkMismatch(profile: NetworkProfile, aspNetwork: string | undefined): void {
+  if (!aspNetwork) return;
+  let reported = aspNetwork;
+  try {
+    reported = getNetworkProfile(aspNetwork).name;
+  } catch {
+    // Unknown name, compared as is
+  }
+  if (reported !== profile.name) {
+    console.warn(`Warning: ASP reports network "${aspNetwork}" but NETWORK is "${profile.name}"`);
+  }
 }
 
 function bytesToBech32Words(bytes: Uint8Array): number[] {
@@ -209,9 +211,10 @@ async function fetchVirtualTxHexes(aspUrl: string, txid: string): Promise<string
 
 function decodeAndPrintTx(
   txHex: string,
-  network: bitcoin.Network,
-  opts: { aspNetworkName?: string; aspServerPubkey?: string }
+  profile: NetworkProfile,
+  opts: { aspServerPubkey?: string }
 ): void {
+  const network = profile.bitcoinNetwork;
   if (!isHex(txHex)) {
     throw new Error('Virtual tx is not hex');
   }
@@ -255,9 +258,8 @@ function decodeAndPrintTx(
 
       const serverXOnly = tryParseServerXOnlyPubkey(opts.aspServerPubkey);
       if (serverXOnly) {
-        const hrp = (opts.aspNetworkName || '').toLowerCase().includes('test') ? 'tark' : 'ark';
         try {
-          arkadeAddress = encodeArkadeAddress(hrp as 'ark' | 'tark', serverXOnly, decoded.program);
+          arkadeAddress = encodeArkadeAddress(profile.arkadeHrp, serverXOnly, decoded.program);
         } catch {
           arkadeAddress = null;
         }
@@ -283,10 +285,11 @@ async function main() {
     process.exit(1);
   }
 
-  const aspUrl = (process.env.ARKADE_ASP_URL || process.env.ASP_URL || 'https://arkade.computer').replace(/\/+$/, '');
+  const profile = NETWORK_PROFILE;
+  const aspUrl = profile.aspUrl;
 
   const info = await getAspInfo(aspUrl);
-  const network = getBitcoinJsNetwork(info?.network);
+  warnOnNetworkMismatch(profile, info?.network);
 
   console.log(`ASP: ${aspUrl}`);
   if (info?.network) console.log(`ASP network: ${info.network}`);
@@ -310,7 +313,7 @@ async function main() {
   // Usually one tx per txid; if multiple returned, decode all.
   txHexes.forEach((hex, idx) => {
     console.log(`\n=== Virtual TX [${idx + 1}/${txHexes.length}] ===`);
-    decodeAndPrintTx(hex, network, { aspNetworkName: info?.network, aspServerPubkey: info?.pubkey });
+    decodeAndPrintTx(hex, profile, { aspServerPubkey: info?.pubkey });
   });
 }
 
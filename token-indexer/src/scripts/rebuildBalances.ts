@@ -0,0 +1,54 @@
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { rebuildBalances, swapRebuiltBalances } from '../token/balanceRebuild';
+
+// Replays the ledger into token_balances_shadow and prints how it differs from
+// token_balances. Nothing live changes unless --swap is given.
+//
+//   npm run rebuild:balances -- [--token <tokenId>] [--swap]
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const tokenId = argValue('--token');
+  const swap = process.argv.includes('--swap');
+
+  const report = await rebuildBalances({ tokenId });
+  console.log(`Rebuild ${report.rebuildId}: replayed ${report.ledgerEventCount} ledger entries into ${report.balanceCount} balance(s)${tokenId ? ` for ${tokenId}` : ''}.`);
+
+  for (const overdraft of report.overdrafts ?? []) {
+    console.log(`  Overdraft: ${overdraft.address} spent ${overdraft.amount} of ${overdraft.tokenId} holding ${overdraft.balance} (entry ${overdraft.ledgerEventId})`);
+  }
+
+  if (report.differences.length === 0) {
+    console.log('Live balances match the ledger.');
+    return;
+  }
+
+  console.log(`\n${report.differences.length} difference(s):`);
+  for (const d of report.differences) {
+    console.log(`  ${d.tokenId} ${d.address}: live ${d.live ?? '-'} → rebuilt ${d.rebuilt ?? '-'}`);
+  }
+
+  if (!swap) {
+    console.log(`\nReview, then swap with --swap or POST /api/admin/balances/rebuilds/${report.rebuildId}/swap.`);
+    return;
+  }
+
+  const result = await swapRebuiltBalances(report.rebuildId);
+  console.log(`\nSwapped: ${result.replaced} live balance(s) replaced by ${result.balances} rebuilt balance(s).`);
+}
+
+main()
+  .catch((err) => {
+    console.error(err?.stack || err?.message || String(err));
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
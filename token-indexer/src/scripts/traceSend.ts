@@ -2,24 +2,26 @@ import axios from 'axios';
 import { Wallet, SingleKey } from '@arkade-os/sdk';
 import * as bitcoin from 'bitcoinjs-lib';
 import { bech32, bech32m } from '@scure/base';
+import { NetworkProfile, getNetworkProfile } from '@arkade-token/sdk';
+import { NETWORK_PROFILE } from '../config/network';
 
 // Minimal helpers shared with decodeVirtualTx.ts (duplicated to keep scripts standalone)
 
-type NetworkName = 'bitcoin' | 'testnet' | 'regtest' | 'signet' | string;
-
 function isHex(s: string): boolean {
   return /^[0-9a-fA-F]+$/.test(s);
 }
 
-function getBitcoinJsNetwork(networkName: NetworkName | undefined): bitcoin.Network {
-  const n = (networkName || '').toLowerCase();
-  if (n.includes('main')) return bitcoin.networks.bitcoin;
-  if (n.includes('bitcoin')) return bitcoin.networks.bitcoin;
-  if (n.includes('test')) return bitcoin.networks.testnet;
-  if (n.includes('mutiny')) return bitcoin.networks.testnet;
-  if (n.includes('signet')) return bitcoin.networks.testnet;
-  if (n.includes('regtest')) return bitcoin.networks.regtest;
-  return bitcoin.networks.testnet;
+function warnOnNetworkMismatch(profile: NetworkProfile, aspNetwork: string | undefined): void {
+  if (!aspNetwork) return;
+  let reported = aspNetwork;
+  try {
+    reported = getNetworkProfile(aspNetwork).name;
+  } catch {
+    // Unknown name, compared as is
+  }
+  if (reported !== profile.name) {
+    console.warn(`Warning: ASP reports network "${aspNetwork}" but NETWORK is "${profile.name}"`);
+  }
 }
 
 async function getAspInfo(aspUrl: string): Promise<{ network?: string; pubkey?: string } | null> {
@@ -159,20 +161,19 @@ function encodeArkadeAddress(arkHrp: 'ark' | 'tark', serverXOnly: Uint8Array, ou
   return bech32mEncodeUnlimited(arkHrp, words);
 }
 
-function decodeAndPrintTx(txHex: string, network: bitcoin.Network, aspInfo: { network?: string; pubkey?: string } | null): void {
+function decodeAndPrintTx(txHex: string, profile: NetworkProfile, aspInfo: { network?: string; pubkey?: string } | null): void {
   const tx = bitcoin.Transaction.fromHex(txHex);
   console.log(`\nTXID: ${tx.getId()}`);
   console.log(`Inputs: ${tx.ins.length}  Outputs: ${tx.outs.length}`);
 
   const serverXOnly = tryParseServerXOnlyPubkey(aspInfo?.pubkey);
-  const arkHrp = (aspInfo?.network || '').toLowerCase().includes('test') ? 'tark' : 'ark';
 
   tx.outs.forEach((out, vout) => {
     const decoded = tryDecodeWitnessProgram(out.script);
     let address: string | null = null;
     if (decoded) {
       try {
-        address = encodeSegwitAddress(network.bech32, decoded.version, decoded.program);
+        address = encodeSegwitAddress(profile.bitcoinNetwork.bech32, decoded.version, decoded.program);
       } catch {
         address = null;
       }
@@ -181,7 +182,7 @@ function decodeAndPrintTx(txHex: string, network: bitcoin.Network, aspInfo: { ne
     let arkadeAddress: string | null = null;
     if (decoded?.version === 1 && decoded.program.length === 32 && serverXOnly) {
       try {
-        arkadeAddress = encodeArkadeAddress(arkHrp as 'ark' | 'tark', serverXOnly, decoded.program);
+        arkadeAddress = encodeArkadeAddress(profile.arkadeHrp, serverXOnly, decoded.program);
       } catch {
         arkadeAddress = null;
       }
@@ -208,9 +209,10 @@ async function main() {
     process.exit(1);
   }
 
-  const aspUrl = (process.env.ARKADE_ASP_URL || process.env.ASP_URL || 'https://arkade.computer').replace(/\/+$/, '');
+  const profile = NETWORK_PROFILE;
+  const aspUrl = profile.aspUrl;
   const aspInfo = await getAspInfo(aspUrl);
-  const btcNetwork = getBitcoinJsNetwork(aspInfo?.network);
+  warnOnNetworkMismatch(profile, aspInfo?.network);
 
   // Build wallet locally to get the *virtual txid / ark txid* that corresponds to this commitment settlement.
   const identity = SingleKey.fromHex(privateKeyHex);
@@ -305,7 +307,7 @@ async function main() {
   console.log(`\nResolved arkTxid for this commitment: ${arkTxid}`);
   const vhex = await fetchVirtualTxHex(aspUrl, arkTxid);
   console.log('\nDecoded receiver outputs for arkTxid:');
-  decodeAndPrintTx(vhex, btcNetwork, aspInfo);
+  decodeAndPrintTx(vhex, profile, aspInfo);
 }
 
 main().catch((err) => {
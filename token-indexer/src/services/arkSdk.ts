@@ -1,142 +1,22 @@
-import { Wallet, SingleKey } from '@arkade-os/sdk';
+import { Wallet, ReadonlyWallet, SingleKey, ReadonlySingleKey } from '@arkade-os/sdk';
+import { NETWORK_PROFILE } from '../config/network';
 
-const ASP_URL = process.env.ARKADE_ASP_URL || process.env.ASP_URL || 'https://arkade.computer';
+const ASP_URL = NETWORK_PROFILE.aspUrl;
 
 /**
- * Query VTXOs using the Ark SDK (like the wallet does)
- * This bypasses the public HTTP API and uses the SDK's internal methods
+ * Get Arkade address from a compressed public key (watch-only, no private key)
  */
-export async function queryVtxosViaSdk(privateKeyHex: string) {
+export async function getAddressFromPublicKeyViaSdk(publicKeyHex: string) {
   try {
-    // Create identity from private key
-    const identity = SingleKey.fromHex(privateKeyHex);
-    
-    // Initialize wallet
-    const wallet = await Wallet.create({
-      identity,
-      arkServerUrl: ASP_URL,
-    });
-
-    // Get VTXOs using SDK
-    const vtxos = await wallet.getVtxos();
-    
-    console.log(`📦 VTXOs count: ${vtxos.length}`);
-    vtxos.forEach((v, i) => {
-      console.log(`  VTXO #${i + 1}: ${v.value} sats, state: ${v.virtualStatus?.state}, spent: ${v.isSpent}`);
-    });
-    
-    return {
-      success: true,
-      vtxos: vtxos.map(v => ({
-        txid: v.txid,
-        vout: v.vout,
-        value: v.value,
-        status: v.status,
-        virtualStatus: v.virtualStatus,
-        spentBy: v.spentBy,
-        settledBy: v.settledBy,
-        arkTxId: v.arkTxId,
-        createdAt: v.createdAt,
-        isUnrolled: v.isUnrolled,
-        isSpent: v.isSpent,
-      })),
-      total: vtxos.length,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message,
-      vtxos: [],
-      total: 0,
-    };
-  }
-}
-
-/**
- * Query balance using the Ark SDK
- */
-export async function queryBalanceViaSdk(privateKeyHex: string) {
-  try {
-    const identity = SingleKey.fromHex(privateKeyHex);
-    
-    const wallet = await Wallet.create({
-      identity,
-      arkServerUrl: ASP_URL,
-    });
-
-    const balance = await wallet.getBalance();
-    
-    console.log('📊 Full balance response from SDK:', JSON.stringify(balance, null, 2));
-    
-    return {
-      success: true,
-      available: balance.available || 0,
-      preconfirmed: balance.preconfirmed || 0,
-      settled: balance.settled || 0,
-      recoverable: balance.recoverable || 0,
-      boarding: balance.boarding?.total || 0,
-      total: balance.total || 0,
-      balanceDetails: balance,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message,
-    };
-  }
-}
-
-/**
- * Query transaction history using the Ark SDK
- */
-export async function queryHistoryViaSdk(privateKeyHex: string) {
-  try {
-    const identity = SingleKey.fromHex(privateKeyHex);
-    
-    const wallet = await Wallet.create({
-      identity,
-      arkServerUrl: ASP_URL,
-    });
-
-    const history = await wallet.getTransactionHistory();
-    
-    return {
-      success: true,
-      transactions: history.map(tx => ({
-        boardingTxid: tx.key.boardingTxid,
-        commitmentTxid: tx.key.commitmentTxid,
-        arkTxid: tx.key.arkTxid,
-        type: tx.type,
-        amount: tx.amount,
-        settled: tx.settled,
-        createdAt: tx.createdAt,
-      })),
-      total: history.length,
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      error: error.message,
-      transactions: [],
-      total: 0,
-    };
-  }
-}
+    const identity = ReadonlySingleKey.fromPublicKey(Buffer.from(publicKeyHex, 'hex'));
 
-/**
- * Get Arkade address from private key
- */
-export async function getAddressViaSdk(privateKeyHex: string) {
-  try {
-    const identity = SingleKey.fromHex(privateKeyHex);
-    
-    const wallet = await Wallet.create({
+    const wallet = await ReadonlyWallet.create({
       identity,
       arkServerUrl: ASP_URL,
     });
 
     const address = await wallet.getAddress();
-    
+
     return {
       success: true,
       address,
@@ -150,79 +30,27 @@ export async function getAddressViaSdk(privateKeyHex: string) {
 }
 
 /**
- * Verify a specific VTXO exists in the wallet OR search transaction history
+ * Send sats from the wallet to an Arkade address
  */
-export async function verifyVtxoViaSdk(privateKeyHex: string, vtxoId: string) {
+export async function sendViaSdk(privateKeyHex: string, address: string, amount: number) {
   try {
     const identity = SingleKey.fromHex(privateKeyHex);
-    
+
     const wallet = await Wallet.create({
       identity,
       arkServerUrl: ASP_URL,
     });
 
-    // First, try to find it as a VTXO
-    const vtxos = await wallet.getVtxos();
-    const vtxo = vtxos.find(v => v.txid === vtxoId);
-    
-    if (vtxo) {
-      return {
-        success: true,
-        exists: true,
-        type: 'vtxo',
-        vtxo: {
-          txid: vtxo.txid,
-          vout: vtxo.vout,
-          value: vtxo.value,
-          status: vtxo.status,
-          virtualStatus: vtxo.virtualStatus,
-          spentBy: vtxo.spentBy,
-          settledBy: vtxo.settledBy,
-          arkTxId: vtxo.arkTxId,
-          createdAt: vtxo.createdAt,
-          isUnrolled: vtxo.isUnrolled,
-          isSpent: vtxo.isSpent,
-        },
-      };
-    }
-
-    // If not found as VTXO, check transaction history for arkTxid, boardingTxid, or commitmentTxid
-    const history = await wallet.getTransactionHistory();
-    const transaction = history.find(tx => 
-      tx.key.arkTxid === vtxoId || 
-      tx.key.boardingTxid === vtxoId || 
-      tx.key.commitmentTxid === vtxoId
-    );
-
-    if (transaction) {
-      return {
-        success: true,
-        exists: true,
-        type: 'transaction',
-        transaction: {
-          boardingTxid: transaction.key.boardingTxid,
-          commitmentTxid: transaction.key.commitmentTxid,
-          arkTxid: transaction.key.arkTxid,
-          type: transaction.type,
-          amount: transaction.amount,
-          settled: transaction.settled,
-          createdAt: transaction.createdAt,
-        },
-      };
-    }
+    const txid = await wallet.sendBitcoin({ address, amount });
 
-    // Not found anywhere
     return {
       success: true,
-      exists: false,
-      type: 'not_found',
-      message: 'Transaction ID not found in your wallet or transaction history',
+      txid,
     };
   } catch (error: any) {
     return {
       success: false,
       error: error.message,
-      exists: false,
     };
   }
 }
@@ -5,9 +5,14 @@
  * - The public Arkade host (https://arkade.computer) exposes v8 REST routes under `/v1/indexer/*`.
  * - Our app currently stores the result of `wallet.settle()` as `vtxoId`, but that value is a txid
  *   (commitment txid), not an outpoint.
+ * - Address queries (`getVtxosByAddress` and the helpers built on it) are watch-only: they
+ *   need the address alone, never the wallet's private key.
  */
 
+import { ArkAddress } from '@arkade-os/sdk';
+import { hex } from '@scure/base';
 import { logger } from '../utils/logger';
+import { NETWORK_PROFILE } from '../config/network';
 
 export interface VtxoInfo {
   txid: string;
@@ -17,6 +22,88 @@ export interface VtxoInfo {
   spendable: boolean;
 }
 
+/**
+ * A VTXO locked to a watched address, as reported by the ASP indexer
+ */
+export interface AddressVtxo {
+  txid: string;
+  vout: number;
+  amount: bigint;
+  createdAt: Date;
+  isPreconfirmed: boolean;
+  isSwept: boolean;
+  isSpent: boolean;
+  // Offchain tx that spent it, or the commitment tx it was settled into
+  arkTxid?: string;
+  settledBy?: string;
+  commitmentTxids: string[];
+}
+
+/**
+ * A payment received by a watched address: the outputs one transaction sent to it
+ */
+export interface ReceivedPayment {
+  txid: string;
+  amount: bigint;
+  createdAt: Date;
+}
+
+/**
+ * A transaction in a watched address's history
+ */
+export interface AddressHistoryEntry {
+  txid: string;
+  type: 'received' | 'sent';
+  amount: bigint;
+  // Unknown for a send that returned no change to the address
+  createdAt: Date | null;
+}
+
+/**
+ * A VTXO spent by an offchain (ark) transaction
+ */
+export interface SpentVtxo {
+  txid: string;
+  vout: number;
+  amount: bigint;
+  script: string; // Hex
+  createdAt: Date;
+  expiresAt: Date | null; // Batch expiry; it cannot be spent offchain after it
+  // The transaction that spent it (unset in the transaction stream, where it is the streamed one)
+  arkTxid?: string;
+}
+
+/**
+ * An offchain (ark) transaction: the PSBT and the VTXOs its inputs spent
+ */
+export interface ArkTxNotification {
+  txid: string;
+  tx: string; // PSBT, base64
+  spentVtxos: SpentVtxo[];
+}
+
+type IndexerVtxoBody = {
+  outpoint: { txid: string; vout: number };
+  createdAt: string;
+  expiresAt?: string;
+  amount: string;
+  script?: string;
+  isPreconfirmed?: boolean;
+  isSwept?: boolean;
+  isSpent?: boolean;
+  arkTxid?: string;
+  settledBy?: string;
+  commitmentTxids?: string[];
+};
+
+const VTXO_PAGE_SIZE = 100;
+
+// Scripts per VTXO query, to keep the URL short
+const VTXO_SCRIPTS_PER_QUERY = 50;
+
+// Virtual txs per lookup
+const VIRTUAL_TX_BATCH_SIZE = 50;
+
 type GrpcGatewayErrorBody = {
   code?: number;
   message?: string;
@@ -34,9 +121,181 @@ function looksLikeNotFound(err: GrpcGatewayErrorBody | undefined): boolean {
   );
 }
 
+function toSpentVtxo(v: IndexerVtxoBody): SpentVtxo {
+  return {
+    txid: v.outpoint.txid,
+    vout: v.outpoint.vout,
+    amount: BigInt(v.amount),
+    script: v.script ?? '',
+    createdAt: new Date(Number(v.createdAt) * 1000),
+    expiresAt: Number(v.expiresAt) > 0 ? new Date(Number(v.expiresAt) * 1000) : null,
+    arkTxid: v.arkTxid || undefined,
+  };
+}
+
+async function failedResponse(response: Response): Promise<Error> {
+  const text = await response.text().catch(() => '');
+  return new Error(`ASP returned ${response.status}: ${response.statusText}${text ? ` body=${text}` : ''}`);
+}
+
+async function* readTransactionStream(reader: ReadableStreamDefaultReader<Uint8Array>): AsyncGenerator<ArkTxNotification> {
+  const decoder = new TextDecoder();
+  let buffered = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      buffered += decoder.decode(value, { stream: true });
+
+      // One JSON message per line, as `data: {...}` events or bare gateway stream chunks
+      let newline: number;
+      while ((newline = buffered.indexOf('\n')) >= 0) {
+        const line = buffered.slice(0, newline).trim();
+        buffered = buffered.slice(newline + 1);
+        const json = line.startsWith('data:') ? line.slice(5).trim() : line;
+        if (!json.startsWith('{')) {
+          continue;
+        }
+
+        const message = JSON.parse(json) as { result?: any; error?: GrpcGatewayErrorBody; arkTx?: any };
+        if (message.error) {
+          throw new Error(`ASP transaction stream failed: ${message.error.message ?? 'unknown error'}`);
+        }
+        const arkTx = (message.result ?? message).arkTx;
+        if (arkTx) {
+          yield {
+            txid: arkTx.txid,
+            tx: arkTx.tx,
+            spentVtxos: ((arkTx.spentVtxos ?? []) as IndexerVtxoBody[]).map(toSpentVtxo),
+          };
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
 export class ArkadeClient {
+  private signerPubkey: Uint8Array | null = null;
+
   constructor(private readonly arkServerUrl: string) {}
 
+  /**
+   * The ASP's x-only signer key, the server key of every Arkade address it serves
+   */
+  async getSignerPubkey(): Promise<Uint8Array> {
+    if (!this.signerPubkey) {
+      const info = await this.getInfo();
+      const key = hex.decode(info.signerPubkey ?? '');
+      if (key.length !== 33 && key.length !== 32) {
+        throw new Error(`ASP reported an invalid signer pubkey: ${info.signerPubkey}`);
+      }
+      this.signerPubkey = key.length === 33 ? key.subarray(1) : key;
+    }
+    return this.signerPubkey;
+  }
+
+  /**
+   * Network the ASP serves, as it reports it (e.g. "bitcoin", "mutinynet")
+   */
+  async getNetwork(): Promise<string> {
+    const info = await this.getInfo();
+    if (!info.network) {
+      throw new Error('ASP did not report its network');
+    }
+    return info.network;
+  }
+
+  private async getInfo(): Promise<{ signerPubkey?: string; network?: string }> {
+    const response = await fetch(`${this.arkServerUrl}/v1/info`);
+    if (!response.ok) {
+      throw await failedResponse(response);
+    }
+    return (await response.json()) as { signerPubkey?: string; network?: string };
+  }
+
+  /**
+   * Subscribe to offchain transactions as the ASP accepts them (GET /v1/txs,
+   * server-sent events). Resolves once subscribed; the returned iterator skips
+   * commitment (batch) transactions, ends when the ASP closes the stream or the
+   * signal aborts, and throws if the stream breaks.
+   */
+  async openTransactionStream(signal: AbortSignal): Promise<AsyncGenerator<ArkTxNotification>> {
+    const response = await fetch(`${this.arkServerUrl}/v1/txs`, {
+      headers: { Accept: 'text/event-stream' },
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      throw await failedResponse(response);
+    }
+    return readTransactionStream(response.body.getReader());
+  }
+
+  /**
+   * Virtual transactions (PSBTs, base64) by txid. The ASP answers in request order.
+   * Throws if the ASP cannot be queried.
+   */
+  async getVirtualTxs(txids: string[]): Promise<Map<string, string>> {
+    const txs = new Map<string, string>();
+    for (let i = 0; i < txids.length; i += VIRTUAL_TX_BATCH_SIZE) {
+      const batch = txids.slice(i, i + VIRTUAL_TX_BATCH_SIZE);
+      const response = await fetch(`${this.arkServerUrl}/v1/indexer/virtualTx/${batch.join(',')}`);
+      if (!response.ok) {
+        throw await failedResponse(response);
+      }
+      const data = (await response.json()) as { txs?: string[] };
+      (data.txs ?? []).forEach((tx, j) => txs.set(batch[j], tx));
+    }
+    return txs;
+  }
+
+  /**
+   * Spent VTXOs locked to any of the scripts (hex).
+   * Throws if the ASP cannot be queried.
+   */
+  async getSpentVtxosByScripts(scripts: string[]): Promise<SpentVtxo[]> {
+    const vtxos: SpentVtxo[] = [];
+    for (let i = 0; i < scripts.length; i += VTXO_SCRIPTS_PER_QUERY) {
+      const params = new URLSearchParams({ spentOnly: 'true' });
+      for (const script of scripts.slice(i, i + VTXO_SCRIPTS_PER_QUERY)) {
+        params.append('scripts', script);
+      }
+      const page = await this.fetchVtxos(params);
+      vtxos.push(...page.map(toSpentVtxo));
+    }
+    return vtxos;
+  }
+
+  /**
+   * All pages of a VTXO query. Throws if the ASP cannot be queried.
+   */
+  private async fetchVtxos(query: URLSearchParams): Promise<IndexerVtxoBody[]> {
+    const vtxos: IndexerVtxoBody[] = [];
+    for (let page = 0; ; page++) {
+      const params = new URLSearchParams(query);
+      params.set('page.index', page.toString());
+      params.set('page.size', VTXO_PAGE_SIZE.toString());
+      const response = await fetch(`${this.arkServerUrl}/v1/indexer/vtxos?${params}`);
+      if (!response.ok) {
+        throw await failedResponse(response);
+      }
+
+      const data = (await response.json()) as {
+        vtxos?: IndexerVtxoBody[];
+        page?: { current?: number; next?: number; total?: number };
+      };
+      vtxos.push(...(data.vtxos ?? []));
+
+      const received = data.vtxos?.length ?? 0;
+      if (received < VTXO_PAGE_SIZE || page + 1 >= (data.page?.total ?? 0)) {
+        return vtxos;
+      }
+    }
+  }
+
   /**
    * Verify a settlement txid exists on the Arkade ASP.
    *
@@ -136,4 +395,127 @@ export class ArkadeClient {
       return true; // Fail closed - assume spent if can't verify
     }
   }
+
+  /**
+   * All VTXOs (spent or not) ever locked to an Arkade address.
+   * Returns null if the address is invalid or the ASP cannot be queried.
+   */
+  async getVtxosByAddress(address: string): Promise<AddressVtxo[] | null> {
+    let script: string;
+    try {
+      script = hex.encode(ArkAddress.decode(address).pkScript);
+    } catch (error) {
+      logger.warn({ address }, 'Cannot watch invalid Arkade address');
+      return null;
+    }
+
+    try {
+      const vtxos = await this.fetchVtxos(new URLSearchParams({ scripts: script }));
+      return vtxos.map((v) => ({
+        txid: v.outpoint.txid,
+        vout: v.outpoint.vout,
+        amount: BigInt(v.amount),
+        createdAt: new Date(Number(v.createdAt) * 1000),
+        isPreconfirmed: Boolean(v.isPreconfirmed),
+        isSwept: Boolean(v.isSwept),
+        isSpent: Boolean(v.isSpent),
+        arkTxid: v.arkTxid || undefined,
+        settledBy: v.settledBy || undefined,
+        commitmentTxids: v.commitmentTxids ?? [],
+      }));
+    } catch (error) {
+      logger.error({ error, address }, 'Failed to query address VTXOs from ASP');
+      return null;
+    }
+  }
+
+  /**
+   * Balance of an Arkade address: `available` excludes swept (recoverable) VTXOs
+   */
+  async getAddressBalance(address: string): Promise<{ available: bigint; total: bigint } | null> {
+    const vtxos = await this.getVtxosByAddress(address);
+    if (!vtxos) {
+      return null;
+    }
+
+    let available = 0n;
+    let total = 0n;
+    for (const v of vtxos.filter((v) => !v.isSpent)) {
+      total += v.amount;
+      if (!v.isSwept) {
+        available += v.amount;
+      }
+    }
+    return { available, total };
+  }
+
+  /**
+   * Payments received by an Arkade address, oldest first.
+   *
+   * Outputs are grouped by the transaction that created them. Change from the
+   * address's own sends and VTXOs renewed in a batch it settled into are not
+   * payments and are left out.
+   */
+  async getReceivedPayments(address: string): Promise<ReceivedPayment[] | null> {
+    const vtxos = await this.getVtxosByAddress(address);
+    return vtxos ? receivedPayments(vtxos) : null;
+  }
+
+  /**
+   * Received and sent transactions of an Arkade address, oldest first.
+   * A send's amount is what left the address (inputs minus change).
+   */
+  async getAddressHistory(address: string): Promise<AddressHistoryEntry[] | null> {
+    const vtxos = await this.getVtxosByAddress(address);
+    if (!vtxos) {
+      return null;
+    }
+
+    const history: AddressHistoryEntry[] = receivedPayments(vtxos).map((p) => ({ ...p, type: 'received' }));
+
+    const sends = new Map<string, AddressHistoryEntry>();
+    for (const v of vtxos.filter((v) => v.isSpent && v.arkTxid)) {
+      const send = sends.get(v.arkTxid!);
+      if (send) {
+        send.amount += v.amount;
+      } else {
+        sends.set(v.arkTxid!, { txid: v.arkTxid!, type: 'sent', amount: v.amount, createdAt: null });
+      }
+    }
+    for (const v of vtxos) {
+      const send = sends.get(v.txid);
+      if (send) {
+        // Change back to the address
+        send.amount -= v.amount;
+        send.createdAt = v.createdAt;
+      }
+    }
+    history.push(...sends.values());
+
+    const time = (entry: AddressHistoryEntry) => entry.createdAt?.getTime() ?? Number.MAX_SAFE_INTEGER;
+    return history.sort((a, b) => time(a) - time(b));
+  }
 }
+
+function receivedPayments(vtxos: AddressVtxo[]): ReceivedPayment[] {
+  const ownSends = new Set(vtxos.map((v) => v.arkTxid).filter((txid): txid is string => Boolean(txid)));
+  const ownSettlements = new Set(vtxos.map((v) => v.settledBy).filter((txid): txid is string => Boolean(txid)));
+
+  const payments = new Map<string, ReceivedPayment>();
+  for (const v of vtxos) {
+    if (ownSends.has(v.txid) || v.commitmentTxids.some((txid) => ownSettlements.has(txid))) {
+      continue;
+    }
+    const payment = payments.get(v.txid);
+    if (payment) {
+      payment.amount += v.amount;
+    } else {
+      payments.set(v.txid, { txid: v.txid, amount: v.amount, createdAt: v.createdAt });
+    }
+  }
+
+  return Array.from(payments.values()).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+// Shared client for the configured ASP
+export const arkadeClient = new ArkadeClient(NETWORK_PROFILE.aspUrl);
@@ -0,0 +1,500 @@
+/**
+ * Presale pool wallet registry
+ *
+ * Pool wallets, their token assignments, balance snapshots and the presale
+ * settings live in the database so every instance sees the same state and it
+ * survives restarts.
+ *
+ * Wallets are watched by address: balances and received payments come from
+ * the ASP indexer (ArkadeClient) without any private key. A wallet's public
+ * key, when registered, lets deposit addresses be derived watch-only too.
+ * Private keys stay in the keystore (config/presale-pool.ts) and are only
+ * needed to send refunds.
+ *
+ * Wallet status:
+ * - active   → can be assigned to tokens
+ * - full     → balance reached its threshold; becomes active again once drained below it
+ * - draining → no new assignments, tokens are moved off it
+ * - retired  → no assignments; kept for history and in-flight payments
+ *
+ * Token rotation takes the token's advisory lock (see advisoryLock.ts), the
+ * same lock purchases use, so a token never changes wallet mid-purchase.
+ */
+
+import { PoolWallet, PresaleSettings, Prisma, PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { advisoryLockKeysFromTokenId } from '../utils/advisoryLock';
+import { arkadeClient } from './arkadeClient';
+import { getAddressFromPublicKeyViaSdk } from './arkSdk';
+import { publicKeyFromPrivate } from '../utils/secp256k1';
+import { PRESALE_POOL_CONFIG, getKeystoreAddresses, getPoolWalletKey } from '../config/presale-pool';
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+const prisma = new PrismaClient();
+const SETTINGS_ID = 'default';
+
+export type PoolWalletStatus = 'active' | 'full' | 'draining' | 'retired';
+export type AssignmentReason = 'initial' | 'rotation' | 'admin-rotate' | 'drain';
+
+export class PoolWalletRegistryError extends Error {
+  constructor(message: string, public readonly code: 'not-found' | 'conflict' | 'invalid') {
+    super(message);
+    this.name = 'PoolWalletRegistryError';
+  }
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export async function getPresaleSettings(db: Db = prisma): Promise<PresaleSettings> {
+  return db.presaleSettings.upsert({
+    where: { id: SETTINGS_ID },
+    update: {},
+    create: {
+      id: SETTINGS_ID,
+      poolEnabled: PRESALE_POOL_CONFIG.DEFAULT_ENABLED,
+      walletThresholdSats: PRESALE_POOL_CONFIG.DEFAULT_WALLET_THRESHOLD_SATS
+    }
+  });
+}
+
+export async function updatePresaleSettings(
+  changes: { poolEnabled?: boolean; walletThresholdSats?: string }
+): Promise<PresaleSettings> {
+  await getPresaleSettings();
+  return prisma.presaleSettings.update({ where: { id: SETTINGS_ID }, data: changes });
+}
+
+function thresholdOf(wallet: PoolWallet, settings: PresaleSettings): bigint {
+  return BigInt(wallet.thresholdSats ?? settings.walletThresholdSats);
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+/**
+ * Register keystore wallets missing from the registry (with their public keys)
+ * and record assignments for presale tokens already paying a pool wallet.
+ * Idempotent; run at startup.
+ */
+export async function syncPoolWalletRegistry(): Promise<void> {
+  const addresses = getKeystoreAddresses();
+  if (addresses.length > 0) {
+    const created = await prisma.poolWallet.createMany({
+      data: addresses.map((address) => ({ address })),
+      skipDuplicates: true
+    });
+    if (created.count > 0) {
+      logger.info({ count: created.count }, '📥 Imported pool wallets from keystore');
+    }
+
+    for (const address of addresses) {
+      await prisma.poolWallet.updateMany({
+        where: { address, publicKey: null },
+        data: { publicKey: publicKeyFromPrivate(getPoolWalletKey(address)!) }
+      });
+    }
+  }
+
+  const wallets = await prisma.poolWallet.findMany({ select: { id: true, address: true } });
+  const byAddress = new Map(wallets.map((w) => [w.address, w.id]));
+
+  const unassigned = await prisma.token.findMany({
+    where: {
+      isPresale: true,
+      creator: { in: wallets.map((w) => w.address) },
+      poolWalletAssignments: { none: { releasedAt: null } }
+    },
+    select: { id: true, creator: true }
+  });
+
+  for (const token of unassigned) {
+    await prisma.poolWalletAssignment.create({
+      data: { poolWalletId: byAddress.get(token.creator)!, tokenId: token.id, reason: 'initial' }
+    });
+  }
+
+  if (unassigned.length > 0) {
+    logger.info({ count: unassigned.length }, '📥 Recorded existing token pool wallet assignments');
+  }
+}
+
+export async function findPoolWallet(address: string, db: Db = prisma): Promise<PoolWallet | null> {
+  return db.poolWallet.findUnique({ where: { address } });
+}
+
+/**
+ * Record that tokenId now pays poolWalletId, closing its previous assignment.
+ * Callers must hold the token's advisory lock and update token.creator.
+ */
+export async function openAssignment(
+  db: Db,
+  tokenId: string,
+  poolWalletId: string,
+  reason: AssignmentReason
+): Promise<void> {
+  await db.poolWalletAssignment.updateMany({
+    where: { tokenId, releasedAt: null },
+    data: { releasedAt: new Date() }
+  });
+  await db.poolWalletAssignment.create({
+    data: { poolWalletId, tokenId, reason }
+  });
+}
+
+// ============================================================================
+// BALANCES & CAPACITY
+// ============================================================================
+
+/**
+ * Query a wallet's balance from the ASP (watch-only), snapshot it if it
+ * changed, and move the wallet between active and full.
+ */
+export async function refreshPoolWalletBalance(
+  wallet: PoolWallet,
+  settings?: PresaleSettings
+): Promise<PoolWallet> {
+  const balance = await arkadeClient.getAddressBalance(wallet.address);
+  if (!balance) {
+    logger.error({ wallet: wallet.address.slice(0, 20) + '...' }, '❌ Failed to get ASP balance');
+    return wallet;
+  }
+
+  const { available, total } = balance;
+  const threshold = thresholdOf(wallet, settings ?? await getPresaleSettings());
+
+  let status = wallet.status as PoolWalletStatus;
+  if (status === 'active' && available >= threshold) {
+    status = 'full';
+  } else if (status === 'full' && available < threshold) {
+    status = 'active';
+  }
+
+  if (available.toString() !== wallet.lastBalance) {
+    await prisma.poolWalletSnapshot.create({
+      data: { poolWalletId: wallet.id, available: available.toString(), total: total.toString() }
+    });
+  }
+
+  if (status !== wallet.status) {
+    logger.info({ wallet: wallet.address.slice(0, 20) + '...', from: wallet.status, to: status, available: available.toString() }, '🔄 Pool wallet status changed');
+  }
+
+  return prisma.poolWallet.update({
+    where: { id: wallet.id },
+    data: { lastBalance: available.toString(), lastCheckedAt: new Date(), status }
+  });
+}
+
+/**
+ * Refresh all registered (non-retired) wallet balances from ASP
+ */
+export async function refreshPoolWalletBalances(): Promise<PoolWallet[]> {
+  logger.info('🔄 Refreshing pool wallet balances from ASP...');
+
+  const settings = await getPresaleSettings();
+  const wallets = await prisma.poolWallet.findMany({ where: { status: { not: 'retired' } } });
+
+  const refreshed: PoolWallet[] = [];
+  for (const wallet of wallets) {
+    refreshed.push(await refreshPoolWalletBalance(wallet, settings));
+  }
+  return refreshed;
+}
+
+/**
+ * Get the next available pool wallet for a pre-sale token
+ * Queries real balances from ASP and selects the active wallet with lowest volume
+ *
+ * @param excludeAddress - Wallet to skip (e.g. the one being rotated away from)
+ */
+export async function getNextAvailablePoolWallet(excludeAddress?: string): Promise<PoolWallet> {
+  const settings = await getPresaleSettings();
+  const candidates = await prisma.poolWallet.findMany({
+    where: { status: 'active', ...(excludeAddress ? { address: { not: excludeAddress } } : {}) }
+  });
+
+  const available: PoolWallet[] = [];
+  for (const candidate of candidates) {
+    const wallet = await refreshPoolWalletBalance(candidate, settings);
+    if (wallet.status === 'active') {
+      available.push(wallet);
+    }
+  }
+
+  const next = available.sort((a, b) => {
+    const diff = BigInt(a.lastBalance) - BigInt(b.lastBalance);
+    return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+  })[0];
+
+  if (!next) {
+    throw new Error('All pool wallets are at capacity. Please add more wallets or increase threshold.');
+  }
+
+  logger.info({ wallet: next.address.slice(0, 20) + '...', balance: next.lastBalance }, '🔄 Selected pool wallet');
+  return next;
+}
+
+/**
+ * Whether receiving amountSats would take a wallet past its capacity (last known balance)
+ */
+export async function wouldExceedCapacity(address: string, amountSats: bigint): Promise<boolean> {
+  const wallet = await findPoolWallet(address);
+  if (!wallet) {
+    return false;
+  }
+  const settings = await getPresaleSettings();
+  return BigInt(wallet.lastBalance) + amountSats > thresholdOf(wallet, settings);
+}
+
+// ============================================================================
+// ROTATION
+// ============================================================================
+
+/**
+ * Move a token's presale payments to another pool wallet
+ *
+ * @param targetAddress - Wallet to assign; defaults to the next available wallet
+ * @returns New wallet address, or null if the token was not moved (lock busy)
+ */
+export async function rotateToken(
+  tokenId: string,
+  reason: AssignmentReason,
+  targetAddress?: string
+): Promise<string | null> {
+  const token = await prisma.token.findUnique({ where: { id: tokenId }, select: { creator: true, isPresale: true } });
+  if (!token) {
+    throw new PoolWalletRegistryError(`Token ${tokenId} not found`, 'not-found');
+  }
+  if (!token.isPresale) {
+    throw new PoolWalletRegistryError(`Token ${tokenId} is not a pre-sale token`, 'invalid');
+  }
+
+  let target: PoolWallet;
+  if (targetAddress) {
+    const wallet = await findPoolWallet(targetAddress);
+    if (!wallet) {
+      throw new PoolWalletRegistryError(`Pool wallet ${targetAddress} is not registered`, 'not-found');
+    }
+    if (wallet.status !== 'active') {
+      throw new PoolWalletRegistryError(`Pool wallet ${targetAddress} is ${wallet.status}`, 'conflict');
+    }
+    target = wallet;
+  } else {
+    // Slow (queries ASP) - done before taking the lock
+    target = await getNextAvailablePoolWallet(token.creator);
+  }
+
+  const { key1, key2 } = advisoryLockKeysFromTokenId(tokenId);
+  return prisma.$transaction(async (tx) => {
+    // Skip if a purchase holds the token; the next monitor run retries
+    const [lock] = await tx.$queryRaw<Array<{ locked: boolean }>>`
+      SELECT pg_try_advisory_xact_lock(${key1}::int, ${key2}::int) AS locked
+    `;
+    if (!lock?.locked) {
+      logger.info({ tokenId }, 'Token locked by another operation, skipping rotation');
+      return null;
+    }
+
+    await tx.token.update({ where: { id: tokenId }, data: { creator: target.address } });
+    await openAssignment(tx, tokenId, target.id, reason);
+
+    logger.info({
+      tokenId,
+      reason,
+      oldWallet: token.creator.slice(0, 20) + '...',
+      newWallet: target.address.slice(0, 20) + '...'
+    }, '✅ Token pool wallet rotated');
+
+    return target.address;
+  });
+}
+
+/**
+ * Check if a token's wallet needs rotation and rotate if necessary
+ * Called by background monitor to proactively manage wallet rotation
+ *
+ * @returns New wallet address if rotated, null if no rotation needed
+ */
+export async function checkAndRotateIfNeeded(tokenId: string, currentCreator: string): Promise<string | null> {
+  const wallet = await findPoolWallet(currentCreator);
+  if (!wallet) {
+    // Token not using pool wallet, skip
+    return null;
+  }
+
+  const refreshed = await refreshPoolWalletBalance(wallet);
+  if (refreshed.status === 'active') {
+    return null;
+  }
+
+  logger.info({ tokenId, wallet: wallet.address.slice(0, 20) + '...', status: refreshed.status }, '🔄 [Monitor] Wallet unavailable - rotating token');
+  return rotateToken(tokenId, 'rotation');
+}
+
+// ============================================================================
+// ADMIN OPERATIONS
+// ============================================================================
+
+export async function listPoolWallets() {
+  const wallets = await prisma.poolWallet.findMany({
+    orderBy: { createdAt: 'asc' },
+    include: { assignments: { where: { releasedAt: null }, select: { tokenId: true, assignedAt: true } } }
+  });
+  const settings = await getPresaleSettings();
+
+  return wallets.map((w) => ({
+    address: w.address,
+    publicKey: w.publicKey,
+    label: w.label,
+    status: w.status,
+    // Whether this instance can sign refunds from the wallet (otherwise watch-only)
+    hasKey: Boolean(getPoolWalletKey(w.address)),
+    thresholdSats: thresholdOf(w, settings).toString(),
+    lastBalance: w.lastBalance,
+    lastCheckedAt: w.lastCheckedAt,
+    tokens: w.assignments,
+    createdAt: w.createdAt,
+    retiredAt: w.retiredAt
+  }));
+}
+
+/**
+ * Register a pool wallet by address, public key, or both. With a public key
+ * the address is derived from it (and must match when both are given), and
+ * requests paying the wallet get their own deposit addresses.
+ */
+export async function addPoolWallet(
+  input: { address?: string; publicKey?: string; label?: string; thresholdSats?: string }
+): Promise<PoolWallet> {
+  let address = input.address;
+  if (input.publicKey) {
+    const derived = await getAddressFromPublicKeyViaSdk(input.publicKey);
+    if (!derived.success || !derived.address) {
+      throw new Error(`Failed to derive address from public key: ${derived.error}`);
+    }
+    if (address && address !== derived.address) {
+      throw new PoolWalletRegistryError(`Public key does not match address ${address}`, 'invalid');
+    }
+    address = derived.address;
+  }
+  if (!address) {
+    throw new PoolWalletRegistryError('An address or public key is required', 'invalid');
+  }
+
+  const existing = await findPoolWallet(address);
+  if (existing) {
+    throw new PoolWalletRegistryError(`Pool wallet ${address} is already registered (${existing.status})`, 'conflict');
+  }
+
+  const wallet = await prisma.poolWallet.create({
+    data: { address, publicKey: input.publicKey, label: input.label, thresholdSats: input.thresholdSats }
+  });
+
+  logger.info({ wallet: wallet.address.slice(0, 20) + '...', hasKey: Boolean(getPoolWalletKey(wallet.address)) }, '➕ Pool wallet added');
+  return wallet;
+}
+
+/**
+ * Stop assigning a wallet and move every token it serves to other wallets
+ *
+ * @returns Tokens moved and tokens still assigned (lock busy; retry)
+ */
+export async function drainPoolWallet(address: string): Promise<{ moved: string[]; remaining: string[] }> {
+  const wallet = await findPoolWallet(address);
+  if (!wallet) {
+    throw new PoolWalletRegistryError(`Pool wallet ${address} is not registered`, 'not-found');
+  }
+  if (wallet.status === 'retired') {
+    throw new PoolWalletRegistryError(`Pool wallet ${address} is retired`, 'conflict');
+  }
+
+  await prisma.poolWallet.update({ where: { id: wallet.id }, data: { status: 'draining' } });
+
+  const assignments = await prisma.poolWalletAssignment.findMany({
+    where: { poolWalletId: wallet.id, releasedAt: null },
+    select: { tokenId: true }
+  });
+
+  const moved: string[] = [];
+  const remaining: string[] = [];
+  for (const { tokenId } of assignments) {
+    const newAddress = await rotateToken(tokenId, 'drain');
+    (newAddress ? moved : remaining).push(tokenId);
+  }
+
+  logger.info({ wallet: address.slice(0, 20) + '...', moved: moved.length, remaining: remaining.length }, '🚰 Pool wallet drained');
+  return { moved, remaining };
+}
+
+/**
+ * Retire a wallet that no longer serves any token
+ */
+export async function retirePoolWallet(address: string): Promise<PoolWallet> {
+  const wallet = await findPoolWallet(address);
+  if (!wallet) {
+    throw new PoolWalletRegistryError(`Pool wallet ${address} is not registered`, 'not-found');
+  }
+
+  const open = await prisma.poolWalletAssignment.count({ where: { poolWalletId: wallet.id, releasedAt: null } });
+  if (open > 0) {
+    throw new PoolWalletRegistryError(`Pool wallet ${address} still serves ${open} token(s); drain it first`, 'conflict');
+  }
+
+  const retired = await prisma.poolWallet.update({
+    where: { id: wallet.id },
+    data: { status: 'retired', retiredAt: new Date() }
+  });
+
+  logger.info({ wallet: address.slice(0, 20) + '...' }, '🗄️ Pool wallet retired');
+  return retired;
+}
+
+export async function getPoolWalletSnapshots(address: string, limit: number) {
+  const wallet = await findPoolWallet(address);
+  if (!wallet) {
+    throw new PoolWalletRegistryError(`Pool wallet ${address} is not registered`, 'not-found');
+  }
+  return prisma.poolWalletSnapshot.findMany({
+    where: { poolWalletId: wallet.id },
+    orderBy: { takenAt: 'desc' },
+    take: limit
+  });
+}
+
+/**
+ * Get current pool wallet statistics
+ * Queries real balances from ASP
+ */
+export async function getPoolWalletStats() {
+  const wallets = await refreshPoolWalletBalances();
+  const settings = await getPresaleSettings();
+
+  const totalWallets = wallets.length;
+  const fullWallets = wallets.filter((w) => w.status === 'full').length;
+  const availableWallets = wallets.filter((w) => w.status === 'active').length;
+  const totalVolume = wallets.reduce((sum, w) => sum + BigInt(w.lastBalance), 0n);
+
+  return {
+    enabled: settings.poolEnabled,
+    threshold: settings.walletThresholdSats,
+    totalWallets,
+    fullWallets,
+    availableWallets,
+    totalVolume: totalVolume.toString(),
+    note: 'Volumes queried from ASP in real-time',
+    wallets: wallets.map((w) => {
+      const threshold = thresholdOf(w, settings);
+      return {
+        address: `${w.address.slice(0, 20)}...${w.address.slice(-8)}`,
+        volume: w.lastBalance,
+        status: w.status,
+        isFull: w.status === 'full',
+        percentFull: threshold > 0n ? (Number((BigInt(w.lastBalance) * 1000n) / threshold) / 10).toFixed(1) : '0.0',
+      };
+    }),
+  };
+}
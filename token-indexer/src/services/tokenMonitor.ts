@@ -2,53 +2,123 @@
  * Token Creation Monitor
  * 
  * Monitors pending OP_RETURN transactions for confirmations
- * and completes Arkade Layer 2 settlement automatically
+ * and completes Arkade Layer 2 settlement automatically.
+ * On confirmation the token claims its ticker (see token/tickers.ts) and
+ * records its block, which the proof tracker re-checks for reorgs.
  */
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { decodeArkCommit } from '@arkade-token/sdk';
 import pino from 'pino';
+import { claimTicker, recordTickerCommitment, revealedCommitment } from '../token/tickers';
+import { confirmationsAt, confirmedStatus } from '../token/creationProof';
+import { chainBackend, firstOpReturnPayload } from '../chain';
 
 const prisma = new PrismaClient();
 const logger = pino({ level: 'info' });
 
-const BITCOIN_MEMPOOL_API = 'https://mempool.space/api';
 const CHECK_INTERVAL_MS = 30_000; // Check every 30 seconds
 const REQUIRED_CONFIRMATIONS = 1; // Minimum confirmations before allowing settlement
 
-interface MempoolTxStatus {
-  confirmed: boolean;
-  block_height?: number;
-  block_hash?: string;
-  block_time?: number;
-}
-
 interface PendingToken {
   id: string; // Bitcoin TXID
   name: string;
   symbol: string;
-  totalSupply: string;
+  totalSupply: Prisma.Decimal;
   decimals: number;
   creator: string;
-  issuer?: string;
+  issuer: string;
+  opReturnData: string | null;
+  vtxoId: string | null;
   status: string;
   createdAt: Date;
 }
 
 /**
- * Check if a Bitcoin transaction has been confirmed
+ * Check if a Bitcoin transaction has been confirmed, and how deep
  */
-async function checkBitcoinConfirmation(txid: string): Promise<number> {
+async function checkBitcoinConfirmation(
+  txid: string
+): Promise<{ confirmations: number; blockHeight: number | null; blockHash: string | null }> {
   try {
-    const response = await fetch(`${BITCOIN_MEMPOOL_API}/tx/${txid}/status`);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch tx status: ${response.status}`);
+    const status = await chainBackend.getTxStatus(txid);
+    if (!status?.confirmed || status.blockHeight === null) {
+      return { confirmations: 0, blockHeight: null, blockHash: null };
     }
-    
-    const status = await response.json() as MempoolTxStatus;
-    return status.confirmed ? (status.block_height ? 1 : 0) : 0;
+
+    const tip = await chainBackend.getTip();
+    return {
+      confirmations: confirmationsAt(status.blockHeight, tip.height),
+      blockHeight: status.blockHeight,
+      blockHash: status.blockHash,
+    };
   } catch (error: any) {
     logger.error({ txid, error: error.message }, '❌ Failed to check Bitcoin confirmation');
-    return 0;
+    return { confirmations: 0, blockHeight: null, blockHash: null };
+  }
+}
+
+/**
+ * Current Bitcoin block height, or null if it cannot be fetched
+ */
+export async function getBitcoinTipHeight(): Promise<number | null> {
+  try {
+    return (await chainBackend.getTip()).height;
+  } catch (error: any) {
+    logger.error({ error: error.message }, '❌ Failed to fetch Bitcoin tip height');
+    return null;
+  }
+}
+
+/**
+ * Fetch an ARK COMMIT transaction and record its ticker commitment.
+ * Throws a CodecError if the transaction's OP_RETURN is not an ARK COMMIT.
+ */
+export async function fetchTickerCommitment(txid: string): Promise<{ commitment: Buffer; blockHeight: number | null } | null> {
+  const tx = await chainBackend.getTx(txid);
+  const payload = tx ? firstOpReturnPayload(tx) : null;
+  if (!payload) {
+    return null;
+  }
+
+  const { commitment } = decodeArkCommit(payload);
+  const status = await chainBackend.getTxStatus(txid);
+  const blockHeight = status?.confirmed ? status.blockHeight : null;
+  await recordTickerCommitment(prisma, txid, commitment, blockHeight);
+  return { commitment, blockHeight };
+}
+
+/**
+ * Date the unconfirmed commitments a token reveals, so its claim can use them
+ */
+async function refreshRevealedCommitments(token: PendingToken): Promise<void> {
+  const commitment = revealedCommitment(token);
+  if (!commitment) {
+    return;
+  }
+  const unconfirmed = await prisma.tickerCommitment.findMany({ where: { commitment, blockHeight: null } });
+  for (const commit of unconfirmed) {
+    const { blockHeight } = await checkBitcoinConfirmation(commit.txid);
+    if (blockHeight) {
+      await recordTickerCommitment(prisma, commit.txid, Buffer.from(commitment, 'hex'), blockHeight);
+    }
+  }
+}
+
+/**
+ * Tell a token's issuer wallet that the token failed
+ */
+async function notifyTokenFailed(token: { id: string; symbol: string; issuer: string; creator: string }, reason: string): Promise<void> {
+  try {
+    const { getIO } = await import('../api/server');
+    getIO()?.to(`wallet:${token.issuer || token.creator}`).emit('token-failed', {
+      tokenId: token.id,
+      symbol: token.symbol,
+      status: 'failed',
+      reason,
+    });
+  } catch (error: any) {
+    logger.warn({ error: error.message }, '⚠️ Failed to send WebSocket notification');
   }
 }
 
@@ -60,9 +130,9 @@ async function processPendingToken(token: PendingToken): Promise<boolean> {
     logger.info({ tokenId: token.id, symbol: token.symbol }, '🔍 Checking token confirmation status...');
     
     // Check Bitcoin confirmation
-    const confirmations = await checkBitcoinConfirmation(token.id);
+    const { confirmations, blockHeight, blockHash } = await checkBitcoinConfirmation(token.id);
     
-    if (confirmations < REQUIRED_CONFIRMATIONS) {
+    if (confirmations < REQUIRED_CONFIRMATIONS || !blockHeight) {
       logger.info({ 
         tokenId: token.id, 
         confirmations, 
@@ -73,18 +143,47 @@ async function processPendingToken(token: PendingToken): Promise<boolean> {
     
     logger.info({ tokenId: token.id, confirmations }, '✅ Bitcoin transaction confirmed!');
 
-    // Bitcoin is confirmed. Next step is a NON-CUSTODIAL ASP action:
-    // the client wallet sends a small amount (1000 sats) to itself via the ASP,
-    // then POST /api/tokens/:tokenId/settle with the resulting txid.
-    await prisma.token.update({
-      where: { id: token.id },
-      data: {
-        status: 'awaiting_settlement',
-        confirmations: confirmations,
-        updatedAt: new Date(),
-      },
+    // Claim the ticker; the first confirmed claim wins (a revealed commitment counts from its own height)
+    await refreshRevealedCommitments(token);
+    const tipHeight = await getBitcoinTipHeight();
+    const status = confirmedStatus(token);
+    const claim = await prisma.$transaction(async (tx) => {
+      const result = await claimTicker(tx, token, blockHeight, tipHeight);
+      if (result.claimed) {
+        // Bitcoin is confirmed. Next step is a NON-CUSTODIAL ASP action:
+        // the client wallet sends a small amount (1000 sats) to itself via the ASP,
+        // then POST /api/tokens/:tokenId/settle with the resulting txid.
+        // A token settled before a reorg unconfirmed it is simply confirmed again.
+        await tx.token.update({
+          where: { id: token.id },
+          data: {
+            status,
+            confirmations: confirmations,
+            bitcoinBlock: blockHeight,
+            bitcoinBlockHash: blockHash,
+            updatedAt: new Date(),
+          },
+        });
+      }
+      return result;
     });
+
+    if (!claim.claimed) {
+      await notifyTokenFailed(token, `Ticker ${claim.ticker} is already claimed by token ${claim.heldBy}`);
+      return true;
+    }
+    if (claim.displacedTokenId) {
+      const displaced = await prisma.token.findUnique({ where: { id: claim.displacedTokenId } });
+      if (displaced) {
+        await notifyTokenFailed(displaced, `Ticker ${claim.ticker} was claimed earlier by token ${token.id}`);
+      }
+    }
     
+    if (status === 'confirmed') {
+      logger.info({ tokenId: token.id, symbol: token.symbol }, '✅ Settled token reconfirmed after reorg');
+      return true;
+    }
+
     logger.info({ 
       tokenId: token.id, 
       symbol: token.symbol,
@@ -0,0 +1,100 @@
+/**
+ * Wallet ownership challenges
+ *
+ * A client proves it controls an Arkade address without sending its private
+ * key:
+ *
+ *   1. issueWalletChallenge: the server stores a random single-use nonce for
+ *      the address and returns the message to sign
+ *   2. The wallet signs SHA-256(message) with BIP340 Schnorr
+ *   3. verifyWalletChallenge: the server checks that the public key derives
+ *      the address, that the signature is valid, and consumes the nonce
+ *
+ * Challenges live in the database so any instance can verify them.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { publicKeyControlsAddress, toXOnlyPublicKey } from './walletSignature';
+import { verifySchnorr } from '../utils/secp256k1';
+
+const prisma = new PrismaClient();
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+export type WalletChallengeErrorCode = 'invalid-challenge' | 'address-mismatch' | 'invalid-signature';
+
+export class WalletChallengeError extends Error {
+  constructor(message: string, public readonly code: WalletChallengeErrorCode) {
+    super(message);
+    this.name = 'WalletChallengeError';
+  }
+}
+
+export interface WalletChallengeProof {
+  address: string;
+  publicKey: string; // x-only (32 bytes) or compressed (33 bytes), hex
+  nonce: string;
+  signature: string; // BIP340 Schnorr over SHA-256(message), hex
+}
+
+/**
+ * The exact text a wallet signs for a challenge
+ */
+export function challengeMessage(address: string, nonce: string, expiresAt: Date): string {
+  return [
+    'Arkade Token Indexer wallet query',
+    `Address: ${address}`,
+    `Nonce: ${nonce}`,
+    `Expires: ${expiresAt.toISOString()}`
+  ].join('\n');
+}
+
+export async function issueWalletChallenge(address: string) {
+  // Expired challenges are never needed again
+  await prisma.walletChallenge.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+
+  const challenge = await prisma.walletChallenge.create({
+    data: {
+      address,
+      nonce: randomBytes(32).toString('hex'),
+      expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS)
+    }
+  });
+
+  return {
+    nonce: challenge.nonce,
+    message: challengeMessage(challenge.address, challenge.nonce, challenge.expiresAt),
+    expiresAt: challenge.expiresAt
+  };
+}
+
+/**
+ * Check a signed challenge and consume its nonce.
+ * Throws WalletChallengeError when the proof does not hold.
+ */
+export async function verifyWalletChallenge(proof: WalletChallengeProof): Promise<void> {
+  const challenge = await prisma.walletChallenge.findUnique({ where: { nonce: proof.nonce } });
+  if (!challenge || challenge.address !== proof.address || challenge.usedAt || challenge.expiresAt < new Date()) {
+    throw new WalletChallengeError('Unknown, used or expired challenge', 'invalid-challenge');
+  }
+
+  if (!(await publicKeyControlsAddress(proof.publicKey, proof.address))) {
+    throw new WalletChallengeError('Public key does not control this address', 'address-mismatch');
+  }
+
+  const digest = createHash('sha256')
+    .update(challengeMessage(challenge.address, challenge.nonce, challenge.expiresAt))
+    .digest();
+  if (!verifySchnorr(proof.signature, digest, toXOnlyPublicKey(proof.publicKey))) {
+    throw new WalletChallengeError('Invalid signature', 'invalid-signature');
+  }
+
+  const consumed = await prisma.walletChallenge.updateMany({
+    where: { id: challenge.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+  if (consumed.count === 0) {
+    throw new WalletChallengeError('Unknown, used or expired challenge', 'invalid-challenge');
+  }
+}
@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as bitcoin from 'bitcoinjs-lib';
+import { schnorr } from '@noble/curves/secp256k1';
+import {
+  tokenClaimDigest,
+  transferAuthorizationDigest,
+  type TokenClaim,
+  type TransferAuthorization,
+} from '@arkade-token/sdk';
+import { useMemoryDb, type MemoryDb } from '../testing/memoryDb';
+import { NETWORK_PROFILE } from '../config/network';
+import { publicKeyFromPrivate } from '../utils/secp256k1';
+import {
+  publicKeyControlsAddress,
+  toXOnlyPublicKey,
+  verifyTokenClaim,
+  verifyTransferAuthorization,
+} from './walletSignature';
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  PrismaClient: (await import('../testing/prismaMock')).ForwardingPrismaClient,
+}));
+
+// Address derivation goes through the ASP; stand in a deterministic address per key
+vi.mock('./arkSdk', () => ({
+  getAddressFromPublicKeyViaSdk: vi.fn(async (publicKeyHex: string) => ({
+    success: true,
+    address: `tark1${publicKeyHex.slice(2, 18)}`,
+  })),
+}));
+
+const senderKey = '33'.repeat(32);
+const senderXOnly = Buffer.from(schnorr.getPublicKey(senderKey)).toString('hex');
+const senderAddress = `tark1${senderXOnly.slice(0, 16)}`;
+
+const auth: TransferAuthorization = {
+  tokenId: 'a'.repeat(64),
+  fromAddress: senderAddress,
+  toAddress: 'tark1recipient',
+  amount: '1000',
+  vtxoId: `${'b'.repeat(64)}:0`,
+  nonce: 'c'.repeat(64),
+};
+
+function sign(message: TransferAuthorization, key = senderKey): string {
+  return Buffer.from(schnorr.sign(transferAuthorizationDigest(message), key)).toString('hex');
+}
+
+let memory: MemoryDb;
+
+beforeEach(() => {
+  memory = useMemoryDb();
+});
+
+describe('toXOnlyPublicKey', () => {
+  it('drops the prefix of a compressed key and keeps an x-only key', () => {
+    expect(toXOnlyPublicKey(`03${senderXOnly}`)).toBe(senderXOnly);
+    expect(toXOnlyPublicKey(senderXOnly)).toBe(senderXOnly);
+  });
+});
+
+describe('publicKeyControlsAddress', () => {
+  it('ignores the parity prefix of the key', async () => {
+    expect(await publicKeyControlsAddress(`03${senderXOnly}`, senderAddress)).toBe(true);
+    expect(await publicKeyControlsAddress(senderXOnly, senderAddress)).toBe(true);
+    expect(await publicKeyControlsAddress(senderXOnly, 'tark1someoneelse')).toBe(false);
+  });
+});
+
+describe('verifyTransferAuthorization', () => {
+  it('accepts a transfer signed by the sender with an unused nonce', async () => {
+    expect(await verifyTransferAuthorization({ ...auth, publicKey: senderXOnly, signature: sign(auth) })).toBeNull();
+  });
+
+  it('rejects a malformed authorization', async () => {
+    const bad = { ...auth, amount: '1e3' };
+    const failure = await verifyTransferAuthorization({ ...bad, publicKey: senderXOnly, signature: sign(auth) });
+    expect(failure?.code).toBe('invalid-authorization');
+  });
+
+  it('rejects a signature over different terms', async () => {
+    const signature = sign(auth);
+    const failure = await verifyTransferAuthorization({ ...auth, amount: '1001', publicKey: senderXOnly, signature });
+    expect(failure?.code).toBe('invalid-signature');
+  });
+
+  it('rejects a signature by another key', async () => {
+    const otherKey = '44'.repeat(32);
+    const otherXOnly = Buffer.from(schnorr.getPublicKey(otherKey)).toString('hex');
+    const failure = await verifyTransferAuthorization({ ...auth, publicKey: otherXOnly, signature: sign(auth, otherKey) });
+    expect(failure?.code).toBe('address-mismatch');
+  });
+
+  it('rejects a reused nonce', async () => {
+    await memory.client.token.create({
+      data: { id: auth.tokenId, name: 'Token', symbol: 'TKN', totalSupply: '1000', creator: senderAddress, createdInTx: 'vtxo:0' },
+    });
+    await memory.client.tokenTransfer.create({
+      data: { txid: 'tx-1', tokenId: auth.tokenId, fromAddress: senderAddress, toAddress: 'tark1recipient', amount: '1000', nonce: auth.nonce },
+    });
+    const failure = await verifyTransferAuthorization({ ...auth, publicKey: senderXOnly, signature: sign(auth) });
+    expect(failure?.code).toBe('nonce-reused');
+  });
+});
+
+describe('verifyTokenClaim', () => {
+  const fundingKey = '55'.repeat(32);
+  const fundingPublicKey = publicKeyFromPrivate(fundingKey);
+  const fundingAddress = bitcoin.payments.p2wpkh({
+    pubkey: Buffer.from(fundingPublicKey, 'hex'),
+    network: NETWORK_PROFILE.bitcoinNetwork,
+  }).address!;
+  const claim: TokenClaim = { tokenId: 'd'.repeat(64), issuer: 'tark1issuer' };
+  const signClaim = (terms: TokenClaim, key = fundingKey) =>
+    Buffer.from(schnorr.sign(tokenClaimDigest(terms), key)).toString('hex');
+
+  it('accepts a claim signed by the key that funded the CREATE', () => {
+    expect(verifyTokenClaim({ ...claim, publicKey: fundingPublicKey, signature: signClaim(claim) }, fundingAddress)).toBeNull();
+  });
+
+  it('requires a claim and a known funding address', () => {
+    expect(verifyTokenClaim(claim, fundingAddress)?.code).toBe('claim-required');
+    expect(verifyTokenClaim({ ...claim, publicKey: fundingPublicKey, signature: signClaim(claim) }, null)?.code)
+      .toBe('funding-key-mismatch');
+  });
+
+  it('rejects a key that did not fund the CREATE', () => {
+    const otherKey = '66'.repeat(32);
+    const failure = verifyTokenClaim(
+      { ...claim, publicKey: publicKeyFromPrivate(otherKey), signature: signClaim(claim, otherKey) },
+      fundingAddress
+    );
+    expect(failure?.code).toBe('funding-key-mismatch');
+  });
+
+  it('rejects an x-only key and a signature naming another issuer', () => {
+    const signature = signClaim(claim);
+    expect(verifyTokenClaim({ ...claim, publicKey: fundingPublicKey.slice(2), signature }, fundingAddress)?.code)
+      .toBe('invalid-claim');
+    expect(verifyTokenClaim({ ...claim, issuer: 'tark1thief', publicKey: fundingPublicKey, signature }, fundingAddress)?.code)
+      .toBe('invalid-claim');
+  });
+});
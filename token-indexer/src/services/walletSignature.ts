@@ -0,0 +1,120 @@
+/**
+ * Wallet signatures
+ *
+ * Checks that a public key controls an Arkade address and that it signed a
+ * message (BIP340 Schnorr over SHA-256). Used by wallet challenges, transfer
+ * authorizations and token claims; none ever needs the wallet's private key.
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import { PrismaClient } from '@prisma/client';
+import {
+  tokenClaimDigest,
+  transferAuthorizationDigest,
+  type TokenClaim,
+  type TransferAuthorization,
+} from '@arkade-token/sdk';
+import { getAddressFromPublicKeyViaSdk } from './arkSdk';
+import { NETWORK_PROFILE } from '../config/network';
+import { isCompressedPublicKey, verifySchnorr } from '../utils/secp256k1';
+
+const prisma = new PrismaClient();
+
+/**
+ * x-only form of an x-only (32-byte) or compressed (33-byte) public key, hex
+ */
+export function toXOnlyPublicKey(publicKeyHex: string): string {
+  return publicKeyHex.length === 66 ? publicKeyHex.slice(2) : publicKeyHex;
+}
+
+/**
+ * Whether address is the Arkade address of publicKey.
+ * Arkade addresses only commit to the x-only key, so the prefix does not matter.
+ */
+export async function publicKeyControlsAddress(publicKeyHex: string, address: string): Promise<boolean> {
+  const derived = await getAddressFromPublicKeyViaSdk(`02${toXOnlyPublicKey(publicKeyHex)}`);
+  if (!derived.success) {
+    throw new Error(`Failed to derive address from public key: ${derived.error}`);
+  }
+  return derived.address === address;
+}
+
+export type TransferAuthorizationFailure = {
+  code: 'invalid-authorization' | 'address-mismatch' | 'invalid-signature' | 'nonce-reused';
+  reason: string;
+};
+
+/**
+ * Check that fromAddress signed the transfer and its nonce is unused.
+ * The nonce is only stored when the transfer is recorded (unique column), so
+ * callers must still handle a concurrent duplicate at insert time.
+ */
+export async function verifyTransferAuthorization(
+  auth: TransferAuthorization & { publicKey: string; signature: string }
+): Promise<TransferAuthorizationFailure | null> {
+  let digest: Buffer;
+  try {
+    digest = transferAuthorizationDigest(auth);
+  } catch (error: any) {
+    return { code: 'invalid-authorization', reason: error.message };
+  }
+
+  if (!verifySchnorr(auth.signature, digest, toXOnlyPublicKey(auth.publicKey))) {
+    return { code: 'invalid-signature', reason: 'Invalid transfer signature' };
+  }
+
+  if (!(await publicKeyControlsAddress(auth.publicKey, auth.fromAddress))) {
+    return { code: 'address-mismatch', reason: 'Public key does not control fromAddress' };
+  }
+
+  const used = await prisma.tokenTransfer.findUnique({ where: { nonce: auth.nonce }, select: { id: true } });
+  if (used) {
+    return { code: 'nonce-reused', reason: 'Transfer nonce already used' };
+  }
+
+  return null;
+}
+
+export type TokenClaimFailure = {
+  code: 'claim-required' | 'invalid-claim' | 'funding-key-mismatch';
+  reason: string;
+};
+
+/**
+ * Check that the key which funded a token's CREATE (its L1 sender address,
+ * P2WPKH) signed the claim naming the issuer
+ */
+export function verifyTokenClaim(
+  claim: TokenClaim & { publicKey?: string; signature?: string },
+  fundingAddress: string | null
+): TokenClaimFailure | null {
+  if (!claim.publicKey || !claim.signature) {
+    return { code: 'claim-required', reason: 'Registering a token found on L1 requires a claim signed by its funding key' };
+  }
+  if (!fundingAddress) {
+    return { code: 'funding-key-mismatch', reason: 'The funding address of the CREATE transaction is unknown' };
+  }
+  if (!isCompressedPublicKey(claim.publicKey)) {
+    return { code: 'invalid-claim', reason: 'claimPublicKey must be a compressed public key' };
+  }
+
+  const { address } = bitcoin.payments.p2wpkh({
+    pubkey: Buffer.from(claim.publicKey, 'hex'),
+    network: NETWORK_PROFILE.bitcoinNetwork,
+  });
+  if (address !== fundingAddress) {
+    return { code: 'funding-key-mismatch', reason: 'claimPublicKey did not fund the CREATE transaction' };
+  }
+
+  let digest: Buffer;
+  try {
+    digest = tokenClaimDigest(claim);
+  } catch (error: any) {
+    return { code: 'invalid-claim', reason: error.message };
+  }
+  if (!verifySchnorr(claim.signature, digest, toXOnlyPublicKey(claim.publicKey))) {
+    return { code: 'invalid-claim', reason: 'Invalid claim signature' };
+  }
+
+  return null;
+}
@@ -0,0 +1,574 @@
+/**
+ * In-memory stand-in for PrismaClient, for tests
+ *
+ * Implements the model operations the indexer uses over plain arrays. Column
+ * types, defaults, relations and unique constraints come from the generated
+ * client's schema (Prisma.dmmf), so rows look like what Prisma returns:
+ * Decimal columns read back as Prisma.Decimal, duplicate keys fail with P2002
+ * and updates of missing rows with P2025. Interactive transactions roll back
+ * when their callback throws.
+ *
+ * Raw SQL is not interpreted: $executeRaw (advisory locks) returns 0 unless a
+ * test sets onExecuteRaw, and $queryRaw calls onQueryRaw.
+ *
+ * Functions taking a client are tested with memory.client directly. Modules
+ * that create their own PrismaClient get ForwardingPrismaClient (prismaMock.ts)
+ * through vi.mock, which forwards to the database installed with useMemoryDb.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { installedClient } from './prismaMock';
+
+type Row = Record<string, any>;
+type Field = Prisma.DMMF.Field;
+type Model = Prisma.DMMF.Model;
+
+type RawHandler = (sql: string, values: unknown[]) => unknown;
+
+export interface MemoryDb {
+  // Usable wherever a PrismaClient or Prisma.TransactionClient is expected
+  client: PrismaClient;
+  // Live rows of a model, by client property name (e.g. 'tokenBalance')
+  rows(model: string): Row[];
+  onExecuteRaw: RawHandler;
+  onQueryRaw: RawHandler;
+}
+
+const OPERATORS = new Set([
+  'equals', 'not', 'in', 'notIn', 'lt', 'lte', 'gt', 'gte', 'contains', 'startsWith', 'endsWith', 'mode',
+]);
+
+function knownError(code: string, message: string, meta?: Record<string, unknown>) {
+  return new Prisma.PrismaClientKnownRequestError(message, { code, clientVersion: Prisma.prismaVersion.client, meta });
+}
+
+function propertyName(model: Model): string {
+  return model.name[0].toLowerCase() + model.name.slice(1);
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !(value instanceof Date)
+    && !Prisma.Decimal.isDecimal(value) && !Array.isArray(value) && !Buffer.isBuffer(value);
+}
+
+function compare(a: any, b: any): number {
+  if (Prisma.Decimal.isDecimal(a) || Prisma.Decimal.isDecimal(b)) {
+    return new Prisma.Decimal(a.toString()).cmp(new Prisma.Decimal(b.toString()));
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a).getTime() - new Date(b).getTime();
+  }
+  if (typeof a === 'bigint' || typeof b === 'bigint') {
+    const [x, y] = [BigInt(a), BigInt(b)];
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function equal(a: any, b: any): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return (a ?? null) === (b ?? null);
+  }
+  if (isPlainObject(a) || isPlainObject(b)) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return compare(a, b) === 0;
+}
+
+export function createMemoryDb(): MemoryDb {
+  const models = new Map<string, Model>();
+  const tables = new Map<string, Row[]>();
+  let sequence = 0;
+
+  for (const model of Prisma.dmmf.datamodel.models) {
+    models.set(propertyName(model), model as Model);
+    tables.set(model.name, []);
+  }
+
+  const modelByName = (name: string): Model => {
+    const model = [...models.values()].find((m) => m.name === name);
+    if (!model) {
+      throw new Error(`memoryDb: unknown model ${name}`);
+    }
+    return model;
+  };
+
+  const fieldOf = (model: Model, name: string): Field | undefined => model.fields.find((f) => f.name === name);
+
+  function coerce(field: Field, value: any): any {
+    if (value === null || value === undefined) {
+      return value;
+    }
+    switch (field.type) {
+      case 'Decimal':
+        return Prisma.Decimal.isDecimal(value) ? value : new Prisma.Decimal(value.toString());
+      case 'BigInt':
+        return BigInt(value);
+      case 'DateTime':
+        return value instanceof Date ? value : new Date(value);
+      default:
+        return value;
+    }
+  }
+
+  function defaultValue(model: Model, field: Field): any {
+    const def = field.default as any;
+    if (field.isUpdatedAt) {
+      return new Date();
+    }
+    if (def === undefined || def === null) {
+      return field.isList ? [] : null;
+    }
+    if (typeof def === 'object' && 'name' in def) {
+      switch (def.name) {
+        case 'now':
+          return new Date();
+        case 'autoincrement':
+          return ++sequence;
+        default:
+          return `${propertyName(model)}-${++sequence}`;
+      }
+    }
+    return coerce(field, def);
+  }
+
+  function uniqueKeys(model: Model): string[][] {
+    return [
+      ...model.fields.filter((f) => f.isId || f.isUnique).map((f) => [f.name]),
+      ...model.uniqueFields.map((fields) => [...fields]),
+      ...(model.primaryKey ? [[...model.primaryKey.fields]] : []),
+    ];
+  }
+
+  function assertUnique(model: Model, row: Row, rows: Row[]): void {
+    for (const key of uniqueKeys(model)) {
+      if (key.some((name) => row[name] === null || row[name] === undefined)) {
+        continue;
+      }
+      if (rows.some((other) => other !== row && key.every((name) => equal(other[name], row[name])))) {
+        throw knownError('P2002', `Unique constraint failed on the fields: (${key.join(', ')})`, { target: key });
+      }
+    }
+  }
+
+  // Related rows of a relation field (one row or null for to-one relations)
+  function related(model: Model, field: Field, row: Row): Row[] {
+    const target = modelByName(field.type);
+    const rows = tables.get(target.name)!;
+    if (field.relationFromFields && field.relationFromFields.length > 0) {
+      return rows.filter((other) => field.relationFromFields!.every(
+        (from, i) => equal(other[field.relationToFields![i]], row[from])
+      ));
+    }
+    const inverse = target.fields.find((f) => f.relationName === field.relationName && f !== field);
+    if (!inverse?.relationFromFields) {
+      throw new Error(`memoryDb: cannot resolve relation ${model.name}.${field.name}`);
+    }
+    return rows.filter((other) => inverse.relationFromFields!.every(
+      (from, i) => equal(other[from], row[inverse.relationToFields![i]])
+    ));
+  }
+
+  function matchesValue(value: any, condition: any, field: Field): boolean {
+    if (!isPlainObject(condition) || field.type === 'Json') {
+      return equal(value, coerce(field, condition));
+    }
+    const insensitive = condition.mode === 'insensitive';
+    const text = (v: any) => (insensitive ? String(v).toLowerCase() : String(v));
+    for (const [op, operand] of Object.entries(condition)) {
+      if (operand === undefined) {
+        continue;
+      }
+      if (!OPERATORS.has(op)) {
+        throw new Error(`memoryDb: unsupported filter ${op} on ${field.name}`);
+      }
+      const arg = coerce(field, operand);
+      const ok = (() => {
+        switch (op) {
+          case 'equals': return equal(value, arg);
+          case 'not': return isPlainObject(operand) ? !matchesValue(value, operand, field) : !equal(value, arg);
+          case 'in': return (operand as any[]).some((v) => equal(value, coerce(field, v)));
+          case 'notIn': return !(operand as any[]).some((v) => equal(value, coerce(field, v)));
+          case 'lt': return value !== null && compare(value, arg) < 0;
+          case 'lte': return value !== null && compare(value, arg) <= 0;
+          case 'gt': return value !== null && compare(value, arg) > 0;
+          case 'gte': return value !== null && compare(value, arg) >= 0;
+          case 'contains': return value !== null && text(value).includes(text(operand));
+          case 'startsWith': return value !== null && text(value).startsWith(text(operand));
+          case 'endsWith': return value !== null && text(value).endsWith(text(operand));
+          default: return true; // mode
+        }
+      })();
+      if (!ok) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  function matches(model: Model, row: Row, where: Record<string, any> | undefined): boolean {
+    if (!where) {
+      return true;
+    }
+    for (const [key, condition] of Object.entries(where)) {
+      if (condition === undefined) {
+        continue;
+      }
+      const list = (c: any): any[] => (Array.isArray(c) ? c : [c]);
+      if (key === 'AND') {
+        if (!list(condition).every((c) => matches(model, row, c))) return false;
+        continue;
+      }
+      if (key === 'OR') {
+        if (!list(condition).some((c) => matches(model, row, c))) return false;
+        continue;
+      }
+      if (key === 'NOT') {
+        if (list(condition).some((c) => matches(model, row, c))) return false;
+        continue;
+      }
+
+      const field = fieldOf(model, key);
+      if (!field) {
+        // Compound unique selector, e.g. address_tokenId: { address, tokenId }
+        if (!matches(model, row, condition)) return false;
+        continue;
+      }
+      if (field.kind === 'object') {
+        const target = modelByName(field.type);
+        const rows = related(model, field, row);
+        const ok = field.isList
+          ? ('some' in condition ? rows.some((r) => matches(target, r, condition.some)) : true)
+            && ('none' in condition ? !rows.some((r) => matches(target, r, condition.none)) : true)
+            && ('every' in condition ? rows.every((r) => matches(target, r, condition.every)) : true)
+          : condition === null
+            ? rows.length === 0
+            : rows.some((r) => matches(target, r, 'is' in condition ? condition.is : condition));
+        if (!ok) return false;
+        continue;
+      }
+      if (!matchesValue(row[key], condition, field)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  function sortRows(rows: Row[], orderBy: any): Row[] {
+    const orders = (Array.isArray(orderBy) ? orderBy : [orderBy]).flatMap((o) => Object.entries(o ?? {}));
+    return [...rows].sort((a, b) => {
+      for (const [name, spec] of orders as [string, any][]) {
+        const direction = typeof spec === 'string' ? spec : spec.sort;
+        // Postgres: NULLs sort as larger than any value
+        const nulls = typeof spec === 'object' && spec.nulls ? spec.nulls : direction === 'asc' ? 'last' : 'first';
+        const [x, y] = [a[name], b[name]];
+        if ((x ?? null) === null || (y ?? null) === null) {
+          if ((x ?? null) === (y ?? null)) continue;
+          return (x ?? null) === null ? (nulls === 'first' ? -1 : 1) : (nulls === 'first' ? 1 : -1);
+        }
+        const order = compare(x, y);
+        if (order !== 0) {
+          return direction === 'desc' ? -order : order;
+        }
+      }
+      return 0;
+    });
+  }
+
+  function shape(model: Model, row: Row, args: { select?: any; include?: any }): Row {
+    const out: Row = {};
+    const projection = args.select ?? null;
+    for (const field of model.fields) {
+      if (field.kind === 'object') {
+        continue;
+      }
+      if (!projection || projection[field.name]) {
+        out[field.name] = row[field.name];
+      }
+    }
+    const nested = { ...(args.include ?? {}), ...(projection ?? {}) };
+    for (const [name, spec] of Object.entries<any>(nested)) {
+      const field = fieldOf(model, name);
+      if (name === '_count' || !spec || field?.kind !== 'object') {
+        continue;
+      }
+      const target = modelByName(field.type);
+      const query = spec === true ? {} : spec;
+      const rows = findRows(target, related(model, field, row), query);
+      out[name] = field.isList ? rows : rows[0] ?? null;
+    }
+    return out;
+  }
+
+  function findRows(model: Model, rows: Row[], args: any = {}): Row[] {
+    let found = rows.filter((row) => matches(model, row, args.where));
+    if (args.orderBy) {
+      found = sortRows(found, args.orderBy);
+    }
+    if (args.cursor) {
+      const at = found.findIndex((row) => matches(model, row, args.cursor));
+      found = at === -1 ? [] : found.slice(at);
+    }
+    if (args.distinct) {
+      const seen = new Set<string>();
+      const keys: string[] = Array.isArray(args.distinct) ? args.distinct : [args.distinct];
+      found = found.filter((row) => {
+        const key = JSON.stringify(keys.map((k) => String(row[k])));
+        return seen.has(key) ? false : (seen.add(key), true);
+      });
+    }
+    found = found.slice(args.skip ?? 0);
+    if (args.take !== undefined) {
+      found = args.take >= 0 ? found.slice(0, args.take) : found.slice(args.take);
+    }
+    return found.map((row) => shape(model, row, args));
+  }
+
+  function applyData(model: Model, row: Row, data: Record<string, any>): void {
+    for (const [name, value] of Object.entries(data)) {
+      if (value === undefined) {
+        continue;
+      }
+      const field = fieldOf(model, name);
+      if (!field) {
+        throw new Error(`memoryDb: unknown field ${model.name}.${name}`);
+      }
+      if (field.kind === 'object') {
+        throw new Error(`memoryDb: nested writes are not supported (${model.name}.${name})`);
+      }
+      if (isPlainObject(value) && field.type !== 'Json') {
+        const current = row[name];
+        const [op, operand] = Object.entries(value)[0];
+        const arg = coerce(field, operand);
+        const add = (sign: 1 | -1) => (field.type === 'Decimal'
+          ? (current as Prisma.Decimal).add(sign === 1 ? arg : arg.neg())
+          : field.type === 'BigInt' ? current + BigInt(sign) * arg : current + sign * arg);
+        switch (op) {
+          case 'set': row[name] = arg; break;
+          case 'increment': row[name] = add(1); break;
+          case 'decrement': row[name] = add(-1); break;
+          case 'multiply': row[name] = field.type === 'Decimal' ? current.mul(arg) : current * arg; break;
+          default: throw new Error(`memoryDb: unsupported update ${op} on ${model.name}.${name}`);
+        }
+        continue;
+      }
+      row[name] = coerce(field, value);
+    }
+    for (const field of model.fields) {
+      if (field.isUpdatedAt && !(field.name in data)) {
+        row[field.name] = new Date();
+      }
+    }
+  }
+
+  function insert(model: Model, data: Record<string, any>): Row {
+    const row: Row = {};
+    for (const field of model.fields) {
+      if (field.kind !== 'object') {
+        row[field.name] = field.name in data && data[field.name] !== undefined
+          ? coerce(field, data[field.name])
+          : defaultValue(model, field);
+      }
+    }
+    const rows = tables.get(model.name)!;
+    for (const [name, value] of Object.entries(data)) {
+      const field = fieldOf(model, name);
+      if (!field) {
+        throw new Error(`memoryDb: unknown field ${model.name}.${name}`);
+      }
+      if (field.kind === 'object' && value !== undefined) {
+        throw new Error(`memoryDb: nested writes are not supported (${model.name}.${name})`);
+      }
+    }
+    assertUnique(model, row, rows);
+    rows.push(row);
+    return row;
+  }
+
+  function update(model: Model, row: Row, data: Record<string, any>): void {
+    const next = { ...row };
+    applyData(model, next, data);
+    assertUnique(model, next, tables.get(model.name)!.filter((other) => other !== row));
+    Object.assign(row, next);
+  }
+
+  function aggregateOf(model: Model, rows: Row[], args: any): Row {
+    const out: Row = {};
+    for (const kind of ['_sum', '_min', '_max', '_avg'] as const) {
+      if (!args[kind]) continue;
+      out[kind] = {};
+      for (const name of Object.keys(args[kind])) {
+        const field = fieldOf(model, name)!;
+        const values = rows.map((r) => r[name]).filter((v) => v !== null && v !== undefined);
+        if (values.length === 0) {
+          out[kind][name] = null;
+        } else if (kind === '_sum' || kind === '_avg') {
+          const sum = values.reduce((acc, v) => acc.add(new Prisma.Decimal(v.toString())), new Prisma.Decimal(0));
+          const result = kind === '_avg' ? sum.div(values.length) : sum;
+          out[kind][name] = field.type === 'Decimal' ? result
+            : field.type === 'BigInt' && kind === '_sum' ? BigInt(result.toFixed(0)) : result.toNumber();
+        } else {
+          const sorted = [...values].sort(compare);
+          out[kind][name] = kind === '_min' ? sorted[0] : sorted[sorted.length - 1];
+        }
+      }
+    }
+    if (args._count) {
+      out._count = args._count === true
+        ? rows.length
+        : Object.fromEntries(Object.keys(args._count).map((name) => [
+          name,
+          name === '_all' ? rows.length : rows.filter((r) => r[name] !== null && r[name] !== undefined).length,
+        ]));
+    }
+    return out;
+  }
+
+  function delegate(model: Model) {
+    const rows = () => tables.get(model.name)!;
+    const findUnique = async (args: any) => findRows(model, rows(), { ...args, take: 1 })[0] ?? null;
+    const findFirst = async (args: any = {}) => findRows(model, rows(), { ...args, take: 1 })[0] ?? null;
+    const orThrow = (find: (args: any) => Promise<Row | null>) => async (args: any) => {
+      const row = await find(args);
+      if (!row) {
+        throw knownError('P2025', `No ${model.name} found`);
+      }
+      return row;
+    };
+    const existing = (where: any): Row => {
+      const row = rows().find((r) => matches(model, r, where));
+      if (!row) {
+        throw knownError('P2025', `Record to update not found (${model.name})`);
+      }
+      return row;
+    };
+
+    return {
+      findUnique,
+      findFirst,
+      findUniqueOrThrow: orThrow(findUnique),
+      findFirstOrThrow: orThrow(findFirst),
+      findMany: async (args: any = {}) => findRows(model, rows(), args),
+      count: async (args: any = {}) => rows().filter((row) => matches(model, row, args.where)).length,
+      create: async (args: any) => shape(model, insert(model, args.data), args),
+      createMany: async (args: any) => {
+        let count = 0;
+        for (const data of args.data) {
+          try {
+            insert(model, data);
+            count++;
+          } catch (error: any) {
+            if (!(args.skipDuplicates && error.code === 'P2002')) throw error;
+          }
+        }
+        return { count };
+      },
+      update: async (args: any) => {
+        const row = existing(args.where);
+        update(model, row, args.data);
+        return shape(model, row, args);
+      },
+      updateMany: async (args: any) => {
+        const matched = rows().filter((row) => matches(model, row, args.where));
+        matched.forEach((row) => update(model, row, args.data));
+        return { count: matched.length };
+      },
+      upsert: async (args: any) => {
+        const row = rows().find((r) => matches(model, r, args.where));
+        if (row) {
+          update(model, row, args.update);
+          return shape(model, row, args);
+        }
+        return shape(model, insert(model, args.create), args);
+      },
+      delete: async (args: any) => {
+        const row = existing(args.where);
+        tables.set(model.name, rows().filter((r) => r !== row));
+        return shape(model, row, args);
+      },
+      deleteMany: async (args: any = {}) => {
+        const kept = rows().filter((row) => !matches(model, row, args.where));
+        const count = rows().length - kept.length;
+        tables.set(model.name, kept);
+        return { count };
+      },
+      aggregate: async (args: any = {}) => aggregateOf(model, findRows(model, rows(), args), args),
+      groupBy: async (args: any) => {
+        const groups = new Map<string, Row[]>();
+        for (const row of rows().filter((r) => matches(model, r, args.where))) {
+          const key = JSON.stringify(args.by.map((name: string) => String(row[name])));
+          groups.set(key, [...(groups.get(key) ?? []), row]);
+        }
+        const result = [...groups.values()].map((group) => ({
+          ...Object.fromEntries(args.by.map((name: string) => [name, group[0][name]])),
+          ...aggregateOf(model, group, args),
+        }));
+        return args.orderBy ? sortRows(result, args.orderBy) : result;
+      },
+    };
+  }
+
+  // Raw SQL arrives as a string, a tagged template (strings + values) or a Prisma.Sql
+  const sqlOf = (query: any, values: unknown[]): [string, unknown[]] => {
+    if (typeof query === 'string') {
+      return [query, values];
+    }
+    if (Array.isArray(query)) {
+      return [query.join('?'), values];
+    }
+    return [query.strings?.join('?') ?? query.sql, query.values ?? []];
+  };
+
+  const memory: MemoryDb = {
+    client: undefined as unknown as PrismaClient,
+    rows: (name: string) => {
+      const model = models.get(name);
+      if (!model) {
+        throw new Error(`memoryDb: unknown model ${name}`);
+      }
+      return tables.get(model.name)!;
+    },
+    onExecuteRaw: () => 0,
+    onQueryRaw: (sql) => {
+      throw new Error(`memoryDb: raw query not stubbed: ${sql.slice(0, 80)}`);
+    },
+  };
+
+  const client: Record<string, any> = {
+    $connect: async () => undefined,
+    $disconnect: async () => undefined,
+    $on: () => undefined,
+    $executeRaw: async (query: any, ...values: unknown[]) => memory.onExecuteRaw(...sqlOf(query, values)),
+    $executeRawUnsafe: async (query: string, ...values: unknown[]) => memory.onExecuteRaw(query, values),
+    $queryRaw: async (query: any, ...values: unknown[]) => memory.onQueryRaw(...sqlOf(query, values)),
+    $queryRawUnsafe: async (query: string, ...values: unknown[]) => memory.onQueryRaw(query, values),
+    $transaction: async (work: any) => {
+      if (Array.isArray(work)) {
+        return Promise.all(work);
+      }
+      const snapshot = new Map([...tables].map(([name, rows]) => [name, rows.map((row) => ({ ...row }))]));
+      try {
+        return await work(client);
+      } catch (error) {
+        snapshot.forEach((rows, name) => tables.set(name, rows));
+        throw error;
+      }
+    },
+  };
+  for (const [name, model] of models) {
+    client[name] = delegate(model);
+  }
+
+  memory.client = client as unknown as PrismaClient;
+  return memory;
+}
+
+
+/**
+ * Create an in-memory database and make it the one ForwardingPrismaClient uses
+ */
+export function useMemoryDb(): MemoryDb {
+  const memory = createMemoryDb();
+  installedClient.current = memory.client;
+  return memory;
+}
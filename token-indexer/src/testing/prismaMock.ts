@@ -0,0 +1,27 @@
+/**
+ * PrismaClient replacement for modules that create their client at import time:
+ *
+ *   vi.mock('@prisma/client', async (importOriginal) => ({
+ *     ...(await importOriginal<object>()),
+ *     PrismaClient: (await import('../testing/prismaMock')).ForwardingPrismaClient,
+ *   }));
+ *
+ * Every call is forwarded to the client installed by useMemoryDb (memoryDb.ts)
+ * when it is made, so each test can start from a fresh database. This file has
+ * no imports: the mock factory loads it while @prisma/client is being mocked.
+ */
+
+export const installedClient: { current: object | null } = { current: null };
+
+export class ForwardingPrismaClient {
+  constructor() {
+    return new Proxy(this, {
+      get(_target, key) {
+        if (!installedClient.current) {
+          throw new Error('No in-memory database installed (call useMemoryDb)');
+        }
+        return (installedClient.current as any)[key];
+      },
+    });
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Arkade transactions as the token indexer processes them
+ *
+ * An offchain (ark) transaction is a PSBT whose inputs spend VTXOs. Its
+ * sender is the owner of the spent VTXOs: a VTXO script is a P2TR output
+ * whose key, together with the ASP's signer key, makes the owner's Arkade
+ * address. Token operations ride in the transaction's OP_RETURN output.
+ */
+
+import { ArkAddress, Transaction } from '@arkade-os/sdk';
+import { NetworkProfile } from '@arkade-token/sdk';
+import { base64, hex } from '@scure/base';
+import { ArkTxNotification } from '../services/arkadeClient';
+
+export interface ArkadeTxOutput {
+  vout: number;
+  scriptPubKey: string; // Hex
+  amount: bigint;
+  address: string | null; // Arkade address, null for OP_RETURN / anchor outputs
+}
+
+export interface ArkadeTransaction {
+  txid: string;
+  // Owner of the spent VTXOs; null if they belong to several addresses (or none is P2TR)
+  from: string | null;
+  // First output paying someone other than the sender (its first output if all are change)
+  to: string | null;
+  outputs: ArkadeTxOutput[];
+  blockHeight: number | null; // Offchain transactions have no block
+}
+
+// P2TR: OP_1 <32-byte output key>
+const P2TR_SCRIPT = /^5120([0-9a-f]{64})$/;
+
+/**
+ * Arkade address of a VTXO script, or null if the script is not P2TR
+ */
+export function arkadeAddressOfScript(
+  scriptHex: string,
+  signerPubkey: Uint8Array,
+  profile: NetworkProfile
+): string | null {
+  const match = P2TR_SCRIPT.exec(scriptHex.toLowerCase());
+  if (!match) {
+    return null;
+  }
+  return new ArkAddress(signerPubkey, hex.decode(match[1]), profile.arkadeHrp).encode();
+}
+
+/**
+ * Decode an offchain transaction and attribute it to the owner of its spent VTXOs
+ */
+export function decodeArkadeTransaction(
+  notification: ArkTxNotification,
+  signerPubkey: Uint8Array,
+  profile: NetworkProfile
+): ArkadeTransaction {
+  const psbt = Transaction.fromPSBT(base64.decode(notification.tx));
+
+  const outputs: ArkadeTxOutput[] = [];
+  for (let vout = 0; vout < psbt.outputsLength; vout++) {
+    const output = psbt.getOutput(vout);
+    const scriptPubKey = output.script ? hex.encode(output.script) : '';
+    outputs.push({
+      vout,
+      scriptPubKey,
+      amount: output.amount ?? 0n,
+      address: arkadeAddressOfScript(scriptPubKey, signerPubkey, profile),
+    });
+  }
+
+  const owners = new Set(
+    notification.spentVtxos.map((vtxo) => arkadeAddressOfScript(vtxo.script, signerPubkey, profile))
+  );
+  const from = owners.size === 1 ? [...owners][0] : null;
+
+  const paid = outputs.filter((output) => output.address);
+  const to = (paid.find((output) => output.address !== from) ?? paid[0])?.address ?? null;
+
+  return { txid: notification.txid, from, to, outputs, blockHeight: null };
+}
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useMemoryDb, type MemoryDb } from '../testing/memoryDb';
+import { getLedgerBalance, issuanceAccount, postLedgerEntry, type LedgerEvent } from './ledger';
+import { getBalanceRebuild, rebuildBalances, swapRebuiltBalances } from './balanceRebuild';
+
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  PrismaClient: (await import('../testing/prismaMock')).ForwardingPrismaClient,
+}));
+
+const TOKEN = 'token-1';
+const ISSUER = 'tark1issuer';
+const HOLDER = 'tark1holder';
+
+let memory: MemoryDb;
+
+function post(type: LedgerEvent['type'], fromAddress: string, toAddress: string, amount: bigint, referenceId: string) {
+  return memory.client.$transaction((tx) => postLedgerEntry(tx, {
+    type, tokenId: TOKEN, fromAddress, toAddress, amount, referenceId, metadata: { source: 'api' },
+  } as LedgerEvent));
+}
+
+// Stands in for the replay's SQL: per-address sums of the ledger, and no overdrafts
+function replayInMemory(sql: string) {
+  if (!sql.includes('GROUP BY')) {
+    return [];
+  }
+  const sums = new Map<string, { tokenId: string; address: string; balance: bigint }>();
+  const add = (tokenId: string, address: string, delta: bigint) => {
+    const key = `${tokenId}/${address}`;
+    const sum = sums.get(key) ?? { tokenId, address, balance: 0n };
+    sum.balance += delta;
+    sums.set(key, sum);
+  };
+  for (const entry of memory.rows('ledgerEvent')) {
+    const amount = BigInt(entry.amount.toFixed(0));
+    add(entry.tokenId, entry.toAddress, amount);
+    add(entry.tokenId, entry.fromAddress, -amount);
+  }
+  return [...sums.values()].map((s) => ({ ...s, balance: s.balance.toString() }));
+}
+
+const setLiveBalance = (address: string, balance: string) => memory.client.tokenBalance.upsert({
+  where: { address_tokenId: { address, tokenId: TOKEN } },
+  update: { balance },
+  create: { address, tokenId: TOKEN, balance },
+});
+
+beforeEach(async () => {
+  memory = useMemoryDb();
+  memory.onQueryRaw = replayInMemory;
+  await memory.client.token.create({
+    data: { id: TOKEN, name: 'Token', symbol: 'TKN', totalSupply: '1000', creator: ISSUER, createdInTx: 'vtxo:0' },
+  });
+  await post('create', issuanceAccount(TOKEN), ISSUER, 1000n, 'create-1');
+  await post('transfer', ISSUER, HOLDER, 300n, 'transfer-1');
+  // Drift the live balances away from the ledger
+  await setLiveBalance(HOLDER, '250');
+  await setLiveBalance('tark1stray', '5');
+});
+
+describe('rebuildBalances', () => {
+  it('writes the ledger balances to the shadow table and diffs them against the live ones', async () => {
+    const report = await rebuildBalances({ tokenId: TOKEN });
+
+    expect(report).toMatchObject({ status: 'built', ledgerEventCount: 2, balanceCount: 2, overdrafts: [] });
+    expect(report.differences).toEqual(expect.arrayContaining([
+      { address: HOLDER, tokenId: TOKEN, live: '250', rebuilt: '300' },
+      { address: 'tark1stray', tokenId: TOKEN, live: '5', rebuilt: null },
+    ]));
+    expect(report.differences).toHaveLength(2);
+    expect(memory.rows('tokenBalanceShadow')).toHaveLength(2);
+  });
+
+  it('discards an earlier rebuild that was never swapped', async () => {
+    const first = await rebuildBalances({ tokenId: TOKEN });
+    await rebuildBalances({ tokenId: TOKEN });
+
+    expect(await getBalanceRebuild(first.rebuildId)).toMatchObject({ status: 'discarded', differences: [] });
+    expect(memory.rows('tokenBalanceShadow')).toHaveLength(2);
+  });
+});
+
+describe('swapRebuiltBalances', () => {
+  it('replaces the live balances with the rebuilt ones once', async () => {
+    const { rebuildId } = await rebuildBalances({ tokenId: TOKEN });
+
+    expect(await swapRebuiltBalances(rebuildId)).toEqual({ rebuildId, balances: 2, replaced: 3 });
+    expect(await getLedgerBalance(memory.client, HOLDER, TOKEN)).toBe(300n);
+    expect(await getLedgerBalance(memory.client, 'tark1stray', TOKEN)).toBe(0n);
+    expect(memory.rows('tokenBalanceShadow')).toHaveLength(0);
+
+    await expect(swapRebuiltBalances(rebuildId)).rejects.toMatchObject({ code: 'conflict' });
+  });
+
+  it('refuses a rebuild the ledger has moved past', async () => {
+    const { rebuildId } = await rebuildBalances({ tokenId: TOKEN });
+    await post('transfer', ISSUER, HOLDER, 100n, 'transfer-2');
+
+    await expect(swapRebuiltBalances(rebuildId)).rejects.toMatchObject({ code: 'conflict' });
+    expect(await getLedgerBalance(memory.client, HOLDER, TOKEN)).toBe(350n);
+    expect(memory.rows('balanceRebuild')[0].status).toBe('built');
+  });
+
+  it('reports an unknown rebuild', async () => {
+    await expect(swapRebuiltBalances('missing')).rejects.toMatchObject({ code: 'not-found' });
+  });
+});
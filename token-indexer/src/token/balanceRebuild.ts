@@ -0,0 +1,320 @@
+/**
+ * Balance rebuild - recompute token_balances from the ledger
+ *
+ *   1. rebuildBalances: sum every ledger entry (create, transfer, burn,
+ *      presale credit) per address in Postgres, write the result to
+ *      token_balances_shadow and diff it against the live balances
+ *   2. swapRebuiltBalances: after review, replace the live balances with the
+ *      shadow ones in a single transaction
+ *
+ * The replay runs on a repeatable-read snapshot. The swap holds the advisory
+ * lock of every token it replaces and is refused if the ledger gained entries
+ * since the rebuild, so no entry posted in between is lost.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { toAmountString, toBigInt } from '../utils/decimal';
+import { isSupplyAccount, lockTokenLedger } from './ledger';
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+const prisma = new PrismaClient();
+
+const REPLAY_BATCH_SIZE = 1000;
+const REBUILD_TIMEOUT_MS = 300_000;
+
+export type BalanceRebuildErrorCode = 'not-found' | 'conflict';
+
+export class BalanceRebuildError extends Error {
+  constructor(message: string, public readonly code: BalanceRebuildErrorCode) {
+    super(message);
+    this.name = 'BalanceRebuildError';
+  }
+}
+
+export interface BalanceDifference {
+  address: string;
+  tokenId: string;
+  live: string | null; // null: no token_balances row
+  rebuilt: string | null; // null: no ledger entry touches the address
+}
+
+// A ledger entry that debited more than the replayed balance held at that point
+export interface LedgerOverdraft {
+  ledgerEventId: string;
+  tokenId: string;
+  address: string;
+  balance: string;
+  amount: string;
+}
+
+export interface BalanceRebuildReport {
+  rebuildId: string;
+  tokenId: string | null;
+  status: string;
+  ledgerEventCount: number;
+  balanceCount: number;
+  differences: BalanceDifference[];
+  overdrafts?: LedgerOverdraft[];
+}
+
+export const balanceKey = (address: string, tokenId: string) => `${tokenId}\u0000${address}`;
+
+export async function diffAgainstLive(
+  db: Db,
+  tokenId: string | null,
+  rebuilt: Map<string, ReplayedBalance>
+): Promise<BalanceDifference[]> {
+  const live = await db.tokenBalance.findMany({
+    where: tokenId ? { tokenId } : {},
+    select: { address: true, tokenId: true, balance: true },
+  });
+
+  const differences: BalanceDifference[] = [];
+  const seen = new Set<string>();
+  for (const row of live) {
+    const key = balanceKey(row.address, row.tokenId);
+    seen.add(key);
+    const expected = rebuilt.get(key);
+    if ((expected?.balance ?? 0n) !== toBigInt(row.balance)) {
+      differences.push({
+        address: row.address,
+        tokenId: row.tokenId,
+        live: toAmountString(row.balance),
+        rebuilt: expected ? expected.balance.toString() : null,
+      });
+    }
+  }
+  for (const [key, expected] of rebuilt) {
+    if (!seen.has(key)) {
+      differences.push({
+        address: expected.address,
+        tokenId: expected.tokenId,
+        live: null,
+        rebuilt: expected.balance.toString(),
+      });
+    }
+  }
+  return differences;
+}
+
+export interface LedgerReplay {
+  balances: Map<string, ReplayedBalance>;
+  overdrafts: LedgerOverdraft[];
+  ledgerEventCount: number;
+}
+
+export interface ReplayedBalance {
+  address: string;
+  tokenId: string;
+  balance: bigint;
+}
+
+/**
+ * Balances implied by the ledger (for one token, or all). Postgres sums each
+ * address's credits and debits; overdrafts come from a running balance over
+ * the entries in order (debit before credit within an entry).
+ */
+export async function replayLedger(db: Db, tokenId: string | null): Promise<LedgerReplay> {
+  const scope = tokenId ? Prisma.sql`WHERE "tokenId" = ${tokenId}` : Prisma.empty;
+  const movements = Prisma.sql`
+    SELECT "id", "tokenId", "createdAt", "toAddress" AS "address", "amount" AS "delta", 1 AS "leg"
+    FROM "ledger_events" ${scope}
+    UNION ALL
+    SELECT "id", "tokenId", "createdAt", "fromAddress", -"amount", 0
+    FROM "ledger_events" ${scope}
+  `;
+
+  const sums = await db.$queryRaw<Array<{ tokenId: string; address: string; balance: string }>>`
+    SELECT "tokenId", "address", SUM("delta")::text AS "balance"
+    FROM (${movements}) m
+    GROUP BY "tokenId", "address"
+  `;
+
+  const balances = new Map<string, ReplayedBalance>();
+  for (const row of sums) {
+    if (!isSupplyAccount(row.address)) {
+      balances.set(balanceKey(row.address, row.tokenId), {
+        address: row.address,
+        tokenId: row.tokenId,
+        balance: BigInt(row.balance),
+      });
+    }
+  }
+
+  const debits = await db.$queryRaw<Array<{ id: string; tokenId: string; address: string; before: string; amount: string }>>`
+    SELECT "id", "tokenId", "address", "before"::text AS "before", (-"delta")::text AS "amount"
+    FROM (
+      SELECT m.*, COALESCE(SUM("delta") OVER (
+        PARTITION BY "tokenId", "address"
+        ORDER BY "createdAt", "id", "leg"
+        ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ), 0) AS "before"
+      FROM (${movements}) m
+    ) r
+    WHERE "leg" = 0 AND "before" + "delta" < 0
+  `;
+  const overdrafts: LedgerOverdraft[] = debits
+    .filter((row) => !isSupplyAccount(row.address))
+    .map((row) => ({
+      ledgerEventId: row.id,
+      tokenId: row.tokenId,
+      address: row.address,
+      balance: row.before,
+      amount: row.amount,
+    }));
+
+  const ledgerEventCount = await db.ledgerEvent.count({ where: tokenId ? { tokenId } : {} });
+
+  return { balances, overdrafts, ledgerEventCount };
+}
+
+/**
+ * Replay the ledger (for one token, or all) into a new shadow table snapshot.
+ * Earlier rebuilds that were never swapped are discarded.
+ */
+export async function rebuildBalances(options: { tokenId?: string } = {}): Promise<BalanceRebuildReport> {
+  const tokenId = options.tokenId ?? null;
+
+  return prisma.$transaction(async (tx) => {
+    const stale = await tx.balanceRebuild.findMany({ where: { status: 'built' }, select: { id: true } });
+    if (stale.length > 0) {
+      const ids = stale.map((r) => r.id);
+      await tx.tokenBalanceShadow.deleteMany({ where: { rebuildId: { in: ids } } });
+      await tx.balanceRebuild.updateMany({ where: { id: { in: ids } }, data: { status: 'discarded' } });
+    }
+
+    const { balances: rebuilt, overdrafts, ledgerEventCount } = await replayLedger(tx, tokenId);
+
+    const differences = await diffAgainstLive(tx, tokenId, rebuilt);
+
+    const rebuild = await tx.balanceRebuild.create({
+      data: {
+        tokenId,
+        ledgerEventCount,
+        balanceCount: rebuilt.size,
+        differenceCount: differences.length,
+      },
+    });
+
+    const rows = [...rebuilt.values()];
+    for (let i = 0; i < rows.length; i += REPLAY_BATCH_SIZE) {
+      await tx.tokenBalanceShadow.createMany({
+        data: rows.slice(i, i + REPLAY_BATCH_SIZE).map((row) => ({
+          rebuildId: rebuild.id,
+          address: row.address,
+          tokenId: row.tokenId,
+          balance: row.balance.toString(),
+        })),
+      });
+    }
+
+    logger.info({
+      rebuildId: rebuild.id,
+      tokenId,
+      ledgerEventCount,
+      balances: rebuilt.size,
+      differences: differences.length,
+      overdrafts: overdrafts.length
+    }, '🧮 Balances rebuilt from ledger');
+
+    return {
+      rebuildId: rebuild.id,
+      tokenId,
+      status: rebuild.status,
+      ledgerEventCount,
+      balanceCount: rebuilt.size,
+      differences,
+      overdrafts,
+    };
+  }, {
+    isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead,
+    timeout: REBUILD_TIMEOUT_MS,
+  });
+}
+
+/**
+ * A rebuild, diffed against the live balances as they are now
+ */
+export async function getBalanceRebuild(rebuildId: string): Promise<BalanceRebuildReport> {
+  const rebuild = await prisma.balanceRebuild.findUnique({ where: { id: rebuildId } });
+  if (!rebuild) {
+    throw new BalanceRebuildError(`Balance rebuild ${rebuildId} not found`, 'not-found');
+  }
+
+  const shadow = await prisma.tokenBalanceShadow.findMany({ where: { rebuildId } });
+  const rebuilt = new Map(shadow.map((row) => [
+    balanceKey(row.address, row.tokenId),
+    { address: row.address, tokenId: row.tokenId, balance: toBigInt(row.balance) },
+  ]));
+
+  return {
+    rebuildId: rebuild.id,
+    tokenId: rebuild.tokenId,
+    status: rebuild.status,
+    ledgerEventCount: rebuild.ledgerEventCount,
+    balanceCount: rebuild.balanceCount,
+    // Swapped and discarded rebuilds no longer keep their shadow balances
+    differences: rebuild.status === 'built' ? await diffAgainstLive(prisma, rebuild.tokenId, rebuilt) : [],
+  };
+}
+
+/**
+ * Replace the live balances with a rebuild's shadow balances
+ */
+export async function swapRebuiltBalances(rebuildId: string): Promise<{ rebuildId: string; balances: number; replaced: number }> {
+  return prisma.$transaction(async (tx) => {
+    const rebuild = await tx.balanceRebuild.findUnique({ where: { id: rebuildId } });
+    if (!rebuild) {
+      throw new BalanceRebuildError(`Balance rebuild ${rebuildId} not found`, 'not-found');
+    }
+    if (rebuild.status !== 'built') {
+      throw new BalanceRebuildError(`Balance rebuild ${rebuildId} is ${rebuild.status}`, 'conflict');
+    }
+
+    const tokenIds = rebuild.tokenId
+      ? [rebuild.tokenId]
+      : (await tx.token.findMany({ select: { id: true }, orderBy: { id: 'asc' } })).map((t) => t.id);
+    for (const id of tokenIds) {
+      await lockTokenLedger(tx, id);
+    }
+
+    const ledgerEventCount = await tx.ledgerEvent.count({ where: { tokenId: { in: tokenIds } } });
+    if (ledgerEventCount !== rebuild.ledgerEventCount) {
+      throw new BalanceRebuildError(
+        `Ledger has ${ledgerEventCount} entries, rebuild replayed ${rebuild.ledgerEventCount}; rebuild again`,
+        'conflict'
+      );
+    }
+
+    const replaced = await tx.tokenBalance.deleteMany({ where: { tokenId: { in: tokenIds } } });
+    const shadow = await tx.tokenBalanceShadow.findMany({ where: { rebuildId } });
+    for (let i = 0; i < shadow.length; i += REPLAY_BATCH_SIZE) {
+      await tx.tokenBalance.createMany({
+        data: shadow.slice(i, i + REPLAY_BATCH_SIZE).map((row) => ({
+          address: row.address,
+          tokenId: row.tokenId,
+          balance: row.balance,
+        })),
+      });
+    }
+
+    await tx.tokenBalanceShadow.deleteMany({ where: { rebuildId } });
+    await tx.balanceRebuild.update({
+      where: { id: rebuildId },
+      data: { status: 'swapped', swappedAt: new Date() },
+    });
+
+    logger.warn({
+      rebuildId,
+      tokenId: rebuild.tokenId,
+      balances: shadow.length,
+      replaced: replaced.count
+    }, '🔁 Live balances replaced by rebuilt balances');
+
+    return { rebuildId, balances: shadow.length, replaced: replaced.count };
+  }, {
+    timeout: REBUILD_TIMEOUT_MS,
+  });
+}
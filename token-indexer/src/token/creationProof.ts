@@ -0,0 +1,47 @@
+/**
+ * Creation proofs - the L1 block holding a token's ARK CREATE
+ *
+ * A proof is the block's height and hash; confirmations are counted from the
+ * chain tip. While the CREATE is unconfirmed the token is pending: it holds no
+ * ticker claim, cannot be settled and its presale is frozen. A reorg that drops
+ * the block sends a confirmed token back to pending until the CREATE confirms
+ * again; a CREATE the chain no longer knows at all fails the token.
+ */
+
+import { Prisma, Token } from '@prisma/client';
+
+// Statuses of tokens whose CREATE is confirmed on L1
+const PROOF_CONFIRMED_STATUSES = ['awaiting_settlement', 'confirmed'];
+
+export function isCreationConfirmed(token: Pick<Token, 'status'>): boolean {
+  return PROOF_CONFIRMED_STATUSES.includes(token.status);
+}
+
+/**
+ * Status a token takes when its CREATE confirms: a token settled before a
+ * reorg unconfirmed it goes straight back to confirmed
+ */
+export function confirmedStatus(token: Pick<Token, 'vtxoId'>): string {
+  return token.vtxoId ? 'confirmed' : 'awaiting_settlement';
+}
+
+export function confirmationsAt(blockHeight: number, tipHeight: number): number {
+  return Math.max(0, tipHeight - blockHeight + 1);
+}
+
+/**
+ * Undo a token's confirmation after its block left the best chain: the proof
+ * is cleared and the ticker claim released (it is claimed again, and ranked
+ * by the new height, when the CREATE reconfirms)
+ */
+export async function revertCreationProof(
+  tx: Prisma.TransactionClient,
+  tokenId: string,
+  status: 'pending' | 'failed'
+): Promise<void> {
+  await tx.ticker.deleteMany({ where: { tokenId } });
+  await tx.token.update({
+    where: { id: tokenId },
+    data: { status, bitcoinBlock: null, bitcoinBlockHash: null, confirmations: 0 },
+  });
+}
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { createMemoryDb, type MemoryDb } from '../testing/memoryDb';
+import { TokenHoldersError, listTokenHolders, percentageOfSupply } from './holders';
+
+const TOKEN = 'token-1';
+
+let memory: MemoryDb;
+
+// Stands in for the holders SQL: counts, and the keyset page in either order
+function holdersInMemory(sql: string, values: unknown[]) {
+  const balances = memory.rows('tokenBalance')
+    .filter((row) => row.tokenId === TOKEN)
+    .map((row) => ({ address: row.address as string, balance: BigInt(row.balance.toFixed(0)) }));
+
+  if (sql.includes('COUNT(*)')) {
+    const minBalance = BigInt(values[0] as string);
+    return [{
+      holders: balances.filter((b) => b.balance > 0n).length,
+      matching: balances.filter((b) => b.balance >= minBalance).length,
+    }];
+  }
+
+  const [, minBalance, after, orderBy, limit] = values as [string, string, Prisma.Sql, Prisma.Sql, number];
+  const desc = orderBy.sql.includes('DESC, address ASC');
+  // Descending by balance then ascending by address, or the exact reverse
+  const compare = (a: { address: string; balance: bigint }, b: { address: string; balance: bigint }) => {
+    const byRank = a.balance !== b.balance ? (a.balance > b.balance ? -1 : 1) : a.address.localeCompare(b.address);
+    return desc ? byRank : -byRank;
+  };
+  const [cursorBalance, , cursorAddress] = after.values as string[];
+  const cursor = after.values.length > 0 ? { balance: BigInt(cursorBalance), address: cursorAddress } : null;
+
+  return balances
+    .filter((b) => b.balance >= BigInt(minBalance))
+    .filter((b) => !cursor || compare(cursor, b) < 0)
+    .sort(compare)
+    .slice(0, limit)
+    .map((b) => ({ address: b.address, balance: b.balance.toString() }));
+}
+
+beforeEach(async () => {
+  memory = createMemoryDb();
+  memory.onQueryRaw = holdersInMemory;
+  await memory.client.token.create({
+    data: {
+      id: TOKEN, name: 'Token', symbol: 'TKN', totalSupply: '1000', circulatingSupply: '1000',
+      creator: 'tark1a', createdInTx: 'vtxo:0',
+    },
+  });
+  const balances: Array<[string, string]> = [['tark1a', '500'], ['tark1b', '200'], ['tark1c', '200'], ['tark1d', '100'], ['tark1e', '0']];
+  for (const [address, balance] of balances) {
+    await memory.client.tokenBalance.create({ data: { address, tokenId: TOKEN, balance } });
+  }
+});
+
+async function allPages(options: { limit: number; order?: 'asc' | 'desc'; minBalance?: bigint }) {
+  const pages = [];
+  let cursor: string | undefined;
+  do {
+    const page = await listTokenHolders(memory.client, TOKEN, { ...options, cursor });
+    pages.push(page!.holders.map((h) => `${h.rank}:${h.address}`));
+    cursor = page!.nextCursor ?? undefined;
+  } while (cursor);
+  return pages;
+}
+
+describe('percentageOfSupply', () => {
+  it('rounds down to 4 decimal places', () => {
+    expect(percentageOfSupply(500n, 1000n)).toBe('50.0000');
+    expect(percentageOfSupply(1n, 3n)).toBe('33.3333');
+    expect(percentageOfSupply(1n, 10n ** 30n)).toBe('0.0000');
+    expect(percentageOfSupply(1000n, 1000n)).toBe('100.0000');
+  });
+
+  it('is zero without a supply', () => {
+    expect(percentageOfSupply(5n, 0n)).toBe('0.0000');
+  });
+});
+
+describe('listTokenHolders', () => {
+  it('ranks holders by balance, ties by address, across pages', async () => {
+    expect(await allPages({ limit: 2 })).toEqual([['1:tark1a', '2:tark1b'], ['3:tark1c', '4:tark1d']]);
+  });
+
+  it('keeps the same ranks in ascending order', async () => {
+    expect(await allPages({ limit: 3, order: 'asc' })).toEqual([['4:tark1d', '3:tark1c', '2:tark1b'], ['1:tark1a']]);
+  });
+
+  it('counts every holder but lists only those above the minimum', async () => {
+    const page = await listTokenHolders(memory.client, TOKEN, { limit: 10, order: 'asc', minBalance: 200n });
+
+    expect(page).toMatchObject({ holderCount: 4, nextCursor: null });
+    expect(page!.holders.map((h) => [h.rank, h.address, h.balance, h.percentage])).toEqual([
+      [3, 'tark1c', '200', '20.0000'],
+      [2, 'tark1b', '200', '20.0000'],
+      [1, 'tark1a', '500', '50.0000'],
+    ]);
+  });
+
+  it('rejects a tampered cursor', async () => {
+    const tampered = Buffer.from(JSON.stringify({ balance: '1e3', address: 'tark1a', rank: 1 })).toString('base64url');
+
+    await expect(listTokenHolders(memory.client, TOKEN, { limit: 2, cursor: tampered })).rejects.toBeInstanceOf(TokenHoldersError);
+    await expect(listTokenHolders(memory.client, TOKEN, { limit: 2, cursor: 'not-a-cursor' })).rejects.toMatchObject({ code: 'invalid-cursor' });
+  });
+
+  it('returns null for an unknown token', async () => {
+    expect(await listTokenHolders(memory.client, 'missing', { limit: 2 })).toBeNull();
+  });
+});
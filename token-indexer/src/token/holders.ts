@@ -0,0 +1,150 @@
+/**
+ * Token holders - addresses with a positive balance, ranked by balance
+ *
+ * Pages are keyset-paginated on (balance, address) and served by the
+ * token_balances ("tokenId", balance, address) index, so deep pages
+ * cost the same as the first. Rank is the holder's position by balance
+ * (highest first, ties ordered by address); the cursor carries the last rank,
+ * so no page has to count the holders before it.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { toBigInt } from '../utils/decimal';
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+export type HolderSortOrder = 'desc' | 'asc';
+
+export type TokenHoldersErrorCode = 'invalid-cursor';
+
+export class TokenHoldersError extends Error {
+  constructor(message: string, public readonly code: TokenHoldersErrorCode) {
+    super(message);
+    this.name = 'TokenHoldersError';
+  }
+}
+
+export interface TokenHolder {
+  rank: number;
+  address: string;
+  balance: string;
+  percentage: string; // Of circulating supply, 4 decimal places
+}
+
+export interface TokenHoldersPage {
+  tokenId: string;
+  holderCount: number;
+  holders: TokenHolder[];
+  nextCursor: string | null;
+}
+
+interface HolderCursor {
+  balance: string;
+  address: string;
+  rank: number;
+}
+
+function encodeCursor(cursor: HolderCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+function decodeCursor(value: string): HolderCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      typeof cursor.balance === 'string' && /^\d+$/.test(cursor.balance) &&
+      typeof cursor.address === 'string' &&
+      Number.isInteger(cursor.rank) && cursor.rank > 0
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new TokenHoldersError('Invalid holders cursor', 'invalid-cursor');
+}
+
+/**
+ * balance / supply as a percentage with 4 decimal places
+ */
+export function percentageOfSupply(balance: bigint, supply: bigint): string {
+  if (supply <= 0n) {
+    return '0.0000';
+  }
+  const scaled = (balance * 1_000_000n) / supply;
+  return `${scaled / 10_000n}.${(scaled % 10_000n).toString().padStart(4, '0')}`;
+}
+
+/**
+ * One page of a token's holders. Returns null if the token does not exist.
+ */
+export async function listTokenHolders(
+  db: Db,
+  tokenId: string,
+  options: { limit: number; order?: HolderSortOrder; minBalance?: bigint; cursor?: string }
+): Promise<TokenHoldersPage | null> {
+  const token = await db.token.findUnique({
+    where: { id: tokenId },
+    select: { circulatingSupply: true },
+  });
+  if (!token) {
+    return null;
+  }
+
+  const order = options.order ?? 'desc';
+  const minBalance = options.minBalance && options.minBalance > 1n ? options.minBalance : 1n;
+  const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+
+  const [{ holders: holderCount, matching }] = await db.$queryRaw<Array<{ holders: number; matching: number }>>`
+    SELECT
+      COUNT(*) FILTER (WHERE balance > 0)::int AS holders,
+      COUNT(*) FILTER (WHERE balance >= ${minBalance.toString()}::numeric)::int AS matching
+    FROM token_balances
+    WHERE "tokenId" = ${tokenId}
+  `;
+
+  // Ascending order is the exact reverse of descending (address desc on ties),
+  // so ranks agree in both directions
+  let after = Prisma.empty;
+  if (cursor && order === 'desc') {
+    after = Prisma.sql`AND (balance < ${cursor.balance}::numeric
+      OR (balance = ${cursor.balance}::numeric AND address > ${cursor.address}))`;
+  } else if (cursor) {
+    after = Prisma.sql`AND (balance > ${cursor.balance}::numeric
+      OR (balance = ${cursor.balance}::numeric AND address < ${cursor.address}))`;
+  }
+  const orderBy = order === 'desc'
+    ? Prisma.sql`ORDER BY balance DESC, address ASC`
+    : Prisma.sql`ORDER BY balance ASC, address DESC`;
+
+  const rows = await db.$queryRaw<Array<{ address: string; balance: string }>>`
+    SELECT address, balance::text AS balance
+    FROM token_balances
+    WHERE "tokenId" = ${tokenId}
+      AND balance >= ${minBalance.toString()}::numeric
+      ${after}
+    ${orderBy}
+    LIMIT ${options.limit + 1}
+  `;
+
+  const page = rows.slice(0, options.limit);
+  // Rank of the row before the page: 0 (desc) or one past the last (asc)
+  const startRank = cursor ? cursor.rank : (order === 'desc' ? 0 : matching + 1);
+  const supply = toBigInt(token.circulatingSupply);
+  const holders = page.map((row, i) => ({
+    rank: order === 'desc' ? startRank + i + 1 : startRank - i - 1,
+    address: row.address,
+    balance: row.balance,
+    percentage: percentageOfSupply(BigInt(row.balance), supply),
+  }));
+
+  const last = holders[holders.length - 1];
+  return {
+    tokenId,
+    holderCount,
+    holders,
+    nextCursor: rows.length > options.limit && last
+      ? encodeCursor({ balance: last.balance, address: last.address, rank: last.rank })
+      : null,
+  };
+}
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryDb, type MemoryDb } from '../testing/memoryDb';
+import {
+  LedgerError,
+  burnAccount,
+  getLedgerBalance,
+  isSupplyAccount,
+  issuanceAccount,
+  postLedgerEntry,
+  type LedgerEvent,
+} from './ledger';
+
+const TOKEN = 'token-1';
+
+let memory: MemoryDb;
+
+beforeEach(async () => {
+  memory = createMemoryDb();
+  await memory.client.token.create({
+    data: { id: TOKEN, name: 'Token', symbol: 'TKN', totalSupply: '1000', creator: 'tark1issuer', createdInTx: 'vtxo:0' },
+  });
+});
+
+function event(type: LedgerEvent['type'], fromAddress: string, toAddress: string, amount: bigint, referenceId: string): LedgerEvent {
+  return { type, tokenId: TOKEN, fromAddress, toAddress, amount, referenceId, metadata: { source: 'api' } } as LedgerEvent;
+}
+
+const post = (entry: LedgerEvent) => memory.client.$transaction((tx) => postLedgerEntry(tx, entry));
+const balance = (address: string) => getLedgerBalance(memory.client, address, TOKEN);
+
+async function supply() {
+  const token = await memory.client.token.findUniqueOrThrow({ where: { id: TOKEN } });
+  return { circulatingSupply: token.circulatingSupply.toFixed(0), burnedSupply: token.burnedSupply.toFixed(0) };
+}
+
+describe('supply accounts', () => {
+  it('names the issuance and burn accounts per token', () => {
+    expect(issuanceAccount(TOKEN)).toBe('issuance:token-1');
+    expect(burnAccount(TOKEN)).toBe('burn:token-1');
+    expect(isSupplyAccount(issuanceAccount(TOKEN))).toBe(true);
+    expect(isSupplyAccount(burnAccount(TOKEN))).toBe(true);
+    expect(isSupplyAccount('tark1holder')).toBe(false);
+  });
+});
+
+describe('postLedgerEntry', () => {
+  it('mints, transfers and burns while balances sum to circulating supply', async () => {
+    await post(event('create', issuanceAccount(TOKEN), 'tark1issuer', 1000n, 'create-1'));
+    await post(event('transfer', 'tark1issuer', 'tark1holder', 300n, 'transfer-1'));
+    await post(event('burn', 'tark1holder', burnAccount(TOKEN), 100n, 'burn-1'));
+
+    const issuer = await balance('tark1issuer');
+    const holder = await balance('tark1holder');
+    expect(issuer).toBe(700n);
+    expect(holder).toBe(200n);
+    expect(await supply()).toEqual({ circulatingSupply: '900', burnedSupply: '100' });
+    expect(issuer + holder).toBe(900n);
+  });
+
+  it('rejects a debit beyond the balance and rolls the entry back', async () => {
+    await post(event('create', issuanceAccount(TOKEN), 'tark1issuer', 100n, 'create-1'));
+
+    const overdraft = post(event('transfer', 'tark1issuer', 'tark1holder', 101n, 'transfer-1'));
+    await expect(overdraft).rejects.toThrow(LedgerError);
+    await expect(overdraft).rejects.toMatchObject({ code: 'insufficient-balance' });
+    expect(await balance('tark1holder')).toBe(0n);
+    expect(memory.rows('ledgerEvent')).toHaveLength(1);
+  });
+
+  it('rejects zero and negative amounts', async () => {
+    for (const amount of [0n, -1n]) {
+      await expect(
+        post(event('create', issuanceAccount(TOKEN), 'tark1issuer', amount, `create-${amount}`))
+      ).rejects.toMatchObject({ code: 'invalid-amount' });
+    }
+  });
+
+  it('refuses to post the same source record twice', async () => {
+    await post(event('create', issuanceAccount(TOKEN), 'tark1issuer', 100n, 'create-1'));
+
+    await expect(
+      post(event('create', issuanceAccount(TOKEN), 'tark1issuer', 100n, 'create-1'))
+    ).rejects.toMatchObject({ code: 'P2002' });
+    expect(await balance('tark1issuer')).toBe(100n);
+  });
+});
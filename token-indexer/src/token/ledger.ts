@@ -0,0 +1,191 @@
+/**
+ * Token ledger - double-entry journal of every token movement
+ *
+ * Each ledger event is an immutable journal entry that debits `fromAddress`
+ * and credits `toAddress` by the same amount. Supply enters through the
+ * token's issuance account and leaves through its burn account; neither holds
+ * a TokenBalance, so balances for a token always sum to minted minus burned.
+ * Entries from the issuance account or to the burn account also update the
+ * token's circulatingSupply and burnedSupply counters.
+ *
+ * Tokens minted before the ledger covered every balance change were given
+ * opening entries by a migration (metadata source 'opening'): their mint,
+ * past burns, and transfers from the issuer matching the balances of the time.
+ *
+ * postLedgerEntry is the only writer of TokenBalance, apart from swapping in
+ * balances rebuilt from this ledger (balanceRebuild.ts). It takes the token's
+ * advisory lock, so entries for one token are serialized and a balance check
+ * cannot race another write.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { advisoryLockKeysFromTokenId } from '../utils/advisoryLock';
+import { toBigInt } from '../utils/decimal';
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+export type LedgerEventType = 'create' | 'transfer' | 'burn' | 'presale_purchase';
+
+const ISSUANCE_ACCOUNT_PREFIX = 'issuance:';
+const BURN_ACCOUNT_PREFIX = 'burn:';
+
+export type LedgerErrorCode = 'insufficient-balance' | 'invalid-amount';
+
+export class LedgerError extends Error {
+  constructor(message: string, public readonly code: LedgerErrorCode) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+interface LedgerEventBase {
+  type: LedgerEventType;
+  tokenId: string;
+  fromAddress: string;
+  toAddress: string;
+  amount: bigint;
+  referenceId: string;
+  txid?: string | null;
+}
+
+export interface CreateLedgerEvent extends LedgerEventBase {
+  type: 'create';
+  metadata: {
+    source: 'api' | 'chain' | 'opening';
+  };
+}
+
+export interface TransferLedgerEvent extends LedgerEventBase {
+  type: 'transfer';
+  metadata: {
+    // presale-reserve: moving the presale part of the supply out of the issuer's balance
+    source: 'api' | 'chain' | 'presale-reserve' | 'opening';
+  };
+}
+
+export interface BurnLedgerEvent extends LedgerEventBase {
+  type: 'burn';
+  metadata: {
+    source: 'api' | 'chain' | 'opening';
+  };
+}
+
+export interface PresalePurchaseLedgerEvent extends LedgerEventBase {
+  type: 'presale_purchase';
+  metadata: {
+    batchesPurchased: number;
+    presaleBatchAmount: string;
+    totalPaid: string;
+  };
+}
+
+export type LedgerEvent = CreateLedgerEvent | TransferLedgerEvent | BurnLedgerEvent | PresalePurchaseLedgerEvent;
+
+/**
+ * Account new supply is minted from
+ */
+export function issuanceAccount(tokenId: string): string {
+  return `${ISSUANCE_ACCOUNT_PREFIX}${tokenId}`;
+}
+
+/**
+ * Account burned supply is sent to
+ */
+export function burnAccount(tokenId: string): string {
+  return `${BURN_ACCOUNT_PREFIX}${tokenId}`;
+}
+
+export function isSupplyAccount(address: string): boolean {
+  return address.startsWith(ISSUANCE_ACCOUNT_PREFIX) || address.startsWith(BURN_ACCOUNT_PREFIX);
+}
+
+/**
+ * Serialize ledger writes for a token until the transaction ends
+ */
+export async function lockTokenLedger(tx: Prisma.TransactionClient, tokenId: string): Promise<void> {
+  const { key1, key2 } = advisoryLockKeysFromTokenId(tokenId);
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(${key1}::int, ${key2}::int)`;
+}
+
+export async function getLedgerBalance(db: Db, address: string, tokenId: string): Promise<bigint> {
+  const row = await db.tokenBalance.findUnique({
+    where: { address_tokenId: { address, tokenId } },
+  });
+  return row ? toBigInt(row.balance) : 0n;
+}
+
+async function adjustSupply(tx: Prisma.TransactionClient, event: LedgerEvent): Promise<void> {
+  const minted = event.fromAddress === issuanceAccount(event.tokenId);
+  const burned = event.toAddress === burnAccount(event.tokenId);
+  if (minted === burned) {
+    return;
+  }
+
+  const amount = event.amount.toString();
+  await tx.token.update({
+    where: { id: event.tokenId },
+    data: minted
+      ? { circulatingSupply: { increment: amount } }
+      : { circulatingSupply: { decrement: amount }, burnedSupply: { increment: amount } },
+  });
+}
+
+async function setBalance(tx: Prisma.TransactionClient, address: string, tokenId: string, balance: bigint): Promise<void> {
+  await tx.tokenBalance.upsert({
+    where: { address_tokenId: { address, tokenId } },
+    update: { balance: balance.toString() },
+    create: { address, tokenId, balance: balance.toString() },
+  });
+}
+
+export async function findLedgerEntry(db: Db, type: LedgerEventType, referenceId: string) {
+  return db.ledgerEvent.findUnique({ where: { type_referenceId: { type, referenceId } } });
+}
+
+/**
+ * Record a journal entry and apply it to both balances.
+ *
+ * (type, referenceId) is unique, so posting the same source record twice
+ * fails instead of double-counting. Throws LedgerError when the debited
+ * address cannot cover the amount; the caller's transaction then rolls back.
+ */
+export async function postLedgerEntry(tx: Prisma.TransactionClient, event: LedgerEvent) {
+  if (event.amount <= 0n) {
+    throw new LedgerError(`Ledger amount must be positive, got ${event.amount}`, 'invalid-amount');
+  }
+
+  await lockTokenLedger(tx, event.tokenId);
+
+  const entry = await tx.ledgerEvent.create({
+    data: {
+      type: event.type,
+      tokenId: event.tokenId,
+      fromAddress: event.fromAddress,
+      toAddress: event.toAddress,
+      amount: event.amount.toString(),
+      referenceId: event.referenceId,
+      txid: event.txid ?? null,
+      metadata: event.metadata,
+    },
+  });
+
+  if (!isSupplyAccount(event.fromAddress)) {
+    const fromBalance = await getLedgerBalance(tx, event.fromAddress, event.tokenId);
+    if (fromBalance < event.amount) {
+      throw new LedgerError(
+        `Insufficient balance: ${fromBalance} available, ${event.amount} needed`,
+        'insufficient-balance'
+      );
+    }
+    await setBalance(tx, event.fromAddress, event.tokenId, fromBalance - event.amount);
+  }
+
+  if (!isSupplyAccount(event.toAddress)) {
+    const toBalance = await getLedgerBalance(tx, event.toAddress, event.tokenId);
+    await setBalance(tx, event.toAddress, event.tokenId, toBalance + event.amount);
+  }
+
+  await adjustSupply(tx, event);
+
+  return entry;
+}
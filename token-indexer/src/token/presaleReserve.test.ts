@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryDb, type MemoryDb } from '../testing/memoryDb';
+import { getLedgerBalance } from './ledger';
+import { creditPresalePurchase, mintInitialSupply, presaleReserveAddress } from './presaleReserve';
+
+const TOKEN = 'token-1';
+const ISSUER = 'tark1issuer';
+const BUYER = 'tark1buyer';
+
+let memory: MemoryDb;
+
+async function createToken(overrides: Record<string, unknown> = {}) {
+  return memory.client.token.create({
+    data: {
+      id: TOKEN,
+      name: 'Token',
+      symbol: 'TKN',
+      totalSupply: '1050',
+      creator: ISSUER,
+      issuer: ISSUER,
+      createdInTx: 'vtxo:0',
+      isPresale: true,
+      presaleBatchAmount: '100',
+      priceInSats: '1000',
+      ...overrides,
+    },
+  });
+}
+
+async function createPurchase(id: string, batchesPurchased: number) {
+  return memory.client.presalePurchase.create({
+    data: { id, tokenId: TOKEN, walletAddress: BUYER, batchesPurchased, totalPaid: '1000', txid: `tx-${id}` },
+  });
+}
+
+const balance = (address: string) => getLedgerBalance(memory.client, address, TOKEN);
+
+beforeEach(() => {
+  memory = createMemoryDb();
+});
+
+describe('mintInitialSupply', () => {
+  it('mints to the issuer and sets aside every whole batch for buyers', async () => {
+    const token = await createToken();
+    await mintInitialSupply(memory.client, token, ISSUER);
+
+    expect(await balance(ISSUER)).toBe(50n);
+    expect(await balance(presaleReserveAddress(TOKEN))).toBe(1000n);
+  });
+
+  it('mints only once', async () => {
+    const token = await createToken();
+    await mintInitialSupply(memory.client, token, ISSUER);
+    await mintInitialSupply(memory.client, token, ISSUER);
+
+    expect(await balance(ISSUER)).toBe(50n);
+    expect(memory.rows('ledgerEvent')).toHaveLength(2);
+  });
+});
+
+describe('creditPresalePurchase', () => {
+  it('moves the purchased batches from the reserve to the buyer', async () => {
+    const token = await createToken();
+    await mintInitialSupply(memory.client, token, ISSUER);
+    const purchase = await createPurchase('purchase-1', 3);
+
+    expect(await creditPresalePurchase(memory.client, token, purchase)).toBe(300n);
+    expect(await balance(BUYER)).toBe(300n);
+    expect(await balance(presaleReserveAddress(TOKEN))).toBe(700n);
+    expect(memory.rows('presalePurchase')[0].creditedAt).toBeInstanceOf(Date);
+  });
+
+  it('credits a purchase once', async () => {
+    const token = await createToken();
+    await mintInitialSupply(memory.client, token, ISSUER);
+    const purchase = await createPurchase('purchase-1', 3);
+
+    await creditPresalePurchase(memory.client, token, purchase);
+    expect(await creditPresalePurchase(memory.client, token, purchase)).toBe(0n);
+
+    expect(await balance(BUYER)).toBe(300n);
+    expect(memory.rows('tokenTransfer')).toHaveLength(1);
+  });
+
+  it('refuses to credit more than the reserve holds', async () => {
+    const token = await createToken();
+    await mintInitialSupply(memory.client, token, ISSUER);
+    const purchase = await createPurchase('purchase-1', 11);
+
+    await expect(creditPresalePurchase(memory.client, token, purchase)).rejects.toThrow(/reserve exhausted/);
+    expect(await balance(BUYER)).toBe(0n);
+  });
+
+  it('creates the reserve from the issuer balance for tokens minted before reserves', async () => {
+    const token = await createToken({ isPresale: false });
+    await mintInitialSupply(memory.client, token, ISSUER);
+    const purchase = await createPurchase('purchase-1', 2);
+
+    expect(await creditPresalePurchase(memory.client, { ...token, isPresale: true }, purchase)).toBe(200n);
+    expect(await balance(ISSUER)).toBe(50n);
+    expect(await balance(presaleReserveAddress(TOKEN))).toBe(800n);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Presale reserve - the part of a presale token's supply held for buyers
+ *
+ * The reserve is an ordinary TokenBalance row under a synthetic address, so
+ * balances for a token always sum to its total supply. Confirmed purchases
+ * move presaleBatchAmount × batches from the reserve to the buyer.
+ *
+ * All balance changes are ledger entries (see ledger.ts), which take the
+ * token's advisory lock.
+ */
+
+import { Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { toAmountString, toBigInt } from '../utils/decimal';
+import {
+  findLedgerEntry,
+  getLedgerBalance,
+  issuanceAccount,
+  postLedgerEntry
+} from './ledger';
+
+export const PRESALE_RESERVE_PREFIX = 'presale-reserve:';
+
+interface PresaleToken {
+  id: string;
+  totalSupply: Prisma.Decimal;
+  isPresale: boolean;
+  presaleBatchAmount: string | null;
+  issuer: string;
+  creator: string;
+}
+
+interface ConfirmedPurchase {
+  id: string;
+  tokenId: string;
+  walletAddress: string;
+  batchesPurchased: number;
+  totalPaid: Prisma.Decimal;
+  txid: string;
+}
+
+export function presaleReserveAddress(tokenId: string): string {
+  return `${PRESALE_RESERVE_PREFIX}${tokenId}`;
+}
+
+export function isPresaleReserveAddress(address: string): boolean {
+  return address.startsWith(PRESALE_RESERVE_PREFIX);
+}
+
+/**
+ * Amount set aside for buyers: every whole batch that fits in the supply
+ */
+export function presaleReserveSize(token: PresaleToken): bigint {
+  const batchAmount = BigInt(token.presaleBatchAmount || '0');
+  if (!token.isPresale || batchAmount <= 0n) {
+    return 0n;
+  }
+  const totalSupply = toBigInt(token.totalSupply);
+  return (totalSupply / batchAmount) * batchAmount;
+}
+
+/**
+ * Mint the initial supply of a newly confirmed token to its issuer.
+ * Presale tokens then move their reserve out of the issuer's balance.
+ * Idempotent: tokens already minted are skipped.
+ */
+export async function mintInitialSupply(
+  tx: Prisma.TransactionClient,
+  token: PresaleToken,
+  issuerAddress: string
+): Promise<void> {
+  if (await findLedgerEntry(tx, 'create', token.id)) {
+    return;
+  }
+
+  await postLedgerEntry(tx, {
+    type: 'create',
+    tokenId: token.id,
+    fromAddress: issuanceAccount(token.id),
+    toAddress: issuerAddress,
+    amount: toBigInt(token.totalSupply),
+    referenceId: token.id,
+    metadata: { source: 'api' },
+  });
+
+  const reserve = presaleReserveSize(token);
+  if (reserve > 0n) {
+    await fundPresaleReserve(tx, token, issuerAddress, reserve);
+  }
+}
+
+async function fundPresaleReserve(
+  tx: Prisma.TransactionClient,
+  token: PresaleToken,
+  issuerAddress: string,
+  amount: bigint
+): Promise<void> {
+  const reserveAddress = presaleReserveAddress(token.id);
+  await postLedgerEntry(tx, {
+    type: 'transfer',
+    tokenId: token.id,
+    fromAddress: issuerAddress,
+    toAddress: reserveAddress,
+    amount,
+    referenceId: reserveAddress,
+    metadata: { source: 'presale-reserve' },
+  });
+}
+
+/**
+ * Return the current reserve balance, creating the reserve for tokens minted
+ * before reserves were tracked (their whole supply went to the issuer).
+ */
+async function ensurePresaleReserve(tx: Prisma.TransactionClient, token: PresaleToken): Promise<bigint> {
+  const reserveAddress = presaleReserveAddress(token.id);
+  const existing = await tx.tokenBalance.findUnique({
+    where: { address_tokenId: { address: reserveAddress, tokenId: token.id } },
+  });
+  if (existing) {
+    return toBigInt(existing.balance);
+  }
+
+  const issuerAddress = token.issuer || token.creator;
+  const issuerBalance = await getLedgerBalance(tx, issuerAddress, token.id);
+  const wanted = presaleReserveSize(token);
+  const seeded = issuerBalance < wanted ? issuerBalance : wanted;
+
+  if (seeded < wanted) {
+    logger.warn({
+      tokenId: token.id,
+      wanted: wanted.toString(),
+      issuerBalance: issuerBalance.toString()
+    }, '⚠️ Issuer balance smaller than presale reserve; seeding what is available');
+  }
+
+  if (seeded > 0n) {
+    await fundPresaleReserve(tx, token, issuerAddress, seeded);
+  }
+
+  logger.info({ tokenId: token.id, reserve: seeded.toString() }, '🏦 Presale reserve created from issuer balance');
+  return seeded;
+}
+
+/**
+ * Move a confirmed purchase's tokens from the presale reserve to the buyer.
+ * Idempotent: purchases already credited are skipped.
+ *
+ * @returns Amount credited (0 if the purchase was already credited)
+ */
+export async function creditPresalePurchase(
+  tx: Prisma.TransactionClient,
+  token: PresaleToken,
+  purchase: ConfirmedPurchase
+): Promise<bigint> {
+  const current = await tx.presalePurchase.findUnique({ where: { id: purchase.id } });
+  if (current?.creditedAt) {
+    return 0n;
+  }
+
+  const batchAmount = BigInt(token.presaleBatchAmount || '0');
+  const amount = batchAmount * BigInt(purchase.batchesPurchased);
+  if (amount <= 0n) {
+    throw new Error(`Token ${token.id} has no presale batch amount`);
+  }
+
+  const reserveAddress = presaleReserveAddress(token.id);
+  const reserve = await ensurePresaleReserve(tx, token);
+  if (reserve < amount) {
+    throw new Error(`Presale reserve exhausted for ${token.id}: ${reserve} available, ${amount} needed`);
+  }
+
+  await postLedgerEntry(tx, {
+    type: 'presale_purchase',
+    tokenId: token.id,
+    fromAddress: reserveAddress,
+    toAddress: purchase.walletAddress,
+    amount,
+    referenceId: purchase.id,
+    txid: purchase.txid,
+    metadata: {
+      batchesPurchased: purchase.batchesPurchased,
+      presaleBatchAmount: batchAmount.toString(),
+      totalPaid: toAmountString(purchase.totalPaid),
+    },
+  });
+
+  await tx.tokenTransfer.create({
+    data: {
+      txid: purchase.txid,
+      tokenId: token.id,
+      fromAddress: reserveAddress,
+      toAddress: purchase.walletAddress,
+      amount: amount.toString(),
+    },
+  });
+
+  await tx.presalePurchase.update({
+    where: { id: purchase.id },
+    data: { creditedAt: new Date() },
+  });
+
+  return amount;
+}
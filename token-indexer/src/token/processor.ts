@@ -1,174 +1,137 @@
 /**
  * Token processor - processes validated token operations
+ *
+ * Balance changes are posted to the ledger, one transaction per operation.
  */
 
 import { PrismaClient } from '@prisma/client';
-import { TokenOperation, parseCreateTokenData } from './parser';
+import { ArkadeTransaction } from './arkadeTx';
+import { BurnTokenOperation, CreateTokenOperation, TransferTokenOperation } from './parser';
+import { burnAccount, issuanceAccount, postLedgerEntry } from './ledger';
+import { claimTicker } from './tickers';
 
 export async function processTokenCreate(
-  tokenOp: TokenOperation,
-  tx: any,
+  tokenOp: CreateTokenOperation,
+  tx: ArkadeTransaction,
   prisma: PrismaClient
 ) {
-  const parsed = parseCreateTokenData(tokenOp.data);
-  if (!parsed) {
-    throw new Error('Failed to parse CREATE token data');
-  }
-
   const creator = extractFromAddress(tx);
+  const txid = tx.txid;
 
-  // Create token
-  await prisma.token.create({
-    data: {
-      id: tokenOp.tokenId,
-      name: parsed.name,
-      symbol: parsed.symbol,
-      totalSupply: tokenOp.amount.toString(),
-      decimals: parsed.decimals,
-      creator,
-      issuer: creator,
-      createdInTx: tx.txid || tx.id,
-    },
-  });
+  await prisma.$transaction(async (db) => {
+    // Create token
+    const token = await db.token.create({
+      data: {
+        id: tokenOp.tokenId,
+        name: tokenOp.name,
+        symbol: tokenOp.symbol,
+        totalSupply: tokenOp.amount.toString(),
+        decimals: tokenOp.decimals,
+        creator,
+        issuer: creator,
+        createdInTx: txid,
+      },
+    });
+
+    // Fails (and rolls back) if the ticker was claimed since validation
+    await claimTicker(db, token, 0, null);
 
-  // Create initial balance for creator
-  await prisma.tokenBalance.create({
-    data: {
-      address: creator,
+    // Mint the initial supply to the creator
+    await postLedgerEntry(db, {
+      type: 'create',
       tokenId: tokenOp.tokenId,
-      balance: tokenOp.amount.toString(),
-    },
+      fromAddress: issuanceAccount(tokenOp.tokenId),
+      toAddress: creator,
+      amount: tokenOp.amount,
+      referenceId: tokenOp.tokenId,
+      txid,
+      metadata: { source: 'chain' },
+    });
   });
 }
 
 export async function processTokenTransfer(
-  tokenOp: TokenOperation,
-  tx: any,
+  tokenOp: TransferTokenOperation,
+  tx: ArkadeTransaction,
   prisma: PrismaClient
 ) {
   const fromAddress = extractFromAddress(tx);
   const toAddress = extractToAddress(tx);
+  const txid = tx.txid;
 
-  // Get current balances
-  const senderBalance = await prisma.tokenBalance.findUnique({
-    where: {
-      address_tokenId: {
-        address: fromAddress,
-        tokenId: tokenOp.tokenId,
-      },
-    },
-  });
-
-  const receiverBalance = await prisma.tokenBalance.findUnique({
-    where: {
-      address_tokenId: {
-        address: toAddress,
-        tokenId: tokenOp.tokenId,
-      },
-    },
-  });
-
-  // Calculate new balances
-  const newSenderBalance = (BigInt(senderBalance?.balance || '0') - tokenOp.amount).toString();
-  const newReceiverBalance = (BigInt(receiverBalance?.balance || '0') + tokenOp.amount).toString();
-
-  // Update balances
-  await prisma.$transaction([
-    // Debit sender
-    prisma.tokenBalance.update({
-      where: {
-        address_tokenId: {
-          address: fromAddress,
-          tokenId: tokenOp.tokenId,
-        },
-      },
-      data: {
-        balance: newSenderBalance,
-      },
-    }),
-
-    // Credit receiver
-    prisma.tokenBalance.upsert({
-      where: {
-        address_tokenId: {
-          address: toAddress,
-          tokenId: tokenOp.tokenId,
-        },
-      },
-      create: {
-        address: toAddress,
-        tokenId: tokenOp.tokenId,
-        balance: tokenOp.amount.toString(),
-      },
-      update: {
-        balance: newReceiverBalance,
-      },
-    }),
+  await prisma.$transaction(async (db) => {
+    // Debit sender, credit receiver (fails on insufficient balance)
+    await postLedgerEntry(db, {
+      type: 'transfer',
+      tokenId: tokenOp.tokenId,
+      fromAddress,
+      toAddress,
+      amount: tokenOp.amount,
+      referenceId: txid,
+      txid,
+      metadata: { source: 'chain' },
+    });
 
     // Record transfer
-    prisma.tokenTransfer.create({
+    await db.tokenTransfer.create({
       data: {
-        txid: tx.txid || tx.id,
+        txid,
         tokenId: tokenOp.tokenId,
         fromAddress,
         toAddress,
         amount: tokenOp.amount.toString(),
         blockHeight: tx.blockHeight,
       },
-    }),
-  ]);
+    });
+  });
 }
 
 export async function processTokenBurn(
-  tokenOp: TokenOperation,
-  tx: any,
+  tokenOp: BurnTokenOperation,
+  tx: ArkadeTransaction,
   prisma: PrismaClient
 ) {
   const address = extractFromAddress(tx);
+  const txid = tx.txid;
 
-  // Get current balance
-  const currentBalance = await prisma.tokenBalance.findUnique({
-    where: {
-      address_tokenId: {
-        address,
-        tokenId: tokenOp.tokenId,
-      },
-    },
-  });
-
-  // Calculate new balance
-  const newBalance = (BigInt(currentBalance?.balance || '0') - tokenOp.amount).toString();
-
-  // Debit balance (burn)
-  await prisma.tokenBalance.update({
-    where: {
-      address_tokenId: {
-        address,
-        tokenId: tokenOp.tokenId,
-      },
-    },
-    data: {
-      balance: newBalance,
-    },
-  });
-
-  // Record burn as transfer to null address
-  await prisma.tokenTransfer.create({
-    data: {
-      txid: tx.txid || tx.id,
+  await prisma.$transaction(async (db) => {
+    // Debit balance (burn)
+    await postLedgerEntry(db, {
+      type: 'burn',
       tokenId: tokenOp.tokenId,
       fromAddress: address,
-      toAddress: '0x0000000000000000000000000000000000000000',
-      amount: tokenOp.amount.toString(),
-      blockHeight: tx.blockHeight,
-    },
+      toAddress: burnAccount(tokenOp.tokenId),
+      amount: tokenOp.amount,
+      referenceId: txid,
+      txid,
+      metadata: { source: 'chain' },
+    });
+
+    // Record burn as transfer to the burn account
+    await db.tokenTransfer.create({
+      data: {
+        txid,
+        tokenId: tokenOp.tokenId,
+        fromAddress: address,
+        toAddress: burnAccount(tokenOp.tokenId),
+        amount: tokenOp.amount.toString(),
+        blockHeight: tx.blockHeight,
+      },
+    });
   });
 }
 
-function extractFromAddress(tx: any): string {
-  return tx.from || tx.inputs?.[0]?.address || 'unknown';
+// Validation rejects transactions without a sender or (for transfers) a recipient
+function extractFromAddress(tx: ArkadeTransaction): string {
+  if (!tx.from) {
+    throw new Error(`Transaction ${tx.txid} has no sender`);
+  }
+  return tx.from;
 }
 
-function extractToAddress(tx: any): string {
-  return tx.to || tx.outputs?.[0]?.address || 'unknown';
+function extractToAddress(tx: ArkadeTransaction): string {
+  if (!tx.to) {
+    throw new Error(`Transaction ${tx.txid} has no recipient`);
+  }
+  return tx.to;
 }
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { createMemoryDb, type MemoryDb } from '../testing/memoryDb';
+import { TokenSearchError, searchTokens } from './search';
+
+let memory: MemoryDb;
+// Rows the page query returns, and the SQL fragments it was given
+let pageRows: any[];
+let pageQueries: Prisma.Sql[][];
+
+function token(id: string, createdAt: string, holderCount = 0, transferVolume = '0') {
+  return { id, createdAt: new Date(createdAt), holderCount, transferVolume: new Prisma.Decimal(transferVolume) };
+}
+
+const decode = (cursor: string | null) => JSON.parse(Buffer.from(cursor!, 'base64url').toString('utf8'));
+const lastPageSql = () => pageQueries[pageQueries.length - 1]
+  .map((fragment) => ({ sql: fragment.sql.replace(/\s+/g, ' '), values: fragment.values }));
+
+beforeEach(() => {
+  memory = createMemoryDb();
+  pageRows = [];
+  pageQueries = [];
+  memory.onQueryRaw = (sql, values) => {
+    if (sql.includes('COUNT(*)::int AS total')) {
+      return [{ total: 3 }];
+    }
+    pageQueries.push(values.filter((v): v is Prisma.Sql => typeof v === 'object' && v !== null && 'sql' in v));
+    return pageRows;
+  };
+});
+
+describe('searchTokens', () => {
+  it('pages by creation time and continues after the last token', async () => {
+    pageRows = [token('t3', '2024-03-01T00:00:00Z'), token('t2', '2024-02-01T00:00:00Z'), token('t1', '2024-01-01T00:00:00Z')];
+
+    const first = await searchTokens(memory.client, { limit: 2 });
+
+    expect(first.total).toBe(3);
+    expect(first.tokens.map((t) => t.id)).toEqual(['t3', 't2']);
+    expect(decode(first.nextCursor)).toEqual({ key: '2024-02-01T00:00:00.000Z', id: 't2' });
+
+    pageRows = [token('t1', '2024-01-01T00:00:00Z')];
+    const second = await searchTokens(memory.client, { limit: 2, cursor: first.nextCursor! });
+
+    expect(second.nextCursor).toBeNull();
+    expect(lastPageSql()).toContainEqual({
+      sql: expect.stringContaining('WHERE ("createdAt", id) < ((?::timestamptz AT TIME ZONE \'UTC\'), ?)'),
+      values: ['2024-02-01T00:00:00.000Z', 't2'],
+    });
+  });
+
+  it('continues after the cursor in ascending order too', async () => {
+    pageRows = [token('t1', '2024-01-01T00:00:00Z'), token('t2', '2024-02-01T00:00:00Z')];
+    const first = await searchTokens(memory.client, { limit: 1, order: 'asc' });
+
+    await searchTokens(memory.client, { limit: 1, order: 'asc', cursor: first.nextCursor! });
+
+    expect(lastPageSql()).toContainEqual(expect.objectContaining({ sql: expect.stringContaining('("createdAt", id) > (') }));
+  });
+
+  it('keys the cursor on the sort value', async () => {
+    pageRows = [token('t1', '2024-01-01T00:00:00Z', 5, '10'), token('t2', '2024-02-01T00:00:00Z', 2, '123456789012345678901234567890')];
+
+    expect(decode((await searchTokens(memory.client, { limit: 1, sort: 'holders' })).nextCursor)).toEqual({ key: '5', id: 't1' });
+    pageRows.reverse();
+    expect(decode((await searchTokens(memory.client, { limit: 1, sort: 'volume' })).nextCursor))
+      .toEqual({ key: '123456789012345678901234567890', id: 't2' });
+  });
+
+  it('rejects a cursor that does not fit the sort', async () => {
+    pageRows = [token('t1', '2024-01-01T00:00:00Z'), token('t2', '2024-02-01T00:00:00Z')];
+    const byCreation = await searchTokens(memory.client, { limit: 1 });
+
+    await expect(searchTokens(memory.client, { limit: 1, sort: 'holders', cursor: byCreation.nextCursor! }))
+      .rejects.toBeInstanceOf(TokenSearchError);
+    await expect(searchTokens(memory.client, { limit: 1, cursor: 'not-a-cursor' })).rejects.toMatchObject({ code: 'invalid-cursor' });
+  });
+
+  it('matches the search text literally', async () => {
+    await searchTokens(memory.client, { limit: 1, q: 'A_b%' });
+
+    const where = lastPageSql().find((fragment) => fragment.sql.includes('LIKE'));
+    expect(where?.values).toEqual(['a\\_b\\%%', 'a\\_b\\%%', 'a_b%', 'a_b%']);
+  });
+});
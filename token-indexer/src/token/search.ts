@@ -0,0 +1,180 @@
+/**
+ * Token search - filtered, sorted and cursor-paginated token listing
+ *
+ * Name/symbol search matches a case-insensitive prefix or a trigram similarity
+ * (pg_trgm, GIN indexes on lower(name) and lower(symbol)). Results can be
+ * sorted by creation time, holder count or confirmed transfer volume; pages
+ * are keyset-paginated on (sort value, id). Holder count and volume are
+ * computed per row, after paging when the sort does not need them.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+export type TokenSortField = 'createdAt' | 'holders' | 'volume';
+
+export const TOKEN_SORT_FIELDS: TokenSortField[] = ['createdAt', 'holders', 'volume'];
+
+export type TokenSearchErrorCode = 'invalid-cursor';
+
+export class TokenSearchError extends Error {
+  constructor(message: string, public readonly code: TokenSearchErrorCode) {
+    super(message);
+    this.name = 'TokenSearchError';
+  }
+}
+
+export interface TokenSearchParams {
+  q?: string;
+  status?: string;
+  isPresale?: boolean;
+  creator?: string;
+  issuer?: string;
+  sort?: TokenSortField;
+  order?: 'desc' | 'asc';
+  limit: number;
+  cursor?: string;
+}
+
+export interface TokenSearchPage {
+  tokens: any[];
+  total: number;
+  nextCursor: string | null;
+}
+
+interface TokenCursor {
+  key: string;
+  id: string;
+}
+
+const SORT_COLUMNS: Record<TokenSortField, Prisma.Sql> = {
+  createdAt: Prisma.sql`"createdAt"`,
+  holders: Prisma.sql`"holderCount"`,
+  volume: Prisma.sql`"transferVolume"`,
+};
+
+function encodeCursor(cursor: TokenCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+function decodeCursor(value: string, sort: TokenSortField): TokenCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const validKey = sort === 'createdAt'
+      ? !Number.isNaN(Date.parse(cursor.key))
+      : /^\d+$/.test(cursor.key);
+    if (typeof cursor.key === 'string' && validKey && typeof cursor.id === 'string') {
+      return cursor;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new TokenSearchError('Invalid tokens cursor', 'invalid-cursor');
+}
+
+function cursorKey(sort: TokenSortField, key: string): Prisma.Sql {
+  if (sort === 'createdAt') {
+    // createdAt is stored as UTC without a zone
+    return Prisma.sql`(${key}::timestamptz AT TIME ZONE 'UTC')`;
+  }
+  return sort === 'holders' ? Prisma.sql`${Number(key)}::int` : Prisma.sql`${key}::numeric`;
+}
+
+function sortValue(sort: TokenSortField, token: any): string {
+  if (sort === 'createdAt') {
+    return (token.createdAt as Date).toISOString();
+  }
+  return sort === 'holders'
+    ? String(token.holderCount)
+    : (token.transferVolume as Prisma.Decimal).toFixed(0);
+}
+
+/**
+ * Escape LIKE wildcards so the query is matched literally
+ */
+function likePrefix(q: string): string {
+  return `${q.toLowerCase().replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+export async function searchTokens(db: Db, params: TokenSearchParams): Promise<TokenSearchPage> {
+  const sort = params.sort ?? 'createdAt';
+  const order = params.order ?? 'desc';
+  const cursor = params.cursor ? decodeCursor(params.cursor, sort) : null;
+
+  const filters: Prisma.Sql[] = [];
+  if (params.q) {
+    const q = params.q.toLowerCase();
+    filters.push(Prisma.sql`(
+      lower(name) LIKE ${likePrefix(q)} OR lower(symbol) LIKE ${likePrefix(q)}
+      OR lower(name) % ${q} OR lower(symbol) % ${q}
+    )`);
+  }
+  if (params.status) {
+    filters.push(Prisma.sql`status = ${params.status}`);
+  }
+  if (params.isPresale !== undefined) {
+    filters.push(Prisma.sql`"isPresale" = ${params.isPresale}`);
+  }
+  if (params.creator) {
+    filters.push(Prisma.sql`creator = ${params.creator}`);
+  }
+  if (params.issuer) {
+    filters.push(Prisma.sql`issuer = ${params.issuer}`);
+  }
+  const where = filters.length > 0 ? Prisma.sql`WHERE ${Prisma.join(filters, ' AND ')}` : Prisma.empty;
+
+  const [{ total }] = await db.$queryRaw<Array<{ total: number }>>`
+    SELECT COUNT(*)::int AS total FROM tokens ${where}
+  `;
+
+  const column = SORT_COLUMNS[sort];
+  const direction = order === 'desc' ? Prisma.sql`DESC` : Prisma.sql`ASC`;
+  const afterCursor = cursor
+    ? Prisma.sql`(${column}, id) ${order === 'desc' ? Prisma.sql`<` : Prisma.sql`>`} (${cursorKey(sort, cursor.key)}, ${cursor.id})`
+    : null;
+  const stats = Prisma.sql`
+    (SELECT COUNT(*) FROM token_balances b WHERE b."tokenId" = t.id AND b.balance > 0)::int AS "holderCount",
+    (SELECT COALESCE(SUM(tr.amount), 0) FROM token_transfers tr
+      WHERE tr."tokenId" = t.id AND tr.status = 'confirmed') AS "transferVolume"
+  `;
+
+  let rows: any[];
+  if (sort === 'createdAt') {
+    // Page on tokens first, so the counts only run for the rows returned
+    const page = afterCursor ? [...filters, afterCursor] : filters;
+    const pageWhere = page.length > 0 ? Prisma.sql`WHERE ${Prisma.join(page, ' AND ')}` : Prisma.empty;
+    rows = await db.$queryRaw<any[]>`
+      SELECT t.*, ${stats}
+      FROM (
+        SELECT * FROM tokens
+        ${pageWhere}
+        ORDER BY ${column} ${direction}, id ${direction}
+        LIMIT ${params.limit + 1}
+      ) t
+      ORDER BY ${column} ${direction}, id ${direction}
+    `;
+  } else {
+    // Sorting by a count needs it for every matching token
+    rows = await db.$queryRaw<any[]>`
+      SELECT * FROM (
+        SELECT t.*, ${stats}
+        FROM tokens t
+        ${where}
+      ) listed
+      ${afterCursor ? Prisma.sql`WHERE ${afterCursor}` : Prisma.empty}
+      ORDER BY ${column} ${direction}, id ${direction}
+      LIMIT ${params.limit + 1}
+    `;
+  }
+
+  const tokens = rows.slice(0, params.limit);
+  const last = tokens[tokens.length - 1];
+  return {
+    tokens,
+    total,
+    nextCursor: rows.length > params.limit && last
+      ? encodeCursor({ key: sortValue(sort, last), id: last.id })
+      : null,
+  };
+}
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useMemoryDb, type MemoryDb } from '../testing/memoryDb';
+import { mintInitialSupply } from './presaleReserve';
+import { auditTokenSupply } from './supplyAudit';
+
+// balanceRebuild creates a client at import time
+vi.mock('@prisma/client', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  PrismaClient: (await import('../testing/prismaMock')).ForwardingPrismaClient,
+}));
+
+const TOKEN = 'token-1';
+const ISSUER = 'tark1issuer';
+
+let memory: MemoryDb;
+
+// Stands in for the ledger replay's SQL: per-address sums of the ledger, and no overdrafts
+function replayInMemory(sql: string) {
+  if (!sql.includes('GROUP BY')) {
+    return [];
+  }
+  const sums = new Map<string, { tokenId: string; address: string; balance: bigint }>();
+  const add = (tokenId: string, address: string, delta: bigint) => {
+    const sum = sums.get(`${tokenId}/${address}`) ?? { tokenId, address, balance: 0n };
+    sum.balance += delta;
+    sums.set(`${tokenId}/${address}`, sum);
+  };
+  for (const entry of memory.rows('ledgerEvent')) {
+    const amount = BigInt(entry.amount.toFixed(0));
+    add(entry.tokenId, entry.toAddress, amount);
+    add(entry.tokenId, entry.fromAddress, -amount);
+  }
+  return [...sums.values()].map((s) => ({ ...s, balance: s.balance.toString() }));
+}
+
+beforeEach(() => {
+  memory = useMemoryDb();
+  memory.onQueryRaw = replayInMemory;
+});
+
+async function createToken(overrides: Record<string, unknown> = {}) {
+  return memory.client.token.create({
+    data: {
+      id: TOKEN, name: 'Token', symbol: 'TKN', totalSupply: '1000', creator: ISSUER, issuer: ISSUER,
+      createdInTx: 'vtxo:0', ...overrides,
+    },
+  });
+}
+
+async function mintedToken(overrides: Record<string, unknown> = {}) {
+  const token = await createToken(overrides);
+  await mintInitialSupply(memory.client, token, ISSUER);
+  return token;
+}
+
+const audit = () => auditTokenSupply(memory.client, TOKEN);
+const codes = async () => (await audit())!.anomalies.map((a) => a.code);
+
+describe('auditTokenSupply', () => {
+  it('passes a minted token whose balances match the ledger', async () => {
+    await mintedToken({ status: 'confirmed', vtxoId: 'settlement-1' });
+
+    expect(await audit()).toMatchObject({
+      ok: true,
+      supply: { totalSupply: '1000', minted: '1000', circulating: '1000', balanceSum: '1000', holders: 1 },
+    });
+  });
+
+  it('expects no balances for a token awaiting settlement before its mint', async () => {
+    await createToken({ status: 'awaiting_settlement' });
+
+    expect(await audit()).toMatchObject({ ok: true, supply: { minted: '0', circulating: '0' } });
+  });
+
+  it('keeps auditing the balances of a minted token that failed or went back to pending', async () => {
+    await mintedToken({ status: 'failed' });
+    expect(await audit()).toMatchObject({ ok: true, supply: { circulating: '1000', balanceSum: '1000' } });
+
+    await memory.client.token.update({ where: { id: TOKEN }, data: { status: 'pending' } });
+    expect(await audit()).toMatchObject({ ok: true, supply: { circulating: '1000', balanceSum: '1000' } });
+  });
+
+  it('flags a settled token the ledger never minted', async () => {
+    await createToken({ status: 'confirmed', vtxoId: 'settlement-1' });
+
+    expect(await codes()).toEqual(['mint-mismatch']);
+  });
+
+  it('flags balances that drift from the ledger', async () => {
+    await mintedToken();
+    await memory.client.tokenBalance.update({
+      where: { address_tokenId: { address: ISSUER, tokenId: TOKEN } },
+      data: { balance: '900' },
+    });
+
+    expect(await codes()).toEqual(['supply-mismatch', 'ledger-mismatch']);
+  });
+
+  it('checks the presale reserve against what was sold', async () => {
+    await mintedToken({ isPresale: true, presaleBatchAmount: '100', priceInSats: '1000' });
+    await memory.client.presalePurchase.create({
+      data: { tokenId: TOKEN, walletAddress: 'tark1buyer', batchesPurchased: 11, totalPaid: '11000', txid: 'tx-1' },
+    });
+
+    const result = await audit();
+    expect(result!.presale).toMatchObject({ reserveSize: '1000', batchesSold: 11, reserveBalance: '1000', uncreditedPurchases: 1 });
+    expect(result!.anomalies.map((a) => a.code)).toEqual(['presale-oversold']);
+  });
+});
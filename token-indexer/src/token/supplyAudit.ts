@@ -0,0 +1,210 @@
+/**
+ * Supply audit - invariants every token's balances must satisfy
+ *
+ *   - the ledger minted exactly totalSupply (tokens minted or settled)
+ *   - balances sum to totalSupply minus burned
+ *   - no balance is negative, and each matches its ledger replay
+ *   - the token's burnedSupply and circulatingSupply counters match the ledger
+ *   - presale: batches sold fit in the reserve, and the reserve still holds
+ *     its size minus what was credited to buyers
+ *
+ * Read-only; the supply auditor job runs it for every token and raises alerts.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { toAmountString, toBigInt } from '../utils/decimal';
+import { diffAgainstLive, replayLedger } from './balanceRebuild';
+import { getLedgerBalance } from './ledger';
+import { presaleReserveAddress, presaleReserveSize } from './presaleReserve';
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+export type SupplyAnomalyCode =
+  | 'mint-mismatch'
+  | 'supply-mismatch'
+  | 'negative-balance'
+  | 'ledger-mismatch'
+  | 'supply-counter-mismatch'
+  | 'presale-oversold'
+  | 'presale-reserve-mismatch';
+
+export interface SupplyAnomaly {
+  code: SupplyAnomalyCode;
+  message: string;
+  address?: string;
+  expected?: string;
+  actual?: string;
+}
+
+export interface SupplyAudit {
+  tokenId: string;
+  symbol: string;
+  auditedAt: Date;
+  ok: boolean;
+  supply: {
+    totalSupply: string;
+    minted: string;
+    burned: string;
+    circulating: string; // totalSupply - burned
+    balanceSum: string;
+    holders: number;
+  };
+  presale: {
+    batchAmount: string;
+    reserveSize: string;
+    batchesSold: number;
+    soldAmount: string;
+    credited: string;
+    reserveBalance: string;
+    uncreditedPurchases: number;
+  } | null;
+  anomalies: SupplyAnomaly[];
+}
+
+async function sumLedger(db: Db, tokenId: string, type: string): Promise<bigint> {
+  const sum = await db.ledgerEvent.aggregate({ where: { tokenId, type }, _sum: { amount: true } });
+  return sum._sum.amount ? toBigInt(sum._sum.amount) : 0n;
+}
+
+/**
+ * Audit one token. Returns null if the token does not exist.
+ */
+export async function auditTokenSupply(db: Db, tokenId: string): Promise<SupplyAudit | null> {
+  const token = await db.token.findUnique({ where: { id: tokenId } });
+  if (!token) {
+    return null;
+  }
+
+  const anomalies: SupplyAnomaly[] = [];
+  const totalSupply = toBigInt(token.totalSupply);
+  const minted = await sumLedger(db, tokenId, 'create');
+  const burned = await sumLedger(db, tokenId, 'burn');
+  // Minted is read from the ledger, not the status: a token registered before
+  // its CREATE confirmed is minted only when settled, and a failed or reorged
+  // token keeps whatever was minted. A settled token must have been minted.
+  const isMinted = minted > 0n;
+
+  if ((isMinted || token.vtxoId) && minted !== totalSupply) {
+    anomalies.push({
+      code: 'mint-mismatch',
+      message: `Ledger minted ${minted}, total supply is ${totalSupply}`,
+      expected: totalSupply.toString(),
+      actual: minted.toString(),
+    });
+  }
+
+  const sum = await db.tokenBalance.aggregate({ where: { tokenId }, _sum: { balance: true } });
+  const balanceSum = sum._sum.balance ? toBigInt(sum._sum.balance) : 0n;
+  const holders = await db.tokenBalance.count({ where: { tokenId, balance: { gt: 0 } } });
+  const circulating = isMinted ? totalSupply - burned : 0n;
+  if (balanceSum !== circulating) {
+    anomalies.push({
+      code: 'supply-mismatch',
+      message: `Balances sum to ${balanceSum}, expected ${circulating} (total supply minus burned)`,
+      expected: circulating.toString(),
+      actual: balanceSum.toString(),
+    });
+  }
+
+  const burnedSupply = toBigInt(token.burnedSupply);
+  if (burnedSupply !== burned) {
+    anomalies.push({
+      code: 'supply-counter-mismatch',
+      message: `Token burnedSupply is ${burnedSupply}, ledger burned ${burned}`,
+      expected: burned.toString(),
+      actual: burnedSupply.toString(),
+    });
+  }
+  const circulatingSupply = toBigInt(token.circulatingSupply);
+  if (circulatingSupply !== circulating) {
+    anomalies.push({
+      code: 'supply-counter-mismatch',
+      message: `Token circulatingSupply is ${circulatingSupply}, expected ${circulating}`,
+      expected: circulating.toString(),
+      actual: circulatingSupply.toString(),
+    });
+  }
+
+  const negative = await db.tokenBalance.findMany({
+    where: { tokenId, balance: { lt: 0 } },
+    select: { address: true, balance: true },
+  });
+  for (const b of negative) {
+    anomalies.push({
+      code: 'negative-balance',
+      message: `Negative balance ${toAmountString(b.balance)}`,
+      address: b.address,
+      actual: toAmountString(b.balance),
+    });
+  }
+
+  const replay = await replayLedger(db, tokenId);
+  for (const d of await diffAgainstLive(db, tokenId, replay.balances)) {
+    anomalies.push({
+      code: 'ledger-mismatch',
+      message: `Balance ${d.live ?? 0} does not match the ledger (${d.rebuilt ?? 0})`,
+      address: d.address,
+      expected: d.rebuilt ?? '0',
+      actual: d.live ?? '0',
+    });
+  }
+
+  let presale: SupplyAudit['presale'] = null;
+  const reserveSize = presaleReserveSize(token);
+  if (reserveSize > 0n) {
+    const batchAmount = BigInt(token.presaleBatchAmount || '0');
+    const sold = await db.presalePurchase.aggregate({ where: { tokenId }, _sum: { batchesPurchased: true } });
+    const batchesSold = sold._sum.batchesPurchased ?? 0;
+    const soldAmount = batchAmount * BigInt(batchesSold);
+    const credited = await sumLedger(db, tokenId, 'presale_purchase');
+    const reserveAddress = presaleReserveAddress(tokenId);
+    const reserveBalance = await getLedgerBalance(db, reserveAddress, tokenId);
+    const uncreditedPurchases = await db.presalePurchase.count({ where: { tokenId, creditedAt: null } });
+
+    if (soldAmount > reserveSize) {
+      anomalies.push({
+        code: 'presale-oversold',
+        message: `Sold ${soldAmount} (${batchesSold} batches), reserve is ${reserveSize}`,
+        expected: reserveSize.toString(),
+        actual: soldAmount.toString(),
+      });
+    }
+
+    if (isMinted && reserveBalance !== reserveSize - credited) {
+      anomalies.push({
+        code: 'presale-reserve-mismatch',
+        message: `Reserve holds ${reserveBalance}, expected ${reserveSize - credited} (reserve minus credited)`,
+        address: reserveAddress,
+        expected: (reserveSize - credited).toString(),
+        actual: reserveBalance.toString(),
+      });
+    }
+
+    presale = {
+      batchAmount: batchAmount.toString(),
+      reserveSize: reserveSize.toString(),
+      batchesSold,
+      soldAmount: soldAmount.toString(),
+      credited: credited.toString(),
+      reserveBalance: reserveBalance.toString(),
+      uncreditedPurchases,
+    };
+  }
+
+  return {
+    tokenId,
+    symbol: token.symbol,
+    auditedAt: new Date(),
+    ok: anomalies.length === 0,
+    supply: {
+      totalSupply: totalSupply.toString(),
+      minted: minted.toString(),
+      burned: burned.toString(),
+      circulating: circulating.toString(),
+      balanceSum: balanceSum.toString(),
+      holders,
+    },
+    presale,
+    anomalies,
+  };
+}
@@ -0,0 +1,268 @@
+/**
+ * Ticker registry - one token per ticker, first confirmed claim wins
+ *
+ * Symbols are compared in normalized form (normalizeTicker: case, confusable
+ * and invisible characters), so "MTK", "mtk" and "MTK" spelled with a
+ * Cyrillic letter are one ticker. Reserved tickers cannot be claimed.
+ *
+ * A token claims its ticker when its ARK CREATE confirms. Claims rank by
+ * priority height - the height of the ARK COMMIT the CREATE revealed, or the
+ * CREATE's own height without one - then by CREATE height, then by txid.
+ * A better-ranked claim displaces the holder until the holder's CREATE has
+ * CLAIM_FINALITY_BLOCKS confirmations, and the displaced token fails.
+ * Settlement waits for the claim to be final, so a displaced token never mints
+ * and has no balances to undo. Its presale cannot sell (it is no longer
+ * confirmed): its open purchase requests are canceled, so the refund processor
+ * returns their payments, including ones that arrive after the cancel.
+ */
+
+import { Prisma, PrismaClient, Token } from '@prisma/client';
+import { decodeArkCreate, normalizeTicker, tickerCommitment } from '@arkade-token/sdk';
+import { TICKER_CONFIG } from '../config/tickers';
+import { logger } from '../utils/logger';
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+type TickerToken = Pick<Token, 'id' | 'symbol' | 'creator' | 'issuer' | 'opReturnData'>;
+
+export type TickerErrorCode = 'invalid-ticker' | 'reserved' | 'taken';
+
+export class TickerError extends Error {
+  constructor(message: string, public readonly code: TickerErrorCode) {
+    super(message);
+    this.name = 'TickerError';
+  }
+}
+
+export interface TickerClaimView {
+  ticker: string;
+  tokenId: string;
+  symbol: string;
+  priorityHeight: number;
+  claimHeight: number;
+  commitTxid: string | null;
+  final: boolean;
+}
+
+export interface TickerClaimResult {
+  ticker: string;
+  claimed: boolean;
+  heldBy: string; // Token holding the ticker after the claim
+  displacedTokenId?: string;
+}
+
+const RESERVED = new Set(TICKER_CONFIG.RESERVED.map(normalizeTicker));
+
+export function isReservedTicker(symbol: string): boolean {
+  return RESERVED.has(normalizeTicker(symbol));
+}
+
+/**
+ * A claim is final once its CREATE has enough confirmations. Claims made at
+ * registration (claimHeight 0) are final from the start. An unknown tip
+ * height counts as not final.
+ */
+export function isClaimFinal(claim: { claimHeight: number }, tipHeight: number | null): boolean {
+  if (claim.claimHeight === 0) {
+    return true;
+  }
+  return tipHeight !== null && tipHeight - claim.claimHeight + 1 >= TICKER_CONFIG.CLAIM_FINALITY_BLOCKS;
+}
+
+async function lockTicker(tx: Prisma.TransactionClient, ticker: string): Promise<void> {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`ticker:${ticker}`}))`;
+}
+
+/**
+ * Current claim on a symbol's ticker, or null if nobody holds it
+ */
+export async function getTickerClaim(db: Db, symbol: string, tipHeight: number | null): Promise<TickerClaimView | null> {
+  const ticker = normalizeTicker(symbol);
+  const claim = await db.ticker.findUnique({
+    where: { ticker },
+    include: { token: { select: { symbol: true } } },
+  });
+  if (!claim) {
+    return null;
+  }
+  return {
+    ticker,
+    tokenId: claim.tokenId,
+    symbol: claim.token.symbol,
+    priorityHeight: claim.priorityHeight,
+    claimHeight: claim.claimHeight,
+    commitTxid: claim.commitTxid,
+    final: isClaimFinal(claim, tipHeight),
+  };
+}
+
+/**
+ * Refuse a symbol that is reserved or whose ticker is finally held.
+ * A claim that is not final yet can still be beaten, so it does not block,
+ * and neither does a claim held by exemptTokenId.
+ */
+export async function assertTickerAvailable(
+  db: Db,
+  symbol: string,
+  tipHeight: number | null,
+  exemptTokenId?: string
+): Promise<void> {
+  const ticker = normalizeTicker(symbol);
+  if (!ticker) {
+    throw new TickerError(`Symbol "${symbol}" is empty after normalization`, 'invalid-ticker');
+  }
+  if (RESERVED.has(ticker)) {
+    throw new TickerError(`Ticker ${ticker} is reserved`, 'reserved');
+  }
+  const claim = await getTickerClaim(db, symbol, tipHeight);
+  if (claim && claim.final && claim.tokenId !== exemptTokenId) {
+    throw new TickerError(`Ticker ${ticker} is held by token ${claim.tokenId}`, 'taken');
+  }
+}
+
+/**
+ * Record an ARK COMMIT; called again with its height once it confirms
+ */
+export async function recordTickerCommitment(
+  db: Db,
+  txid: string,
+  commitment: Buffer,
+  blockHeight: number | null
+): Promise<void> {
+  await db.tickerCommitment.upsert({
+    where: { txid },
+    update: { blockHeight },
+    create: { txid, commitment: commitment.toString('hex'), blockHeight },
+  });
+}
+
+/**
+ * Commitment a token's CREATE reveals (hex), or null if it reveals none.
+ * The reveal counts only for the symbol the token registered, and not before
+ * the creator is known (tokens discovered on L1 have none until registered).
+ */
+export function revealedCommitment(token: TickerToken): string | null {
+  const creator = token.issuer || token.creator;
+  if (!token.opReturnData || !creator) {
+    return null;
+  }
+
+  let salt: Buffer | undefined;
+  let symbol: string;
+  try {
+    ({ tickerSalt: salt, symbol } = decodeArkCreate(Buffer.from(token.opReturnData, 'hex')));
+  } catch {
+    return null;
+  }
+  if (!salt || normalizeTicker(symbol) !== normalizeTicker(token.symbol)) {
+    return null;
+  }
+  return tickerCommitment(symbol, creator, salt).toString('hex');
+}
+
+/**
+ * The confirmed COMMIT a token's CREATE reveals, if any. It must have
+ * confirmed before the CREATE and at most COMMIT_MAX_AGE_BLOCKS earlier.
+ */
+async function findRevealedCommit(db: Db, token: TickerToken, claimHeight: number) {
+  const commitment = revealedCommitment(token);
+  if (!commitment) {
+    return null;
+  }
+  return db.tickerCommitment.findFirst({
+    where: {
+      commitment,
+      blockHeight: { lt: claimHeight, gte: claimHeight - TICKER_CONFIG.COMMIT_MAX_AGE_BLOCKS },
+    },
+    orderBy: [{ blockHeight: 'asc' }, { txid: 'asc' }],
+  });
+}
+
+/**
+ * Fail a token that lost its ticker and cancel its open purchase requests
+ */
+async function failTickerLoser(tx: Prisma.TransactionClient, tokenId: string, ticker: string): Promise<void> {
+  await tx.token.update({ where: { id: tokenId }, data: { status: 'failed' } });
+  const { count } = await tx.purchaseRequest.updateMany({
+    where: { tokenId, status: { in: ['pending', 'processing'] } },
+    data: {
+      status: 'rejected',
+      paymentStatus: 'rejected',
+      rejectionReason: `Token failed: ticker ${ticker} is held by another token`,
+      rejectionCode: 'canceled',
+      processedAt: new Date(),
+    },
+  });
+  if (count > 0) {
+    logger.warn({ tokenId, ticker, canceled: count }, '🏷️ Canceled open purchase requests of a token that lost its ticker');
+  }
+}
+
+function ranksBefore(
+  a: { priorityHeight: number; claimHeight: number; tokenId: string },
+  b: { priorityHeight: number; claimHeight: number; tokenId: string }
+): boolean {
+  if (a.priorityHeight !== b.priorityHeight) {
+    return a.priorityHeight < b.priorityHeight;
+  }
+  if (a.claimHeight !== b.claimHeight) {
+    return a.claimHeight < b.claimHeight;
+  }
+  return a.tokenId < b.tokenId;
+}
+
+/**
+ * Claim a token's ticker for its CREATE confirmed at claimHeight. The losing
+ * token - this one, or the holder it displaced - is marked failed and its open
+ * purchase requests canceled; notifying it is up to the caller. A claim at
+ * registration (claimHeight 0) is final at once but only takes a free ticker;
+ * it throws TickerError otherwise. Safe to call again for the same token.
+ */
+export async function claimTicker(
+  tx: Prisma.TransactionClient,
+  token: TickerToken,
+  claimHeight: number,
+  tipHeight: number | null
+): Promise<TickerClaimResult> {
+  const ticker = normalizeTicker(token.symbol);
+  await lockTicker(tx, ticker);
+
+  const commit = claimHeight > 0 ? await findRevealedCommit(tx, token, claimHeight) : null;
+  const claim = {
+    tokenId: token.id,
+    priorityHeight: commit?.blockHeight ?? claimHeight,
+    claimHeight,
+    commitTxid: commit?.txid ?? null,
+  };
+
+  const held = await tx.ticker.findUnique({ where: { ticker } });
+  if (!held || held.tokenId === token.id) {
+    await tx.ticker.upsert({
+      where: { ticker },
+      update: claim,
+      create: { ticker, ...claim },
+    });
+    return { ticker, claimed: true, heldBy: token.id };
+  }
+
+  // A token registered as already confirmed has no height to rank by
+  if (claimHeight === 0) {
+    throw new TickerError(`Ticker ${ticker} is held by token ${held.tokenId}`, 'taken');
+  }
+  if (isClaimFinal(held, tipHeight) || !ranksBefore(claim, held)) {
+    await failTickerLoser(tx, token.id, ticker);
+    logger.warn({ tokenId: token.id, ticker, heldBy: held.tokenId }, '🏷️ Ticker already claimed; token failed');
+    return { ticker, claimed: false, heldBy: held.tokenId };
+  }
+
+  await failTickerLoser(tx, held.tokenId, ticker);
+  await tx.ticker.update({ where: { ticker }, data: claim });
+  logger.warn({
+    tokenId: token.id,
+    ticker,
+    displacedTokenId: held.tokenId,
+    priorityHeight: claim.priorityHeight,
+    commitTxid: claim.commitTxid
+  }, '🏷️ Ticker claim displaced an earlier, lower-ranked claim');
+  return { ticker, claimed: true, heldBy: token.id, displacedTokenId: held.tokenId };
+}
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryDb, type MemoryDb } from '../testing/memoryDb';
+import { LedgerError, getLedgerBalance, issuanceAccount, postLedgerEntry } from './ledger';
+import {
+  describeBalance,
+  failTransfer,
+  getPendingTransferTotals,
+  recordApiTransfer,
+  settleTransfer,
+  type ApiTransferRecord,
+} from './transfers';
+
+const TOKEN = 'token-1';
+const SENDER = 'tark1sender';
+const RECIPIENT = 'tark1recipient';
+
+let memory: MemoryDb;
+
+beforeEach(async () => {
+  memory = createMemoryDb();
+  await memory.client.token.create({
+    data: { id: TOKEN, name: 'Token', symbol: 'TKN', totalSupply: '1000', creator: SENDER, createdInTx: 'vtxo:0' },
+  });
+  await memory.client.$transaction((tx) => postLedgerEntry(tx, {
+    type: 'create', tokenId: TOKEN, fromAddress: issuanceAccount(TOKEN), toAddress: SENDER,
+    amount: 1000n, referenceId: TOKEN, metadata: { source: 'api' },
+  }));
+});
+
+let nonces = 0;
+
+function record(vtxoId: string, amount: string): ApiTransferRecord {
+  return {
+    tokenId: TOKEN, fromAddress: SENDER, toAddress: RECIPIENT, amount, vtxoId,
+    nonce: `nonce-${++nonces}`, publicKey: 'pubkey', signature: 'signature',
+  };
+}
+
+const transfer = (vtxoId: string, amount: string, verified = false) =>
+  memory.client.$transaction((tx) => recordApiTransfer(tx, record(vtxoId, amount), verified));
+
+const balance = (address: string) => getLedgerBalance(memory.client, address, TOKEN);
+
+describe('recordApiTransfer', () => {
+  it('holds an unverified transfer as pending and reserves its VTXO', async () => {
+    await transfer('vtxo-1', '400');
+
+    expect(memory.rows('tokenTransfer')[0]).toMatchObject({ status: 'pending', nonce: `nonce-${nonces}` });
+    expect(memory.rows('vtxoUsage')).toEqual([expect.objectContaining({ outpoint: 'vtxo-1' })]);
+    expect(await balance(RECIPIENT)).toBe(0n);
+  });
+
+  it('settles a verified transfer right away', async () => {
+    await transfer('vtxo-1', '400', true);
+
+    expect(memory.rows('tokenTransfer')[0]).toMatchObject({ status: 'confirmed', confirmedAt: expect.any(Date) });
+    expect(await balance(SENDER)).toBe(600n);
+    expect(await balance(RECIPIENT)).toBe(400n);
+  });
+
+  it('does not let pending transfers spend the same balance twice', async () => {
+    await transfer('vtxo-1', '700');
+
+    await expect(transfer('vtxo-2', '400')).rejects.toBeInstanceOf(LedgerError);
+    expect(memory.rows('tokenTransfer')).toHaveLength(1);
+  });
+
+  it('rejects a VTXO that is already reserved', async () => {
+    await transfer('vtxo-1', '100');
+
+    await expect(transfer('vtxo-1', '100')).rejects.toMatchObject({ code: 'P2002' });
+  });
+});
+
+describe('settleTransfer and failTransfer', () => {
+  it('apply to a pending transfer only once', async () => {
+    const pending = await transfer('vtxo-1', '400');
+
+    expect(await memory.client.$transaction((tx) => settleTransfer(tx, pending))).toBe(true);
+    expect(await memory.client.$transaction((tx) => settleTransfer(tx, pending))).toBe(false);
+    expect(await memory.client.$transaction((tx) => failTransfer(tx, pending, 'late'))).toBe(false);
+    expect(await balance(RECIPIENT)).toBe(400n);
+  });
+
+  it('fail a transfer and release its VTXO for reuse', async () => {
+    const pending = await transfer('vtxo-1', '400');
+
+    expect(await memory.client.$transaction((tx) => failTransfer(tx, pending, 'VTXO spent'))).toBe(true);
+
+    expect(memory.rows('tokenTransfer')[0]).toMatchObject({ status: 'failed', failureReason: 'VTXO spent', failedAt: expect.any(Date) });
+    expect(memory.rows('vtxoUsage')).toHaveLength(0);
+    await transfer('vtxo-1', '1000');
+  });
+});
+
+describe('getPendingTransferTotals and describeBalance', () => {
+  it('split the confirmed balance into available and in flight', async () => {
+    await transfer('vtxo-1', '300');
+    await transfer('vtxo-2', '200', true);
+
+    const sender = await getPendingTransferTotals(memory.client, SENDER);
+    const recipient = await getPendingTransferTotals(memory.client, RECIPIENT, TOKEN);
+
+    expect(describeBalance(await balance(SENDER), sender.get(TOKEN))).toEqual({
+      balance: '800', available: '500', pendingOutgoing: '300', pendingIncoming: '0',
+    });
+    expect(describeBalance(await balance(RECIPIENT), recipient.get(TOKEN))).toEqual({
+      balance: '200', available: '200', pendingOutgoing: '0', pendingIncoming: '300',
+    });
+  });
+});
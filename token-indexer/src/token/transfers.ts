@@ -0,0 +1,199 @@
+/**
+ * API token transfers - applying verified transfers to balances
+ *
+ * A transfer recorded through the API starts out pending. Once the ASP has
+ * confirmed the sender's VTXO it is settled here: a ledger transfer entry
+ * moves the balances and the transfer becomes confirmed. A transfer that can never be confirmed is
+ * failed and its VTXO released, so the sender can use it again.
+ *
+ * Lifecycle: pending (timestamp) → confirmed (confirmedAt) | failed (failedAt)
+ *
+ * A burn is a transfer to the token's burn account: it goes through the same
+ * authorization, verification and lifecycle, and settles as a ledger burn.
+ *
+ * TokenBalance holds confirmed balances only. While transfers are pending,
+ * the sender's available balance is reduced by what it has pending outgoing.
+ */
+
+import { Prisma, PrismaClient, TokenTransfer } from '@prisma/client';
+import { toBigInt } from '../utils/decimal';
+import { LedgerError, burnAccount, getLedgerBalance, lockTokenLedger, postLedgerEntry } from './ledger';
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+export type TransferStatus = 'pending' | 'confirmed' | 'failed';
+
+export const TRANSFER_STATUSES: TransferStatus[] = ['pending', 'confirmed', 'failed'];
+
+export interface PendingTransferTotals {
+  pendingOutgoing: bigint;
+  pendingIncoming: bigint;
+}
+
+export interface ApiTransferRecord {
+  tokenId: string;
+  fromAddress: string;
+  toAddress: string;
+  amount: string;
+  vtxoId: string;
+  nonce: string;
+  publicKey: string;
+  signature: string;
+}
+
+export function isBurnTransfer(transfer: Pick<TokenTransfer, 'tokenId' | 'toAddress'>): boolean {
+  return transfer.toAddress === burnAccount(transfer.tokenId);
+}
+
+/**
+ * Record an authorized transfer as pending and reserve its VTXO; settle it
+ * right away if the VTXO is already verified. Throws LedgerError if the
+ * sender's available balance does not cover the amount.
+ */
+export async function recordApiTransfer(
+  tx: Prisma.TransactionClient,
+  record: ApiTransferRecord,
+  verified: boolean
+): Promise<TokenTransfer> {
+  // Check the sender's balance under the token's ledger lock, so concurrent
+  // transfers cannot both pass. Pending outgoing transfers are not spendable again.
+  await lockTokenLedger(tx, record.tokenId);
+  const pending = await getPendingTransferTotals(tx, record.fromAddress, record.tokenId);
+  const balance = await getLedgerBalance(tx, record.fromAddress, record.tokenId);
+  const { available } = describeBalance(balance, pending.get(record.tokenId));
+  if (BigInt(available) < BigInt(record.amount)) {
+    throw new LedgerError(`Insufficient balance: ${available} available, ${record.amount} needed`, 'insufficient-balance');
+  }
+
+  // Reserve the VTXO to prevent double-spending
+  await tx.vtxoUsage.create({
+    data: {
+      outpoint: record.vtxoId,
+      tokenId: record.tokenId,
+      usedInTx: record.vtxoId,
+    },
+  });
+
+  // Record transfer with the sender's authorization (unique nonce blocks replays)
+  const transfer = await tx.tokenTransfer.create({
+    data: {
+      txid: record.vtxoId,
+      tokenId: record.tokenId,
+      fromAddress: record.fromAddress,
+      toAddress: record.toAddress,
+      amount: record.amount,
+      nonce: record.nonce,
+      signerPublicKey: record.publicKey,
+      signature: record.signature,
+      status: 'pending',
+    },
+  });
+
+  if (verified) {
+    await settleTransfer(tx, transfer);
+  }
+  return transfer;
+}
+
+/**
+ * Post a pending transfer to the ledger and mark it confirmed. Throws
+ * LedgerError if the sender's balance no longer covers it (the caller's
+ * transaction then rolls back).
+ *
+ * @returns false if the transfer was no longer pending (settled elsewhere)
+ */
+export async function settleTransfer(tx: Prisma.TransactionClient, transfer: TokenTransfer): Promise<boolean> {
+  await lockTokenLedger(tx, transfer.tokenId);
+
+  const claimed = await tx.tokenTransfer.updateMany({
+    where: { id: transfer.id, status: 'pending' },
+    data: { status: 'confirmed', confirmedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    return false;
+  }
+
+  await postLedgerEntry(tx, {
+    type: isBurnTransfer(transfer) ? 'burn' : 'transfer',
+    tokenId: transfer.tokenId,
+    fromAddress: transfer.fromAddress,
+    toAddress: transfer.toAddress,
+    amount: toBigInt(transfer.amount),
+    referenceId: transfer.id,
+    txid: transfer.txid,
+    metadata: { source: 'api' },
+  });
+
+  return true;
+}
+
+/**
+ * Fail a pending transfer and release its VTXO
+ *
+ * @returns false if the transfer was no longer pending
+ */
+export async function failTransfer(tx: Prisma.TransactionClient, transfer: TokenTransfer, reason: string): Promise<boolean> {
+  const failed = await tx.tokenTransfer.updateMany({
+    where: { id: transfer.id, status: 'pending' },
+    data: { status: 'failed', failureReason: reason, failedAt: new Date() },
+  });
+  if (failed.count === 0) {
+    return false;
+  }
+
+  await tx.vtxoUsage.deleteMany({
+    where: { outpoint: transfer.txid, usedInTx: transfer.txid },
+  });
+  return true;
+}
+
+/**
+ * Pending transfer totals of an address, by token
+ */
+export async function getPendingTransferTotals(
+  db: Db,
+  address: string,
+  tokenId?: string
+): Promise<Map<string, PendingTransferTotals>> {
+  const [outgoing, incoming] = await Promise.all([
+    db.tokenTransfer.groupBy({
+      by: ['tokenId'],
+      where: { status: 'pending', fromAddress: address, ...(tokenId ? { tokenId } : {}) },
+      _sum: { amount: true },
+    }),
+    db.tokenTransfer.groupBy({
+      by: ['tokenId'],
+      where: { status: 'pending', toAddress: address, ...(tokenId ? { tokenId } : {}) },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const totals = new Map<string, PendingTransferTotals>();
+  const entry = (id: string) => {
+    const existing = totals.get(id) ?? { pendingOutgoing: 0n, pendingIncoming: 0n };
+    totals.set(id, existing);
+    return existing;
+  };
+  for (const row of outgoing) {
+    entry(row.tokenId).pendingOutgoing += row._sum.amount ? toBigInt(row._sum.amount) : 0n;
+  }
+  for (const row of incoming) {
+    entry(row.tokenId).pendingIncoming += row._sum.amount ? toBigInt(row._sum.amount) : 0n;
+  }
+  return totals;
+}
+
+/**
+ * Confirmed balance split into what the address can spend now and what is in flight
+ */
+export function describeBalance(balance: bigint, pending?: PendingTransferTotals) {
+  const pendingOutgoing = pending?.pendingOutgoing ?? 0n;
+  const pendingIncoming = pending?.pendingIncoming ?? 0n;
+  const available = balance > pendingOutgoing ? balance - pendingOutgoing : 0n;
+  return {
+    balance: balance.toString(),
+    available: available.toString(),
+    pendingOutgoing: pendingOutgoing.toString(),
+    pendingIncoming: pendingIncoming.toString(),
+  };
+}
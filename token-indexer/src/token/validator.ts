@@ -3,7 +3,10 @@
  */
 
 import { PrismaClient } from '@prisma/client';
-import { TokenOperation, TokenOpType } from './parser';
+import { toBigInt } from '../utils/decimal';
+import { ArkadeTransaction } from './arkadeTx';
+import { CreateTokenOperation, TokenOperation, TokenOpType } from './parser';
+import { getTickerClaim, isReservedTicker } from './tickers';
 
 export interface ValidationResult {
   valid: boolean;
@@ -12,9 +15,13 @@ export interface ValidationResult {
 
 export async function validateTokenOperation(
   tokenOp: TokenOperation,
-  tx: any,
+  tx: ArkadeTransaction,
   prisma: PrismaClient
 ): Promise<ValidationResult> {
+  if (!tx.from) {
+    return { valid: false, reason: 'Sender unknown: spent VTXOs have no single owner' };
+  }
+
   switch (tokenOp.opType) {
     case TokenOpType.CREATE:
       return validateCreate(tokenOp, tx, prisma);
@@ -31,8 +38,8 @@ export async function validateTokenOperation(
 }
 
 async function validateCreate(
-  tokenOp: TokenOperation,
-  tx: any,
+  tokenOp: CreateTokenOperation,
+  tx: ArkadeTransaction,
   prisma: PrismaClient
 ): Promise<ValidationResult> {
   // Check if token already exists
@@ -44,12 +51,21 @@ async function validateCreate(
     return { valid: false, reason: 'Token already exists' };
   }
 
+  // An L2 CREATE has no block height to rank by, so it only takes a free ticker
+  if (isReservedTicker(tokenOp.symbol)) {
+    return { valid: false, reason: 'Ticker is reserved' };
+  }
+  const claim = await getTickerClaim(prisma, tokenOp.symbol, null);
+  if (claim) {
+    return { valid: false, reason: `Ticker ${claim.ticker} is held by token ${claim.tokenId}` };
+  }
+
   return { valid: true };
 }
 
 async function validateTransfer(
   tokenOp: TokenOperation,
-  tx: any,
+  tx: ArkadeTransaction,
   prisma: PrismaClient
 ): Promise<ValidationResult> {
   // Check if token exists
@@ -61,8 +77,16 @@ async function validateTransfer(
     return { valid: false, reason: 'Token does not exist' };
   }
 
+  if (!tx.to) {
+    return { valid: false, reason: 'Transfer has no recipient' };
+  }
+
+  if (await isRecordedTransfer(tx.txid, prisma)) {
+    return { valid: false, reason: 'Transfer already recorded through the API' };
+  }
+
   // Check sender balance
-  const fromAddress = extractFromAddress(tx);
+  const fromAddress = tx.from!;
   const balance = await prisma.tokenBalance.findUnique({
     where: {
       address_tokenId: {
@@ -72,7 +96,7 @@ async function validateTransfer(
     },
   });
 
-  if (!balance || BigInt(balance.balance) < tokenOp.amount) {
+  if (!balance || toBigInt(balance.balance) < tokenOp.amount) {
     return { valid: false, reason: 'Insufficient balance' };
   }
 
@@ -81,7 +105,7 @@ async function validateTransfer(
 
 async function validateBurn(
   tokenOp: TokenOperation,
-  tx: any,
+  tx: ArkadeTransaction,
   prisma: PrismaClient
 ): Promise<ValidationResult> {
   // Similar to transfer validation
@@ -93,7 +117,11 @@ async function validateBurn(
     return { valid: false, reason: 'Token does not exist' };
   }
 
-  const address = extractFromAddress(tx);
+  if (await isRecordedTransfer(tx.txid, prisma)) {
+    return { valid: false, reason: 'Burn already recorded through the API' };
+  }
+
+  const address = tx.from!;
   const balance = await prisma.tokenBalance.findUnique({
     where: {
       address_tokenId: {
@@ -103,15 +131,15 @@ async function validateBurn(
     },
   });
 
-  if (!balance || BigInt(balance.balance) < tokenOp.amount) {
+  if (!balance || toBigInt(balance.balance) < tokenOp.amount) {
     return { valid: false, reason: 'Insufficient balance to burn' };
   }
 
   return { valid: true };
 }
 
-function extractFromAddress(tx: any): string {
-  // TODO: Extract from address from transaction
-  // This depends on transaction format from Arkade indexer
-  return tx.from || tx.inputs?.[0]?.address || 'unknown';
+// Transfers and burns submitted through the API are recorded under their VTXO txid
+async function isRecordedTransfer(txid: string, prisma: PrismaClient): Promise<boolean> {
+  const transfer = await prisma.tokenTransfer.findFirst({ where: { txid }, select: { id: true } });
+  return transfer !== null;
 }
@@ -0,0 +1,11 @@
+import { NetworkProfile, isArkadeAddressOf } from '@arkade-token/sdk';
+import { NETWORK_PROFILE } from '../config/network';
+
+export function isValidArkadeAddress(address: string, profile: NetworkProfile = NETWORK_PROFILE): boolean {
+  // Accept Arkade bech32-style addresses of the profile's network (mainnet ark1..., others tark1...)
+  // and keep backward compatibility with older/base58-like formats.
+  const a = (address || '').trim();
+  if (!a) return false;
+  const legacy = /^[a-km-zA-HJ-NP-Z1-9]{25,90}$/;
+  return isArkadeAddressOf(profile, a) || legacy.test(a);
+}
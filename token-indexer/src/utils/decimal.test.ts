@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { decimalJsonReplacer, toAmountString, toBigInt } from './decimal';
+
+const LARGE = '123456789012345678901234567890';
+
+describe('toBigInt and toAmountString', () => {
+  it('keep every digit of amounts past 1e21', () => {
+    const amount = new Prisma.Decimal(LARGE);
+
+    expect(amount.toString()).toMatch(/e\+/);
+    expect(toAmountString(amount)).toBe(LARGE);
+    expect(toBigInt(amount)).toBe(BigInt(LARGE));
+  });
+});
+
+describe('decimalJsonReplacer', () => {
+  it('writes Decimals as integer strings, at any depth', () => {
+    const body = {
+      totalSupply: new Prisma.Decimal(LARGE),
+      holders: [{ address: 'tark1holder', balance: new Prisma.Decimal('1000') }],
+    };
+
+    expect(JSON.parse(JSON.stringify(body, decimalJsonReplacer))).toEqual({
+      totalSupply: LARGE,
+      holders: [{ address: 'tark1holder', balance: '1000' }],
+    });
+  });
+
+  it('leaves other values as JSON.stringify writes them', () => {
+    const body = { name: 'Token', decimals: 8, amount: '1000', createdAt: new Date(0), missing: null };
+
+    expect(JSON.stringify(body, decimalJsonReplacer)).toBe(JSON.stringify(body));
+  });
+});
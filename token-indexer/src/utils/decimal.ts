@@ -0,0 +1,25 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Token amounts are NUMERIC(78,0) columns, which Prisma reads as Decimal.
+ * Decimal's own toString/toJSON switch to exponent notation past 1e21, so
+ * amounts leave the process as plain integer strings or bigints only.
+ */
+
+export function toBigInt(value: Prisma.Decimal): bigint {
+  return BigInt(value.toFixed(0));
+}
+
+export function toAmountString(value: Prisma.Decimal): string {
+  return value.toFixed(0);
+}
+
+/**
+ * JSON.stringify replacer (Express "json replacer") writing Decimals as
+ * integer strings, so API responses keep their decimal-string amounts.
+ * Socket.IO payloads do not go through it: emit amounts with toAmountString.
+ */
+export function decimalJsonReplacer(this: any, key: string, value: unknown): unknown {
+  const raw = this[key];
+  return Prisma.Decimal.isDecimal(raw) ? toAmountString(raw) : value;
+}
@@ -0,0 +1,57 @@
+/**
+ * secp256k1 helpers for public key derivation, key tweaking and BIP340
+ * signature verification, on top of @noble/curves.
+ */
+
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1';
+
+const { ProjectivePoint } = secp256k1;
+
+export const SECP256K1_N = secp256k1.CURVE.n;
+
+/**
+ * Compressed public key (hex) of a private key (hex)
+ */
+export function publicKeyFromPrivate(privateKeyHex: string): string {
+  return Buffer.from(secp256k1.getPublicKey(privateKeyHex, true)).toString('hex');
+}
+
+/**
+ * publicKey + tweak·G, as a compressed public key (hex).
+ * Matches the public key of (privateKey + tweak) mod n.
+ */
+export function tweakPublicKey(publicKeyHex: string, tweak: bigint): string {
+  const scalar = ((tweak % SECP256K1_N) + SECP256K1_N) % SECP256K1_N;
+  const point = ProjectivePoint.fromHex(publicKeyHex).add(ProjectivePoint.BASE.multiply(scalar));
+  return point.toHex(true);
+}
+
+/**
+ * Whether a string is a valid compressed secp256k1 public key (hex)
+ */
+export function isCompressedPublicKey(value: string): boolean {
+  if (!/^0[23][0-9a-fA-F]{64}$/.test(value)) {
+    return false;
+  }
+  try {
+    ProjectivePoint.fromHex(value).assertValidity();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify a BIP340 Schnorr signature (hex, 64 bytes) over a 32-byte message
+ * against an x-only public key (hex, 32 bytes)
+ */
+export function verifySchnorr(signatureHex: string, message: Uint8Array, xOnlyPublicKeyHex: string): boolean {
+  if (!/^[0-9a-fA-F]{128}$/.test(signatureHex) || !/^[0-9a-fA-F]{64}$/.test(xOnlyPublicKeyHex) || message.length !== 32) {
+    return false;
+  }
+  try {
+    return schnorr.verify(signatureHex, message, xOnlyPublicKeyHex);
+  } catch {
+    return false;
+  }
+}
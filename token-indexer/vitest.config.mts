@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // config/network.ts refuses to load without a network
+    env: { NETWORK: 'regtest' },
+  },
+});
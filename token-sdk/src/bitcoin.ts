@@ -1,6 +1,8 @@
 import * as bitcoin from 'bitcoinjs-lib';
 import { ECPairFactory, ECPairInterface, ECPairAPI } from 'ecpair';
 import * as ecc from '@bitcoinerlab/secp256k1';
+import { NetworkProfile, explorerTxUrl } from './network';
+import { TokenClaim, tokenClaimDigest } from './codec';
 
 // Initialize ECPair with synchronous secp256k1 library
 const ECPair = ECPairFactory(ecc);
@@ -16,10 +18,6 @@ export function initECC() {
   return ECPair;
 }
 
-// Bitcoin Mainnet configuration
-const NETWORK = bitcoin.networks.bitcoin;
-const ESPLORA_API = 'https://mempool.space/api';
-
 export interface BitcoinUTXO {
   txid: string;
   vout: number;
@@ -46,9 +44,9 @@ export class BitcoinClient {
   private network: bitcoin.Network;
   private esploraUrl: string;
 
-  constructor(network: bitcoin.Network = NETWORK, esploraUrl: string = ESPLORA_API) {
-    this.network = network;
-    this.esploraUrl = esploraUrl;
+  constructor(private readonly profile: NetworkProfile) {
+    this.network = profile.bitcoinNetwork;
+    this.esploraUrl = profile.esploraUrl;
   }
 
   /**
@@ -80,6 +78,19 @@ export class BitcoinClient {
     return address;
   }
 
+  /**
+   * Sign a token claim with a hex private key (the key that funded the CREATE).
+   * Returns the compressed public key and the BIP340 signature, both hex.
+   */
+  signTokenClaim(privateKeyHex: string, claim: TokenClaim): { publicKey: string; signature: string } {
+    const keyPair = ECPair.fromPrivateKey(Buffer.from(privateKeyHex, 'hex'), { network: this.network });
+    const signature = ecc.signSchnorr(tokenClaimDigest(claim), keyPair.privateKey!);
+    return {
+      publicKey: Buffer.from(keyPair.publicKey).toString('hex'),
+      signature: Buffer.from(signature).toString('hex'),
+    };
+  }
+
   /**
    * Get UTXOs for a Bitcoin address
    */
@@ -289,7 +300,7 @@ export class BitcoinClient {
       
       console.log(' Transaction broadcast successful!');
       console.log(`   TXID: ${txid}`);
-      console.log(`   Explorer: https://mempool.space/tx/${txid}`);
+      console.log(`   Explorer: ${explorerTxUrl(this.profile, txid) ?? '(none)'}`);
       
       return txid;
     } catch (error) {
@@ -0,0 +1,221 @@
+/**
+ * ARK protocol - Bitcoin L1 token CREATE proof carried in an OP_RETURN
+ *
+ * "ARK"(3) | VERSION(1) | CREATE(1) | NAME_LEN(1) | NAME(<=20) | SYMBOL_LEN(1) | SYMBOL(<=10)
+ *   | TOTAL_SUPPLY(u64 LE) | DECIMALS(1) | PRESALE_FLAG(1)
+ *   [ | BATCH_AMOUNT(u64 LE) | PRICE_IN_SATS(u64 LE) | MAX_PURCHASES(u16 LE) ]   (flag = 0x01)
+ *   [ | REVEAL_FLAG(1) = 0x01 | TICKER_SALT(12) ]
+ *
+ * "ARK"(3) | VERSION(1) | COMMIT(1) | COMMITMENT(32)
+ *
+ * Payloads written before the presale flag existed end after DECIMALS and
+ * are still accepted as non-presale tokens. The optional reveal section opens
+ * a ticker commitment made by an earlier COMMIT (see ./ticker.ts).
+ */
+
+import { TokenOpType } from '../types';
+import {
+  ByteReader,
+  encodeLengthPrefixedString,
+  encodeU16LE,
+  encodeU64LE,
+  encodeU8,
+} from './bytes';
+import { InvalidFieldError, PayloadTooLargeError, TrailingBytesError, UnknownOpTypeError } from './errors';
+import {
+  MAX_OP_RETURN_PAYLOAD,
+  PROTOCOL_REGISTRY,
+  assertKnownOpType,
+  assertSupportedVersion,
+  requireProtocol,
+} from './registry';
+
+export const ARK_MAX_NAME_BYTES = 20;
+export const ARK_MAX_SYMBOL_BYTES = 10;
+
+export const ARK_TICKER_SALT_BYTES = 12;
+export const ARK_COMMITMENT_BYTES = 32;
+
+const PRESALE_FLAG_NONE = 0x00;
+const PRESALE_FLAG_PRESENT = 0x01;
+const REVEAL_FLAG_PRESENT = 0x01;
+
+export interface ArkCreatePayload {
+  version: number;
+  name: string;
+  symbol: string;
+  totalSupply: bigint;
+  decimals: number;
+  isPresale: boolean;
+  presaleBatchAmount?: bigint;
+  priceInSats?: bigint;
+  maxPurchasesPerWallet?: number;
+  tickerSalt?: Buffer; // Present when the CREATE reveals a ticker commitment
+}
+
+export interface ArkCreateInput {
+  version?: number;
+  name: string;
+  symbol: string;
+  totalSupply: bigint;
+  decimals: number;
+  presaleBatchAmount?: bigint;
+  priceInSats?: bigint;
+  maxPurchasesPerWallet?: number;
+  tickerSalt?: Buffer;
+}
+
+export interface ArkCommitPayload {
+  version: number;
+  commitment: Buffer;
+}
+
+/**
+ * A token is a presale token only when all three presale fields are set
+ */
+export function hasArkPresale(data: Pick<ArkCreateInput, 'presaleBatchAmount' | 'priceInSats' | 'maxPurchasesPerWallet'>): boolean {
+  return !!(data.presaleBatchAmount && data.priceInSats && data.maxPurchasesPerWallet);
+}
+
+/**
+ * Encode an ARK CREATE proof payload
+ */
+export function encodeArkCreate(data: ArkCreateInput): Buffer {
+  const protocol = PROTOCOL_REGISTRY.ARK;
+  const version = data.version ?? protocol.currentVersion;
+  assertSupportedVersion('ARK', version);
+
+  const presale = hasArkPresale(data)
+    ? [
+        Buffer.from([PRESALE_FLAG_PRESENT]),
+        encodeU64LE('presaleBatchAmount', data.presaleBatchAmount!),
+        encodeU64LE('priceInSats', data.priceInSats!),
+        encodeU16LE('maxPurchasesPerWallet', data.maxPurchasesPerWallet!),
+      ]
+    : [Buffer.from([PRESALE_FLAG_NONE])];
+
+  const reveal = data.tickerSalt
+    ? [Buffer.from([REVEAL_FLAG_PRESENT]), fixedBytes('tickerSalt', data.tickerSalt, ARK_TICKER_SALT_BYTES)]
+    : [];
+
+  const payload = Buffer.concat([
+    protocol.magic,
+    Buffer.from([version]),
+    Buffer.from([TokenOpType.CREATE]),
+    encodeLengthPrefixedString('name', data.name, ARK_MAX_NAME_BYTES),
+    encodeLengthPrefixedString('symbol', data.symbol, ARK_MAX_SYMBOL_BYTES),
+    encodeU64LE('totalSupply', data.totalSupply),
+    encodeU8('decimals', data.decimals),
+    ...presale,
+    ...reveal,
+  ]);
+
+  if (payload.length > MAX_OP_RETURN_PAYLOAD) {
+    throw new PayloadTooLargeError(payload.length, MAX_OP_RETURN_PAYLOAD);
+  }
+  return payload;
+}
+
+/**
+ * Decode an ARK CREATE proof payload
+ */
+export function decodeArkCreate(payload: Uint8Array): ArkCreatePayload {
+  const protocol = requireProtocol(payload, 'ARK');
+  const reader = new ByteReader(Buffer.from(payload));
+  reader.readBytes('protocol', protocol.magic.length);
+
+  const version = reader.readU8('version');
+  assertSupportedVersion('ARK', version);
+  const opType = assertKnownOpType('ARK', reader.readU8('opType'));
+  if (opType !== TokenOpType.CREATE) {
+    throw new UnknownOpTypeError('ARK CREATE', opType);
+  }
+
+  const name = reader.readLengthPrefixedString('name');
+  const symbol = reader.readLengthPrefixedString('symbol');
+  const totalSupply = reader.readU64LE('totalSupply');
+  const decimals = reader.readU8('decimals');
+
+  const result: ArkCreatePayload = { version, name, symbol, totalSupply, decimals, isPresale: false };
+
+  if (reader.remaining > 0) {
+    const presaleFlag = reader.readU8('presaleFlag');
+    if (presaleFlag === PRESALE_FLAG_PRESENT) {
+      result.isPresale = true;
+      result.presaleBatchAmount = reader.readU64LE('presaleBatchAmount');
+      result.priceInSats = reader.readU64LE('priceInSats');
+      result.maxPurchasesPerWallet = reader.readU16LE('maxPurchasesPerWallet');
+    } else if (presaleFlag !== PRESALE_FLAG_NONE) {
+      throw new InvalidFieldError('presaleFlag', `unknown value 0x${presaleFlag.toString(16)}`);
+    }
+  }
+
+  if (reader.remaining > 0) {
+    const revealFlag = reader.readU8('revealFlag');
+    if (revealFlag !== REVEAL_FLAG_PRESENT) {
+      throw new InvalidFieldError('revealFlag', `unknown value 0x${revealFlag.toString(16)}`);
+    }
+    result.tickerSalt = Buffer.from(reader.readBytes('tickerSalt', ARK_TICKER_SALT_BYTES));
+  }
+
+  if (reader.remaining > 0) {
+    throw new TrailingBytesError('ARK', reader.remaining);
+  }
+  return result;
+}
+
+/**
+ * Encode an ARK COMMIT payload (a ticker commitment, see ./ticker.ts)
+ */
+export function encodeArkCommit(data: { version?: number; commitment: Buffer }): Buffer {
+  const protocol = PROTOCOL_REGISTRY.ARK;
+  const version = data.version ?? protocol.currentVersion;
+  assertSupportedVersion('ARK', version);
+
+  return Buffer.concat([
+    protocol.magic,
+    Buffer.from([version]),
+    Buffer.from([TokenOpType.COMMIT]),
+    fixedBytes('commitment', data.commitment, ARK_COMMITMENT_BYTES),
+  ]);
+}
+
+/**
+ * Decode an ARK COMMIT payload
+ */
+export function decodeArkCommit(payload: Uint8Array): ArkCommitPayload {
+  const protocol = requireProtocol(payload, 'ARK');
+  const reader = new ByteReader(Buffer.from(payload));
+  reader.readBytes('protocol', protocol.magic.length);
+
+  const version = reader.readU8('version');
+  assertSupportedVersion('ARK', version);
+  const opType = assertKnownOpType('ARK', reader.readU8('opType'));
+  if (opType !== TokenOpType.COMMIT) {
+    throw new UnknownOpTypeError('ARK COMMIT', opType);
+  }
+
+  const commitment = Buffer.from(reader.readBytes('commitment', ARK_COMMITMENT_BYTES));
+  if (reader.remaining > 0) {
+    throw new TrailingBytesError('ARK', reader.remaining);
+  }
+  return { version, commitment };
+}
+
+/**
+ * Op type of an ARK payload, without decoding the rest
+ */
+export function peekArkOpType(payload: Uint8Array): TokenOpType {
+  const protocol = requireProtocol(payload, 'ARK');
+  const reader = new ByteReader(Buffer.from(payload));
+  reader.readBytes('protocol', protocol.magic.length);
+  assertSupportedVersion('ARK', reader.readU8('version'));
+  return assertKnownOpType('ARK', reader.readU8('opType'));
+}
+
+function fixedBytes(field: string, value: Buffer, length: number): Buffer {
+  if (value.length !== length) {
+    throw new InvalidFieldError(field, `expected ${length} bytes, got ${value.length}`);
+  }
+  return value;
+}
@@ -0,0 +1,191 @@
+/**
+ * Bounds-checked byte primitives shared by every protocol in the codec
+ *
+ * 64-bit values are read/written byte by byte for browser compatibility
+ * (Buffer.readBigUInt64LE / writeBigUInt64LE are not available everywhere).
+ */
+
+import { InvalidFieldError, TruncatedPayloadError } from './errors';
+
+export const MAX_UINT64 = (1n << 64n) - 1n;
+
+/**
+ * Sequential reader that throws TruncatedPayloadError instead of reading past the end
+ */
+export class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly buf: Buffer) {}
+
+  get position(): number {
+    return this.offset;
+  }
+
+  get remaining(): number {
+    return this.buf.length - this.offset;
+  }
+
+  private require(field: string, length: number): void {
+    if (this.remaining < length) {
+      throw new TruncatedPayloadError(field, this.offset, length, this.remaining);
+    }
+  }
+
+  readU8(field: string): number {
+    this.require(field, 1);
+    const value = this.buf[this.offset];
+    this.offset += 1;
+    return value;
+  }
+
+  readU16LE(field: string): number {
+    this.require(field, 2);
+    const value = this.buf.readUInt16LE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  readU64LE(field: string): bigint {
+    this.require(field, 8);
+    let value = 0n;
+    for (let i = 0; i < 8; i++) {
+      value |= BigInt(this.buf[this.offset + i]) << BigInt(i * 8);
+    }
+    this.offset += 8;
+    return value;
+  }
+
+  readBytes(field: string, length: number): Buffer {
+    this.require(field, length);
+    const value = this.buf.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return Buffer.from(value);
+  }
+
+  /**
+   * Read a 1-byte length prefix followed by a UTF-8 string
+   */
+  readLengthPrefixedString(field: string): string {
+    const length = this.readU8(`${field} length`);
+    return this.readBytes(field, length).toString('utf8');
+  }
+
+  /**
+   * Read a Bitcoin CompactSize varint, rejecting non-canonical encodings
+   */
+  readVarint(field: string): bigint {
+    const first = this.readU8(field);
+
+    if (first < 0xfd) {
+      return BigInt(first);
+    }
+
+    let value: bigint;
+    let min: bigint;
+    if (first === 0xfd) {
+      value = BigInt(this.readU16LE(field));
+      min = 0xfdn;
+    } else if (first === 0xfe) {
+      this.require(field, 4);
+      value = BigInt(this.buf.readUInt32LE(this.offset));
+      this.offset += 4;
+      min = 0x10000n;
+    } else {
+      value = this.readU64LE(field);
+      min = 0x100000000n;
+    }
+
+    if (value < min) {
+      throw new InvalidFieldError(field, `non-canonical varint encoding of ${value}`);
+    }
+    return value;
+  }
+
+  /**
+   * Everything not yet consumed
+   */
+  rest(): Buffer {
+    const value = Buffer.from(this.buf.subarray(this.offset));
+    this.offset = this.buf.length;
+    return value;
+  }
+}
+
+export function assertUint64(field: string, value: bigint): void {
+  if (value < 0n || value > MAX_UINT64) {
+    throw new InvalidFieldError(field, `${value} is outside the uint64 range`);
+  }
+}
+
+/**
+ * Encode a Bitcoin CompactSize varint
+ */
+export function encodeVarint(field: string, n: bigint): Buffer {
+  assertUint64(field, n);
+
+  if (n < 0xfdn) {
+    return Buffer.from([Number(n)]);
+  } else if (n <= 0xffffn) {
+    const buf = Buffer.alloc(3);
+    buf[0] = 0xfd;
+    buf.writeUInt16LE(Number(n), 1);
+    return buf;
+  } else if (n <= 0xffffffffn) {
+    const buf = Buffer.alloc(5);
+    buf[0] = 0xfe;
+    buf.writeUInt32LE(Number(n), 1);
+    return buf;
+  }
+
+  const buf = Buffer.alloc(9);
+  buf[0] = 0xff;
+  buf.set(encodeU64LE(field, n), 1);
+  return buf;
+}
+
+export function encodeU64LE(field: string, n: bigint): Buffer {
+  assertUint64(field, n);
+  const buf = Buffer.alloc(8);
+  for (let i = 0; i < 8; i++) {
+    buf[i] = Number((n >> BigInt(i * 8)) & 0xffn);
+  }
+  return buf;
+}
+
+export function encodeU16LE(field: string, n: number): Buffer {
+  if (!Number.isInteger(n) || n < 0 || n > 0xffff) {
+    throw new InvalidFieldError(field, `${n} is outside the uint16 range`);
+  }
+  const buf = Buffer.alloc(2);
+  buf.writeUInt16LE(n);
+  return buf;
+}
+
+export function encodeU8(field: string, n: number): Buffer {
+  if (!Number.isInteger(n) || n < 0 || n > 0xff) {
+    throw new InvalidFieldError(field, `${n} is outside the uint8 range`);
+  }
+  return Buffer.from([n]);
+}
+
+/**
+ * Encode a UTF-8 string with a 1-byte length prefix, enforcing a byte limit
+ */
+export function encodeLengthPrefixedString(field: string, value: string, maxBytes: number): Buffer {
+  const bytes = Buffer.from(value, 'utf8');
+  if (bytes.length > maxBytes) {
+    throw new InvalidFieldError(field, `${bytes.length} bytes (max ${maxBytes})`);
+  }
+  return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+}
+
+/**
+ * Parse a fixed-length hex string (e.g. a 32-byte token ID)
+ */
+export function decodeFixedHex(field: string, value: string, length: number): Buffer {
+  const hex = value.replace(/^0x/i, '');
+  if (hex.length !== length * 2 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new InvalidFieldError(field, `expected ${length} bytes of hex`);
+  }
+  return Buffer.from(hex, 'hex');
+}
@@ -0,0 +1,114 @@
+/**
+ * Structured errors raised by the token protocol codec
+ *
+ * Every decode failure is a CodecError subclass so callers (SDK and indexer)
+ * can tell a foreign payload apart from a malformed one without parsing messages.
+ */
+
+export type CodecErrorCode =
+  | 'TRUNCATED'
+  | 'UNKNOWN_PROTOCOL'
+  | 'UNSUPPORTED_VERSION'
+  | 'UNKNOWN_OP_TYPE'
+  | 'INVALID_FIELD'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'TRAILING_BYTES';
+
+export class CodecError extends Error {
+  constructor(
+    message: string,
+    readonly code: CodecErrorCode
+  ) {
+    super(message);
+    this.name = 'CodecError';
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Payload ended before a field could be read
+ */
+export class TruncatedPayloadError extends CodecError {
+  constructor(
+    readonly field: string,
+    readonly offset: number,
+    readonly needed: number,
+    readonly available: number
+  ) {
+    super(
+      `Truncated payload reading ${field} at offset ${offset}: need ${needed} byte(s), have ${available}`,
+      'TRUNCATED'
+    );
+    this.name = 'TruncatedPayloadError';
+  }
+}
+
+/**
+ * Payload does not start with a registered protocol identifier
+ */
+export class UnknownProtocolError extends CodecError {
+  constructor(readonly prefixHex: string) {
+    super(`Unknown protocol identifier (payload prefix 0x${prefixHex})`, 'UNKNOWN_PROTOCOL');
+    this.name = 'UnknownProtocolError';
+  }
+}
+
+export class UnsupportedVersionError extends CodecError {
+  constructor(
+    readonly protocol: string,
+    readonly version: number
+  ) {
+    super(`Unsupported ${protocol} version: ${version}`, 'UNSUPPORTED_VERSION');
+    this.name = 'UnsupportedVersionError';
+  }
+}
+
+export class UnknownOpTypeError extends CodecError {
+  constructor(
+    readonly protocol: string,
+    readonly opType: number
+  ) {
+    super(`Unknown ${protocol} op type: 0x${opType.toString(16).padStart(2, '0')}`, 'UNKNOWN_OP_TYPE');
+    this.name = 'UnknownOpTypeError';
+  }
+}
+
+/**
+ * A field was present but its value is outside what the protocol allows
+ */
+export class InvalidFieldError extends CodecError {
+  constructor(
+    readonly field: string,
+    readonly reason: string
+  ) {
+    super(`Invalid ${field}: ${reason}`, 'INVALID_FIELD');
+    this.name = 'InvalidFieldError';
+  }
+}
+
+export class PayloadTooLargeError extends CodecError {
+  constructor(
+    readonly size: number,
+    readonly max: number
+  ) {
+    super(`Payload too large: ${size} bytes (max ${max})`, 'PAYLOAD_TOO_LARGE');
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/**
+ * Payload decoded cleanly but bytes were left over
+ */
+export class TrailingBytesError extends CodecError {
+  constructor(
+    readonly protocol: string,
+    readonly count: number
+  ) {
+    super(`${count} unexpected trailing byte(s) after ${protocol} payload`, 'TRAILING_BYTES');
+    this.name = 'TrailingBytesError';
+  }
+}
+
+export function isCodecError(error: unknown): error is CodecError {
+  return error instanceof CodecError;
+}
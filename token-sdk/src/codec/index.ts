@@ -0,0 +1,24 @@
+/**
+ * Token protocol codec
+ *
+ * Single source of truth for every token wire format. Both the SDK and the
+ * indexer encode/decode through this module so they can never disagree
+ * about what a payload means.
+ */
+
+export * from './errors';
+export {
+  ByteReader,
+  MAX_UINT64,
+  encodeVarint,
+  encodeU64LE,
+} from './bytes';
+export * from './registry';
+export * from './tkn';
+export * from './ark';
+export * from './metadataLeaf';
+export * from './opReturn';
+export * from './vectors';
+export * from './transferAuth';
+export * from './tokenClaim';
+export * from './ticker';
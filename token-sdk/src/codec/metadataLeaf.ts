@@ -0,0 +1,131 @@
+/**
+ * ARKTOK protocol - token metadata embedded as a Tapscript leaf
+ *
+ * OP_RETURN <"ARKTOK"> <VERSION(1)> <TOKEN_ID(32)> <AMOUNT(u64 LE)> <DECIMALS(1)> <OWNER(33)>
+ *
+ * bitcoinjs-lib compiles single-byte pushes of 1..16 as OP_1..OP_16, so the
+ * version and decimals fields may come back from decompile() as opcodes.
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import { encodeU64LE, encodeU8, ByteReader } from './bytes';
+import { CodecError, InvalidFieldError, TrailingBytesError, UnknownProtocolError } from './errors';
+import { PROTOCOL_REGISTRY, assertSupportedVersion } from './registry';
+
+export const METADATA_LEAF_CHUNKS = 7;
+export const METADATA_MAX_DECIMALS = 18;
+
+export interface MetadataLeaf {
+  version: number;
+  tokenId: Buffer; // 32 bytes
+  amount: bigint;
+  decimals: number;
+  owner: Buffer; // 33-byte compressed pubkey
+}
+
+function requireLength(field: string, value: Buffer, length: number): void {
+  if (value.length !== length) {
+    throw new InvalidFieldError(field, `expected ${length} bytes, got ${value.length}`);
+  }
+}
+
+/**
+ * Encode a metadata leaf script
+ */
+export function encodeMetadataLeaf(leaf: MetadataLeaf): Buffer {
+  assertSupportedVersion('ARKTOK', leaf.version);
+  requireLength('tokenId', leaf.tokenId, 32);
+  requireLength('owner', leaf.owner, 33);
+  if (!Number.isInteger(leaf.decimals) || leaf.decimals < 0 || leaf.decimals > METADATA_MAX_DECIMALS) {
+    throw new InvalidFieldError('decimals', `must be 0-${METADATA_MAX_DECIMALS}`);
+  }
+
+  return bitcoin.script.compile([
+    bitcoin.opcodes.OP_RETURN,
+    PROTOCOL_REGISTRY.ARKTOK.magic,
+    encodeU8('version', leaf.version),
+    leaf.tokenId,
+    encodeU64LE('amount', leaf.amount),
+    encodeU8('decimals', leaf.decimals),
+    leaf.owner,
+  ]);
+}
+
+/**
+ * Convert a decompiled chunk holding a single byte back to its value
+ */
+function readByteChunk(field: string, chunk: number | Buffer): number {
+  if (typeof chunk === 'number') {
+    if (chunk >= bitcoin.opcodes.OP_1 && chunk <= bitcoin.opcodes.OP_16) {
+      return chunk - bitcoin.opcodes.OP_1 + 1;
+    }
+    if (chunk === bitcoin.opcodes.OP_0) {
+      return 0;
+    }
+    throw new InvalidFieldError(field, `unexpected opcode 0x${chunk.toString(16)}`);
+  }
+  requireLength(field, chunk, 1);
+  return chunk[0];
+}
+
+function readDataChunk(field: string, chunk: number | Buffer, length: number): Buffer {
+  if (typeof chunk === 'number') {
+    throw new InvalidFieldError(field, `expected a ${length}-byte push, got opcode 0x${chunk.toString(16)}`);
+  }
+  requireLength(field, chunk, length);
+  return Buffer.from(chunk);
+}
+
+/**
+ * True if the script is an OP_RETURN leaf carrying the ARKTOK marker
+ */
+export function isMetadataLeaf(script: Buffer): boolean {
+  try {
+    const decompiled = bitcoin.script.decompile(script);
+    if (!decompiled || decompiled.length < 2 || decompiled[0] !== bitcoin.opcodes.OP_RETURN) {
+      return false;
+    }
+    const marker = decompiled[1];
+    return Buffer.isBuffer(marker) && marker.equals(PROTOCOL_REGISTRY.ARKTOK.magic);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decode a metadata leaf script
+ */
+export function decodeMetadataLeaf(script: Buffer): MetadataLeaf {
+  let decompiled: Array<number | Buffer> | null;
+  try {
+    decompiled = bitcoin.script.decompile(script);
+  } catch (error) {
+    throw new InvalidFieldError('script', (error as Error).message);
+  }
+  if (!decompiled) {
+    throw new InvalidFieldError('script', 'not a valid script');
+  }
+
+  if (!isMetadataLeaf(script)) {
+    throw new UnknownProtocolError(script.subarray(0, 8).toString('hex'));
+  }
+  if (decompiled.length > METADATA_LEAF_CHUNKS) {
+    throw new TrailingBytesError('ARKTOK', decompiled.length - METADATA_LEAF_CHUNKS);
+  }
+  if (decompiled.length < METADATA_LEAF_CHUNKS) {
+    throw new CodecError(
+      `Truncated ARKTOK leaf: ${decompiled.length} of ${METADATA_LEAF_CHUNKS} script chunks`,
+      'TRUNCATED'
+    );
+  }
+
+  const version = readByteChunk('version', decompiled[2]);
+  assertSupportedVersion('ARKTOK', version);
+
+  const tokenId = readDataChunk('tokenId', decompiled[3], 32);
+  const amount = new ByteReader(readDataChunk('amount', decompiled[4], 8)).readU64LE('amount');
+  const decimals = readByteChunk('decimals', decompiled[5]);
+  const owner = readDataChunk('owner', decompiled[6], 33);
+
+  return { version, tokenId, amount, decimals, owner };
+}
@@ -0,0 +1,85 @@
+/**
+ * OP_RETURN script framing and protocol dispatch
+ */
+
+import { TokenOpType } from '../types';
+import { ArkCommitPayload, ArkCreatePayload, decodeArkCommit, decodeArkCreate, peekArkOpType } from './ark';
+import { InvalidFieldError, PayloadTooLargeError, TrailingBytesError, TruncatedPayloadError, UnknownProtocolError } from './errors';
+import { MAX_OP_RETURN_PAYLOAD, identifyProtocol } from './registry';
+import { TknOperation, decodeTknOperation } from './tkn';
+
+const OP_RETURN = 0x6a;
+const OP_PUSHDATA1 = 0x4c;
+const MAX_DIRECT_PUSH = 75;
+
+export type DecodedPayload =
+  | { protocol: 'TKN'; operation: TknOperation }
+  | { protocol: 'ARK'; opType: TokenOpType.CREATE; operation: ArkCreatePayload }
+  | { protocol: 'ARK'; opType: TokenOpType.COMMIT; operation: ArkCommitPayload };
+
+/**
+ * Wrap payload bytes in an OP_RETURN script (direct push, or OP_PUSHDATA1 above 75 bytes)
+ */
+export function createOpReturnScript(payload: Buffer): Buffer {
+  const length = payload.length;
+  if (length > MAX_OP_RETURN_PAYLOAD) {
+    throw new PayloadTooLargeError(length, MAX_OP_RETURN_PAYLOAD);
+  }
+
+  const push = length <= MAX_DIRECT_PUSH ? [length] : [OP_PUSHDATA1, length];
+  return Buffer.concat([Buffer.from([OP_RETURN, ...push]), payload]);
+}
+
+/**
+ * Extract the pushed payload from an OP_RETURN script.
+ * Returns null when the script is not an OP_RETURN; throws when it is one but is malformed.
+ */
+export function extractOpReturnPayload(script: Buffer): Buffer | null {
+  if (script.length === 0 || script[0] !== OP_RETURN) {
+    return null;
+  }
+  if (script.length < 2) {
+    throw new TruncatedPayloadError('push opcode', 1, 1, 0);
+  }
+
+  let offset: number;
+  let length: number;
+  if (script[1] === OP_PUSHDATA1) {
+    if (script.length < 3) {
+      throw new TruncatedPayloadError('push length', 2, 1, 0);
+    }
+    length = script[2];
+    offset = 3;
+  } else if (script[1] <= MAX_DIRECT_PUSH) {
+    length = script[1];
+    offset = 2;
+  } else {
+    throw new InvalidFieldError('push opcode', `unsupported opcode 0x${script[1].toString(16)}`);
+  }
+
+  const available = script.length - offset;
+  if (available < length) {
+    throw new TruncatedPayloadError('payload', offset, length, available);
+  }
+  if (available > length) {
+    throw new TrailingBytesError('OP_RETURN', available - length);
+  }
+  return Buffer.from(script.subarray(offset, offset + length));
+}
+
+/**
+ * Decode any OP_RETURN payload by dispatching on its protocol identifier
+ */
+export function decodePayload(payload: Uint8Array): DecodedPayload {
+  const protocol = identifyProtocol(payload);
+  switch (protocol) {
+    case 'TKN':
+      return { protocol, operation: decodeTknOperation(payload) };
+    case 'ARK':
+      return peekArkOpType(payload) === TokenOpType.COMMIT
+        ? { protocol, opType: TokenOpType.COMMIT, operation: decodeArkCommit(payload) }
+        : { protocol, opType: TokenOpType.CREATE, operation: decodeArkCreate(payload) };
+    default:
+      throw new UnknownProtocolError(Buffer.from(payload).subarray(0, 6).toString('hex'));
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Registry of token protocol identifiers and the versions/op types each one supports
+ *
+ * Three wire formats exist today:
+ * - TKN    - generic token ops (CREATE/TRANSFER/BURN) carried in an OP_RETURN
+ * - ARK    - Bitcoin L1 CREATE proof (and ticker COMMIT) carried in an OP_RETURN
+ * - ARKTOK - token metadata embedded as a Tapscript leaf in a VTXO
+ */
+
+import { TokenOpType } from '../types';
+import { UnknownOpTypeError, UnknownProtocolError, UnsupportedVersionError } from './errors';
+
+export type ProtocolName = 'TKN' | 'ARK' | 'ARKTOK';
+
+export interface ProtocolDefinition {
+  name: ProtocolName;
+  magic: Buffer;
+  currentVersion: number;
+  supportedVersions: readonly number[];
+  opTypes: readonly TokenOpType[];
+  carrier: 'op_return' | 'tapscript';
+  description: string;
+}
+
+/**
+ * Largest OP_RETURN payload relayed by standard Bitcoin nodes
+ */
+export const MAX_OP_RETURN_PAYLOAD = 80;
+
+export const PROTOCOL_REGISTRY: Readonly<Record<ProtocolName, ProtocolDefinition>> = {
+  TKN: {
+    name: 'TKN',
+    magic: Buffer.from('TKN', 'utf8'),
+    currentVersion: 0x01,
+    supportedVersions: [0x01],
+    opTypes: [TokenOpType.CREATE, TokenOpType.TRANSFER, TokenOpType.BURN],
+    carrier: 'op_return',
+    description: 'Token operations: TKN | VERSION | OP | TOKEN_ID(32) | AMOUNT(varint) | op body',
+  },
+  ARK: {
+    name: 'ARK',
+    magic: Buffer.from('ARK', 'utf8'),
+    currentVersion: 0x01,
+    supportedVersions: [0x01],
+    opTypes: [TokenOpType.CREATE, TokenOpType.COMMIT],
+    carrier: 'op_return',
+    description: 'L1 creation proof: ARK | VERSION | CREATE | NAME | SYMBOL | SUPPLY(u64) | DECIMALS | presale | reveal, or ARK | VERSION | COMMIT | COMMITMENT(32)',
+  },
+  ARKTOK: {
+    name: 'ARKTOK',
+    magic: Buffer.from('ARKTOK', 'utf8'),
+    currentVersion: 1,
+    supportedVersions: [1],
+    opTypes: [],
+    carrier: 'tapscript',
+    description: 'VTXO metadata leaf: OP_RETURN <ARKTOK> <version> <tokenId> <amount> <decimals> <owner>',
+  },
+};
+
+/**
+ * Identify which OP_RETURN protocol a payload belongs to.
+ * Tapscript-only protocols are never matched here.
+ */
+export function identifyProtocol(payload: Uint8Array): ProtocolName | null {
+  const buf = Buffer.from(payload);
+  const candidates = Object.values(PROTOCOL_REGISTRY)
+    .filter((p) => p.carrier === 'op_return')
+    // Longest identifier first so a short magic never shadows a longer one.
+    .sort((a, b) => b.magic.length - a.magic.length);
+
+  for (const protocol of candidates) {
+    if (buf.length >= protocol.magic.length && buf.subarray(0, protocol.magic.length).equals(protocol.magic)) {
+      return protocol.name;
+    }
+  }
+  return null;
+}
+
+export function requireProtocol(payload: Uint8Array, expected: ProtocolName): ProtocolDefinition {
+  const protocol = PROTOCOL_REGISTRY[expected];
+  const buf = Buffer.from(payload);
+  if (buf.length < protocol.magic.length || !buf.subarray(0, protocol.magic.length).equals(protocol.magic)) {
+    throw new UnknownProtocolError(buf.subarray(0, protocol.magic.length).toString('hex'));
+  }
+  return protocol;
+}
+
+export function assertSupportedVersion(name: ProtocolName, version: number): void {
+  if (!PROTOCOL_REGISTRY[name].supportedVersions.includes(version)) {
+    throw new UnsupportedVersionError(name, version);
+  }
+}
+
+export function assertKnownOpType(name: ProtocolName, opType: number): TokenOpType {
+  if (!(PROTOCOL_REGISTRY[name].opTypes as readonly number[]).includes(opType)) {
+    throw new UnknownOpTypeError(name, opType);
+  }
+  return opType as TokenOpType;
+}
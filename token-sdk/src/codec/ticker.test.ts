@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeTicker, tickerCommitment } from './ticker';
+
+describe('normalizeTicker', () => {
+  it('folds case and drops whitespace and invisible characters', () => {
+    expect(normalizeTicker('arkd')).toBe('ARKD');
+    expect(normalizeTicker(' Ar kd\u200b')).toBe('ARKD');
+    expect(normalizeTicker('AR\u00adKD')).toBe('ARKD');
+  });
+
+  it('folds compatibility forms (NFKC)', () => {
+    expect(normalizeTicker('\uff21\uff32\uff2b\uff24')).toBe('ARKD'); // Full-width
+  });
+
+  it('maps Cyrillic and Greek look-alikes and 0/1 to Latin letters', () => {
+    expect(normalizeTicker('\u0410RK')).toBe('ARK'); // Cyrillic A
+    expect(normalizeTicker('\u0391RK')).toBe('ARK'); // Greek Alpha
+    expect(normalizeTicker('C01N')).toBe('COIN');
+  });
+
+  it('keeps distinct tickers distinct', () => {
+    expect(normalizeTicker('ARKD')).not.toBe(normalizeTicker('ARKS'));
+  });
+});
+
+describe('tickerCommitment', () => {
+  const salt = Buffer.alloc(12, 0xcd);
+
+  it('commits to the normalized ticker', () => {
+    expect(tickerCommitment('arkd', 'creator', salt)).toEqual(tickerCommitment('ARKD', 'creator', salt));
+  });
+
+  it('binds the commitment to the creator and salt', () => {
+    const commitment = tickerCommitment('ARKD', 'creator', salt);
+    expect(tickerCommitment('ARKD', 'someone-else', salt)).not.toEqual(commitment);
+    expect(tickerCommitment('ARKD', 'creator', Buffer.alloc(12, 0xce))).not.toEqual(commitment);
+  });
+
+  it('rejects a salt of the wrong size and an empty ticker', () => {
+    expect(() => tickerCommitment('ARKD', 'creator', Buffer.alloc(11))).toThrow(/tickerSalt/);
+    expect(() => tickerCommitment(' \u200b', 'creator', salt)).toThrow(/symbol/);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Ticker symbols - normalization and commit-reveal commitments
+ *
+ * Two symbols that normalize to the same string are the same ticker: NFKC
+ * folds compatibility forms (full-width letters, ligatures), case is folded
+ * to upper, Cyrillic and Greek look-alikes map to the Latin letter they
+ * imitate, 0 and 1 map to O and I, and whitespace and invisible characters
+ * are dropped.
+ *
+ * Commit-reveal keeps a ticker from being sniped out of the mempool:
+ *   1. the creator broadcasts an ARK COMMIT carrying
+ *      SHA-256("ARK ticker commitment v1" | 0x00 | ticker | 0x00 | creator | 0x00 | salt),
+ *      which says nothing about the ticker
+ *   2. once the commit has confirmed, the ARK CREATE reveals the salt; the
+ *      indexer recomputes the commitment from the CREATE's symbol and creator
+ *      and ranks the claim by the height of the commit
+ * A copied CREATE is bound to the original creator, so it cannot take the ticker.
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import { ARK_TICKER_SALT_BYTES } from './ark';
+import { InvalidFieldError } from './errors';
+
+export const TICKER_COMMITMENT_HEADER = 'ARK ticker commitment v1';
+
+// Characters that render like a Latin capital (after upper-casing)
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  '\u0410': 'A', '\u0412': 'B', '\u0415': 'E', '\u041a': 'K', '\u041c': 'M',
+  '\u041d': 'H', '\u041e': 'O', '\u0420': 'P', '\u0421': 'C', '\u0422': 'T',
+  '\u0423': 'Y', '\u0425': 'X', '\u0405': 'S', '\u0406': 'I', '\u0408': 'J',
+  // Greek
+  '\u0391': 'A', '\u0392': 'B', '\u0395': 'E', '\u0396': 'Z', '\u0397': 'H',
+  '\u0399': 'I', '\u039a': 'K', '\u039c': 'M', '\u039d': 'N', '\u039f': 'O',
+  '\u03a1': 'P', '\u03a4': 'T', '\u03a5': 'Y', '\u03a7': 'X',
+  // Digits
+  '0': 'O', '1': 'I',
+};
+
+const INVISIBLE = /[\s\u00ad\u034f\u180e\u200b-\u200f\u2060-\u2064\ufeff]/gu;
+
+/**
+ * Canonical form of a ticker symbol; symbols with the same form collide
+ */
+export function normalizeTicker(symbol: string): string {
+  const folded = symbol.normalize('NFKC').replace(INVISIBLE, '').toUpperCase();
+  return Array.from(folded, (c) => CONFUSABLES[c] ?? c).join('');
+}
+
+/**
+ * Commitment to a ticker for a creator, published in an ARK COMMIT
+ */
+export function tickerCommitment(symbol: string, creator: string, salt: Buffer): Buffer {
+  if (salt.length !== ARK_TICKER_SALT_BYTES) {
+    throw new InvalidFieldError('tickerSalt', `expected ${ARK_TICKER_SALT_BYTES} bytes, got ${salt.length}`);
+  }
+  const ticker = normalizeTicker(symbol);
+  if (!ticker) {
+    throw new InvalidFieldError('symbol', 'is empty after normalization');
+  }
+  if (!creator) {
+    throw new InvalidFieldError('creator', 'must be non-empty');
+  }
+
+  return bitcoin.crypto.sha256(Buffer.concat([
+    Buffer.from(TICKER_COMMITMENT_HEADER, 'utf8'),
+    Buffer.from([0x00]),
+    Buffer.from(ticker, 'utf8'),
+    Buffer.from([0x00]),
+    Buffer.from(creator, 'utf8'),
+    Buffer.from([0x00]),
+    salt,
+  ]));
+}
@@ -0,0 +1,174 @@
+/**
+ * TKN protocol - generic token operations carried in an OP_RETURN
+ *
+ * Header (all ops):
+ *   "TKN"(3) | VERSION(1) | OP_TYPE(1) | TOKEN_ID(32) | AMOUNT(varint)
+ * Body:
+ *   CREATE   - DECIMALS(1) | NAME_LEN(1) | NAME | SYMBOL_LEN(1) | SYMBOL  (AMOUNT = total supply)
+ *   TRANSFER - FROM_HASH(20) | TO_HASH(20)
+ *   BURN     - BURNER_HASH(20)
+ */
+
+import { TokenOpType } from '../types';
+import {
+  ByteReader,
+  decodeFixedHex,
+  encodeLengthPrefixedString,
+  encodeU8,
+  encodeVarint,
+} from './bytes';
+import { InvalidFieldError, PayloadTooLargeError, TrailingBytesError, UnknownOpTypeError } from './errors';
+import {
+  MAX_OP_RETURN_PAYLOAD,
+  PROTOCOL_REGISTRY,
+  assertKnownOpType,
+  assertSupportedVersion,
+  requireProtocol,
+} from './registry';
+
+export const TKN_TOKEN_ID_LENGTH = 32;
+export const TKN_ADDRESS_HASH_LENGTH = 20;
+
+export interface TknHeader {
+  version: number;
+  opType: TokenOpType;
+  tokenId: string; // 32-byte hex
+  amount: bigint;
+}
+
+export interface TknCreateOperation extends TknHeader {
+  opType: TokenOpType.CREATE;
+  decimals: number;
+  name: string;
+  symbol: string;
+}
+
+export interface TknTransferOperation extends TknHeader {
+  opType: TokenOpType.TRANSFER;
+  fromHash: Buffer;
+  toHash: Buffer;
+}
+
+export interface TknBurnOperation extends TknHeader {
+  opType: TokenOpType.BURN;
+  burnerHash: Buffer;
+}
+
+export type TknOperation = TknCreateOperation | TknTransferOperation | TknBurnOperation;
+
+/**
+ * Fields accepted by encodeTknOperation (version defaults to the current one)
+ */
+export type TknOperationInput =
+  | Omit<TknCreateOperation, 'version'> & { version?: number }
+  | Omit<TknTransferOperation, 'version'> & { version?: number }
+  | Omit<TknBurnOperation, 'version'> & { version?: number };
+
+function encodeHash(field: string, hash: Buffer): Buffer {
+  if (hash.length !== TKN_ADDRESS_HASH_LENGTH) {
+    throw new InvalidFieldError(field, `expected ${TKN_ADDRESS_HASH_LENGTH} bytes, got ${hash.length}`);
+  }
+  return hash;
+}
+
+/**
+ * Encode any TKN operation into OP_RETURN payload bytes
+ */
+export function encodeTknOperation(op: TknOperationInput): Buffer {
+  const protocol = PROTOCOL_REGISTRY.TKN;
+  const version = op.version ?? protocol.currentVersion;
+  assertSupportedVersion('TKN', version);
+  assertKnownOpType('TKN', op.opType);
+
+  const header = [
+    protocol.magic,
+    Buffer.from([version]),
+    Buffer.from([op.opType]),
+    decodeFixedHex('tokenId', op.tokenId, TKN_TOKEN_ID_LENGTH),
+    encodeVarint('amount', op.amount),
+  ];
+
+  let body: Buffer[];
+  switch (op.opType) {
+    case TokenOpType.CREATE:
+      body = [
+        encodeU8('decimals', op.decimals),
+        encodeLengthPrefixedString('name', op.name, 0xff),
+        encodeLengthPrefixedString('symbol', op.symbol, 0xff),
+      ];
+      break;
+    case TokenOpType.TRANSFER:
+      body = [encodeHash('fromHash', op.fromHash), encodeHash('toHash', op.toHash)];
+      break;
+    case TokenOpType.BURN:
+      body = [encodeHash('burnerHash', op.burnerHash)];
+      break;
+  }
+
+  const payload = Buffer.concat([...header, ...body]);
+  if (payload.length > MAX_OP_RETURN_PAYLOAD) {
+    throw new PayloadTooLargeError(payload.length, MAX_OP_RETURN_PAYLOAD);
+  }
+  return payload;
+}
+
+/**
+ * Decode only the TKN header, returning the undecoded op body
+ */
+export function decodeTknHeader(payload: Uint8Array): TknHeader & { body: Buffer } {
+  const protocol = requireProtocol(payload, 'TKN');
+  const reader = new ByteReader(Buffer.from(payload));
+  reader.readBytes('protocol', protocol.magic.length);
+
+  const version = reader.readU8('version');
+  assertSupportedVersion('TKN', version);
+
+  const opType = assertKnownOpType('TKN', reader.readU8('opType'));
+  const tokenId = reader.readBytes('tokenId', TKN_TOKEN_ID_LENGTH).toString('hex');
+  const amount = reader.readVarint('amount');
+
+  return { version, opType, tokenId, amount, body: reader.rest() };
+}
+
+/**
+ * Decode a TKN payload into its typed operation
+ */
+export function decodeTknOperation(payload: Uint8Array): TknOperation {
+  const { body, ...header } = decodeTknHeader(payload);
+  const reader = new ByteReader(body);
+
+  let op: TknOperation;
+  switch (header.opType) {
+    case TokenOpType.CREATE:
+      op = {
+        ...header,
+        opType: TokenOpType.CREATE,
+        decimals: reader.readU8('decimals'),
+        name: reader.readLengthPrefixedString('name'),
+        symbol: reader.readLengthPrefixedString('symbol'),
+      };
+      break;
+    case TokenOpType.TRANSFER:
+      op = {
+        ...header,
+        opType: TokenOpType.TRANSFER,
+        fromHash: reader.readBytes('fromHash', TKN_ADDRESS_HASH_LENGTH),
+        toHash: reader.readBytes('toHash', TKN_ADDRESS_HASH_LENGTH),
+      };
+      break;
+    case TokenOpType.BURN:
+      op = {
+        ...header,
+        opType: TokenOpType.BURN,
+        burnerHash: reader.readBytes('burnerHash', TKN_ADDRESS_HASH_LENGTH),
+      };
+      break;
+    default:
+      throw new UnknownOpTypeError('TKN', header.opType);
+  }
+
+  if (reader.remaining > 0) {
+    throw new TrailingBytesError('TKN', reader.remaining);
+  }
+  return op;
+}
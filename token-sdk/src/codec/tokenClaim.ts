@@ -0,0 +1,42 @@
+/**
+ * Token claim - the message that proves who created a token on L1
+ *
+ *   Arkade Token claim v1
+ *   Token: <tokenId>
+ *   Issuer: <issuerAddress>
+ *
+ * The creator signs SHA-256 of the UTF-8 message with BIP340 Schnorr, using
+ * the key that funded the CREATE transaction (its P2WPKH input). The indexer
+ * only hands a token it found on L1 to the issuer this signature names.
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import { InvalidFieldError } from './errors';
+
+export const TOKEN_CLAIM_HEADER = 'Arkade Token claim v1';
+
+export interface TokenClaim {
+  tokenId: string; // CREATE txid
+  issuer: string; // Arkade address registering the token
+}
+
+/**
+ * Canonical text of a token claim
+ */
+export function encodeTokenClaim(claim: TokenClaim): string {
+  if (!/^[0-9a-f]{64}$/.test(claim.tokenId)) {
+    throw new InvalidFieldError('tokenId', 'must be a txid (32 bytes of lowercase hex)');
+  }
+  if (!claim.issuer || /[\r\n]/.test(claim.issuer)) {
+    throw new InvalidFieldError('issuer', 'must be a non-empty single line');
+  }
+
+  return [TOKEN_CLAIM_HEADER, `Token: ${claim.tokenId}`, `Issuer: ${claim.issuer}`].join('\n');
+}
+
+/**
+ * 32-byte digest the creator signs
+ */
+export function tokenClaimDigest(claim: TokenClaim): Buffer {
+  return bitcoin.crypto.sha256(Buffer.from(encodeTokenClaim(claim), 'utf8'));
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createHash } from 'crypto';
+import {
+  TRANSFER_AUTHORIZATION_HEADER,
+  TransferAuthorization,
+  burnAccountAddress,
+  encodeTransferAuthorization,
+  transferAuthorizationDigest,
+} from './transferAuth';
+import { InvalidFieldError } from './errors';
+
+const auth: TransferAuthorization = {
+  tokenId: 'a'.repeat(64),
+  fromAddress: 'tark1sender',
+  toAddress: 'tark1recipient',
+  amount: '1000',
+  vtxoId: `${'b'.repeat(64)}:0`,
+  nonce: 'c'.repeat(64),
+};
+
+function invalidField(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (error) {
+    return error instanceof InvalidFieldError ? error.field : `not an InvalidFieldError: ${(error as Error).message}`;
+  }
+  return undefined;
+}
+
+describe('encodeTransferAuthorization', () => {
+  it('writes one field per line under the header', () => {
+    expect(encodeTransferAuthorization(auth).split('\n')).toEqual([
+      TRANSFER_AUTHORIZATION_HEADER,
+      `Token: ${auth.tokenId}`,
+      'From: tark1sender',
+      'To: tark1recipient',
+      'Amount: 1000',
+      `VTXO: ${auth.vtxoId}`,
+      `Nonce: ${auth.nonce}`,
+    ]);
+  });
+
+  it('rejects malformed amounts and nonces', () => {
+    expect(invalidField(() => encodeTransferAuthorization({ ...auth, amount: '-1' }))).toBe('amount');
+    expect(invalidField(() => encodeTransferAuthorization({ ...auth, amount: '1.5' }))).toBe('amount');
+    expect(invalidField(() => encodeTransferAuthorization({ ...auth, nonce: 'C'.repeat(64) }))).toBe('nonce');
+    expect(invalidField(() => encodeTransferAuthorization({ ...auth, nonce: 'c'.repeat(62) }))).toBe('nonce');
+  });
+
+  it('rejects empty fields and fields that would inject a line', () => {
+    expect(invalidField(() => encodeTransferAuthorization({ ...auth, vtxoId: '' }))).toBe('vtxoId');
+    expect(invalidField(() => encodeTransferAuthorization({ ...auth, toAddress: 'tark1x\nAmount: 1' }))).toBe('toAddress');
+  });
+});
+
+describe('transferAuthorizationDigest', () => {
+  it('is SHA-256 of the UTF-8 message', () => {
+    const expected = createHash('sha256').update(encodeTransferAuthorization(auth), 'utf8').digest();
+    expect(transferAuthorizationDigest(auth)).toEqual(expected);
+  });
+
+  it('changes with every field', () => {
+    const digest = transferAuthorizationDigest(auth);
+    expect(transferAuthorizationDigest({ ...auth, amount: '1001' })).not.toEqual(digest);
+    expect(transferAuthorizationDigest({ ...auth, toAddress: 'tark1other' })).not.toEqual(digest);
+    expect(transferAuthorizationDigest({ ...auth, nonce: 'd'.repeat(64) })).not.toEqual(digest);
+  });
+
+  it('authorizes burns as transfers to the burn account', () => {
+    const burn = { ...auth, toAddress: burnAccountAddress(auth.tokenId) };
+    expect(encodeTransferAuthorization(burn)).toContain(`To: burn:${auth.tokenId}`);
+  });
+});
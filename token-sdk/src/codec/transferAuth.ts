@@ -0,0 +1,75 @@
+/**
+ * Transfer authorization - the message a sender signs to approve a transfer
+ *
+ *   Arkade Token transfer authorization v1
+ *   Token: <tokenId>
+ *   From: <fromAddress>
+ *   To: <toAddress>
+ *   Amount: <amount>
+ *   VTXO: <vtxoId>
+ *   Nonce: <nonce>
+ *
+ * The sender signs SHA-256 of the UTF-8 message with BIP340 Schnorr, using the
+ * key behind fromAddress. The nonce is random per transfer; the indexer stores
+ * it so a signature can only be used once.
+ *
+ * A burn is authorized as a transfer to the token's burn account
+ * (burnAccountAddress).
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import { InvalidFieldError } from './errors';
+
+export const TRANSFER_AUTHORIZATION_HEADER = 'Arkade Token transfer authorization v1';
+
+export const BURN_ACCOUNT_PREFIX = 'burn:';
+
+/**
+ * Recipient of a burn authorization for a token
+ */
+export function burnAccountAddress(tokenId: string): string {
+  return `${BURN_ACCOUNT_PREFIX}${tokenId}`;
+}
+
+export interface TransferAuthorization {
+  tokenId: string;
+  fromAddress: string;
+  toAddress: string;
+  amount: string; // Base units, decimal string
+  vtxoId: string;
+  nonce: string; // 32 random bytes, hex
+}
+
+/**
+ * Canonical text of a transfer authorization
+ */
+export function encodeTransferAuthorization(auth: TransferAuthorization): string {
+  if (!/^\d+$/.test(auth.amount)) {
+    throw new InvalidFieldError('amount', 'must be a non-negative integer string');
+  }
+  if (!/^[0-9a-f]{64}$/.test(auth.nonce)) {
+    throw new InvalidFieldError('nonce', 'must be 32 bytes of lowercase hex');
+  }
+  for (const field of ['tokenId', 'fromAddress', 'toAddress', 'vtxoId'] as const) {
+    if (!auth[field] || /[\r\n]/.test(auth[field])) {
+      throw new InvalidFieldError(field, 'must be a non-empty single line');
+    }
+  }
+
+  return [
+    TRANSFER_AUTHORIZATION_HEADER,
+    `Token: ${auth.tokenId}`,
+    `From: ${auth.fromAddress}`,
+    `To: ${auth.toAddress}`,
+    `Amount: ${auth.amount}`,
+    `VTXO: ${auth.vtxoId}`,
+    `Nonce: ${auth.nonce}`,
+  ].join('\n');
+}
+
+/**
+ * 32-byte digest the sender signs
+ */
+export function transferAuthorizationDigest(auth: TransferAuthorization): Buffer {
+  return bitcoin.crypto.sha256(Buffer.from(encodeTransferAuthorization(auth), 'utf8'));
+}
@@ -0,0 +1,203 @@
+/**
+ * Published test vectors for the token codec
+ *
+ * Any implementation of the protocol (SDK, indexer, third-party wallets)
+ * must decode each `hex` to `expected`, or fail with `errorCode`.
+ * Amounts are decimal strings so the vectors can be serialized as JSON.
+ */
+
+import { CodecErrorCode } from './errors';
+import { ProtocolName } from './registry';
+
+export interface CodecTestVector {
+  name: string;
+  protocol: ProtocolName;
+  hex: string;
+  expected?: Record<string, string | number | boolean>;
+  errorCode?: CodecErrorCode;
+}
+
+export const CODEC_TEST_VECTORS: readonly CodecTestVector[] = [
+  {
+    name: 'TKN CREATE',
+    protocol: 'TKN',
+    hex: '544b4e0101ababababababababababababababababababababababababababababababababfe406f4001080a5465737420546f6b656e0454455354',
+    expected: {
+      version: 1,
+      opType: 1,
+      tokenId: 'abababababababababababababababababababababababababababababababab',
+      amount: '21000000',
+      decimals: 8,
+      name: 'Test Token',
+      symbol: 'TEST',
+    },
+  },
+  {
+    name: 'TKN TRANSFER',
+    protocol: 'TKN',
+    hex: '544b4e0102ababababababababababababababababababababababababababababababababfde80311111111111111111111111111111111111111112222222222222222222222222222222222222222',
+    expected: {
+      version: 1,
+      opType: 2,
+      tokenId: 'abababababababababababababababababababababababababababababababab',
+      amount: '1000',
+      fromHash: '1111111111111111111111111111111111111111',
+      toHash: '2222222222222222222222222222222222222222',
+    },
+  },
+  {
+    name: 'TKN BURN (9-byte varint)',
+    protocol: 'TKN',
+    hex: '544b4e0103ababababababababababababababababababababababababababababababababff00000000010000003333333333333333333333333333333333333333',
+    expected: {
+      version: 1,
+      opType: 3,
+      tokenId: 'abababababababababababababababababababababababababababababababab',
+      amount: '4294967296',
+      burnerHash: '3333333333333333333333333333333333333333',
+    },
+  },
+  {
+    name: 'TKN truncated varint',
+    protocol: 'TKN',
+    hex: '544b4e0103ababababababababababababababababababababababababababababababababfd01',
+    errorCode: 'TRUNCATED',
+  },
+  {
+    name: 'TKN non-canonical varint',
+    protocol: 'TKN',
+    hex: '544b4e0103ababababababababababababababababababababababababababababababababfd01003333333333333333333333333333333333333333',
+    errorCode: 'INVALID_FIELD',
+  },
+  {
+    name: 'TKN unsupported version',
+    protocol: 'TKN',
+    hex: '544b4e0203abababababababababababababababababababababababababababababababab003333333333333333333333333333333333333333',
+    errorCode: 'UNSUPPORTED_VERSION',
+  },
+  {
+    name: 'TKN unknown op type',
+    protocol: 'TKN',
+    hex: '544b4e0109abababababababababababababababababababababababababababababababab00',
+    errorCode: 'UNKNOWN_OP_TYPE',
+  },
+  {
+    name: 'TKN trailing bytes',
+    protocol: 'TKN',
+    hex: '544b4e0103abababababababababababababababababababababababababababababababab00333333333333333333333333333333333333333300',
+    errorCode: 'TRAILING_BYTES',
+  },
+  {
+    name: 'ARK CREATE',
+    protocol: 'ARK',
+    hex: '41524b01010641726b6164650441524b4440420f00000000000800',
+    expected: {
+      version: 1,
+      name: 'Arkade',
+      symbol: 'ARKD',
+      totalSupply: '1000000',
+      decimals: 8,
+      isPresale: false,
+    },
+  },
+  {
+    name: 'ARK CREATE (legacy, no presale flag)',
+    protocol: 'ARK',
+    hex: '41524b01010641726b6164650441524b4440420f000000000008',
+    expected: {
+      version: 1,
+      name: 'Arkade',
+      symbol: 'ARKD',
+      totalSupply: '1000000',
+      decimals: 8,
+      isPresale: false,
+    },
+  },
+  {
+    name: 'ARK CREATE with presale',
+    protocol: 'ARK',
+    hex: '41524b01010750726573616c650350524540420f000000000000016400000000000000d0070000000000000500',
+    expected: {
+      version: 1,
+      name: 'Presale',
+      symbol: 'PRE',
+      totalSupply: '1000000',
+      decimals: 0,
+      isPresale: true,
+      presaleBatchAmount: '100',
+      priceInSats: '2000',
+      maxPurchasesPerWallet: 5,
+    },
+  },
+  {
+    name: 'ARK truncated presale',
+    protocol: 'ARK',
+    hex: '41524b01010750726573616c650350524540420f00000000000001640000000000',
+    errorCode: 'TRUNCATED',
+  },
+  {
+    name: 'ARK unknown presale flag',
+    protocol: 'ARK',
+    hex: '41524b01010641726b6164650441524b4440420f00000000000802',
+    errorCode: 'INVALID_FIELD',
+  },
+  {
+    name: 'ARK CREATE with ticker reveal',
+    protocol: 'ARK',
+    hex: '41524b01010641726b6164650441524b4440420f0000000000080001cdcdcdcdcdcdcdcdcdcdcdcd',
+    expected: {
+      version: 1,
+      name: 'Arkade',
+      symbol: 'ARKD',
+      totalSupply: '1000000',
+      decimals: 8,
+      isPresale: false,
+      tickerSalt: 'cdcdcdcdcdcdcdcdcdcdcdcd',
+    },
+  },
+  {
+    name: 'ARK unknown reveal flag',
+    protocol: 'ARK',
+    hex: '41524b01010641726b6164650441524b4440420f0000000000080002cdcdcdcdcdcdcdcdcdcdcdcd',
+    errorCode: 'INVALID_FIELD',
+  },
+  {
+    name: 'ARK COMMIT',
+    protocol: 'ARK',
+    hex: '41524b010489896bc0df0ef439ca32b6d27277aaeb917875b4e60ad1e0509f2b91ab3c4d40',
+    expected: {
+      version: 1,
+      commitment: '89896bc0df0ef439ca32b6d27277aaeb917875b4e60ad1e0509f2b91ab3c4d40',
+    },
+  },
+  {
+    name: 'ARK truncated commitment',
+    protocol: 'ARK',
+    hex: '41524b010489896bc0df0ef439ca32b6d2',
+    errorCode: 'TRUNCATED',
+  },
+  {
+    name: 'ARK truncated name',
+    protocol: 'ARK',
+    hex: '41524b0101144172',
+    errorCode: 'TRUNCATED',
+  },
+  {
+    name: 'ARKTOK metadata leaf',
+    protocol: 'ARKTOK',
+    hex: '6a0641524b544f4b5120abababababababababababababababababababababababababababababababab08f4010000000000005821024444444444444444444444444444444444444444444444444444444444444444',
+    expected: {
+      version: 1,
+      tokenId: 'abababababababababababababababababababababababababababababababab',
+      amount: '500',
+      decimals: 8,
+      owner: '024444444444444444444444444444444444444444444444444444444444444444',
+    },
+  },
+  {
+    name: 'ARKTOK unsupported version',
+    protocol: 'ARKTOK',
+    hex: '6a0641524b544f4b5220abababababababababababababababababababababababababababababababab08f4010000000000005821024444444444444444444444444444444444444444444444444444444444444444',
+    errorCode: 'UNSUPPORTED_VERSION',
+  },
+];
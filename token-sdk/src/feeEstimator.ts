@@ -2,6 +2,8 @@
  * Bitcoin fee estimation using mempool.space API
  */
 
+import { NETWORK_PROFILES } from './network';
+
 export interface FeeEstimate {
   fastestFee: number;    // ~10 min (high priority)
   halfHourFee: number;   // ~30 min (medium priority)
@@ -13,7 +15,8 @@ export interface FeeEstimate {
 export class FeeEstimator {
   private esploraUrl: string;
 
-  constructor(esploraUrl: string = 'https://mempool.space/api') {
+  // mempool.space-compatible API (it serves /v1/fees/recommended), e.g. a profile's esploraUrl
+  constructor(esploraUrl: string = NETWORK_PROFILES.mainnet.esploraUrl) {
     this.esploraUrl = esploraUrl;
   }
 
@@ -15,6 +15,18 @@ export {
   type BitcoinTransaction,
 } from './bitcoin';
 
+// Export network profiles
+export {
+  NETWORK_PROFILES,
+  getNetworkProfile,
+  withNetworkOverrides,
+  explorerTxUrl,
+  explorerAddressUrl,
+  isArkadeAddressOf,
+  type NetworkName,
+  type NetworkProfile,
+} from './network';
+
 // Export fee estimator
 export {
   FeeEstimator,
@@ -29,6 +41,63 @@ export {
   type TokenCreationData as BitcoinTokenData,
 } from './bitcoinEncoding';
 
+// Export protocol codec (shared with the indexer)
+export {
+  PROTOCOL_REGISTRY,
+  MAX_OP_RETURN_PAYLOAD,
+  identifyProtocol,
+  encodeTknOperation,
+  decodeTknOperation,
+  decodeTknHeader,
+  encodeArkCreate,
+  decodeArkCreate,
+  encodeArkCommit,
+  decodeArkCommit,
+  peekArkOpType,
+  hasArkPresale,
+  ARK_TICKER_SALT_BYTES,
+  encodeMetadataLeaf,
+  decodeMetadataLeaf,
+  isMetadataLeaf,
+  extractOpReturnPayload,
+  decodePayload,
+  CODEC_TEST_VECTORS,
+  CodecError,
+  TruncatedPayloadError,
+  UnknownProtocolError,
+  UnsupportedVersionError,
+  UnknownOpTypeError,
+  InvalidFieldError,
+  PayloadTooLargeError,
+  TrailingBytesError,
+  isCodecError,
+  TRANSFER_AUTHORIZATION_HEADER,
+  BURN_ACCOUNT_PREFIX,
+  burnAccountAddress,
+  encodeTransferAuthorization,
+  transferAuthorizationDigest,
+  TOKEN_CLAIM_HEADER,
+  encodeTokenClaim,
+  tokenClaimDigest,
+  TICKER_COMMITMENT_HEADER,
+  normalizeTicker,
+  tickerCommitment,
+  type TransferAuthorization,
+  type TokenClaim,
+  type CodecErrorCode,
+  type ProtocolName,
+  type ProtocolDefinition,
+  type TknOperation,
+  type TknCreateOperation,
+  type TknTransferOperation,
+  type TknBurnOperation,
+  type ArkCreatePayload,
+  type ArkCommitPayload,
+  type MetadataLeaf,
+  type DecodedPayload,
+  type CodecTestVector,
+} from './codec';
+
 // Export token metadata functions
 export {
   encodeTokenMetadata,
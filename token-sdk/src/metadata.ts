@@ -6,6 +6,7 @@
  */
 
 import * as bitcoin from 'bitcoinjs-lib';
+import { PROTOCOL_REGISTRY, decodeMetadataLeaf, encodeMetadataLeaf, isCodecError, isMetadataLeaf } from './codec';
 
 // Token metadata structure
 export interface TokenMetadata {
@@ -26,54 +27,14 @@ export interface TokenCreationData {
 }
 
 // Constants
-export const METADATA_VERSION = 1;
-export const METADATA_MARKER = Buffer.from('ARKTOK', 'utf8'); // 6 bytes
+export const METADATA_VERSION = PROTOCOL_REGISTRY.ARKTOK.currentVersion;
+export const METADATA_MARKER = PROTOCOL_REGISTRY.ARKTOK.magic; // 6 bytes
 
 /**
  * Encode token metadata into a Tapscript leaf
  */
 export function encodeTokenMetadata(metadata: TokenMetadata): Buffer {
-  // Validate inputs
-  if (metadata.version < 0 || metadata.version > 255) {
-    throw new Error('Version must be 0-255');
-  }
-  if (metadata.tokenId.length !== 32) {
-    throw new Error('Token ID must be 32 bytes');
-  }
-  if (metadata.decimals < 0 || metadata.decimals > 18) {
-    throw new Error('Decimals must be 0-18');
-  }
-  if (metadata.owner.length !== 33) {
-    throw new Error('Owner must be 33 bytes (compressed pubkey)');
-  }
-  if (metadata.amount < 0n) {
-    throw new Error('Amount cannot be negative');
-  }
-
-  // Convert amount to 8-byte little-endian buffer
-  const amountBuffer = Buffer.alloc(8);
-  // Write as little-endian uint64 using two uint32 values
-  const low = Number(metadata.amount & 0xFFFFFFFFn);
-  const high = Number(metadata.amount >> 32n);
-  amountBuffer.writeUInt32LE(low, 0);
-  amountBuffer.writeUInt32LE(high, 4);
-
-  // Build the metadata script
-  // Note: We need to ensure single bytes are treated as data, not opcodes
-  const versionBuf = Buffer.from([metadata.version]);
-  const decimalsBuf = Buffer.from([metadata.decimals]);
-  
-  const script = bitcoin.script.compile([
-    bitcoin.opcodes.OP_RETURN,           // Mark as data (unspendable via this path)
-    METADATA_MARKER,                     // "ARKTOK" marker (6 bytes)
-    versionBuf,                          // Version (1 byte)
-    metadata.tokenId,                    // Token ID (32 bytes)
-    amountBuffer,                        // Amount (8 bytes)
-    decimalsBuf,                         // Decimals (1 byte)
-    metadata.owner,                      // Owner pubkey (33 bytes)
-  ]);
-
-  return script;
+  return encodeMetadataLeaf(metadata);
 }
 
 /**
@@ -81,78 +42,11 @@ export function encodeTokenMetadata(metadata: TokenMetadata): Buffer {
  */
 export function decodeTokenMetadata(script: Buffer): TokenMetadata | null {
   try {
-    const decompiled = bitcoin.script.decompile(script);
-    
-    if (!decompiled || decompiled.length !== 7) {
-      return null;
-    }
-
-    // Check for OP_RETURN and marker
-    if (decompiled[0] !== bitcoin.opcodes.OP_RETURN) {
-      return null;
-    }
-
-    const marker = decompiled[1] as Buffer;
-    if (!marker || !marker.equals(METADATA_MARKER)) {
-      return null;
-    }
-
-    // Extract fields - bitcoinjs-lib may return opcodes for single byte values
-    // OP_1 through OP_16 are 0x51 through 0x60, so we need to convert back
-    const versionData = decompiled[2];
-    let version: number;
-    if (typeof versionData === 'number') {
-      // It's an opcode
-      if (versionData >= bitcoin.opcodes.OP_1 && versionData <= bitcoin.opcodes.OP_16) {
-        version = versionData - bitcoin.opcodes.OP_1 + 1;
-      } else if (versionData === bitcoin.opcodes.OP_0) {
-        version = 0;
-      } else {
-        version = versionData;
-      }
-    } else {
-      version = versionData[0];
-    }
-    
-    const tokenId = decompiled[3] as Buffer;
-    const amountBuffer = decompiled[4] as Buffer;
-    
-    const decimalsData = decompiled[5];
-    let decimals: number;
-    if (typeof decimalsData === 'number') {
-      // It's an opcode
-      if (decimalsData >= bitcoin.opcodes.OP_1 && decimalsData <= bitcoin.opcodes.OP_16) {
-        decimals = decimalsData - bitcoin.opcodes.OP_1 + 1;
-      } else if (decimalsData === bitcoin.opcodes.OP_0) {
-        decimals = 0;
-      } else {
-        decimals = decimalsData;
-      }
-    } else {
-      decimals = decimalsData[0];
-    }
-    
-    const owner = decompiled[6] as Buffer;
-
-    // Validate sizes
-    if (tokenId.length !== 32 || amountBuffer.length !== 8 || owner.length !== 33) {
-      return null;
-    }
-
-    // Convert amount from little-endian (read as two uint32 values)
-    const low = BigInt(amountBuffer.readUInt32LE(0));
-    const high = BigInt(amountBuffer.readUInt32LE(4));
-    const amount = low | (high << 32n);
-
-    return {
-      version,
-      tokenId,
-      amount,
-      decimals,
-      owner,
-    };
+    return decodeMetadataLeaf(script);
   } catch (error) {
-    console.error('Error decoding token metadata:', error);
+    if (!isCodecError(error)) {
+      throw error;
+    }
     return null;
   }
 }
@@ -284,22 +178,7 @@ export function parseTokenAmount(amountStr: string, decimals: number): bigint {
  * Check if a script contains token metadata
  */
 export function isTokenMetadata(script: Buffer): boolean {
-  try {
-    const decompiled = bitcoin.script.decompile(script);
-    
-    if (!decompiled || decompiled.length < 2) {
-      return false;
-    }
-
-    if (decompiled[0] !== bitcoin.opcodes.OP_RETURN) {
-      return false;
-    }
-
-    const marker = decompiled[1] as Buffer;
-    return marker && marker.equals(METADATA_MARKER);
-  } catch {
-    return false;
-  }
+  return isMetadataLeaf(script);
 }
 
 /**
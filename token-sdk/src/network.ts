@@ -0,0 +1,123 @@
+/**
+ * Network profiles - everything that differs between the networks Arkade runs on
+ *
+ * A profile bundles the bitcoinjs network (L1 keys and addresses), the Arkade
+ * address HRP, the default ASP, the Esplora API the chain is read from and the
+ * block explorer's URL templates. Components take a profile instead of
+ * guessing the network from a URL or an address prefix.
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+
+export type NetworkName = 'mainnet' | 'mutinynet' | 'signet' | 'regtest';
+
+export interface NetworkProfile {
+  name: NetworkName;
+  bitcoinNetwork: bitcoin.Network;
+  arkadeHrp: 'ark' | 'tark'; // Arkade addresses are <hrp>1...
+  aspUrl: string; // '' when there is no public ASP (configure one)
+  esploraUrl: string; // No trailing slash
+  explorer: {
+    tx: string; // '{txid}' is replaced; '' when the network has no explorer
+    address: string; // '{address}' is replaced
+  };
+}
+
+export const NETWORK_PROFILES: Record<NetworkName, NetworkProfile> = {
+  mainnet: {
+    name: 'mainnet',
+    bitcoinNetwork: bitcoin.networks.bitcoin,
+    arkadeHrp: 'ark',
+    aspUrl: 'https://arkade.computer',
+    esploraUrl: 'https://mempool.space/api',
+    explorer: {
+      tx: 'https://mempool.space/tx/{txid}',
+      address: 'https://mempool.space/address/{address}',
+    },
+  },
+  mutinynet: {
+    name: 'mutinynet',
+    bitcoinNetwork: bitcoin.networks.testnet,
+    arkadeHrp: 'tark',
+    aspUrl: 'https://mutinynet.arkade.sh',
+    esploraUrl: 'https://mutinynet.com/api',
+    explorer: {
+      tx: 'https://mutinynet.com/tx/{txid}',
+      address: 'https://mutinynet.com/address/{address}',
+    },
+  },
+  signet: {
+    name: 'signet',
+    bitcoinNetwork: bitcoin.networks.testnet,
+    arkadeHrp: 'tark',
+    aspUrl: '',
+    esploraUrl: 'https://mempool.space/signet/api',
+    explorer: {
+      tx: 'https://mempool.space/signet/tx/{txid}',
+      address: 'https://mempool.space/signet/address/{address}',
+    },
+  },
+  regtest: {
+    name: 'regtest',
+    bitcoinNetwork: bitcoin.networks.regtest,
+    arkadeHrp: 'tark',
+    aspUrl: 'http://localhost:7070',
+    esploraUrl: 'http://localhost:3000',
+    explorer: {
+      tx: '',
+      address: '',
+    },
+  },
+};
+
+// Names ASPs report for a network (GET /v1/info)
+const NETWORK_ALIASES: Record<string, NetworkName> = {
+  bitcoin: 'mainnet',
+};
+
+/**
+ * Profile for a network name (as configured or as reported by an ASP)
+ */
+export function getNetworkProfile(name: string): NetworkProfile {
+  const key = name.trim().toLowerCase();
+  const profile = NETWORK_PROFILES[(NETWORK_ALIASES[key] ?? key) as NetworkName];
+  if (!profile) {
+    throw new Error(`Unknown network "${name}" (expected ${Object.keys(NETWORK_PROFILES).join(', ')})`);
+  }
+  return profile;
+}
+
+/**
+ * A profile with some of its URLs replaced (e.g. from configuration)
+ */
+export function withNetworkOverrides(
+  profile: NetworkProfile,
+  overrides: { aspUrl?: string; esploraUrl?: string }
+): NetworkProfile {
+  return {
+    ...profile,
+    aspUrl: (overrides.aspUrl || profile.aspUrl).replace(/\/+$/, ''),
+    esploraUrl: (overrides.esploraUrl || profile.esploraUrl).replace(/\/+$/, ''),
+  };
+}
+
+/**
+ * Explorer link for a transaction, or null if the network has no explorer
+ */
+export function explorerTxUrl(profile: NetworkProfile, txid: string): string | null {
+  return profile.explorer.tx ? profile.explorer.tx.replace('{txid}', txid) : null;
+}
+
+/**
+ * Explorer link for an L1 address, or null if the network has no explorer
+ */
+export function explorerAddressUrl(profile: NetworkProfile, address: string): string | null {
+  return profile.explorer.address ? profile.explorer.address.replace('{address}', address) : null;
+}
+
+/**
+ * Whether an address is an Arkade address of this network (by its HRP)
+ */
+export function isArkadeAddressOf(profile: NetworkProfile, address: string): boolean {
+  return new RegExp(`^${profile.arkadeHrp}1[0-9a-z]{20,120}$`).test(address.trim());
+}
@@ -2,12 +2,63 @@
  * Token Provider - connects to Token Indexer REST API
  */
 
+import * as bitcoin from 'bitcoinjs-lib';
 import {
   ITokenProvider,
+  ListTokensParams,
+  TokenList,
   TokenMetadata,
   TokenBalance,
   TokenTransfer,
+  RecordedTransfer,
+  TickerClaim,
+  WalletChallenge,
+  WalletChallengeSigner,
+  WalletVtxo,
+  WalletBalanceSummary,
+  WalletHistoryEntry,
 } from './types';
+import { burnAccountAddress, transferAuthorizationDigest } from './codec';
+
+function toWalletVtxo(v: any): WalletVtxo {
+  return {
+    ...v,
+    amount: BigInt(v.amount),
+    createdAt: new Date(v.createdAt),
+  };
+}
+
+function toTokenMetadata(data: any): TokenMetadata {
+  return {
+    tokenId: data.tokenId ?? data.id,
+    name: data.name,
+    symbol: data.symbol,
+    totalSupply: BigInt(data.totalSupply),
+    circulatingSupply: BigInt(data.circulatingSupply ?? '0'),
+    burnedSupply: BigInt(data.burnedSupply ?? '0'),
+    decimals: data.decimals,
+    creator: data.creator,
+    createdAt: data.createdAt ? new Date(data.createdAt) : undefined,
+  };
+}
+
+function toTokenTransfer(t: any): TokenTransfer {
+  return {
+    id: t.id,
+    txid: t.txid,
+    tokenId: t.tokenId,
+    from: t.fromAddress,
+    to: t.toAddress,
+    amount: BigInt(t.amount),
+    timestamp: new Date(t.timestamp),
+    blockHeight: t.blockHeight ?? undefined,
+    // Indexers without transfer lifecycle only stored final transfers
+    status: t.status ?? 'confirmed',
+    confirmedAt: t.confirmedAt ? new Date(t.confirmedAt) : undefined,
+    failedAt: t.failedAt ? new Date(t.failedAt) : undefined,
+    failureReason: t.failureReason ?? undefined,
+  };
+}
 
 export class TokenProvider implements ITokenProvider {
   constructor(
@@ -29,14 +80,38 @@ export class TokenProvider implements ITokenProvider {
     
     const data = await response.json() as any;
     
+    return toTokenMetadata(data);
+  }
+
+  /**
+   * Search and list tokens, one page at a time (pass nextCursor to continue)
+   */
+  async listTokens(params: ListTokensParams = {}): Promise<TokenList> {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        query.set(key, String(value));
+      }
+    }
+
+    const response = await fetch(`${this.baseUrl}/api/tokens?${query}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to list tokens: ${response.statusText}`);
+    }
+
+    const data = await response.json() as any;
     return {
-      tokenId: data.tokenId,
-      name: data.name,
-      symbol: data.symbol,
-      totalSupply: BigInt(data.totalSupply),
-      decimals: data.decimals,
-      creator: data.creator,
-      createdAt: data.createdAt ? new Date(data.createdAt) : undefined,
+      tokens: (data.tokens || []).map((t: any) => ({
+        ...toTokenMetadata(t),
+        status: t.status,
+        isPresale: t.isPresale,
+        issuer: t.issuer || undefined,
+        holderCount: t.holderCount ?? 0,
+        transferVolume: BigInt(t.transferVolume ?? '0'),
+      })),
+      total: data.total,
+      nextCursor: data.nextCursor ?? null,
     };
   }
 
@@ -71,6 +146,9 @@ export class TokenProvider implements ITokenProvider {
       address: b.address,
       tokenId: b.tokenId,
       balance: BigInt(b.balance),
+      available: BigInt(b.available ?? b.balance),
+      pendingOutgoing: BigInt(b.pendingOutgoing ?? 0),
+      pendingIncoming: BigInt(b.pendingIncoming ?? 0),
       symbol: b.symbol,
     }));
   }
@@ -92,15 +170,7 @@ export class TokenProvider implements ITokenProvider {
     
     const data = await response.json() as any;
     
-    return data.transfers.map((t: any) => ({
-      txid: t.txid,
-      tokenId: t.tokenId,
-      from: t.fromAddress,
-      to: t.toAddress,
-      amount: BigInt(t.amount),
-      timestamp: new Date(t.timestamp),
-      blockHeight: t.blockHeight,
-    }));
+    return data.transfers.map(toTokenTransfer);
   }
 
   async getTransaction(txid: string): Promise<TokenTransfer | null> {
@@ -115,17 +185,7 @@ export class TokenProvider implements ITokenProvider {
       throw new Error(`Failed to fetch transaction: ${response.statusText}`);
     }
     
-    const data = await response.json() as any;
-    
-    return {
-      txid: data.txid,
-      tokenId: data.tokenId,
-      from: data.from,
-      to: data.to,
-      amount: BigInt(data.amount),
-      timestamp: new Date(data.timestamp),
-      blockHeight: data.blockHeight,
-    };
+    return toTokenTransfer(await response.json());
   }
 
   /**
@@ -149,6 +209,8 @@ export class TokenProvider implements ITokenProvider {
     presaleBatchAmount?: string | null;
     priceInSats?: string | null;
     maxPurchasesPerWallet?: number | null;
+    claimPublicKey?: string;    // L1 funding key (compressed, hex) - see tokenClaimDigest
+    claimSignature?: string;    // Its BIP340 signature of the claim, hex
   }): Promise<void> {
     const url = `${this.baseUrl}/api/tokens`;
     console.log(' TokenProvider.registerToken called');
@@ -187,26 +249,270 @@ export class TokenProvider implements ITokenProvider {
   }
 
   /**
-   * Record a token transfer with the indexer
+   * Tell the indexer about an ARK COMMIT transaction. It reads the commitment
+   * from the transaction itself and dates it once the transaction confirms.
    */
-  async recordTransfer(params: {
-    tokenId: string;
-    fromAddress: string;
-    toAddress: string;
-    amount: string;
-    vtxoId: string;
-  }): Promise<void> {
+  async registerTickerCommitment(txid: string): Promise<void> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    if (this.apiKey) {
+      headers['x-api-key'] = this.apiKey;
+    }
+
+    const response = await fetch(`${this.baseUrl}/api/tickers/commitments`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ txid }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to register ticker commitment: ${response.statusText} - ${error}`);
+    }
+  }
+
+  /**
+   * Current claim on a ticker, or null if the ticker is free
+   */
+  async getTicker(symbol: string): Promise<TickerClaim | null> {
+    const response = await fetch(`${this.baseUrl}/api/tickers/${encodeURIComponent(symbol)}`);
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        return null;
+      }
+      throw new Error(`Failed to fetch ticker: ${response.statusText}`);
+    }
+
+    const data = await response.json() as any;
+    return {
+      ticker: data.ticker,
+      tokenId: data.tokenId,
+      priorityHeight: data.priorityHeight,
+      claimHeight: data.claimHeight,
+      commitTxid: data.commitTxid ?? undefined,
+      final: data.final,
+    };
+  }
+
+  /**
+   * Record a token transfer with the indexer.
+   * The transfer is authorized by the sender: signer must hold the key behind
+   * fromAddress (e.g. the Arkade wallet's identity).
+   *
+   * Balances move only once the ASP confirms the VTXO; until then the
+   * transfer is pending (see getTransaction for its current status).
+   */
+  async recordTransfer(
+    params: {
+      tokenId: string;
+      fromAddress: string;
+      toAddress: string;
+      amount: string;
+      vtxoId: string;
+    },
+    signer: WalletChallengeSigner
+  ): Promise<RecordedTransfer> {
+    const nonce = Buffer.from(globalThis.crypto.getRandomValues(new Uint8Array(32))).toString('hex');
+    const digest = transferAuthorizationDigest({ ...params, nonce });
+    const signature = await signer.signMessage(new Uint8Array(digest), 'schnorr');
+    const publicKey = await signer.xOnlyPublicKey();
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    if (this.apiKey) {
+      headers['x-api-key'] = this.apiKey;
+    }
+
     const response = await fetch(`${this.baseUrl}/api/transfers`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(params),
+      headers,
+      body: JSON.stringify({
+        ...params,
+        nonce,
+        publicKey: Buffer.from(publicKey).toString('hex'),
+        signature: Buffer.from(signature).toString('hex'),
+      }),
     });
 
     if (!response.ok) {
       const error = await response.text();
       throw new Error(`Failed to record transfer: ${response.statusText} - ${error}`);
     }
+
+    const data = await response.json() as any;
+    return {
+      transferId: data.transferId,
+      status: data.status,
+      reason: data.reason,
+    };
+  }
+
+  /**
+   * Record a token burn with the indexer. The holder signs a transfer
+   * authorization to the token's burn account; like a transfer, the burn is
+   * pending until the ASP confirms the VTXO.
+   */
+  async recordBurn(
+    params: {
+      tokenId: string;
+      fromAddress: string;
+      amount: string;
+      vtxoId: string;
+    },
+    signer: WalletChallengeSigner
+  ): Promise<RecordedTransfer> {
+    const nonce = Buffer.from(globalThis.crypto.getRandomValues(new Uint8Array(32))).toString('hex');
+    const digest = transferAuthorizationDigest({ ...params, toAddress: burnAccountAddress(params.tokenId), nonce });
+    const signature = await signer.signMessage(new Uint8Array(digest), 'schnorr');
+    const publicKey = await signer.xOnlyPublicKey();
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    if (this.apiKey) {
+      headers['x-api-key'] = this.apiKey;
+    }
+
+    const response = await fetch(`${this.baseUrl}/api/burns`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        ...params,
+        nonce,
+        publicKey: Buffer.from(publicKey).toString('hex'),
+        signature: Buffer.from(signature).toString('hex'),
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to record burn: ${response.statusText} - ${error}`);
+    }
+
+    const data = await response.json() as any;
+    return {
+      transferId: data.transferId,
+      status: data.status,
+      reason: data.reason,
+    };
+  }
+
+  // ==========================================================================
+  // Wallet queries (challenge-signed; the private key stays with the signer)
+  // ==========================================================================
+
+  /**
+   * Ask the indexer for a single-use challenge for an address
+   */
+  async requestWalletChallenge(address: string): Promise<WalletChallenge> {
+    const response = await fetch(`${this.baseUrl}/api/wallet/challenge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ address }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to get wallet challenge: ${response.statusText} - ${error}`);
+    }
+
+    const data = await response.json() as any;
+    return {
+      nonce: data.nonce,
+      message: data.message,
+      expiresAt: new Date(data.expiresAt),
+    };
+  }
+
+  /**
+   * Get a challenge, sign SHA-256(message) with BIP340 Schnorr and send the query
+   */
+  private async signedWalletQuery(
+    path: string,
+    address: string,
+    signer: WalletChallengeSigner,
+    extra: Record<string, string> = {}
+  ): Promise<any> {
+    const challenge = await this.requestWalletChallenge(address);
+    const digest = bitcoin.crypto.sha256(Buffer.from(challenge.message, 'utf8'));
+    const signature = await signer.signMessage(new Uint8Array(digest), 'schnorr');
+    const publicKey = await signer.xOnlyPublicKey();
+
+    const response = await fetch(`${this.baseUrl}/api/wallet/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        address,
+        publicKey: Buffer.from(publicKey).toString('hex'),
+        nonce: challenge.nonce,
+        signature: Buffer.from(signature).toString('hex'),
+        ...extra,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Wallet query ${path} failed: ${response.statusText} - ${error}`);
+    }
+
+    return response.json();
+  }
+
+  async getWalletVtxos(address: string, signer: WalletChallengeSigner): Promise<WalletVtxo[]> {
+    const data = await this.signedWalletQuery('vtxos', address, signer);
+    return data.vtxos.map(toWalletVtxo);
+  }
+
+  async getWalletBalance(address: string, signer: WalletChallengeSigner): Promise<WalletBalanceSummary> {
+    const data = await this.signedWalletQuery('balance', address, signer);
+    return {
+      available: BigInt(data.available),
+      total: BigInt(data.total),
+    };
+  }
+
+  async getWalletHistory(address: string, signer: WalletChallengeSigner): Promise<WalletHistoryEntry[]> {
+    const data = await this.signedWalletQuery('history', address, signer);
+    return data.transactions.map((tx: any) => ({
+      txid: tx.txid,
+      type: tx.type,
+      amount: BigInt(tx.amount),
+      createdAt: tx.createdAt ? new Date(tx.createdAt) : null,
+    }));
+  }
+
+  /**
+   * Check whether a transaction created a VTXO at the address
+   */
+  async verifyWalletVtxo(
+    address: string,
+    vtxoId: string,
+    signer: WalletChallengeSigner
+  ): Promise<{ exists: boolean; vtxos: WalletVtxo[] }> {
+    const data = await this.signedWalletQuery('verify-vtxo', address, signer, { vtxoId });
+    return {
+      exists: data.exists,
+      vtxos: data.vtxos.map(toWalletVtxo),
+    };
+  }
+
+  /**
+   * Arkade address of a public key (x-only or compressed, hex)
+   */
+  async getWalletAddress(publicKey: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/api/wallet/address/${publicKey}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to derive wallet address: ${response.statusText}`);
+    }
+
+    const data = await response.json() as any;
+    return data.address;
   }
 }
@@ -7,19 +7,69 @@ export interface TokenMetadata {
   name: string;
   symbol: string;
   totalSupply: bigint;
+  // Total supply minus burned, once minted
+  circulatingSupply: bigint;
+  burnedSupply: bigint;
   decimals: number;
   creator: string;
   createdAt?: Date;
 }
 
+/**
+ * Token as listed by the indexer's token search
+ */
+export interface TokenListing extends TokenMetadata {
+  status: 'pending' | 'confirmed' | 'failed';
+  isPresale: boolean;
+  issuer?: string;
+  holderCount: number;
+  // Sum of confirmed transfer amounts, base units
+  transferVolume: bigint;
+}
+
+export type TokenSortField = 'createdAt' | 'holders' | 'volume';
+
+export interface ListTokensParams {
+  // Case-insensitive name or symbol prefix, or similar name/symbol
+  q?: string;
+  status?: 'pending' | 'confirmed' | 'failed';
+  isPresale?: boolean;
+  creator?: string;
+  issuer?: string;
+  sort?: TokenSortField;
+  order?: 'desc' | 'asc';
+  limit?: number;
+  // nextCursor of the previous page
+  cursor?: string;
+}
+
+export interface TokenList {
+  tokens: TokenListing[];
+  // Tokens matching the filters, across all pages
+  total: number;
+  nextCursor: string | null;
+}
+
 export interface TokenBalance {
   address: string;
   tokenId: string;
+  // Confirmed balance
   balance: bigint;
+  // Confirmed balance minus pending outgoing transfers: what can be sent now
+  available: bigint;
+  pendingOutgoing: bigint;
+  pendingIncoming: bigint;
   symbol?: string;
 }
 
+/**
+ * Transfers recorded with the indexer stay pending until the ASP confirms the
+ * sender's VTXO in a settled round; they are then confirmed or failed.
+ */
+export type TransferStatus = 'pending' | 'confirmed' | 'failed';
+
 export interface TokenTransfer {
+  id?: string;
   txid: string;
   tokenId: string;
   from: string;
@@ -27,6 +77,20 @@ export interface TokenTransfer {
   amount: bigint;
   timestamp: Date;
   blockHeight?: number;
+  status: TransferStatus;
+  confirmedAt?: Date;
+  failedAt?: Date;
+  failureReason?: string;
+}
+
+/**
+ * Indexer answer to a recorded transfer
+ */
+export interface RecordedTransfer {
+  transferId: string;
+  status: TransferStatus;
+  // Why the transfer is still pending
+  reason?: string;
 }
 
 export interface CreateTokenParams {
@@ -41,6 +105,31 @@ export interface CreateTokenParams {
   maxPurchasesPerWallet?: number;
   // Fee configuration
   feeRate?: number; // Optional: sat/vbyte fee rate (auto-fetched if not provided)
+  // Reveal of a ticker commitment made with TokenWallet.commitTicker
+  tickerReveal?: TickerCommitment;
+}
+
+/**
+ * A ticker commitment broadcast in an ARK COMMIT. Keep the salt: the CREATE
+ * must reveal it, and the commitment cannot be opened without it.
+ */
+export interface TickerCommitment {
+  commitTxid: string;
+  symbol: string;
+  salt: string; // 12 bytes, hex
+}
+
+/**
+ * Indexer's claim on a ticker. A claim is final once its CREATE has enough
+ * confirmations; before that, a claim with a lower priority height displaces it.
+ */
+export interface TickerClaim {
+  ticker: string; // Normalized symbol
+  tokenId: string;
+  priorityHeight: number; // Commit height if revealed, otherwise CREATE height
+  claimHeight: number;
+  commitTxid?: string;
+  final: boolean;
 }
 
 export interface TransferTokenParams {
@@ -61,6 +150,7 @@ export enum TokenOpType {
   CREATE = 0x01,
   TRANSFER = 0x02,
   BURN = 0x03,
+  COMMIT = 0x04,
 }
 
 /**
@@ -84,3 +174,51 @@ export interface ITokenProvider {
   getTransfers(address: string, tokenId?: string): Promise<TokenTransfer[]>;
   getTransaction(txid: string): Promise<TokenTransfer | null>;
 }
+
+/**
+ * Signs indexer wallet challenges and transfer authorizations. An
+ * @arkade-os/sdk Identity (e.g. SingleKey) satisfies it, so the private key
+ * never leaves the caller.
+ */
+export interface WalletChallengeSigner {
+  xOnlyPublicKey(): Promise<Uint8Array>;
+  signMessage(message: Uint8Array, signatureType: 'schnorr'): Promise<Uint8Array>;
+}
+
+/**
+ * Single-use challenge issued by the indexer for an address
+ */
+export interface WalletChallenge {
+  nonce: string;
+  message: string;
+  expiresAt: Date;
+}
+
+/**
+ * VTXO locked to a wallet address, from public ASP indexer data
+ */
+export interface WalletVtxo {
+  txid: string;
+  vout: number;
+  amount: bigint;
+  createdAt: Date;
+  isPreconfirmed: boolean;
+  isSwept: boolean;
+  isSpent: boolean;
+  arkTxid?: string;
+  settledBy?: string;
+  commitmentTxids: string[];
+}
+
+export interface WalletBalanceSummary {
+  available: bigint; // Unspent, not swept (sats)
+  total: bigint;     // All unspent, including swept/recoverable (sats)
+}
+
+export interface WalletHistoryEntry {
+  txid: string;
+  type: 'received' | 'sent';
+  amount: bigint;
+  createdAt: Date | null;
+}
+
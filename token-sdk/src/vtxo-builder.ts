@@ -14,6 +14,7 @@ import {
   validateTransfer,
   METADATA_VERSION,
 } from './metadata';
+import { NetworkProfile } from './network';
 
 // Type for Arkade wallet (any to avoid dependency)
 type ArkadeWallet = any;
@@ -37,7 +38,7 @@ async function initEcc() {
 }
 
 export interface TokenVTXOConfig {
-  network?: bitcoin.Network;
+  profile: NetworkProfile;
   exitTimelock?: number; // Blocks for unilateral exit (default 144)
 }
 
@@ -45,8 +46,8 @@ export class TokenVTXOBuilder {
   private network: bitcoin.Network;
   private exitTimelock: number;
 
-  constructor(config: TokenVTXOConfig = {}) {
-    this.network = config.network || bitcoin.networks.testnet;
+  constructor(config: TokenVTXOConfig) {
+    this.network = config.profile.bitcoinNetwork;
     this.exitTimelock = config.exitTimelock || 144;
   }
 
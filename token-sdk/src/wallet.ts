@@ -16,9 +16,11 @@ import {
   BurnTokenParams,
   TokenBalance,
   TokenTransfer,
+  TickerCommitment,
+  WalletChallengeSigner,
 } from './types';
 import { TokenMetadata as LegacyTokenMetadata } from './types';
-import { TokenVTXOBuilder, selectTokenVTXOs, calculateTotalAmount } from './vtxo-builder';
+import { TokenVTXOBuilder } from './vtxo-builder';
 import { 
   generateTokenId, 
   formatTokenAmount, 
@@ -28,11 +30,13 @@ import {
 } from './metadata';
 import * as bitcoin from 'bitcoinjs-lib';
 import { BitcoinClient } from './bitcoin';
+import { NetworkProfile, explorerTxUrl } from './network';
 import { 
   encodeTokenCreationForBitcoin, 
   decodeTokenCreationFromBitcoin,
   TokenCreationData as BitcoinTokenData 
 } from './bitcoinEncoding';
+import { ARK_TICKER_SALT_BYTES, encodeArkCommit, normalizeTicker, tickerCommitment } from './codec';
 
 /**
  * Extended settlement output that supports OP_RETURN
@@ -57,12 +61,12 @@ export class TokenWallet {
   constructor(
     private readonly arkadeWallet: any, // IWallet from @arkade-os/sdk
     private readonly tokenProvider: TokenProvider,
-    network: bitcoin.Network = bitcoin.networks.testnet,
+    private readonly profile: NetworkProfile, // Must match the ASP arkadeWallet is connected to
     bitcoinPrivateKey?: string // Optional: Bitcoin L1 private key
   ) {
-    this.vtxoBuilder = new TokenVTXOBuilder({ network });
-    this.bitcoinClient = new BitcoinClient(network);
-    this.network = network;
+    this.vtxoBuilder = new TokenVTXOBuilder({ profile });
+    this.bitcoinClient = new BitcoinClient(profile);
+    this.network = profile.bitcoinNetwork;
     this.bitcoinPrivateKey = bitcoinPrivateKey;
   }
 
@@ -98,6 +102,39 @@ export class TokenWallet {
     return txid;
   }
 
+  /**
+   * Commit to a ticker before creating the token (commit-reveal).
+   *
+   * Broadcasts an ARK COMMIT that hides the ticker behind a salted hash bound
+   * to this wallet's Arkade address. Once it confirms, pass the result as
+   * `tickerReveal` to createToken: the token's claim on the ticker then dates
+   * from the commit, so a copy of the CREATE seen in the mempool cannot take it.
+   */
+  async commitTicker(symbol: string, feeRate: number = 31): Promise<TickerCommitment> {
+    if (!this.bitcoinPrivateKey) {
+      throw new Error('Bitcoin private key required for ticker commitment. Please provide it in TokenWallet constructor.');
+    }
+
+    const arkadeAddress = await this.getAddress();
+    const salt = Buffer.from(globalThis.crypto.getRandomValues(new Uint8Array(ARK_TICKER_SALT_BYTES)));
+    const commitment = tickerCommitment(symbol, arkadeAddress, salt);
+
+    const commitTxid = await this.bitcoinClient.createOpReturnTransaction(
+      this.bitcoinPrivateKey,
+      encodeArkCommit({ commitment }),
+      feeRate
+    );
+    console.log(`🔒 Ticker commitment broadcast: ${commitTxid}`);
+
+    try {
+      await this.tokenProvider.registerTickerCommitment(commitTxid);
+    } catch (indexerError) {
+      console.warn(' Failed to register ticker commitment with indexer (it can be registered later):', indexerError);
+    }
+
+    return { commitTxid, symbol, salt: salt.toString('hex') };
+  }
+
   /**
    * Create a new token - ASYNC 2-PHASE APPROACH
    * Phase 1: Bitcoin Layer 1 OP_RETURN (proof) - IMMEDIATE
@@ -130,6 +167,17 @@ export class TokenWallet {
       const arkadeAddress = await this.getAddress();
       console.log('🏠 Arkade Address:', arkadeAddress);
       
+      if (params.tickerReveal) {
+        if (normalizeTicker(params.tickerReveal.symbol) !== normalizeTicker(params.symbol)) {
+          throw new Error(`Ticker commitment is for ${params.tickerReveal.symbol}, not ${params.symbol}`);
+        }
+        // Revealing before the commit confirms would expose the ticker with no earlier claim
+        const commit = await this.bitcoinClient.getTransaction(params.tickerReveal.commitTxid);
+        if (commit.confirmations <= 0) {
+          throw new Error(`Ticker commitment ${params.tickerReveal.commitTxid} is not confirmed yet`);
+        }
+      }
+      
       // Prepare token metadata for Bitcoin OP_RETURN
       const bitcoinTokenData: BitcoinTokenData = {
         name: params.name,
@@ -139,6 +187,7 @@ export class TokenWallet {
         presaleBatchAmount: params.presaleBatchAmount,
         priceInSats: params.priceInSats,
         maxPurchasesPerWallet: params.maxPurchasesPerWallet,
+        tickerSalt: params.tickerReveal ? Buffer.from(params.tickerReveal.salt, 'hex') : undefined,
       };
       
       // Encode to OP_RETURN format (must be < 80 bytes)
@@ -159,7 +208,7 @@ export class TokenWallet {
       
       console.log(' Bitcoin transaction broadcast!');
       console.log(`   TXID: ${bitcoinTxid}`);
-      console.log(`   Explorer: https://mempool.space/tx/${bitcoinTxid}`);
+      console.log(`   Explorer: ${explorerTxUrl(this.profile, bitcoinTxid) ?? '(none)'}`);
       
       // TOKEN_ID = Bitcoin TXID (permanent, immutable proof)
       const tokenId = bitcoinTxid;
@@ -172,6 +221,9 @@ export class TokenWallet {
       // ============================================================
       console.log('\n Registering pending token with indexer...');
       
+      // Proves authorship should the indexer find the CREATE on L1 before this registration
+      const claim = this.bitcoinClient.signTokenClaim(this.bitcoinPrivateKey, { tokenId, issuer: arkadeAddress });
+      
       try {
         await this.tokenProvider.registerToken({
           tokenId,
@@ -188,6 +240,8 @@ export class TokenWallet {
           presaleBatchAmount: params.presaleBatchAmount?.toString() || null,
           priceInSats: params.priceInSats?.toString() || null,
           maxPurchasesPerWallet: params.maxPurchasesPerWallet || null,
+          claimPublicKey: claim.publicKey,
+          claimSignature: claim.signature,
         });
         
         console.log(' Pending token registered. Backend will monitor for confirmation.');
@@ -202,7 +256,7 @@ export class TokenWallet {
       console.log('\n === TOKEN CREATION SUBMITTED ===');
       console.log(`Transaction ID: ${tokenId}`);
       console.log(`Status: Pending confirmation (backend monitoring)`);
-      console.log(`Track at: https://mempool.space/tx/${tokenId}`);
+      console.log(`Track at: ${explorerTxUrl(this.profile, tokenId) ?? '(no explorer)'}`);
       console.log('\n Backend will:');
       console.log('   1. Monitor for Bitcoin confirmation');
       console.log('   2. Complete Arkade Layer 2 settlement');
@@ -256,14 +310,19 @@ export class TokenWallet {
       try {
         console.log('Recording transfer with indexer...');
         const fromAddress = await this.getAddress();
-        await this.tokenProvider.recordTransfer({
+        // The wallet identity signs the transfer authorization
+        const recorded = await this.tokenProvider.recordTransfer({
           tokenId: params.tokenId,
           fromAddress,
           toAddress: params.to,
           amount: params.amount.toString(),
           vtxoId,
-        });
-        console.log(' Transfer recorded with indexer');
+        }, this.getSigner());
+        if (recorded.status === 'pending') {
+          console.log(` Transfer recorded with indexer, pending ASP confirmation: ${recorded.reason}`);
+        } else {
+          console.log(' Transfer recorded with indexer');
+        }
       } catch (indexerError) {
         console.error(' Failed to record transfer with indexer:', indexerError);
         throw new Error(`Failed to register transfer: ${(indexerError as Error).message}`);
@@ -278,6 +337,10 @@ export class TokenWallet {
 
   /**
    * Burn tokens (removes them from circulation)
+   *
+   * Tokens are tracked off-chain by the indexer, so the burn is a marker VTXO
+   * plus a signed burn record; the indexer debits the balance once the ASP
+   * confirms the VTXO.
    */
   async burnToken(params: BurnTokenParams): Promise<string> {
     try {
@@ -286,59 +349,30 @@ export class TokenWallet {
       if (!tokenMetadata) {
         throw new Error(`Token not found: ${params.tokenId}`);
       }
-      
-      // Get our VTXOs with this token
-      const myVtxos = await this.getTokenVTXOs(params.tokenId);
-      
-      // Select VTXOs to cover the burn amount
-      const selectedVtxos = selectTokenVTXOs(myVtxos, params.amount);
-      const totalAmount = calculateTotalAmount(selectedVtxos);
-      
-      if (totalAmount < params.amount) {
+
+      const fromAddress = await this.getAddress();
+      const balance = (await this.tokenProvider.getBalances(fromAddress))
+        .find(b => b.tokenId === params.tokenId);
+      if (!balance || balance.available < params.amount) {
         throw new Error('Insufficient balance to burn');
       }
-      
-      // Calculate remaining after burn
-      const remainingAmount = totalAmount - params.amount;
-      
-      // If there's remaining amount, create a change VTXO
-      // If burning all, just don't create any output (tokens disappear)
-      if (remainingAmount > 0n) {
-        const tokenId = Buffer.from(params.tokenId, 'hex');
-        const ownerPubkey = await this.getPublicKey();
-        
-        const changeOutput = await this.vtxoBuilder.createMergeOutput(
-          this.arkadeWallet,
-          tokenId,
-          tokenMetadata.decimals,
-          ownerPubkey,
-          remainingAmount
-        );
-        
-        // Submit with change output
-        const vtxoId = await this.arkadeWallet.settle({
-          inputs: selectedVtxos.map(v => v.id),
-          outputs: [{
-            scriptPubKey: changeOutput.script.toString('hex'),
-            amount: 1000,
-          }],
-        });
-        
-        console.log(` Burned ${formatTokenAmount(params.amount, tokenMetadata.decimals)} tokens`);
-        console.log(`   Remaining: ${formatTokenAmount(remainingAmount, tokenMetadata.decimals)}`);
-        
-        return vtxoId;
-      } else {
-        // Burn all - no outputs
-        const vtxoId = await this.arkadeWallet.settle({
-          inputs: selectedVtxos.map(v => v.id),
-          outputs: [], // No outputs = tokens destroyed
-        });
-        
-        console.log(` Burned all tokens: ${formatTokenAmount(params.amount, tokenMetadata.decimals)}`);
-        
-        return vtxoId;
+
+      console.log('Submitting burn to Arkade ASP...');
+      const vtxoId = await this.arkadeWallet.settle();
+
+      const recorded = await this.tokenProvider.recordBurn({
+        tokenId: params.tokenId,
+        fromAddress,
+        amount: params.amount.toString(),
+        vtxoId,
+      }, this.getSigner());
+
+      console.log(` Burned ${formatTokenAmount(params.amount, tokenMetadata.decimals)} tokens`);
+      if (recorded.status === 'pending') {
+        console.log(`   Pending ASP confirmation: ${recorded.reason}`);
       }
+
+      return vtxoId;
     } catch (error) {
       console.error('Failed to burn tokens:', error);
       throw new Error(`Token burn failed: ${(error as Error).message}`);
@@ -368,6 +402,13 @@ export class TokenWallet {
     return this.tokenProvider.getToken(tokenId);
   }
 
+  /**
+   * Status of a transfer sent by transferToken (pending until its round settles)
+   */
+  async getTransferStatus(vtxoId: string): Promise<TokenTransfer | null> {
+    return this.tokenProvider.getTransaction(vtxoId);
+  }
+
   /**
    * Get token transfer history
    */
@@ -439,6 +480,17 @@ export class TokenWallet {
     throw new Error('Unable to get public key from wallet. Make sure wallet is initialized with identity.');
   }
 
+  /**
+   * Identity of the Arkade wallet, used to sign indexer authorizations
+   */
+  private getSigner(): WalletChallengeSigner {
+    const identity = this.arkadeWallet.identity;
+    if (!identity || typeof identity.signMessage !== 'function' || typeof identity.xOnlyPublicKey !== 'function') {
+      throw new Error('Wallet identity cannot sign messages. Make sure wallet is initialized with a signing identity.');
+    }
+    return identity;
+  }
+
   /**
    * Parse recipient key (address or public key hex)
    */
@@ -457,24 +509,6 @@ export class TokenWallet {
     }
   }
 
-  /**
-   * Get token VTXOs owned by this wallet
-   */
-  private async getTokenVTXOs(tokenId: string): Promise<Array<{ metadata: TokenMetadata; id: string; outpoint: string }>> {
-    // TODO: Implement VTXO metadata extraction
-    // This requires:
-    // 1. Get all VTXOs from Arkade wallet
-    // 2. Parse Taproot script trees
-    // 3. Extract and decode token metadata from leaf #1
-    // 4. Filter by tokenId
-    //
-    // For now, throw error until indexer is ready
-    throw new Error(
-      'Token VTXO tracking not yet implemented. ' +
-      'Need to either: (1) Parse Taproot trees from VTXOs, or (2) Query token indexer API'
-    );
-  }
-
   /**
    * Get underlying Arkade wallet (for standard Bitcoin operations)
    */